@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createSupabaseServiceClient } from '@/lib/supabase';
+import { getPaymentProvider } from '@/lib/payments';
+import { applyPaymentNotification } from '@/lib/payment-service';
+
+// Payment-notification webhook, configured as the notification URL in the Midtrans dashboard.
+// Only notifications whose signature verifies against the server key are applied. Errors return
+// 500 so the provider retries; a settled invoice ignores the retry.
+export async function POST(request: NextRequest) {
+  try {
+    const provider = getPaymentProvider();
+    if (!provider) {
+      return NextResponse.json({ error: 'Payments are not configured' }, { status: 503 });
+    }
+
+    let payload: unknown;
+    try {
+      payload = await request.json();
+    } catch {
+      return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+    }
+
+    const notification = provider.verifyNotification(payload);
+    if (!notification) {
+      return NextResponse.json({ error: 'Invalid signature' }, { status: 401 });
+    }
+
+    // The provider calls without a user session; invoices are read and settled with the service role
+    const supabase = createSupabaseServiceClient();
+    const outcome = await applyPaymentNotification(supabase, notification);
+
+    if (outcome === 'unknown_invoice') {
+      console.warn(`Ignoring payment notification for unknown invoice ${notification.order_id}`);
+    }
+
+    return NextResponse.json({ received: true, outcome });
+  } catch (error) {
+    console.error('Error in payment notification webhook:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
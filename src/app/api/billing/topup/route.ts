@@ -1,8 +1,15 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { createSupabaseServerClient } from '@/lib/supabase';
+import { createSupabaseServerClient, createSupabaseServiceClient } from '@/lib/supabase';
 import { auth } from '@clerk/nextjs/server';
+import { getPaymentProvider } from '@/lib/payments';
+import { createCheckout } from '@/lib/payment-service';
+import { withIdempotency } from '@/lib/idempotency';
 
-export async function POST(request: NextRequest) {
+export const POST = withIdempotency(handlePost);
+
+// Start paying for a credit package. The invoice stays pending, and no credits are added, until
+// the payment provider's notification confirms the payment.
+async function handlePost(request: NextRequest) {
   try {
     const { userId } = await auth();
     if (!userId) {
@@ -16,6 +23,14 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Package ID is required' }, { status: 400 });
     }
 
+    const provider = getPaymentProvider();
+    if (!provider) {
+      return NextResponse.json({
+        error: 'Payments are not configured',
+        code: 'PAYMENTS_NOT_CONFIGURED'
+      }, { status: 503 });
+    }
+
     const supabase = await createSupabaseServerClient();
     
     // Get credit package details
@@ -23,6 +38,7 @@ export async function POST(request: NextRequest) {
       .from('credit_packages')
       .select('*')
       .eq('id', packageId)
+      .eq('is_active', true)
       .single();
 
     if (packageError || !creditPackage) {
@@ -30,69 +46,30 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Credit package not found' }, { status: 404 });
     }
 
-    // Simulate payment processing (in real implementation, this would integrate with Stripe/Midtrans)
-    const paymentSuccessful = true; // Mock payment success
-    
-    if (!paymentSuccessful) {
-      return NextResponse.json({ error: 'Payment failed' }, { status: 400 });
-    }
-
-    // Create invoice record
-    const { data: invoice, error: invoiceError } = await supabase
-      .from('invoices')
-      .insert({
-        user_id: userId,
-        amount: creditPackage.price,
-        status: 'paid',
-        line_items: {
-          type: 'credit_topup',
-          package_name: creditPackage.name,
-          scraper_credits: creditPackage.scraper_credits,
-          price: creditPackage.price
-        },
-        paid_at: new Date().toISOString(),
-      })
-      .select()
-      .single();
-
-    if (invoiceError) {
-      console.error('Error creating invoice:', invoiceError);
-      return NextResponse.json({ error: 'Failed to create invoice' }, { status: 500 });
-    }
+    const result = await createCheckout(createSupabaseServiceClient(), provider, userId, {
+      lineItems: {
+        type: 'credit_topup',
+        package_id: creditPackage.id,
+        package_name: creditPackage.name,
+        scraper_credits: creditPackage.scraper_credits,
+        price: Number(creditPackage.price)
+      },
+      description: `${creditPackage.name} - ${creditPackage.scraper_credits} scraper credits`,
+      finishUrl: new URL('/billing', request.url).toString()
+    });
 
-    // Add credits to user account
-    try {
-      await supabase.rpc('add_credit_transaction', {
-        p_user_id: userId,
-        p_credit_type: 'scraper',
-        p_amount: creditPackage.scraper_credits,
-        p_source: 'topup_purchase',
-        p_reference_id: invoice.id,
-        p_description: `Top-up purchase - ${creditPackage.scraper_credits} scraper credits`
-      });
-    } catch (creditError) {
-      console.error('Error adding credits:', creditError);
-      return NextResponse.json({ error: 'Failed to add credits' }, { status: 500 });
+    if (!result.ok) {
+      return NextResponse.json(result.body, { status: result.status });
     }
 
-    // Create notification
-    await supabase
-      .from('notifications')
-      .insert({
-        user_id: userId,
-        type: 'billing_success',
-        title: 'Credit Purchase Successful',
-        message: `You have successfully purchased ${creditPackage.scraper_credits} scraper credits for IDR ${creditPackage.price.toLocaleString()}.`,
-      });
-
     return NextResponse.json({
-      invoice,
-      credits_added: creditPackage.scraper_credits,
-      message: 'Credit top-up successful'
-    });
+      invoice: result.invoice,
+      payment: result.payment,
+      message: 'Complete the payment to receive your credits'
+    }, { status: 201 });
 
   } catch (error) {
     console.error('Error in billing top-up API:', error);
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,22 @@
+import { NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import { isAiProviderConfigured } from '@/lib/ai';
+import { CHAT_MODELS, DEFAULT_CHAT_MODEL_ID } from '@/lib/chat-pricing';
+
+// Chat models with their rates, and whether each can be used with the API keys configured
+export async function GET() {
+  const { userId } = await auth();
+  if (!userId) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  return NextResponse.json({
+    models: CHAT_MODELS.map(model => ({
+      id: model.id,
+      label: model.label,
+      tokens_per_credit: model.tokensPerCredit,
+      available: isAiProviderConfigured(model.provider)
+    })),
+    default_model: DEFAULT_CHAT_MODEL_ID
+  });
+}
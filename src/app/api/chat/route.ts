@@ -1,47 +1,233 @@
-import { openai } from "@ai-sdk/openai";
-import { streamText } from "ai";
-import { auth } from "@clerk/nextjs/server";
+import { NextRequest, NextResponse, after } from 'next/server';
+import { streamText } from 'ai';
+import { auth } from '@clerk/nextjs/server';
+import { createSupabaseServerClient } from '@/lib/supabase';
+import { createAiModel, isAiProviderConfigured } from '@/lib/ai';
+import {
+  CHAT_HISTORY_LIMIT,
+  DEFAULT_CHAT_MODEL_ID,
+  estimateTokens,
+  getChatCredits,
+  getChatHoldCredits,
+  getChatModelOption,
+  MAX_CHAT_MESSAGE_LENGTH,
+  MAX_CHAT_REPLY_TOKENS
+} from '@/lib/chat-pricing';
+import { ChatSessionRecord, createChatSession, getChatHistory, getChatSession, saveChatMessage } from '@/lib/chat-service';
+import {
+  holdInteractionCredits,
+  deductInteractionCredits,
+  releaseInteractionCreditHold
+} from '@/lib/interaction-credit-service';
 
-export async function POST(req: Request) {
-  const { userId } = await auth();
+const DEDUCT_ATTEMPTS = 3;
 
-  if (!userId) {
-    return new Response("Unauthorized", { status: 401 });
-  }
+// Stream the assistant's reply to the newest user message of a chat session. Earlier turns are read
+// from the stored session, not from the request. Credits for the longest possible reply are held
+// up front; once the reply is complete, or the client stops it, the tokens it used are deducted and
+// the rest is released.
+export async function POST(request: NextRequest) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
 
-  if (!process.env.OPENAI_API_KEY) {
-    return new Response(
-      JSON.stringify({
-        error:
-          "OpenAI API key not configured. Please add OPENAI_API_KEY to your environment variables.",
-      }),
-      {
-        status: 500,
-        headers: { "Content-Type": "application/json" },
-      },
-    );
-  }
+    const body = await request.json();
+    const { messages, session_id, model: modelId = DEFAULT_CHAT_MODEL_ID } = body;
 
-  try {
-    const { messages } = await req.json();
+    const lastMessage = Array.isArray(messages) ? messages[messages.length - 1] : null;
+    const content = lastMessage?.role === 'user' && typeof lastMessage.content === 'string'
+      ? lastMessage.content.trim()
+      : '';
+
+    if (!content || content.length > MAX_CHAT_MESSAGE_LENGTH) {
+      return NextResponse.json({
+        error: `Messages must be between 1 and ${MAX_CHAT_MESSAGE_LENGTH} characters`,
+        code: 'INVALID_MESSAGE'
+      }, { status: 400 });
+    }
+
+    const option = getChatModelOption(modelId);
+    if (!option) {
+      return NextResponse.json({ error: 'Unknown chat model', code: 'INVALID_MODEL' }, { status: 400 });
+    }
+
+    if (!isAiProviderConfigured(option.provider)) {
+      return NextResponse.json({
+        error: `${option.label} is not configured`,
+        code: 'AI_NOT_CONFIGURED'
+      }, { status: 503 });
+    }
+
+    const supabase = await createSupabaseServerClient();
+
+    let session: ChatSessionRecord | null = null;
+    if (session_id) {
+      session = await getChatSession(supabase, userId, session_id);
+      if (!session) {
+        return NextResponse.json({ error: 'Chat session not found', code: 'CHAT_SESSION_NOT_FOUND' }, { status: 404 });
+      }
+    }
+
+    const history = session ? await getChatHistory(supabase, session.id, CHAT_HISTORY_LIMIT) : [];
+    const prompt = [
+      ...history.map(message => ({ role: message.role, content: message.content })),
+      { role: 'user' as const, content }
+    ];
+
+    const promptText = prompt.map(message => message.content).join('\n');
+    const heldCredits = getChatHoldCredits(option, promptText);
+    const referenceId = `ai_chat_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+
+    let holdId: string;
+    try {
+      holdId = await holdInteractionCredits(userId, heldCredits, referenceId, 10);
+    } catch (holdError) {
+      console.error('Error holding interaction credits:', holdError);
+
+      const errorMessage = holdError instanceof Error ? holdError.message : String(holdError);
+      const match = errorMessage.match(/Available: (\d+), Required: (\d+)/);
+      if (errorMessage.includes('Insufficient credits') && match) {
+        return NextResponse.json({
+          error: 'Insufficient interaction credits',
+          code: 'INSUFFICIENT_CREDITS',
+          available_credits: parseInt(match[1]),
+          required_credits: parseInt(match[2])
+        }, { status: 402 });
+      }
+
+      return NextResponse.json({
+        error: 'Failed to hold interaction credits',
+        code: 'CREDIT_HOLD_FAILED'
+      }, { status: 500 });
+    }
+
+    // Settle once: onFinish and onError are exclusive, but a throw before streaming starts is not
+    let settled = false;
+    const release = async (reason: string) => {
+      if (settled) return;
+      settled = true;
+      try {
+        await releaseInteractionCreditHold(holdId, reason);
+      } catch (releaseError) {
+        console.error('Error releasing credit hold:', releaseError);
+      }
+    };
 
-    const result = streamText({
-      model: openai("gpt-4o"),
-      messages,
-    });
+    try {
+      if (!session) {
+        session = await createChatSession(supabase, userId, content, option.id);
+      }
+      await saveChatMessage(supabase, session, { role: 'user', content });
+    } catch (saveError) {
+      await release('Chat message could not be saved');
+      throw saveError;
+    }
 
-    return result.toDataStreamResponse();
+    const chatSession = session;
+
+    // Charge the hold for the tokens a reply used and store it. A reply whose deduction keeps
+    // failing is stored as unbilled rather than claiming credits that were never taken.
+    const settleReply = async (text: string, usage?: { promptTokens: number; completionTokens: number }) => {
+      if (settled) return;
+
+      if (!text.trim()) {
+        await release('AI chat reply was empty');
+        return;
+      }
+
+      settled = true;
+
+      // Providers that do not report usage, and stopped replies, are charged by the estimate
+      const promptTokens = usage && Number.isFinite(usage.promptTokens)
+        ? usage.promptTokens
+        : estimateTokens(promptText);
+      const completionTokens = usage && Number.isFinite(usage.completionTokens)
+        ? usage.completionTokens
+        : estimateTokens(text);
+      // The hold covers the reply limit; an underestimated prompt is not charged beyond it
+      const credits = Math.min(getChatCredits(option, promptTokens + completionTokens), heldCredits);
+
+      const billed = await deductChatCredits(holdId, `AI chat - ${option.label}`, credits);
+
+      try {
+        await saveChatMessage(supabase, chatSession, {
+          role: 'assistant',
+          content: text,
+          model: option.id,
+          prompt_tokens: promptTokens,
+          completion_tokens: completionTokens,
+          credits_used: billed ? credits : 0,
+          billed
+        });
+      } catch (saveError) {
+        console.error('Error saving chat reply:', saveError);
+      }
+    };
+
+    // Text streamed so far, so a reply the user stops is charged for what was generated
+    let streamedText = '';
+
+    try {
+      const result = streamText({
+        model: createAiModel(option.provider, option.modelId).model,
+        messages: prompt,
+        maxTokens: MAX_CHAT_REPLY_TOKENS,
+        abortSignal: request.signal,
+        onChunk: ({ chunk }) => {
+          if (chunk.type === 'text-delta') {
+            streamedText += chunk.textDelta;
+          }
+        },
+        onFinish: async ({ text, usage }) => {
+          await settleReply(text, usage);
+        },
+        onError: async ({ error }) => {
+          // A stopped reply is settled once the response has closed
+          if (request.signal.aborted) return;
+
+          console.error('Error generating chat reply:', error);
+          await release('AI chat reply failed');
+        },
+      });
+
+      // A reply the client stopped never reaches onFinish; charge the hold for what was streamed
+      // instead of leaving it to expire
+      after(async () => {
+        if (!settled) {
+          await settleReply(streamedText);
+        }
+      });
+
+      return result.toDataStreamResponse({
+        headers: {
+          'X-Chat-Session-Id': chatSession.id,
+          'X-Credits-Held': String(heldCredits)
+        },
+        getErrorMessage: () => 'The AI model failed to reply. No credits were charged.'
+      });
+    } catch (streamError) {
+      console.error('Error starting chat reply:', streamError);
+      await release('AI chat reply could not be started');
+      return NextResponse.json({ error: 'Failed to generate reply' }, { status: 500 });
+    }
   } catch (error) {
-    console.error("Chat API error:", error);
-    return new Response(
-      JSON.stringify({
-        error:
-          "Failed to process chat request. Please check your API configuration.",
-      }),
-      {
-        status: 500,
-        headers: { "Content-Type": "application/json" },
-      },
-    );
+    console.error('Error in chat API:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
   }
 }
+
+// Deduct a reply's credits, retrying transient failures. Returns false when the deduction failed.
+async function deductChatCredits(holdId: string, description: string, credits: number) {
+  for (let attempt = 1; attempt <= DEDUCT_ATTEMPTS; attempt++) {
+    try {
+      await deductInteractionCredits(holdId, description, credits);
+      return true;
+    } catch (deductError) {
+      console.error(`Error deducting interaction credits (attempt ${attempt}):`, deductError);
+    }
+  }
+
+  return false;
+}
@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createSupabaseServerClient } from '@/lib/supabase';
+import { auth } from '@clerk/nextjs/server';
+import { getChatHistory, getChatSession } from '@/lib/chat-service';
+
+// A chat session with all of its messages
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const supabase = await createSupabaseServerClient();
+
+    const session = await getChatSession(supabase, userId, id);
+    if (!session) {
+      return NextResponse.json({ error: 'Chat session not found', code: 'CHAT_SESSION_NOT_FOUND' }, { status: 404 });
+    }
+
+    const messages = await getChatHistory(supabase, session.id);
+
+    return NextResponse.json({ session, messages });
+  } catch (error) {
+    console.error('Error in chat session GET API:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const supabase = await createSupabaseServerClient();
+
+    const { data: deleted, error: deleteError } = await supabase
+      .from('chat_sessions')
+      .delete()
+      .eq('id', id)
+      .eq('user_id', userId)
+      .select('id');
+
+    if (deleteError) {
+      console.error('Error deleting chat session:', deleteError);
+      return NextResponse.json({ error: 'Failed to delete chat session' }, { status: 500 });
+    }
+
+    if (!deleted || deleted.length === 0) {
+      return NextResponse.json({ error: 'Chat session not found', code: 'CHAT_SESSION_NOT_FOUND' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error in chat session DELETE API:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
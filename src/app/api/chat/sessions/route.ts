@@ -0,0 +1,34 @@
+import { NextResponse } from 'next/server';
+import { createSupabaseServerClient } from '@/lib/supabase';
+import { auth } from '@clerk/nextjs/server';
+
+const MAX_SESSIONS = 50;
+
+// The user's chat sessions, most recently active first
+export async function GET() {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const supabase = await createSupabaseServerClient();
+
+    const { data: sessions, error } = await supabase
+      .from('chat_sessions')
+      .select('id, title, model, created_at, updated_at')
+      .eq('user_id', userId)
+      .order('updated_at', { ascending: false })
+      .limit(MAX_SESSIONS);
+
+    if (error) {
+      console.error('Error fetching chat sessions:', error);
+      return NextResponse.json({ error: 'Failed to fetch chat sessions' }, { status: 500 });
+    }
+
+    return NextResponse.json({ sessions: sessions || [] });
+  } catch (error) {
+    console.error('Error in chat sessions API:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createSupabaseServerClient } from '@/lib/supabase';
+import { auth } from '@clerk/nextjs/server';
+
+export async function GET(request: NextRequest) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const limit = parseInt(searchParams.get('limit') || '50');
+    const offset = parseInt(searchParams.get('offset') || '0');
+    const q = searchParams.get('q');
+
+    const supabase = await createSupabaseServerClient();
+
+    let query = supabase
+      .from('contacts')
+      .select('*, leads(id, search_id, created_at)', { count: 'exact' })
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false })
+      .range(offset, offset + limit - 1);
+
+    if (q) {
+      const term = q.replace(/[,()]/g, ' ');
+      query = query.or(`name.ilike.%${term}%,company.ilike.%${term}%,email.ilike.%${term}%,phone.ilike.%${term}%`);
+    }
+
+    const { data: contacts, count, error: contactsError } = await query;
+
+    if (contactsError) {
+      console.error('Error fetching contacts:', contactsError);
+      return NextResponse.json({ error: 'Failed to fetch contacts' }, { status: 500 });
+    }
+
+    return NextResponse.json({
+      contacts: (contacts || []).map(({ leads, ...contact }) => ({
+        ...contact,
+        lead_count: leads?.length || 0,
+        leads: leads || []
+      })),
+      total: count || 0,
+      limit,
+      offset
+    });
+  } catch (error) {
+    console.error('Error in contacts API:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createSupabaseServiceClient } from '@/lib/supabase';
+import { expireStaleHolds } from '@/lib/hold-expiry-service';
+
+// This endpoint should be called by a cron job every few minutes
+// It expires credit holds past their expiry and fails the operations that were waiting on them
+export async function POST(request: NextRequest) {
+  try {
+    const authHeader = request.headers.get('authorization');
+    const secretKey = process.env.BILLING_CRON_SECRET;
+
+    if (!secretKey || authHeader !== `Bearer ${secretKey}`) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Holds, and the jobs waiting on them, belong to every user; only the service role can sweep them
+    const supabase = createSupabaseServiceClient();
+    const summary = await expireStaleHolds(supabase);
+
+    return NextResponse.json({
+      ...summary,
+      message: `Expired ${summary.holds_expired} credit holds`
+    });
+
+  } catch (error) {
+    console.error('Error in credit hold expiry API:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -1,8 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createSupabaseServerClient } from '@/lib/supabase';
 import { auth } from '@clerk/nextjs/server';
+import { withIdempotency } from '@/lib/idempotency';
 
-export async function POST(request: NextRequest) {
+export const POST = withIdempotency(handlePost);
+
+async function handlePost(request: NextRequest) {
   try {
     const { userId } = await auth();
     if (!userId) {
@@ -48,6 +48,27 @@ export async function POST(request: NextRequest) {
         }, { status: 400 });
       }
 
+      // A lead search job's hold is settled by its worker for the leads it delivers
+      const { data: attachedSearch, error: searchError } = await supabase
+        .from('lead_searches')
+        .select('id')
+        .eq('hold_id', hold_id)
+        .eq('user_id', userId)
+        .maybeSingle();
+
+      if (searchError) {
+        console.error('Error checking lead search for hold:', searchError);
+        return NextResponse.json({ error: 'Internal server error', code: 'INTERNAL_ERROR' }, { status: 500 });
+      }
+
+      if (attachedSearch) {
+        return NextResponse.json({ 
+          error: 'Hold belongs to a lead search and is settled when the search finishes',
+          code: 'HOLD_IN_USE',
+          search_id: attachedSearch.id
+        }, { status: 409 });
+      }
+
       // Release the hold
       const { data: success, error: releaseError } = await supabase.rpc('release_credit_hold', {
         p_hold_id: hold_id,
@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createSupabaseServerClient } from '@/lib/supabase';
+import { auth } from '@clerk/nextjs/server';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const supabase = await createSupabaseServerClient();
+
+    const { data: notes, error: notesError } = await supabase
+      .from('lead_notes')
+      .select('*')
+      .eq('lead_id', id)
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false });
+
+    if (notesError) {
+      console.error('Error fetching lead notes:', notesError);
+      return NextResponse.json({ error: 'Failed to fetch notes' }, { status: 500 });
+    }
+
+    return NextResponse.json({ notes: notes || [] });
+  } catch (error) {
+    console.error('Error in lead notes GET API:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const body = await request.json();
+    const content = typeof body.content === 'string' ? body.content.trim() : '';
+
+    if (!content) {
+      return NextResponse.json({ error: 'Note content is required' }, { status: 400 });
+    }
+
+    const supabase = await createSupabaseServerClient();
+
+    // Verify the lead belongs to one of the user's searches
+    const { data: lead, error: leadError } = await supabase
+      .from('leads')
+      .select('id, lead_searches!inner()')
+      .eq('id', id)
+      .eq('lead_searches.user_id', userId)
+      .single();
+
+    if (leadError || !lead) {
+      return NextResponse.json({
+        error: 'Lead not found',
+        code: 'LEAD_NOT_FOUND'
+      }, { status: 404 });
+    }
+
+    const { data: note, error: noteError } = await supabase
+      .from('lead_notes')
+      .insert({
+        lead_id: id,
+        user_id: userId,
+        content
+      })
+      .select()
+      .single();
+
+    if (noteError) {
+      console.error('Error creating lead note:', noteError);
+      return NextResponse.json({ error: 'Failed to create note' }, { status: 500 });
+    }
+
+    return NextResponse.json({ note });
+  } catch (error) {
+    console.error('Error in lead notes POST API:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,131 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createSupabaseServerClient } from '@/lib/supabase';
+import { auth } from '@clerk/nextjs/server';
+import { isLeadStage, normalizeTags } from '@/lib/lead-pipeline';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const supabase = await createSupabaseServerClient();
+
+    const { data: lead, error: leadError } = await supabase
+      .from('leads')
+      .select('*, lead_searches!inner(), lead_notes(*)')
+      .eq('id', id)
+      .eq('lead_searches.user_id', userId)
+      .order('created_at', { referencedTable: 'lead_notes', ascending: false })
+      .single();
+
+    if (leadError || !lead) {
+      return NextResponse.json({
+        error: 'Lead not found',
+        code: 'LEAD_NOT_FOUND'
+      }, { status: 404 });
+    }
+
+    const { lead_notes: notes, ...leadFields } = lead;
+
+    return NextResponse.json({ lead: leadFields, notes: notes || [] });
+  } catch (error) {
+    console.error('Error in lead GET API:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const body = await request.json();
+    const { stage, tags, owner_id } = body;
+
+    const updates: Record<string, unknown> = {};
+
+    if (stage !== undefined) {
+      if (!isLeadStage(stage)) {
+        return NextResponse.json({
+          error: 'Invalid stage',
+          code: 'INVALID_STAGE'
+        }, { status: 400 });
+      }
+      updates.stage = stage;
+      updates.stage_updated_at = new Date().toISOString();
+    }
+
+    if (tags !== undefined) {
+      if (!Array.isArray(tags)) {
+        return NextResponse.json({
+          error: 'Tags must be an array of strings',
+          code: 'INVALID_TAGS'
+        }, { status: 400 });
+      }
+      updates.tags = normalizeTags(tags);
+    }
+
+    if (owner_id !== undefined) {
+      if (owner_id !== null && typeof owner_id !== 'string') {
+        return NextResponse.json({
+          error: 'Owner ID must be a string or null',
+          code: 'INVALID_OWNER'
+        }, { status: 400 });
+      }
+      updates.owner_id = owner_id;
+    }
+
+    if (Object.keys(updates).length === 0) {
+      return NextResponse.json({
+        error: 'Nothing to update',
+        code: 'NO_CHANGES'
+      }, { status: 400 });
+    }
+
+    const supabase = await createSupabaseServerClient();
+
+    // Verify the lead belongs to one of the user's searches
+    const { data: existingLead, error: fetchError } = await supabase
+      .from('leads')
+      .select('id, lead_searches!inner()')
+      .eq('id', id)
+      .eq('lead_searches.user_id', userId)
+      .single();
+
+    if (fetchError || !existingLead) {
+      return NextResponse.json({
+        error: 'Lead not found',
+        code: 'LEAD_NOT_FOUND'
+      }, { status: 404 });
+    }
+
+    const { data: lead, error: updateError } = await supabase
+      .from('leads')
+      .update(updates)
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (updateError) {
+      console.error('Error updating lead:', updateError);
+      return NextResponse.json({ error: 'Failed to update lead' }, { status: 500 });
+    }
+
+    return NextResponse.json({ lead });
+  } catch (error) {
+    console.error('Error in lead PATCH API:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
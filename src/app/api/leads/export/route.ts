@@ -0,0 +1,180 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { SupabaseClient } from '@supabase/supabase-js';
+import { createSupabaseServerClient } from '@/lib/supabase';
+import { auth } from '@clerk/nextjs/server';
+import { hasPlanFeature } from '@/lib/user-service';
+import {
+  LEAD_EXPORT_FORMATS,
+  LeadExportFormat,
+  ExportableLead,
+  createLeadExportStream,
+  createLeadWorkbook,
+  flattenAdditionalData,
+  getExportContentType,
+  getLeadExportColumns
+} from '@/lib/lead-export';
+
+const MAX_EXPORT_ROWS = 10000;
+const PAGE_SIZE = 1000;
+const EXPORT_COLUMNS = 'id, search_id, name, email, phone, company, position, linkedin_url, source, additional_data, created_at';
+
+interface LeadExportFilters {
+  searchId: string | null;
+  source: string | null;
+  company: string | null;
+  createdFrom: string | null;
+  createdTo: string | null;
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const format = (searchParams.get('format') || 'csv') as LeadExportFormat;
+    const searchId = searchParams.get('search_id');
+    const source = searchParams.get('source');
+    const company = searchParams.get('company');
+    const createdFrom = searchParams.get('created_from');
+    const createdTo = searchParams.get('created_to');
+
+    if (!LEAD_EXPORT_FORMATS.includes(format)) {
+      return NextResponse.json({
+        error: `Format must be one of: ${LEAD_EXPORT_FORMATS.join(', ')}`,
+        code: 'INVALID_FORMAT'
+      }, { status: 400 });
+    }
+
+    if (!(await hasPlanFeature('lead_export'))) {
+      return NextResponse.json({
+        error: 'Lead export is not available on your current plan',
+        code: 'FEATURE_NOT_AVAILABLE'
+      }, { status: 403 });
+    }
+
+    const supabase = await createSupabaseServerClient();
+
+    if (searchId) {
+      const { data: search, error: searchError } = await supabase
+        .from('lead_searches')
+        .select('id')
+        .eq('id', searchId)
+        .eq('user_id', userId)
+        .single();
+
+      if (searchError || !search) {
+        return NextResponse.json({
+          error: 'Lead search not found',
+          code: 'SEARCH_NOT_FOUND'
+        }, { status: 404 });
+      }
+    }
+
+    const filters: LeadExportFilters = { searchId, source, company, createdFrom, createdTo };
+
+    const { count, error: countError } = await buildLeadsQuery(supabase, userId, filters, 'id', true);
+    if (countError) {
+      console.error('Error counting leads for export:', countError);
+      return NextResponse.json({ error: 'Failed to fetch leads' }, { status: 500 });
+    }
+
+    const filename = `leads-${searchId || 'export'}-${new Date().toISOString().split('T')[0]}.${format}`;
+    const headers = {
+      'Content-Type': getExportContentType(format),
+      'Content-Disposition': `attachment; filename="${filename}"`,
+      'Cache-Control': 'no-store',
+      'X-Export-Count': String(Math.min(count || 0, MAX_EXPORT_ROWS))
+    };
+
+    if (format === 'xlsx') {
+      // The workbook is written in one piece, so its rows are collected first
+      const leads: ExportableLead[] = [];
+      for await (const page of fetchLeadPages<ExportableLead>(supabase, userId, filters, EXPORT_COLUMNS)) {
+        leads.push(...page);
+      }
+
+      const workbook = await createLeadWorkbook(leads);
+      return new Response(workbook, { headers });
+    }
+
+    // The CSV header needs every additional_data column before the first row is written
+    let columns: string[] = [];
+    if (format === 'csv') {
+      const additionalColumns = new Set<string>();
+      for await (const page of fetchLeadPages<Pick<ExportableLead, 'additional_data'>>(supabase, userId, filters, 'additional_data')) {
+        for (const lead of page) {
+          Object.keys(flattenAdditionalData(lead.additional_data)).forEach(column => additionalColumns.add(column));
+        }
+      }
+      columns = getLeadExportColumns(additionalColumns);
+    }
+
+    const pages = fetchLeadPages<ExportableLead>(supabase, userId, filters, EXPORT_COLUMNS);
+    return new Response(createLeadExportStream(pages, format, columns), { headers });
+
+  } catch (error) {
+    console.error('Error in lead export API:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+function buildLeadsQuery(
+  supabase: SupabaseClient,
+  userId: string,
+  filters: LeadExportFilters,
+  columns: string,
+  countOnly: boolean = false
+) {
+  let query = supabase
+    .from('leads')
+    .select(`${columns}, lead_searches!inner()`, countOnly ? { count: 'exact', head: true } : undefined)
+    .eq('lead_searches.user_id', userId);
+
+  if (filters.searchId) {
+    query = query.eq('search_id', filters.searchId);
+  }
+  if (filters.source) {
+    query = query.eq('source', filters.source);
+  }
+  if (filters.company) {
+    query = query.ilike('company', `%${filters.company}%`);
+  }
+  if (filters.createdFrom) {
+    query = query.gte('created_at', filters.createdFrom);
+  }
+  if (filters.createdTo) {
+    query = query.lte('created_at', filters.createdTo);
+  }
+
+  return query;
+}
+
+// Page through the matching leads, one page in memory at a time; PostgREST caps a single response at 1000 rows
+async function* fetchLeadPages<T>(
+  supabase: SupabaseClient,
+  userId: string,
+  filters: LeadExportFilters,
+  columns: string
+): AsyncGenerator<T[]> {
+  for (let offset = 0; offset < MAX_EXPORT_ROWS; offset += PAGE_SIZE) {
+    const { data: page, error } = await buildLeadsQuery(supabase, userId, filters, columns)
+      .order('created_at', { ascending: true })
+      .order('id', { ascending: true })
+      .range(offset, Math.min(offset + PAGE_SIZE, MAX_EXPORT_ROWS) - 1);
+
+    if (error) {
+      throw new Error(`Failed to fetch leads for export: ${error.message}`);
+    }
+
+    if (page && page.length > 0) {
+      yield page as unknown as T[];
+    }
+
+    if (!page || page.length < PAGE_SIZE) {
+      return;
+    }
+  }
+}
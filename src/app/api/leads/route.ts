@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createSupabaseServerClient } from '@/lib/supabase';
+import { auth } from '@clerk/nextjs/server';
+import { isLeadStage } from '@/lib/lead-pipeline';
+
+export async function GET(request: NextRequest) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const limit = parseInt(searchParams.get('limit') || '200');
+    const offset = parseInt(searchParams.get('offset') || '0');
+    const stage = searchParams.get('stage');
+    const tag = searchParams.get('tag');
+    const searchId = searchParams.get('search_id');
+    const ownerId = searchParams.get('owner_id');
+
+    if (stage && !isLeadStage(stage)) {
+      return NextResponse.json({
+        error: 'Invalid stage',
+        code: 'INVALID_STAGE'
+      }, { status: 400 });
+    }
+
+    const supabase = await createSupabaseServerClient();
+
+    let query = supabase
+      .from('leads')
+      .select('*, lead_searches!inner()', { count: 'exact' })
+      .eq('lead_searches.user_id', userId)
+      .order('stage_updated_at', { ascending: false })
+      .range(offset, offset + limit - 1);
+
+    if (stage) {
+      query = query.eq('stage', stage);
+    }
+    if (tag) {
+      query = query.contains('tags', [tag.toLowerCase()]);
+    }
+    if (searchId) {
+      query = query.eq('search_id', searchId);
+    }
+    if (ownerId) {
+      query = query.eq('owner_id', ownerId);
+    }
+
+    const { data: leads, count, error: leadsError } = await query;
+
+    if (leadsError) {
+      console.error('Error fetching leads:', leadsError);
+      return NextResponse.json({ error: 'Failed to fetch leads' }, { status: 500 });
+    }
+
+    return NextResponse.json({
+      leads: leads || [],
+      total: count || 0,
+      limit,
+      offset
+    });
+  } catch (error) {
+    console.error('Error in leads API:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,148 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createSupabaseServerClient } from '@/lib/supabase';
+import { auth } from '@clerk/nextjs/server';
+import { getLeadSourceProvider } from '@/lib/lead-sources';
+import { getNextRunAt, isSavedSearchSchedule } from '@/lib/saved-search-service';
+import { MAX_RESULTS_LIMIT } from '@/lib/lead-search-service';
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const body = await request.json();
+    const { name, search_criteria, max_results, schedule, is_active } = body;
+
+    const updates: Record<string, unknown> = {};
+
+    if (name !== undefined) {
+      if (typeof name !== 'string' || !name.trim()) {
+        return NextResponse.json({
+          error: 'Name is required',
+          code: 'INVALID_NAME'
+        }, { status: 400 });
+      }
+      updates.name = name.trim();
+    }
+
+    if (search_criteria !== undefined) {
+      if (!search_criteria || typeof search_criteria !== 'object' || !getLeadSourceProvider(search_criteria.source)) {
+        return NextResponse.json({
+          error: 'Invalid search criteria',
+          code: 'INVALID_CRITERIA'
+        }, { status: 400 });
+      }
+      updates.search_criteria = search_criteria;
+    }
+
+    if (max_results !== undefined) {
+      if (!Number.isInteger(max_results) || max_results <= 0 || max_results > MAX_RESULTS_LIMIT) {
+        return NextResponse.json({
+          error: `Max results must be between 1 and ${MAX_RESULTS_LIMIT}`,
+          code: 'INVALID_MAX_RESULTS'
+        }, { status: 400 });
+      }
+      updates.max_results = max_results;
+    }
+
+    if (schedule !== undefined) {
+      if (!isSavedSearchSchedule(schedule)) {
+        return NextResponse.json({
+          error: 'Schedule must be one of none, daily or weekly',
+          code: 'INVALID_SCHEDULE'
+        }, { status: 400 });
+      }
+      updates.schedule = schedule;
+      updates.next_run_at = getNextRunAt(schedule);
+    }
+
+    if (is_active !== undefined) {
+      if (typeof is_active !== 'boolean') {
+        return NextResponse.json({
+          error: 'is_active must be a boolean',
+          code: 'INVALID_ACTIVE'
+        }, { status: 400 });
+      }
+      updates.is_active = is_active;
+    }
+
+    if (Object.keys(updates).length === 0) {
+      return NextResponse.json({
+        error: 'Nothing to update',
+        code: 'NO_CHANGES'
+      }, { status: 400 });
+    }
+
+    const supabase = await createSupabaseServerClient();
+
+    const { data: savedSearch, error: updateError } = await supabase
+      .from('saved_searches')
+      .update(updates)
+      .eq('id', id)
+      .eq('user_id', userId)
+      .select()
+      .maybeSingle();
+
+    if (updateError) {
+      console.error('Error updating saved search:', updateError);
+      return NextResponse.json({ error: 'Failed to update saved search' }, { status: 500 });
+    }
+
+    if (!savedSearch) {
+      return NextResponse.json({
+        error: 'Saved search not found',
+        code: 'SAVED_SEARCH_NOT_FOUND'
+      }, { status: 404 });
+    }
+
+    return NextResponse.json({ saved_search: savedSearch });
+  } catch (error) {
+    console.error('Error in saved search PATCH API:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const supabase = await createSupabaseServerClient();
+
+    const { data: deleted, error: deleteError } = await supabase
+      .from('saved_searches')
+      .delete()
+      .eq('id', id)
+      .eq('user_id', userId)
+      .select('id');
+
+    if (deleteError) {
+      console.error('Error deleting saved search:', deleteError);
+      return NextResponse.json({ error: 'Failed to delete saved search' }, { status: 500 });
+    }
+
+    if (!deleted || deleted.length === 0) {
+      return NextResponse.json({
+        error: 'Saved search not found',
+        code: 'SAVED_SEARCH_NOT_FOUND'
+      }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error in saved search DELETE API:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
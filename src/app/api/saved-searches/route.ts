@@ -0,0 +1,105 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createSupabaseServerClient } from '@/lib/supabase';
+import { auth } from '@clerk/nextjs/server';
+import { getLeadSourceProvider } from '@/lib/lead-sources';
+import { getNextRunAt, isSavedSearchSchedule } from '@/lib/saved-search-service';
+import { DEFAULT_MAX_RESULTS, MAX_RESULTS_LIMIT } from '@/lib/lead-search-service';
+
+export async function GET() {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const supabase = await createSupabaseServerClient();
+
+    const { data: savedSearches, error: fetchError } = await supabase
+      .from('saved_searches')
+      .select('*')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false });
+
+    if (fetchError) {
+      console.error('Error fetching saved searches:', fetchError);
+      return NextResponse.json({ error: 'Failed to fetch saved searches' }, { status: 500 });
+    }
+
+    return NextResponse.json({ saved_searches: savedSearches || [] });
+  } catch (error) {
+    console.error('Error in saved searches GET API:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const { name, search_criteria, max_results = DEFAULT_MAX_RESULTS, schedule = 'none' } = body;
+
+    if (!name || typeof name !== 'string' || !name.trim()) {
+      return NextResponse.json({
+        error: 'Name is required',
+        code: 'INVALID_NAME'
+      }, { status: 400 });
+    }
+
+    if (!search_criteria || typeof search_criteria !== 'object') {
+      return NextResponse.json({
+        error: 'Search criteria is required',
+        code: 'INVALID_CRITERIA'
+      }, { status: 400 });
+    }
+
+    if (!getLeadSourceProvider(search_criteria.source)) {
+      return NextResponse.json({
+        error: `Unknown lead source: ${search_criteria.source}`,
+        code: 'INVALID_SOURCE'
+      }, { status: 400 });
+    }
+
+    if (!isSavedSearchSchedule(schedule)) {
+      return NextResponse.json({
+        error: 'Schedule must be one of none, daily or weekly',
+        code: 'INVALID_SCHEDULE'
+      }, { status: 400 });
+    }
+
+    if (!Number.isInteger(max_results) || max_results <= 0 || max_results > MAX_RESULTS_LIMIT) {
+      return NextResponse.json({
+        error: `Max results must be between 1 and ${MAX_RESULTS_LIMIT}`,
+        code: 'INVALID_MAX_RESULTS'
+      }, { status: 400 });
+    }
+
+    const supabase = await createSupabaseServerClient();
+
+    const { data: savedSearch, error: insertError } = await supabase
+      .from('saved_searches')
+      .insert({
+        user_id: userId,
+        name: name.trim(),
+        search_criteria,
+        max_results,
+        schedule,
+        next_run_at: getNextRunAt(schedule),
+      })
+      .select()
+      .single();
+
+    if (insertError) {
+      console.error('Error creating saved search:', insertError);
+      return NextResponse.json({ error: 'Failed to create saved search' }, { status: 500 });
+    }
+
+    return NextResponse.json({ saved_search: savedSearch }, { status: 201 });
+  } catch (error) {
+    console.error('Error in saved searches POST API:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
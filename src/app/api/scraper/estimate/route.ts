@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createSupabaseServerClient } from '@/lib/supabase';
+import { auth } from '@clerk/nextjs/server';
+import { estimateLeadSearch, normalizeMaxResults } from '@/lib/lead-search-service';
+
+// Dry run of a lead search: returns the expected result count and credit cost without holding credits
+export async function POST(request: NextRequest) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const { search_criteria, max_results } = body;
+
+    if (!search_criteria) {
+      return NextResponse.json({ error: 'Search criteria is required' }, { status: 400 });
+    }
+
+    const estimated = await estimateLeadSearch(search_criteria, normalizeMaxResults(max_results));
+    if (!estimated) {
+      return NextResponse.json({
+        error: `Unknown lead source: ${search_criteria.source}`,
+        code: 'INVALID_SOURCE'
+      }, { status: 400 });
+    }
+
+    const supabase = await createSupabaseServerClient();
+
+    const { data: availableBalance, error: balanceError } = await supabase
+      .rpc('get_available_credit_balance', {
+        p_user_id: userId,
+        p_credit_type: 'scraper'
+      });
+
+    if (balanceError) {
+      console.error('Error checking available credit balance:', balanceError);
+      return NextResponse.json({ error: 'Failed to check credit balance' }, { status: 500 });
+    }
+
+    const availableCredits = availableBalance || 0;
+
+    return NextResponse.json({
+      ...estimated.estimate,
+      available_credits: availableCredits,
+      sufficient_credits: availableCredits >= estimated.estimate.estimated_credits
+    });
+
+  } catch (error) {
+    console.error('Error in scraper estimate API:', error);
+    return NextResponse.json({
+      error: 'Internal server error',
+      code: 'INTERNAL_ERROR'
+    }, { status: 500 });
+  }
+}
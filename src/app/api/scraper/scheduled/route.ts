@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { runDueSavedSearches } from '@/lib/saved-search-service';
+
+// This endpoint should be called by a cron job every 15 minutes
+// It queues runs for saved searches whose daily or weekly schedule is due
+export async function POST(request: NextRequest) {
+  try {
+    const authHeader = request.headers.get('authorization');
+    const secretKey = process.env.BILLING_CRON_SECRET;
+
+    if (!secretKey || authHeader !== `Bearer ${secretKey}`) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const limit = parseInt(searchParams.get('limit') || '20');
+
+    const results = await runDueSavedSearches(limit);
+    const queued = results.filter(result => result.status === 'queued').length;
+
+    return NextResponse.json({
+      processed: results.length,
+      queued,
+      failed: results.length - queued,
+      results,
+      message: `Queued ${queued} of ${results.length} scheduled lead searches`
+    });
+
+  } catch (error) {
+    console.error('Error in scheduled searches API:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createSupabaseServerClient } from '@/lib/supabase';
+import { auth } from '@clerk/nextjs/server';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const { searchParams } = new URL(request.url);
+    const limit = parseInt(searchParams.get('limit') || '100');
+    const offset = parseInt(searchParams.get('offset') || '0');
+
+    const supabase = await createSupabaseServerClient();
+
+    const { data: search, error: searchError } = await supabase
+      .from('lead_searches')
+      .select('*')
+      .eq('id', id)
+      .eq('user_id', userId)
+      .single();
+
+    if (searchError || !search) {
+      return NextResponse.json({
+        error: 'Lead search not found',
+        code: 'SEARCH_NOT_FOUND'
+      }, { status: 404 });
+    }
+
+    // Leads are inserted batch by batch, so a pending search returns its partial results
+    const { data: leads, error: leadsError } = await supabase
+      .from('leads')
+      .select('*')
+      .eq('search_id', id)
+      .order('created_at', { ascending: true })
+      .range(offset, offset + limit - 1);
+
+    if (leadsError) {
+      console.error('Error fetching search leads:', leadsError);
+      return NextResponse.json({ error: 'Failed to fetch leads' }, { status: 500 });
+    }
+
+    const maxResults = search.max_results || 0;
+    const progress = search.status === 'pending'
+      ? (maxResults > 0 ? Math.min(Math.round((search.results_count / maxResults) * 100), 99) : 0)
+      : 100;
+
+    return NextResponse.json({
+      search_id: search.id,
+      status: search.status,
+      progress,
+      results_count: search.results_count,
+      skipped_count: search.skipped_count,
+      max_results: maxResults,
+      credits_held: search.credits_held,
+      credits_used: search.credits_used,
+      hold_id: search.hold_id,
+      error_message: search.error_message,
+      started_at: search.started_at,
+      completed_at: search.completed_at,
+      search_criteria: search.search_criteria,
+      leads: leads || [],
+      limit,
+      offset
+    });
+  } catch (error) {
+    console.error('Error in scraper search status API:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createSupabaseServerClient } from '@/lib/supabase';
 import { auth } from '@clerk/nextjs/server';
+import { normalizePhoneNumber } from '@/lib/phone';
 
 export async function GET(request: NextRequest) {
   try {
@@ -93,6 +94,14 @@ export async function POST(request: NextRequest) {
     const body = await request.json();
     const { name, phone, company_name } = body;
 
+    const normalizedPhone = phone ? normalizePhoneNumber(phone) : phone;
+    if (phone && !normalizedPhone) {
+      return NextResponse.json({
+        error: `Invalid phone number: ${phone}`,
+        code: 'INVALID_PHONE_NUMBER'
+      }, { status: 400 });
+    }
+
     const supabase = await createSupabaseServerClient();
     
     // Get user email from Clerk
@@ -106,7 +115,7 @@ export async function POST(request: NextRequest) {
         clerk_id: userId,
         email: email || '',
         name,
-        phone,
+        phone: normalizedPhone,
         company_name,
         updated_at: new Date().toISOString(),
       })
@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createSupabaseServiceClient } from '@/lib/supabase';
+import { auth } from '@clerk/nextjs/server';
+import { finalizeCampaign } from '@/lib/campaign-worker';
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    // Users cannot write campaign rows; cancel server-side, scoped to the signed-in user
+    const supabase = createSupabaseServiceClient();
+
+    const { data: campaign, error: cancelError } = await supabase
+      .from('whatsapp_campaigns')
+      .update({ status: 'cancelled' })
+      .eq('id', id)
+      .eq('user_id', userId)
+      .in('status', ['pending', 'running'])
+      .select()
+      .maybeSingle();
+
+    if (cancelError) {
+      console.error('Error cancelling campaign:', cancelError);
+      return NextResponse.json({ error: 'Failed to cancel campaign' }, { status: 500 });
+    }
+
+    if (!campaign) {
+      return NextResponse.json({
+        error: 'Campaign not found or already finished',
+        code: 'CAMPAIGN_NOT_CANCELLABLE'
+      }, { status: 409 });
+    }
+
+    // A worker holding the lease stops before its next message and releases the hold itself
+    const leased = campaign.locked_until && new Date(campaign.locked_until) > new Date();
+    if (!leased) {
+      await finalizeCampaign(supabase, campaign, 'cancelled');
+    }
+
+    return NextResponse.json({
+      campaign_id: campaign.id,
+      status: 'cancelled',
+      sent_count: campaign.sent_count,
+      failed_count: campaign.failed_count
+    });
+  } catch (error) {
+    console.error('Error in WhatsApp campaign cancel API:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createSupabaseServerClient } from '@/lib/supabase';
+import { auth } from '@clerk/nextjs/server';
+
+// Campaign progress with per-recipient status; polled by the campaigns page
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const supabase = await createSupabaseServerClient();
+
+    const { data: campaign, error: campaignError } = await supabase
+      .from('whatsapp_campaigns')
+      .select('*')
+      .eq('id', id)
+      .eq('user_id', userId)
+      .single();
+
+    if (campaignError || !campaign) {
+      return NextResponse.json({
+        error: 'Campaign not found',
+        code: 'CAMPAIGN_NOT_FOUND'
+      }, { status: 404 });
+    }
+
+    const { data: recipients, error: recipientsError } = await supabase
+      .from('whatsapp_campaign_recipients')
+      .select('id, lead_id, phone_number, status, error_message, sent_at, leads(name, company), whatsapp_messages(status)')
+      .eq('campaign_id', id)
+      .order('created_at', { ascending: true });
+
+    if (recipientsError) {
+      console.error('Error fetching campaign recipients:', recipientsError);
+      return NextResponse.json({ error: 'Failed to fetch campaign recipients' }, { status: 500 });
+    }
+
+    const processed = campaign.sent_count + campaign.failed_count;
+    const progress = campaign.total_recipients > 0
+      ? Math.round((processed / campaign.total_recipients) * 100)
+      : 100;
+
+    return NextResponse.json({
+      campaign,
+      progress: ['pending', 'running'].includes(campaign.status) ? Math.min(progress, 99) : 100,
+      recipients: (recipients || []).map(({ whatsapp_messages: message, ...recipient }) => ({
+        ...recipient,
+        // Delivery and read receipts arrive on the message via the webhook
+        delivery_status: (message as { status?: string } | null)?.status || null
+      }))
+    });
+  } catch (error) {
+    console.error('Error in WhatsApp campaign GET API:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
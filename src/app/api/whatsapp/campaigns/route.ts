@@ -0,0 +1,118 @@
+import { NextRequest, NextResponse, after } from 'next/server';
+import { createSupabaseServerClient, createSupabaseServiceClient } from '@/lib/supabase';
+import { auth } from '@clerk/nextjs/server';
+import {
+  createCampaign,
+  DEFAULT_SEND_INTERVAL_MS,
+  MAX_SEND_INTERVAL_MS
+} from '@/lib/campaign-service';
+import { processCampaign } from '@/lib/campaign-worker';
+import { resolveMessageContent } from '@/lib/message-template-service';
+
+export async function POST(request: NextRequest) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const { name, message, template_id, target = {}, send_interval_ms = DEFAULT_SEND_INTERVAL_MS } = body;
+
+    if (!name || typeof name !== 'string' || !name.trim()) {
+      return NextResponse.json({ error: 'Campaign name is required', code: 'INVALID_NAME' }, { status: 400 });
+    }
+
+    if (!Number.isInteger(send_interval_ms) || send_interval_ms < 0 || send_interval_ms > MAX_SEND_INTERVAL_MS) {
+      return NextResponse.json({
+        error: `send_interval_ms must be between 0 and ${MAX_SEND_INTERVAL_MS}`,
+        code: 'INVALID_SEND_INTERVAL'
+      }, { status: 400 });
+    }
+
+    const supabase = await createSupabaseServerClient();
+
+    const resolved = await resolveMessageContent(supabase, userId, { template_id, message });
+    if (!resolved.ok) {
+      return NextResponse.json(resolved.body, { status: resolved.status });
+    }
+
+    // Users cannot write campaign rows; create the campaign server-side for the signed-in user
+    const created = await createCampaign(createSupabaseServiceClient(), {
+      userId,
+      name: name.trim(),
+      message: resolved.content,
+      templateId: resolved.templateId,
+      target: {
+        search_id: target.search_id || undefined,
+        tag: target.tag || undefined,
+        stage: target.stage || undefined
+      },
+      sendIntervalMs: send_interval_ms
+    });
+
+    if (!created.ok) {
+      return NextResponse.json(created.body, { status: created.status });
+    }
+
+    const { campaign, holdId } = created;
+
+    // Start sending once the response is sent. Work that does not fit in this
+    // invocation is resumed by /api/whatsapp/campaigns/worker. The job runs on the
+    // worker's service-role client, as it does in the cron.
+    after(async () => {
+      try {
+        await processCampaign(campaign.id);
+      } catch (workerError) {
+        console.error('Error starting campaign job:', workerError);
+      }
+    });
+
+    return NextResponse.json({
+      campaign_id: campaign.id,
+      status: 'pending',
+      total_recipients: campaign.total_recipients,
+      excluded_recipients: campaign.excluded_recipients,
+      opted_out_recipients: campaign.opted_out_recipients,
+      credits_held: campaign.credits_held,
+      hold_id: holdId,
+      status_url: `/api/whatsapp/campaigns/${campaign.id}`
+    }, { status: 202 });
+
+  } catch (error) {
+    console.error('Error in WhatsApp campaigns API:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const limit = parseInt(searchParams.get('limit') || '20');
+    const offset = parseInt(searchParams.get('offset') || '0');
+
+    const supabase = await createSupabaseServerClient();
+
+    const { data: campaigns, error: campaignsError } = await supabase
+      .from('whatsapp_campaigns')
+      .select('*')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false })
+      .range(offset, offset + limit - 1);
+
+    if (campaignsError) {
+      console.error('Error fetching campaigns:', campaignsError);
+      return NextResponse.json({ error: 'Failed to fetch campaigns' }, { status: 500 });
+    }
+
+    return NextResponse.json({ campaigns: campaigns || [] });
+  } catch (error) {
+    console.error('Error in WhatsApp campaigns GET API:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
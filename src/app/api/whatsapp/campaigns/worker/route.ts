@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { processPendingCampaigns } from '@/lib/campaign-worker';
+
+// This endpoint should be called by a cron job every minute
+// It resumes campaigns that did not finish sending in the request that created them
+export async function POST(request: NextRequest) {
+  try {
+    const authHeader = request.headers.get('authorization');
+    const secretKey = process.env.BILLING_CRON_SECRET;
+
+    if (!secretKey || authHeader !== `Bearer ${secretKey}`) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const limit = parseInt(searchParams.get('limit') || '5');
+
+    const results = await processPendingCampaigns(limit);
+
+    return NextResponse.json({
+      processed: results.length,
+      results,
+      message: `Processed ${results.length} campaign jobs`
+    });
+
+  } catch (error) {
+    console.error('Error in campaign worker API:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createSupabaseServerClient } from '@/lib/supabase';
+import { auth } from '@clerk/nextjs/server';
+
+// Mark every incoming message in the conversation as seen
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ key: string }> }
+) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { key } = await params;
+    const supabase = await createSupabaseServerClient();
+
+    const { data: marked, error: updateError } = await supabase
+      .from('whatsapp_messages')
+      .update({ seen_at: new Date().toISOString() })
+      .eq('user_id', userId)
+      .eq('conversation_key', decodeURIComponent(key))
+      .eq('message_type', 'incoming')
+      .is('seen_at', null)
+      .select('id');
+
+    if (updateError) {
+      console.error('Error marking conversation as read:', updateError);
+      return NextResponse.json({ error: 'Failed to mark conversation as read' }, { status: 500 });
+    }
+
+    return NextResponse.json({ marked_read: marked?.length || 0 });
+  } catch (error) {
+    console.error('Error in WhatsApp conversation read API:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createSupabaseServerClient } from '@/lib/supabase';
+import { auth } from '@clerk/nextjs/server';
+
+// Messages in one conversation, oldest first. Pass `before` (an ISO timestamp) to page back in time.
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ key: string }> }
+) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { key } = await params;
+    const conversationKey = decodeURIComponent(key);
+    const { searchParams } = new URL(request.url);
+    const limit = parseInt(searchParams.get('limit') || '50');
+    const before = searchParams.get('before');
+
+    const supabase = await createSupabaseServerClient();
+
+    let query = supabase
+      .from('whatsapp_messages')
+      .select('*')
+      .eq('user_id', userId)
+      .eq('conversation_key', conversationKey)
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (before) {
+      query = query.lt('created_at', before);
+    }
+
+    const { data: messages, error: messagesError } = await query;
+
+    if (messagesError) {
+      console.error('Error fetching conversation messages:', messagesError);
+      return NextResponse.json({ error: 'Failed to fetch messages' }, { status: 500 });
+    }
+
+    return NextResponse.json({
+      messages: (messages || []).reverse(),
+      has_more: (messages || []).length === limit
+    });
+  } catch (error) {
+    console.error('Error in WhatsApp conversation API:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
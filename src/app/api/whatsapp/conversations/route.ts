@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createSupabaseServerClient } from '@/lib/supabase';
+import { auth } from '@clerk/nextjs/server';
+
+export async function GET(request: NextRequest) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const limit = parseInt(searchParams.get('limit') || '50');
+    const offset = parseInt(searchParams.get('offset') || '0');
+
+    const supabase = await createSupabaseServerClient();
+
+    const { data: conversations, error: conversationsError } = await supabase
+      .rpc('get_whatsapp_conversations', {
+        p_user_id: userId,
+        p_limit: limit,
+        p_offset: offset
+      });
+
+    if (conversationsError) {
+      console.error('Error fetching WhatsApp conversations:', conversationsError);
+      return NextResponse.json({ error: 'Failed to fetch conversations' }, { status: 500 });
+    }
+
+    return NextResponse.json({ conversations: conversations || [], limit, offset });
+  } catch (error) {
+    console.error('Error in WhatsApp conversations API:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
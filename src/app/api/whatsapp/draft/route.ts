@@ -0,0 +1,147 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { streamText } from 'ai';
+import { createSupabaseServerClient } from '@/lib/supabase';
+import { auth } from '@clerk/nextjs/server';
+import { getAiModel } from '@/lib/ai';
+import {
+  buildOutreachPrompt,
+  MAX_DRAFT_GOAL_LENGTH,
+  MAX_DRAFT_TOKENS,
+  OUTREACH_DRAFT_CREDITS,
+  OUTREACH_SYSTEM_PROMPT
+} from '@/lib/outreach-draft';
+import {
+  holdInteractionCredits,
+  deductInteractionCredits,
+  releaseInteractionCreditHold
+} from '@/lib/interaction-credit-service';
+
+// Stream an AI-drafted WhatsApp message for a lead as plain text. Credits are held before the
+// model is called, deducted once the draft is complete and released if generation fails.
+export async function POST(request: NextRequest) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const { lead_id, goal } = body;
+
+    if (!lead_id || typeof lead_id !== 'string') {
+      return NextResponse.json({ error: 'lead_id is required', code: 'INVALID_LEAD' }, { status: 400 });
+    }
+
+    if (!goal || typeof goal !== 'string' || !goal.trim() || goal.length > MAX_DRAFT_GOAL_LENGTH) {
+      return NextResponse.json({
+        error: `Describe the goal of the message in at most ${MAX_DRAFT_GOAL_LENGTH} characters`,
+        code: 'INVALID_GOAL'
+      }, { status: 400 });
+    }
+
+    const ai = getAiModel();
+    if (!ai) {
+      return NextResponse.json({
+        error: 'AI drafting is not configured',
+        code: 'AI_NOT_CONFIGURED'
+      }, { status: 503 });
+    }
+
+    const supabase = await createSupabaseServerClient();
+
+    const { data: lead, error: leadError } = await supabase
+      .from('leads')
+      .select('name, company, position, additional_data, lead_searches!inner()')
+      .eq('id', lead_id)
+      .eq('lead_searches.user_id', userId)
+      .maybeSingle();
+
+    if (leadError) {
+      console.error('Error fetching lead:', leadError);
+      return NextResponse.json({ error: 'Failed to fetch lead' }, { status: 500 });
+    }
+
+    if (!lead) {
+      return NextResponse.json({ error: 'Lead not found' }, { status: 404 });
+    }
+
+    const referenceId = `ai_draft_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+
+    let holdId: string;
+    try {
+      holdId = await holdInteractionCredits(userId, OUTREACH_DRAFT_CREDITS, referenceId, 10);
+    } catch (holdError) {
+      console.error('Error holding interaction credits:', holdError);
+
+      const errorMessage = holdError instanceof Error ? holdError.message : String(holdError);
+      const match = errorMessage.match(/Available: (\d+), Required: (\d+)/);
+      if (errorMessage.includes('Insufficient credits') && match) {
+        return NextResponse.json({
+          error: 'Insufficient interaction credits',
+          code: 'INSUFFICIENT_CREDITS',
+          available_credits: parseInt(match[1]),
+          required_credits: parseInt(match[2])
+        }, { status: 402 });
+      }
+
+      return NextResponse.json({
+        error: 'Failed to hold interaction credits',
+        code: 'CREDIT_HOLD_FAILED'
+      }, { status: 500 });
+    }
+
+    // Settle once: onFinish and onError are exclusive, but a throw before streaming starts is not
+    let settled = false;
+    const release = async (reason: string) => {
+      if (settled) return;
+      settled = true;
+      try {
+        await releaseInteractionCreditHold(holdId, reason);
+      } catch (releaseError) {
+        console.error('Error releasing credit hold:', releaseError);
+      }
+    };
+
+    try {
+      const result = streamText({
+        model: ai.model,
+        system: OUTREACH_SYSTEM_PROMPT,
+        prompt: buildOutreachPrompt(lead, goal),
+        maxTokens: MAX_DRAFT_TOKENS,
+        onFinish: async ({ text }) => {
+          if (settled) return;
+
+          if (!text.trim()) {
+            await release('AI draft was empty');
+            return;
+          }
+
+          settled = true;
+          try {
+            await deductInteractionCredits(holdId, `AI outreach draft - ${referenceId}`);
+          } catch (deductError) {
+            console.error('Error deducting interaction credits:', deductError);
+          }
+        },
+        onError: async ({ error }) => {
+          console.error('Error generating AI draft:', error);
+          await release('AI draft generation failed');
+        },
+      });
+
+      return result.toTextStreamResponse({
+        headers: {
+          'X-Credits-Held': String(OUTREACH_DRAFT_CREDITS),
+          'X-AI-Model': `${ai.provider}/${ai.modelId}`
+        }
+      });
+    } catch (streamError) {
+      console.error('Error starting AI draft:', streamError);
+      await release('AI draft could not be started');
+      return NextResponse.json({ error: 'Failed to generate draft' }, { status: 500 });
+    }
+  } catch (error) {
+    console.error('Error in WhatsApp draft API:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
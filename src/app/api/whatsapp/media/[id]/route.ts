@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createSupabaseServerClient } from '@/lib/supabase';
+import { auth } from '@clerk/nextjs/server';
+import { getWhatsAppMedia, WHATSAPP_MEDIA_BUCKET } from '@/lib/whatsapp-media-service';
+
+// Delete an uploaded file. Refused while a scheduled or queued message still needs it.
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const supabase = await createSupabaseServerClient();
+
+    const media = await getWhatsAppMedia(supabase, userId, id);
+    if (!media) {
+      return NextResponse.json({
+        error: 'Media not found',
+        code: 'MEDIA_NOT_FOUND'
+      }, { status: 404 });
+    }
+
+    const { count: pendingCount } = await supabase
+      .from('whatsapp_messages')
+      .select('id', { count: 'exact', head: true })
+      .eq('media_id', id)
+      .in('status', ['queued', 'pending']);
+
+    if (pendingCount) {
+      return NextResponse.json({
+        error: 'This file is attached to a message that has not been sent yet',
+        code: 'MEDIA_IN_USE'
+      }, { status: 409 });
+    }
+
+    const { error: deleteError } = await supabase
+      .from('whatsapp_media')
+      .delete()
+      .eq('id', id)
+      .eq('user_id', userId);
+
+    if (deleteError) {
+      console.error('Error deleting WhatsApp media:', deleteError);
+      return NextResponse.json({ error: 'Failed to delete media' }, { status: 500 });
+    }
+
+    const { error: removeError } = await supabase.storage
+      .from(WHATSAPP_MEDIA_BUCKET)
+      .remove([media.storage_path]);
+
+    if (removeError) {
+      console.error('Error removing WhatsApp media file:', removeError);
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error in WhatsApp media DELETE API:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
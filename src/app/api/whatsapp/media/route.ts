@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createSupabaseServerClient, createSupabaseServiceClient } from '@/lib/supabase';
+import { auth } from '@clerk/nextjs/server';
+import { uploadWhatsAppMedia } from '@/lib/whatsapp-media-service';
+
+export async function GET() {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const supabase = await createSupabaseServerClient();
+
+    const { data: media, error: fetchError } = await supabase
+      .from('whatsapp_media')
+      .select('*')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false });
+
+    if (fetchError) {
+      console.error('Error fetching WhatsApp media:', fetchError);
+      return NextResponse.json({ error: 'Failed to fetch media' }, { status: 500 });
+    }
+
+    return NextResponse.json({ media: media || [] });
+  } catch (error) {
+    console.error('Error in WhatsApp media GET API:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// Upload an image or document as multipart form data with a `file` field
+export async function POST(request: NextRequest) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const formData = await request.formData();
+    const file = formData.get('file');
+
+    if (!(file instanceof File)) {
+      return NextResponse.json({
+        error: 'A file is required',
+        code: 'INVALID_MEDIA'
+      }, { status: 400 });
+    }
+
+    // Users cannot write media rows or files; store the upload server-side for the signed-in user
+    const result = await uploadWhatsAppMedia(createSupabaseServiceClient(), userId, file);
+
+    if (!result.ok) {
+      return NextResponse.json(result.body, { status: result.status });
+    }
+
+    return NextResponse.json({ media: result.media }, { status: 201 });
+  } catch (error) {
+    console.error('Error in WhatsApp media POST API:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
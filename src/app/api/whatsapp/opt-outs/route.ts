@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createSupabaseServerClient } from '@/lib/supabase';
+import { auth } from '@clerk/nextjs/server';
+import { normalizePhoneNumber } from '@/lib/phone';
+import { toWhatsAppNumber } from '@/lib/whatsapp';
+
+export async function GET() {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const supabase = await createSupabaseServerClient();
+
+    const { data: optOuts, error: fetchError } = await supabase
+      .from('whatsapp_opt_outs')
+      .select('*')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false });
+
+    if (fetchError) {
+      console.error('Error fetching opt-outs:', fetchError);
+      return NextResponse.json({ error: 'Failed to fetch opt-outs' }, { status: 500 });
+    }
+
+    return NextResponse.json({ opt_outs: optOuts || [] });
+  } catch (error) {
+    console.error('Error in opt-outs GET API:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// Add a number to the suppression list by hand
+export async function POST(request: NextRequest) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const { phone_number, reason } = body;
+
+    const normalized = typeof phone_number === 'string' ? normalizePhoneNumber(phone_number) : null;
+    if (!normalized) {
+      return NextResponse.json({
+        error: `Invalid phone number: ${phone_number}`,
+        code: 'INVALID_PHONE_NUMBER'
+      }, { status: 400 });
+    }
+
+    const supabase = await createSupabaseServerClient();
+
+    const { data: optOut, error: insertError } = await supabase
+      .from('whatsapp_opt_outs')
+      .insert({
+        user_id: userId,
+        phone_number: toWhatsAppNumber(normalized),
+        source: 'manual',
+        reason: typeof reason === 'string' && reason.trim() ? reason.trim() : null,
+      })
+      .select()
+      .single();
+
+    if (insertError) {
+      if (insertError.code === '23505') {
+        return NextResponse.json({
+          error: 'This number is already opted out',
+          code: 'ALREADY_OPTED_OUT'
+        }, { status: 409 });
+      }
+
+      console.error('Error creating opt-out:', insertError);
+      return NextResponse.json({ error: 'Failed to create opt-out' }, { status: 500 });
+    }
+
+    return NextResponse.json({ opt_out: optOut }, { status: 201 });
+  } catch (error) {
+    console.error('Error in opt-outs POST API:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { processQueuedMessages } from '@/lib/whatsapp-queue-worker';
+
+// This endpoint should be called by a cron job every minute
+// It sends messages that were queued because a send limit or quiet hours applied
+export async function POST(request: NextRequest) {
+  try {
+    const authHeader = request.headers.get('authorization');
+    const secretKey = process.env.BILLING_CRON_SECRET;
+
+    if (!secretKey || authHeader !== `Bearer ${secretKey}`) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const limit = parseInt(searchParams.get('limit') || '20');
+
+    const results = await processQueuedMessages(limit);
+
+    return NextResponse.json({
+      processed: results.length,
+      results,
+      message: `Processed ${results.length} queued messages`
+    });
+
+  } catch (error) {
+    console.error('Error in WhatsApp queue worker API:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createSupabaseServiceClient } from '@/lib/supabase';
+import { auth } from '@clerk/nextjs/server';
+
+// Cancel a message that has not been sent yet. No credits are held for it, so none are released.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    // Users cannot write queued messages; cancel server-side, scoped to the signed-in user
+    const supabase = createSupabaseServiceClient();
+
+    const { data: cancelled, error: updateError } = await supabase
+      .from('whatsapp_messages')
+      .update({ status: 'cancelled', credits_used: 0 })
+      .eq('id', id)
+      .eq('user_id', userId)
+      .eq('message_type', 'outgoing')
+      .eq('status', 'queued')
+      .select('id')
+      .maybeSingle();
+
+    if (updateError) {
+      console.error('Error cancelling scheduled message:', updateError);
+      return NextResponse.json({ error: 'Failed to cancel scheduled message' }, { status: 500 });
+    }
+
+    if (!cancelled) {
+      return NextResponse.json({
+        error: 'Scheduled message not found or already sent',
+        code: 'SCHEDULED_MESSAGE_NOT_FOUND'
+      }, { status: 404 });
+    }
+
+    return NextResponse.json({ message_id: cancelled.id, status: 'cancelled' });
+  } catch (error) {
+    console.error('Error in scheduled message cancel API:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,138 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createSupabaseServerClient, createSupabaseServiceClient } from '@/lib/supabase';
+import { auth } from '@clerk/nextjs/server';
+import { getQueuedMessage, parseScheduledFor } from '@/lib/scheduled-message-service';
+import { findUnknownTemplateVariables, hasTemplateVariables, renderMessageTemplate } from '@/lib/message-template';
+import { isOptedOut } from '@/lib/opt-out-service';
+import { getWhatsAppMedia } from '@/lib/whatsapp-media-service';
+import { getMessageCredits } from '@/lib/whatsapp-pricing';
+
+// Change the text or send time of a message that has not been sent yet. The queue runner prices the
+// message again when it sends it; the price stored here is what the user is shown until then.
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const body = await request.json();
+    const { content, scheduled_for } = body;
+
+    const supabase = await createSupabaseServerClient();
+
+    const scheduledMessage = await getQueuedMessage(supabase, userId, id);
+    if (!scheduledMessage) {
+      return NextResponse.json({
+        error: 'Scheduled message not found or already sent',
+        code: 'SCHEDULED_MESSAGE_NOT_FOUND'
+      }, { status: 404 });
+    }
+
+    if (await isOptedOut(supabase, userId, scheduledMessage.phone_number)) {
+      return NextResponse.json({
+        error: 'This number has opted out of WhatsApp messages',
+        code: 'RECIPIENT_OPTED_OUT'
+      }, { status: 403 });
+    }
+
+    const updates: Record<string, unknown> = {};
+
+    if (content !== undefined) {
+      if (typeof content !== 'string' || !content.trim()) {
+        return NextResponse.json({
+          error: 'Message content is required',
+          code: 'INVALID_MESSAGE'
+        }, { status: 400 });
+      }
+
+      const unknownVariables = findUnknownTemplateVariables(content);
+      if (unknownVariables.length > 0) {
+        return NextResponse.json({
+          error: `Unknown placeholders: ${unknownVariables.join(', ')}`,
+          code: 'INVALID_TEMPLATE_VARIABLES',
+          unknown_variables: unknownVariables
+        }, { status: 400 });
+      }
+
+      let rendered = content.trim();
+      if (hasTemplateVariables(rendered)) {
+        const { data: lead } = scheduledMessage.lead_id
+          ? await supabase.from('leads').select('*').eq('id', scheduledMessage.lead_id).maybeSingle()
+          : { data: null };
+
+        if (!lead) {
+          return NextResponse.json({
+            error: 'A lead is required to fill the message placeholders',
+            code: 'TEMPLATE_REQUIRES_LEAD'
+          }, { status: 400 });
+        }
+
+        const result = renderMessageTemplate(rendered, lead);
+        if (result.missing_fields.length > 0) {
+          return NextResponse.json({
+            error: `Lead is missing required fields: ${result.missing_fields.join(', ')}`,
+            code: 'MISSING_TEMPLATE_FIELDS',
+            missing_fields: result.missing_fields
+          }, { status: 422 });
+        }
+        rendered = result.content;
+      }
+
+      updates.content = rendered;
+
+      // Cost depends on what the message carries; see WHATSAPP_MESSAGE_PRICING
+      const media = scheduledMessage.media_id
+        ? await getWhatsAppMedia(supabase, userId, scheduledMessage.media_id)
+        : null;
+      updates.credits_used = getMessageCredits(media ? media.media_type : 'text', media?.size_bytes);
+    }
+
+    if (scheduled_for !== undefined) {
+      const parsed = parseScheduledFor(scheduled_for);
+      if (!parsed.ok) {
+        return NextResponse.json(parsed.body, { status: 400 });
+      }
+      updates.scheduled_for = parsed.scheduledFor.toISOString();
+    }
+
+    if (Object.keys(updates).length === 0) {
+      return NextResponse.json({
+        error: 'Nothing to update',
+        code: 'NO_CHANGES'
+      }, { status: 400 });
+    }
+
+    // Only while still queued: the runner may have claimed it since we read it. Users cannot write
+    // queued messages, so the update is made server-side, scoped to the signed-in user.
+    const { data: updated, error: updateError } = await createSupabaseServiceClient()
+      .from('whatsapp_messages')
+      .update(updates)
+      .eq('id', id)
+      .eq('user_id', userId)
+      .eq('status', 'queued')
+      .select()
+      .maybeSingle();
+
+    if (updateError) {
+      console.error('Error updating scheduled message:', updateError);
+      return NextResponse.json({ error: 'Failed to update scheduled message' }, { status: 500 });
+    }
+
+    if (!updated) {
+      return NextResponse.json({
+        error: 'Scheduled message not found or already sent',
+        code: 'SCHEDULED_MESSAGE_NOT_FOUND'
+      }, { status: 404 });
+    }
+
+    return NextResponse.json({ message: updated });
+  } catch (error) {
+    console.error('Error in scheduled message PATCH API:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,33 @@
+import { NextResponse } from 'next/server';
+import { createSupabaseServerClient } from '@/lib/supabase';
+import { auth } from '@clerk/nextjs/server';
+
+// Messages waiting to be sent: scheduled for later, or deferred by a send limit
+export async function GET() {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const supabase = await createSupabaseServerClient();
+
+    const { data: messages, error: messagesError } = await supabase
+      .from('whatsapp_messages')
+      .select('*, leads(name, company)')
+      .eq('user_id', userId)
+      .eq('message_type', 'outgoing')
+      .eq('status', 'queued')
+      .order('scheduled_for', { ascending: true });
+
+    if (messagesError) {
+      console.error('Error fetching scheduled messages:', messagesError);
+      return NextResponse.json({ error: 'Failed to fetch scheduled messages' }, { status: 500 });
+    }
+
+    return NextResponse.json({ messages: messages || [] });
+  } catch (error) {
+    console.error('Error in scheduled messages GET API:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -6,8 +6,22 @@ import {
   deductInteractionCredits,
   releaseInteractionCreditHold
 } from '@/lib/interaction-credit-service';
+import { getLeadContactId } from '@/lib/contact-service';
+import { toWhatsAppNumber } from '@/lib/whatsapp';
+import { normalizePhoneNumber } from '@/lib/phone';
+import { isOptedOut } from '@/lib/opt-out-service';
+import { reserveSendSlot } from '@/lib/send-limit-service';
+import { describeSendBlock } from '@/lib/send-limits';
+import { parseScheduledFor } from '@/lib/scheduled-message-service';
+import { hasTemplateVariables, renderMessageTemplate } from '@/lib/message-template';
+import { resolveMessageContent } from '@/lib/message-template-service';
+import { getWhatsAppMedia, sendWhatsAppMessage, WhatsAppMediaRecord } from '@/lib/whatsapp-media-service';
+import { getMessageCredits } from '@/lib/whatsapp-pricing';
+import { withIdempotency } from '@/lib/idempotency';
 
-export async function POST(request: NextRequest) {
+export const POST = withIdempotency(handlePost);
+
+async function handlePost(request: NextRequest) {
   let holdId: string | null = null;
   
   try {
@@ -17,16 +31,164 @@ export async function POST(request: NextRequest) {
     }
 
     const body = await request.json();
-    const { lead_id, message, phone_number } = body;
-
-    if (!message) {
-      return NextResponse.json({ error: 'Message content is required' }, { status: 400 });
-    }
+    const { lead_id, message, template_id, media_id, phone_number, scheduled_for, queue_if_limited = false } = body;
 
     if (!lead_id && !phone_number) {
       return NextResponse.json({ error: 'Either lead_id or phone_number is required' }, { status: 400 });
     }
 
+    let scheduledFor: Date | null = null;
+    if (scheduled_for) {
+      const parsed = parseScheduledFor(scheduled_for);
+      if (!parsed.ok) {
+        return NextResponse.json(parsed.body, { status: 400 });
+      }
+      scheduledFor = parsed.scheduledFor;
+    }
+
+    const supabase = await createSupabaseServerClient();
+
+    let media: WhatsAppMediaRecord | null = null;
+    if (media_id) {
+      media = typeof media_id === 'string' ? await getWhatsAppMedia(supabase, userId, media_id) : null;
+      if (!media) {
+        return NextResponse.json({
+          error: 'Media not found',
+          code: 'MEDIA_NOT_FOUND'
+        }, { status: 404 });
+      }
+    }
+
+    // Cost depends on what the message carries; see WHATSAPP_MESSAGE_PRICING
+    const contentType = media ? media.media_type : 'text';
+    const requiredCredits = getMessageCredits(contentType, media?.size_bytes);
+
+    // An attachment may be sent without a caption
+    const resolved = media && !template_id && !message
+      ? { ok: true as const, content: '', templateId: null }
+      : await resolveMessageContent(supabase, userId, { template_id, message });
+    if (!resolved.ok) {
+      return NextResponse.json(resolved.body, { status: resolved.status });
+    }
+
+    // Get lead information if lead_id is provided
+    let leadInfo = null;
+    if (lead_id) {
+      const { data: lead, error: leadError } = await supabase
+        .from('leads')
+        .select('*, lead_searches!inner()')
+        .eq('id', lead_id)
+        .eq('lead_searches.user_id', userId)
+        .single();
+
+      if (leadError) {
+        console.error('Error fetching lead:', leadError);
+        return NextResponse.json({ error: 'Lead not found' }, { status: 404 });
+      }
+
+      leadInfo = lead;
+    }
+
+    // Fill placeholders before any credits are held so a lead missing a field costs nothing
+    let content = resolved.content;
+    if (hasTemplateVariables(content)) {
+      if (!leadInfo) {
+        return NextResponse.json({
+          error: 'A lead_id is required to fill the message placeholders',
+          code: 'TEMPLATE_REQUIRES_LEAD'
+        }, { status: 400 });
+      }
+
+      const rendered = renderMessageTemplate(content, leadInfo);
+      if (rendered.missing_fields.length > 0) {
+        return NextResponse.json({
+          error: `Lead is missing required fields: ${rendered.missing_fields.join(', ')}`,
+          code: 'MISSING_TEMPLATE_FIELDS',
+          missing_fields: rendered.missing_fields
+        }, { status: 422 });
+      }
+
+      content = rendered.content;
+    }
+
+    const rawPhone = phone_number || leadInfo?.phone;
+    if (!rawPhone) {
+      return NextResponse.json({ error: 'Phone number not found' }, { status: 400 });
+    }
+
+    const targetPhone = normalizePhoneNumber(rawPhone);
+    if (!targetPhone) {
+      return NextResponse.json({
+        error: `Invalid phone number: ${rawPhone}`,
+        code: 'INVALID_PHONE_NUMBER'
+      }, { status: 400 });
+    }
+
+    if (await isOptedOut(supabase, userId, toWhatsAppNumber(targetPhone))) {
+      return NextResponse.json({
+        error: 'This number has opted out of WhatsApp messages',
+        code: 'RECIPIENT_OPTED_OUT'
+      }, { status: 403 });
+    }
+
+    // A message scheduled for later is only stored now. The queue runner checks the send limits,
+    // holds credits and sends it when due, so credits are not locked until then.
+    let queueAt: string | null = scheduledFor ? scheduledFor.toISOString() : null;
+    let queueReason: string = 'scheduled';
+
+    // Per-minute and per-day limits and quiet hours. In queue mode a send that hits them is
+    // deferred to the next allowed time the same way.
+    if (!queueAt) {
+      const sendWindow = await reserveSendSlot(supabase, userId);
+      if (!sendWindow.allowed) {
+        const blocked = describeSendBlock(sendWindow);
+
+        if (!queue_if_limited) {
+          const retryAfterSeconds = Math.max(1, Math.ceil((sendWindow.retry_at.getTime() - Date.now()) / 1000));
+          return NextResponse.json(blocked, {
+            status: 429,
+            headers: { 'Retry-After': String(retryAfterSeconds) }
+          });
+        }
+
+        queueAt = blocked.retry_at;
+        queueReason = blocked.reason;
+      }
+    }
+
+    if (queueAt) {
+      const { data: queuedMessage, error: queueError } = await supabase
+        .from('whatsapp_messages')
+        .insert({
+          user_id: userId,
+          lead_id: lead_id || null,
+          message_type: 'outgoing',
+          phone_number: toWhatsAppNumber(targetPhone),
+          content,
+          template_id: resolved.templateId,
+          content_type: contentType,
+          media_id: media?.id || null,
+          status: 'queued',
+          scheduled_for: queueAt,
+          credits_used: requiredCredits,
+        })
+        .select()
+        .single();
+
+      if (queueError) {
+        console.error('Error queueing WhatsApp message:', queueError);
+        return NextResponse.json({ error: 'Failed to queue message' }, { status: 500 });
+      }
+
+      return NextResponse.json({
+        message_id: queuedMessage.id,
+        status: 'queued',
+        scheduled_for: queueAt,
+        reason: queueReason,
+        phone_number: targetPhone
+      }, { status: 202 });
+    }
+
     // Generate a unique reference ID for this operation
     const messageReferenceId = `whatsapp_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
     
@@ -34,7 +196,7 @@ export async function POST(request: NextRequest) {
     try {
       holdId = await holdInteractionCredits(
         userId,
-        1, // 1 credit per WhatsApp message
+        requiredCredits,
         messageReferenceId,
         30 // Hold expires in 30 minutes
       );
@@ -64,31 +226,6 @@ export async function POST(request: NextRequest) {
       }, { status: 500 });
     }
 
-    const supabase = await createSupabaseServerClient();
-    const requiredCredits = 1; // 1 credit per WhatsApp message
-
-    // Get lead information if lead_id is provided
-    let leadInfo = null;
-    if (lead_id) {
-      const { data: lead, error: leadError } = await supabase
-        .from('leads')
-        .select('*')
-        .eq('id', lead_id)
-        .single();
-
-      if (leadError) {
-        console.error('Error fetching lead:', leadError);
-        return NextResponse.json({ error: 'Lead not found' }, { status: 404 });
-      }
-
-      leadInfo = lead;
-    }
-
-    const targetPhone = phone_number || leadInfo?.phone;
-    if (!targetPhone) {
-      return NextResponse.json({ error: 'Phone number not found' }, { status: 400 });
-    }
-
     // Create WhatsApp message record
     const { data: messageRecord, error: messageError } = await supabase
       .from('whatsapp_messages')
@@ -96,7 +233,11 @@ export async function POST(request: NextRequest) {
         user_id: userId,
         lead_id: lead_id || null,
         message_type: 'outgoing',
-        content: message,
+        phone_number: toWhatsAppNumber(targetPhone),
+        content,
+        template_id: resolved.templateId,
+        content_type: contentType,
+        media_id: media?.id || null,
         status: 'pending',
         credits_used: requiredCredits,
         hold_id: holdId, // Store the hold ID for reference
@@ -119,9 +260,8 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Failed to create message record' }, { status: 500 });
     }
 
-    // Simulate WhatsApp API call (in real implementation, this would call actual WhatsApp API)
     try {
-      const whatsappResult = await sendWhatsAppMessage(targetPhone, message);
+      const whatsappResult = await sendWhatsAppMessage(supabase, targetPhone, content, media);
       
       // Step 5: Convert credit hold to deduction on success
       if (holdId) {
@@ -217,23 +357,6 @@ export async function POST(request: NextRequest) {
   }
 }
 
-// Mock function to simulate WhatsApp API call
-async function sendWhatsAppMessage(phone: string, message: string) {
-  // Simulate API delay
-  await new Promise(resolve => setTimeout(resolve, 1000));
-  
-  // Simulate random failure (10% chance)
-  if (Math.random() < 0.1) {
-    throw new Error('WhatsApp API temporarily unavailable');
-  }
-  
-  return {
-    message_id: `wa_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-    status: 'sent',
-    phone: phone
-  };
-}
-
 export async function GET(request: NextRequest) {
   try {
     const { userId } = await auth();
@@ -255,8 +378,10 @@ export async function GET(request: NextRequest) {
       .order('created_at', { ascending: false })
       .range(offset, offset + limit - 1);
 
+    // A lead's conversation includes messages to every lead merged into the same contact
     if (lead_id) {
-      query = query.eq('lead_id', lead_id);
+      const contactId = await getLeadContactId(supabase, lead_id);
+      query = contactId ? query.eq('contact_id', contactId) : query.eq('lead_id', lead_id);
     }
     
     const { data: messages, error: messagesError } = await query;
@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createSupabaseServerClient } from '@/lib/supabase';
+import { auth } from '@clerk/nextjs/server';
+
+// Stop a lead's sequence by hand. Nothing is held between steps, so there are no credits to release.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; enrollmentId: string }> }
+) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id, enrollmentId } = await params;
+    const supabase = await createSupabaseServerClient();
+
+    const { data: stopped, error: updateError } = await supabase
+      .from('follow_up_enrollments')
+      .update({
+        status: 'stopped',
+        stop_reason: 'manual',
+        next_step_at: null,
+        completed_at: new Date().toISOString()
+      })
+      .eq('id', enrollmentId)
+      .eq('sequence_id', id)
+      .eq('user_id', userId)
+      .eq('status', 'active')
+      .select()
+      .maybeSingle();
+
+    if (updateError) {
+      console.error('Error stopping follow-up enrollment:', updateError);
+      return NextResponse.json({ error: 'Failed to stop follow-up' }, { status: 500 });
+    }
+
+    if (!stopped) {
+      return NextResponse.json({
+        error: 'Active enrollment not found',
+        code: 'ENROLLMENT_NOT_FOUND'
+      }, { status: 404 });
+    }
+
+    return NextResponse.json({ enrollment: stopped });
+  } catch (error) {
+    console.error('Error in follow-up enrollment stop API:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
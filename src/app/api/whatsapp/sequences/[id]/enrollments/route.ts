@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createSupabaseServerClient } from '@/lib/supabase';
+import { auth } from '@clerk/nextjs/server';
+import { enrollLeads, MAX_ENROLLMENT_LEADS } from '@/lib/follow-up-service';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const supabase = await createSupabaseServerClient();
+
+    const { data: enrollments, error: fetchError } = await supabase
+      .from('follow_up_enrollments')
+      .select('*, leads(name, company)')
+      .eq('sequence_id', id)
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false });
+
+    if (fetchError) {
+      console.error('Error fetching follow-up enrollments:', fetchError);
+      return NextResponse.json({ error: 'Failed to fetch enrollments' }, { status: 500 });
+    }
+
+    return NextResponse.json({ enrollments: enrollments || [] });
+  } catch (error) {
+    console.error('Error in follow-up enrollments GET API:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// Body: { lead_ids: [...] }. Credits are held per step as each one is sent, not up front.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const body = await request.json();
+    const { lead_ids } = body;
+
+    if (
+      !Array.isArray(lead_ids) ||
+      lead_ids.length === 0 ||
+      lead_ids.length > MAX_ENROLLMENT_LEADS ||
+      !lead_ids.every(leadId => typeof leadId === 'string')
+    ) {
+      return NextResponse.json({
+        error: `lead_ids must list between 1 and ${MAX_ENROLLMENT_LEADS} leads`,
+        code: 'INVALID_LEADS'
+      }, { status: 400 });
+    }
+
+    const supabase = await createSupabaseServerClient();
+    const result = await enrollLeads(supabase, userId, id, [...new Set<string>(lead_ids)]);
+
+    if (!result.ok) {
+      return NextResponse.json(result.body, { status: result.status });
+    }
+
+    return NextResponse.json({
+      enrolled: result.enrolled,
+      skipped: result.skipped
+    }, { status: result.enrolled.length > 0 ? 201 : 200 });
+  } catch (error) {
+    console.error('Error in follow-up enrollments POST API:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createSupabaseServerClient } from '@/lib/supabase';
+import { auth } from '@clerk/nextjs/server';
+import { createFollowUpSequence } from '@/lib/follow-up-service';
+import { validateSequenceSteps } from '@/lib/follow-up-sequence';
+
+export async function GET() {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const supabase = await createSupabaseServerClient();
+
+    const { data: sequences, error: fetchError } = await supabase
+      .from('follow_up_sequences')
+      .select('*, follow_up_sequence_steps(id, position, delay_days, template_id, message_templates(name))')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false })
+      .order('position', { referencedTable: 'follow_up_sequence_steps', ascending: true });
+
+    if (fetchError) {
+      console.error('Error fetching follow-up sequences:', fetchError);
+      return NextResponse.json({ error: 'Failed to fetch sequences' }, { status: 500 });
+    }
+
+    return NextResponse.json({
+      sequences: (sequences || []).map(({ follow_up_sequence_steps, ...sequence }) => ({
+        ...sequence,
+        steps: follow_up_sequence_steps || []
+      }))
+    });
+  } catch (error) {
+    console.error('Error in follow-up sequences GET API:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+// Body: { name, steps: [{ delay_days, template_id }] }, steps in the order they are sent
+export async function POST(request: NextRequest) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const { name, steps } = body;
+
+    if (!name || typeof name !== 'string' || !name.trim()) {
+      return NextResponse.json({ error: 'Sequence name is required', code: 'INVALID_NAME' }, { status: 400 });
+    }
+
+    const validated = validateSequenceSteps(steps);
+    if (!validated.ok) {
+      return NextResponse.json(validated.body, { status: validated.status });
+    }
+
+    const supabase = await createSupabaseServerClient();
+
+    const created = await createFollowUpSequence(supabase, userId, {
+      name: name.trim(),
+      steps: validated.steps
+    });
+
+    if (!created.ok) {
+      return NextResponse.json(created.body, { status: created.status });
+    }
+
+    return NextResponse.json({ sequence: { ...created.sequence, steps: validated.steps } }, { status: 201 });
+  } catch (error) {
+    console.error('Error in follow-up sequences POST API:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
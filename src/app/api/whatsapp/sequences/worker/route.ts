@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { processDueFollowUps } from '@/lib/follow-up-worker';
+
+// This endpoint should be called by a cron job every few minutes
+// It sends the follow-up steps that are due to leads that have not replied
+export async function POST(request: NextRequest) {
+  try {
+    const authHeader = request.headers.get('authorization');
+    const secretKey = process.env.BILLING_CRON_SECRET;
+
+    if (!secretKey || authHeader !== `Bearer ${secretKey}`) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const limit = parseInt(searchParams.get('limit') || '20');
+
+    const results = await processDueFollowUps(limit);
+
+    return NextResponse.json({
+      processed: results.length,
+      results,
+      message: `Processed ${results.length} follow-ups`
+    });
+
+  } catch (error) {
+    console.error('Error in follow-up worker API:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
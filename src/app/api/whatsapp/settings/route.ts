@@ -0,0 +1,109 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createSupabaseServerClient } from '@/lib/supabase';
+import { auth } from '@clerk/nextjs/server';
+import { getSendLimitSettings } from '@/lib/send-limit-service';
+import {
+  isValidTimeOfDay,
+  isValidTimezone,
+  MAX_MESSAGES_PER_DAY,
+  MAX_MESSAGES_PER_MINUTE
+} from '@/lib/send-limits';
+
+export async function GET() {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const supabase = await createSupabaseServerClient();
+    const settings = await getSendLimitSettings(supabase, userId);
+
+    return NextResponse.json({ settings });
+  } catch (error) {
+    console.error('Error in WhatsApp settings GET API:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export async function PATCH(request: NextRequest) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const { messages_per_minute, messages_per_day, quiet_hours_start, quiet_hours_end, timezone } = body;
+
+    const updates: Record<string, unknown> = {};
+
+    if (messages_per_minute !== undefined) {
+      if (!Number.isInteger(messages_per_minute) || messages_per_minute <= 0 || messages_per_minute > MAX_MESSAGES_PER_MINUTE) {
+        return NextResponse.json({
+          error: `messages_per_minute must be between 1 and ${MAX_MESSAGES_PER_MINUTE}`,
+          code: 'INVALID_MESSAGES_PER_MINUTE'
+        }, { status: 400 });
+      }
+      updates.messages_per_minute = messages_per_minute;
+    }
+
+    if (messages_per_day !== undefined) {
+      if (!Number.isInteger(messages_per_day) || messages_per_day <= 0 || messages_per_day > MAX_MESSAGES_PER_DAY) {
+        return NextResponse.json({
+          error: `messages_per_day must be between 1 and ${MAX_MESSAGES_PER_DAY}`,
+          code: 'INVALID_MESSAGES_PER_DAY'
+        }, { status: 400 });
+      }
+      updates.messages_per_day = messages_per_day;
+    }
+
+    if (quiet_hours_start !== undefined || quiet_hours_end !== undefined) {
+      // Both ends are set together; null for both turns quiet hours off
+      const disabled = quiet_hours_start === null && quiet_hours_end === null;
+      if (!disabled && (!isValidTimeOfDay(quiet_hours_start) || !isValidTimeOfDay(quiet_hours_end))) {
+        return NextResponse.json({
+          error: 'quiet_hours_start and quiet_hours_end must both be HH:MM, or both null',
+          code: 'INVALID_QUIET_HOURS'
+        }, { status: 400 });
+      }
+      updates.quiet_hours_start = quiet_hours_start;
+      updates.quiet_hours_end = quiet_hours_end;
+    }
+
+    if (timezone !== undefined) {
+      if (!isValidTimezone(timezone)) {
+        return NextResponse.json({
+          error: `Unknown timezone: ${timezone}`,
+          code: 'INVALID_TIMEZONE'
+        }, { status: 400 });
+      }
+      updates.timezone = timezone;
+    }
+
+    if (Object.keys(updates).length === 0) {
+      return NextResponse.json({
+        error: 'Nothing to update',
+        code: 'NO_CHANGES'
+      }, { status: 400 });
+    }
+
+    const supabase = await createSupabaseServerClient();
+
+    const { data: settings, error: upsertError } = await supabase
+      .from('whatsapp_send_settings')
+      .upsert({ user_id: userId, ...updates }, { onConflict: 'user_id' })
+      .select('messages_per_minute, messages_per_day, quiet_hours_start, quiet_hours_end, timezone')
+      .single();
+
+    if (upsertError) {
+      console.error('Error updating WhatsApp settings:', upsertError);
+      return NextResponse.json({ error: 'Failed to update settings' }, { status: 500 });
+    }
+
+    return NextResponse.json({ settings });
+  } catch (error) {
+    console.error('Error in WhatsApp settings PATCH API:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
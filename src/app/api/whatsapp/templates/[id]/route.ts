@@ -0,0 +1,134 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createSupabaseServerClient } from '@/lib/supabase';
+import { auth } from '@clerk/nextjs/server';
+import { extractTemplateVariables, findUnknownTemplateVariables } from '@/lib/message-template';
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const body = await request.json();
+    const { name, content } = body;
+
+    const updates: Record<string, unknown> = {};
+
+    if (name !== undefined) {
+      if (typeof name !== 'string' || !name.trim()) {
+        return NextResponse.json({
+          error: 'Name is required',
+          code: 'INVALID_NAME'
+        }, { status: 400 });
+      }
+      updates.name = name.trim();
+    }
+
+    if (content !== undefined) {
+      if (typeof content !== 'string' || !content.trim()) {
+        return NextResponse.json({
+          error: 'Template content is required',
+          code: 'INVALID_CONTENT'
+        }, { status: 400 });
+      }
+
+      const unknownVariables = findUnknownTemplateVariables(content);
+      if (unknownVariables.length > 0) {
+        return NextResponse.json({
+          error: `Unknown placeholders: ${unknownVariables.join(', ')}`,
+          code: 'INVALID_TEMPLATE_VARIABLES',
+          unknown_variables: unknownVariables
+        }, { status: 400 });
+      }
+      updates.content = content.trim();
+    }
+
+    if (Object.keys(updates).length === 0) {
+      return NextResponse.json({
+        error: 'Nothing to update',
+        code: 'NO_CHANGES'
+      }, { status: 400 });
+    }
+
+    const supabase = await createSupabaseServerClient();
+
+    const { data: template, error: updateError } = await supabase
+      .from('message_templates')
+      .update(updates)
+      .eq('id', id)
+      .eq('user_id', userId)
+      .select()
+      .maybeSingle();
+
+    if (updateError) {
+      console.error('Error updating message template:', updateError);
+      return NextResponse.json({ error: 'Failed to update message template' }, { status: 500 });
+    }
+
+    if (!template) {
+      return NextResponse.json({
+        error: 'Template not found',
+        code: 'TEMPLATE_NOT_FOUND'
+      }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      template: { ...template, variables: extractTemplateVariables(template.content) }
+    });
+  } catch (error) {
+    console.error('Error in message template PATCH API:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const supabase = await createSupabaseServerClient();
+
+    const { data: deleted, error: deleteError } = await supabase
+      .from('message_templates')
+      .delete()
+      .eq('id', id)
+      .eq('user_id', userId)
+      .select('id');
+
+    // 23503: a follow-up sequence step still sends this template
+    if (deleteError?.code === '23503') {
+      return NextResponse.json({
+        error: 'This template is used by a follow-up sequence',
+        code: 'TEMPLATE_IN_USE'
+      }, { status: 409 });
+    }
+
+    if (deleteError) {
+      console.error('Error deleting message template:', deleteError);
+      return NextResponse.json({ error: 'Failed to delete message template' }, { status: 500 });
+    }
+
+    if (!deleted || deleted.length === 0) {
+      return NextResponse.json({
+        error: 'Template not found',
+        code: 'TEMPLATE_NOT_FOUND'
+      }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error in message template DELETE API:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
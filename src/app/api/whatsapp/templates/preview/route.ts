@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createSupabaseServerClient } from '@/lib/supabase';
+import { auth } from '@clerk/nextjs/server';
+import { extractTemplateVariables, renderMessageTemplate } from '@/lib/message-template';
+import { resolveMessageContent } from '@/lib/message-template-service';
+
+// Render a saved template or draft content against one of the user's leads
+export async function POST(request: NextRequest) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const { template_id, content, lead_id } = body;
+
+    if (!lead_id || typeof lead_id !== 'string') {
+      return NextResponse.json({
+        error: 'lead_id is required',
+        code: 'INVALID_LEAD'
+      }, { status: 400 });
+    }
+
+    const supabase = await createSupabaseServerClient();
+
+    const resolved = await resolveMessageContent(supabase, userId, { template_id, message: content });
+    if (!resolved.ok) {
+      return NextResponse.json(resolved.body, { status: resolved.status });
+    }
+
+    const { data: lead, error: leadError } = await supabase
+      .from('leads')
+      .select('*, lead_searches!inner()')
+      .eq('id', lead_id)
+      .eq('lead_searches.user_id', userId)
+      .maybeSingle();
+
+    if (leadError) {
+      console.error('Error fetching lead for template preview:', leadError);
+      return NextResponse.json({ error: 'Failed to fetch lead' }, { status: 500 });
+    }
+
+    if (!lead) {
+      return NextResponse.json({
+        error: 'Lead not found',
+        code: 'LEAD_NOT_FOUND'
+      }, { status: 404 });
+    }
+
+    const rendered = renderMessageTemplate(resolved.content, lead);
+
+    return NextResponse.json({
+      content: rendered.content,
+      missing_fields: rendered.missing_fields,
+      variables: extractTemplateVariables(resolved.content),
+      can_send: rendered.missing_fields.length === 0
+    });
+  } catch (error) {
+    console.error('Error in message template preview API:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,95 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createSupabaseServerClient } from '@/lib/supabase';
+import { auth } from '@clerk/nextjs/server';
+import { extractTemplateVariables, findUnknownTemplateVariables } from '@/lib/message-template';
+
+export async function GET() {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const supabase = await createSupabaseServerClient();
+
+    const { data: templates, error: fetchError } = await supabase
+      .from('message_templates')
+      .select('*')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false });
+
+    if (fetchError) {
+      console.error('Error fetching message templates:', fetchError);
+      return NextResponse.json({ error: 'Failed to fetch message templates' }, { status: 500 });
+    }
+
+    return NextResponse.json({
+      templates: (templates || []).map(template => ({
+        ...template,
+        variables: extractTemplateVariables(template.content)
+      }))
+    });
+  } catch (error) {
+    console.error('Error in message templates GET API:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const { name, content } = body;
+
+    if (!name || typeof name !== 'string' || !name.trim()) {
+      return NextResponse.json({
+        error: 'Name is required',
+        code: 'INVALID_NAME'
+      }, { status: 400 });
+    }
+
+    if (!content || typeof content !== 'string' || !content.trim()) {
+      return NextResponse.json({
+        error: 'Template content is required',
+        code: 'INVALID_CONTENT'
+      }, { status: 400 });
+    }
+
+    const unknownVariables = findUnknownTemplateVariables(content);
+    if (unknownVariables.length > 0) {
+      return NextResponse.json({
+        error: `Unknown placeholders: ${unknownVariables.join(', ')}`,
+        code: 'INVALID_TEMPLATE_VARIABLES',
+        unknown_variables: unknownVariables
+      }, { status: 400 });
+    }
+
+    const supabase = await createSupabaseServerClient();
+
+    const { data: template, error: insertError } = await supabase
+      .from('message_templates')
+      .insert({
+        user_id: userId,
+        name: name.trim(),
+        content: content.trim(),
+      })
+      .select()
+      .single();
+
+    if (insertError) {
+      console.error('Error creating message template:', insertError);
+      return NextResponse.json({ error: 'Failed to create message template' }, { status: 500 });
+    }
+
+    return NextResponse.json({
+      template: { ...template, variables: extractTemplateVariables(template.content) }
+    }, { status: 201 });
+  } catch (error) {
+    console.error('Error in message templates POST API:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
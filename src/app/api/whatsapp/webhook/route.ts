@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse, after } from 'next/server';
+import { createSupabaseServiceClient } from '@/lib/supabase';
+import { parseWebhookPayload, verifyWebhookSignature } from '@/lib/whatsapp';
+import { applyStatusUpdates, recordIncomingMessages } from '@/lib/whatsapp-message-service';
+import { classifyIncomingMessages } from '@/lib/reply-classification-service';
+
+// Subscription handshake: Meta calls this once with the verify token configured for the webhook
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+  const mode = searchParams.get('hub.mode');
+  const token = searchParams.get('hub.verify_token');
+  const challenge = searchParams.get('hub.challenge');
+  const verifyToken = process.env.WHATSAPP_VERIFY_TOKEN;
+
+  if (mode !== 'subscribe' || !verifyToken || token !== verifyToken || !challenge) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+  }
+
+  return new NextResponse(challenge, { status: 200, headers: { 'Content-Type': 'text/plain' } });
+}
+
+// Receives delivery statuses and incoming replies from the WhatsApp Cloud API
+export async function POST(request: NextRequest) {
+  try {
+    const appSecret = process.env.WHATSAPP_APP_SECRET;
+    const rawBody = await request.text();
+
+    if (!appSecret || !verifyWebhookSignature(rawBody, request.headers.get('x-hub-signature-256'), appSecret)) {
+      return NextResponse.json({ error: 'Invalid signature' }, { status: 401 });
+    }
+
+    let payload: unknown;
+    try {
+      payload = JSON.parse(rawBody);
+    } catch {
+      return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+    }
+
+    const { statuses, messages } = parseWebhookPayload(payload);
+    // Meta calls without a user session; the signature check above is what authorizes the writes
+    const supabase = createSupabaseServiceClient();
+
+    const statusesUpdated = await applyStatusUpdates(supabase, statuses);
+    const recorded = await recordIncomingMessages(supabase, messages);
+
+    // Classifying calls a model, so it runs after Meta has its response
+    if (recorded.length > 0) {
+      after(async () => {
+        try {
+          await classifyIncomingMessages(supabase, recorded);
+        } catch (classifyError) {
+          console.error('Error classifying incoming WhatsApp messages:', classifyError);
+        }
+      });
+    }
+
+    return NextResponse.json({
+      received: true,
+      statuses_updated: statusesUpdated,
+      messages_recorded: recorded.length
+    });
+
+  } catch (error) {
+    console.error('Error in WhatsApp webhook API:', error);
+    // A 500 makes Meta retry the delivery, which the handlers above tolerate
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -1,6 +1,6 @@
 "use client";
 
-import { useEffect, useState } from 'react';
+import { useEffect, useRef, useState } from 'react';
 import { useAuth } from '@clerk/nextjs';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
@@ -59,6 +59,13 @@ export default function BillingPage() {
   const [purchasing, setPurchasing] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState<string | null>(null);
+  // One Idempotency-Key per plan or package, so a repeated click reuses the first invoice
+  const checkoutKeys = useRef<Record<string, string>>({});
+
+  const getCheckoutKey = (itemId: string) => {
+    checkoutKeys.current[itemId] ??= crypto.randomUUID();
+    return checkoutKeys.current[itemId];
+  };
 
   useEffect(() => {
     if (!isSignedIn || !userId) {
@@ -99,6 +106,22 @@ export default function BillingPage() {
     fetchData();
   }, [isSignedIn, userId]);
 
+  // Back from the hosted payment page
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search);
+    const orderId = params.get('order_id');
+    if (!orderId) {
+      return;
+    }
+
+    const transactionStatus = params.get('transaction_status');
+    if (transactionStatus && ['deny', 'cancel', 'expire', 'failure'].includes(transactionStatus)) {
+      setError(`Payment for invoice ${orderId} was not completed.`);
+    } else {
+      setSuccess(`Thanks! Invoice ${orderId} will be fulfilled as soon as the payment is confirmed.`);
+    }
+  }, []);
+
   const handleUpgradeSubscription = async (planId: string) => {
     if (!userId) return;
 
@@ -111,6 +134,7 @@ export default function BillingPage() {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
+          'Idempotency-Key': getCheckoutKey(planId),
         },
         body: JSON.stringify({ planId }),
       });
@@ -122,14 +146,8 @@ export default function BillingPage() {
         return;
       }
 
-      setSuccess('Subscription upgraded successfully!');
-      
-      // Refresh subscription data
-      const userResponse = await fetch('/api/user');
-      if (userResponse.ok) {
-        const userData = await userResponse.json();
-        setSubscription(userData.subscription);
-      }
+      // The plan changes once the payment provider confirms the payment
+      window.location.href = data.payment.redirect_url;
 
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to upgrade subscription');
@@ -150,6 +168,7 @@ export default function BillingPage() {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
+          'Idempotency-Key': getCheckoutKey(packageId),
         },
         body: JSON.stringify({ packageId }),
       });
@@ -161,14 +180,8 @@ export default function BillingPage() {
         return;
       }
 
-      setSuccess('Credits purchased successfully!');
-      
-      // Refresh credit balance
-      const balanceResponse = await fetch('/api/credits/balance');
-      if (balanceResponse.ok) {
-        const balanceData = await balanceResponse.json();
-        // Update UI with new balance if needed
-      }
+      // Credits are added once the payment provider confirms the payment
+      window.location.href = data.payment.redirect_url;
 
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to purchase credits');
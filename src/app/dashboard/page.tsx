@@ -328,9 +328,14 @@ export default function Dashboard() {
                   <Search className="w-12 h-12 mx-auto mb-4 text-gray-400" />
                   <h3 className="text-lg font-medium mb-2">No leads yet</h3>
                   <p className="text-gray-500 mb-4">Start generating leads using the scraper tool</p>
-                  <Link href="/scraper">
-                    <Button>Generate Leads</Button>
-                  </Link>
+                  <div className="flex justify-center gap-2">
+                    <Link href="/scraper">
+                      <Button>Generate Leads</Button>
+                    </Link>
+                    <Link href="/leads">
+                      <Button variant="outline">View Pipeline</Button>
+                    </Link>
+                  </div>
                 </div>
               </CardContent>
             </Card>
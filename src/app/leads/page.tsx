@@ -0,0 +1,398 @@
+"use client";
+
+import { useEffect, useState } from 'react';
+import { useAuth } from '@clerk/nextjs';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle
+} from '@/components/ui/sheet';
+import {
+  AlertCircle,
+  Building,
+  Phone,
+  Tag,
+  User,
+  X
+} from 'lucide-react';
+import Link from 'next/link';
+import {
+  LEAD_STAGES,
+  LEAD_STAGE_LABELS,
+  LeadNote,
+  LeadStage
+} from '@/lib/lead-pipeline';
+
+interface Lead {
+  id: string;
+  search_id: string;
+  name: string;
+  email: string;
+  phone: string;
+  company: string;
+  position: string;
+  linkedin_url: string;
+  source: string;
+  additional_data: Record<string, unknown> | null;
+  stage: LeadStage;
+  stage_updated_at: string;
+  tags: string[];
+  owner_id: string | null;
+}
+
+export default function LeadsPage() {
+  const { isSignedIn, userId } = useAuth();
+  const [leads, setLeads] = useState<Lead[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [tagFilter, setTagFilter] = useState('');
+  const [draggedLeadId, setDraggedLeadId] = useState<string | null>(null);
+  const [selectedLead, setSelectedLead] = useState<Lead | null>(null);
+  const [notes, setNotes] = useState<LeadNote[]>([]);
+  const [newNote, setNewNote] = useState('');
+  const [newTag, setNewTag] = useState('');
+
+  useEffect(() => {
+    if (!isSignedIn || !userId) {
+      return;
+    }
+
+    const fetchLeads = async () => {
+      try {
+        const response = await fetch('/api/leads');
+        if (response.ok) {
+          const data = await response.json();
+          setLeads(data.leads || []);
+        }
+      } catch (err) {
+        console.error('Failed to fetch leads:', err);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchLeads();
+  }, [isSignedIn, userId]);
+
+  const updateLead = async (leadId: string, updates: Partial<Pick<Lead, 'stage' | 'tags' | 'owner_id'>>) => {
+    setError(null);
+    const previousLeads = leads;
+
+    // Optimistically apply the change so cards move immediately
+    setLeads(prev => prev.map(lead => lead.id === leadId ? { ...lead, ...updates } : lead));
+    setSelectedLead(prev => prev && prev.id === leadId ? { ...prev, ...updates } : prev);
+
+    try {
+      const response = await fetch(`/api/leads/${leadId}`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(updates),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        setLeads(previousLeads);
+        setError(data.error || 'Failed to update lead');
+        return;
+      }
+
+      setLeads(prev => prev.map(lead => lead.id === leadId ? data.lead : lead));
+      setSelectedLead(prev => prev && prev.id === leadId ? data.lead : prev);
+    } catch (err) {
+      setLeads(previousLeads);
+      setError(err instanceof Error ? err.message : 'Failed to update lead');
+    }
+  };
+
+  const openLead = async (lead: Lead) => {
+    setSelectedLead(lead);
+    setNotes([]);
+    setNewNote('');
+    setNewTag('');
+
+    try {
+      const response = await fetch(`/api/leads/${lead.id}/notes`);
+      if (response.ok) {
+        const data = await response.json();
+        setNotes(data.notes || []);
+      }
+    } catch (err) {
+      console.error('Failed to fetch lead notes:', err);
+    }
+  };
+
+  const handleAddNote = async () => {
+    if (!selectedLead || !newNote.trim()) return;
+
+    try {
+      const response = await fetch(`/api/leads/${selectedLead.id}/notes`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ content: newNote.trim() }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        setError(data.error || 'Failed to add note');
+        return;
+      }
+
+      setNotes(prev => [data.note, ...prev]);
+      setNewNote('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to add note');
+    }
+  };
+
+  const handleAddTag = () => {
+    if (!selectedLead || !newTag.trim()) return;
+    updateLead(selectedLead.id, { tags: [...selectedLead.tags, newTag.trim()] });
+    setNewTag('');
+  };
+
+  const handleDrop = (stage: LeadStage) => {
+    if (!draggedLeadId) return;
+
+    const lead = leads.find(l => l.id === draggedLeadId);
+    if (lead && lead.stage !== stage) {
+      updateLead(lead.id, { stage });
+    }
+    setDraggedLeadId(null);
+  };
+
+  const visibleLeads = tagFilter
+    ? leads.filter(lead => lead.tags.includes(tagFilter.trim().toLowerCase()))
+    : leads;
+
+  if (!isSignedIn) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-indigo-50 via-white to-cyan-50 dark:from-gray-900 dark:via-gray-800 dark:to-gray-900 flex items-center justify-center">
+        <div className="text-center">
+          <h1 className="text-2xl font-bold mb-4">Please sign in to access your leads</h1>
+          <Link href="/">
+            <Button>Go to Home</Button>
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-indigo-50 via-white to-cyan-50 dark:from-gray-900 dark:via-gray-800 dark:to-gray-900">
+      <div className="container mx-auto px-4 py-8">
+        {/* Header */}
+        <div className="mb-8">
+          <div className="flex items-center justify-between">
+            <div>
+              <h1 className="text-3xl font-bold text-gray-900 dark:text-white mb-2">
+                Lead Pipeline
+              </h1>
+              <p className="text-gray-600 dark:text-gray-300">
+                Track every lead from first contact to closed deal
+              </p>
+            </div>
+            <Link href="/dashboard">
+              <Button variant="outline">Back to Dashboard</Button>
+            </Link>
+          </div>
+        </div>
+
+        <div className="mb-6 flex items-center gap-2 max-w-sm">
+          <Tag className="w-4 h-4 text-gray-500" />
+          <Input
+            placeholder="Filter by tag"
+            value={tagFilter}
+            onChange={(e) => setTagFilter(e.target.value)}
+          />
+        </div>
+
+        {error && (
+          <Alert variant="destructive" className="mb-6">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {loading ? (
+          <div className="flex justify-center py-16">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-3 xl:grid-cols-6 gap-4">
+            {LEAD_STAGES.map((stage) => {
+              const stageLeads = visibleLeads.filter(lead => lead.stage === stage);
+
+              return (
+                <Card
+                  key={stage}
+                  className="min-h-[300px]"
+                  onDragOver={(e) => e.preventDefault()}
+                  onDrop={() => handleDrop(stage)}
+                >
+                  <CardHeader className="pb-2">
+                    <CardTitle className="flex items-center justify-between text-sm">
+                      {LEAD_STAGE_LABELS[stage]}
+                      <Badge variant="secondary">{stageLeads.length}</Badge>
+                    </CardTitle>
+                  </CardHeader>
+                  <CardContent className="space-y-3">
+                    {stageLeads.map((lead) => (
+                      <div
+                        key={lead.id}
+                        draggable
+                        onDragStart={() => setDraggedLeadId(lead.id)}
+                        onClick={() => openLead(lead)}
+                        className="border rounded-lg p-3 bg-white dark:bg-gray-900 cursor-pointer hover:shadow-sm transition-shadow space-y-1"
+                      >
+                        <div className="flex items-center gap-2">
+                          <User className="w-3 h-3 text-gray-500" />
+                          <span className="font-medium text-sm truncate">{lead.name}</span>
+                        </div>
+                        <div className="flex items-center gap-2 text-xs text-gray-500">
+                          <Building className="w-3 h-3" />
+                          <span className="truncate">{lead.company}</span>
+                        </div>
+                        {lead.tags.length > 0 && (
+                          <div className="flex flex-wrap gap-1 pt-1">
+                            {lead.tags.map(tag => (
+                              <Badge key={tag} variant="outline" className="text-xs">{tag}</Badge>
+                            ))}
+                          </div>
+                        )}
+                      </div>
+                    ))}
+                  </CardContent>
+                </Card>
+              );
+            })}
+          </div>
+        )}
+      </div>
+
+      <Sheet open={selectedLead !== null} onOpenChange={(open) => !open && setSelectedLead(null)}>
+        <SheetContent className="overflow-y-auto">
+          {selectedLead && (
+            <>
+              <SheetHeader>
+                <SheetTitle>{selectedLead.name}</SheetTitle>
+                <SheetDescription>
+                  {selectedLead.position} at {selectedLead.company}
+                </SheetDescription>
+              </SheetHeader>
+
+              <div className="space-y-6 px-4 pb-6">
+                <div className="flex items-center gap-2 text-sm">
+                  <Phone className="w-4 h-4 text-gray-500" />
+                  <span>{selectedLead.phone}</span>
+                </div>
+
+                <div className="space-y-2">
+                  <Label>Stage</Label>
+                  <Select
+                    value={selectedLead.stage}
+                    onValueChange={(value) => updateLead(selectedLead.id, { stage: value as LeadStage })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {LEAD_STAGES.map(stage => (
+                        <SelectItem key={stage} value={stage}>{LEAD_STAGE_LABELS[stage]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div className="space-y-2">
+                  <Label>Owner</Label>
+                  <div className="flex items-center justify-between text-sm">
+                    <span className="text-gray-600">
+                      {selectedLead.owner_id === userId ? 'You' : selectedLead.owner_id ? selectedLead.owner_id : 'Unassigned'}
+                    </span>
+                    {selectedLead.owner_id === userId ? (
+                      <Button variant="outline" size="sm" onClick={() => updateLead(selectedLead.id, { owner_id: null })}>
+                        Unassign
+                      </Button>
+                    ) : (
+                      <Button variant="outline" size="sm" onClick={() => updateLead(selectedLead.id, { owner_id: userId })}>
+                        Assign to me
+                      </Button>
+                    )}
+                  </div>
+                </div>
+
+                <div className="space-y-2">
+                  <Label>Tags</Label>
+                  <div className="flex flex-wrap gap-1">
+                    {selectedLead.tags.map(tag => (
+                      <Badge key={tag} variant="outline" className="gap-1">
+                        {tag}
+                        <button
+                          type="button"
+                          onClick={() => updateLead(selectedLead.id, { tags: selectedLead.tags.filter(t => t !== tag) })}
+                        >
+                          <X className="w-3 h-3" />
+                        </button>
+                      </Badge>
+                    ))}
+                  </div>
+                  <div className="flex gap-2">
+                    <Input
+                      placeholder="Add a tag"
+                      value={newTag}
+                      onChange={(e) => setNewTag(e.target.value)}
+                      onKeyDown={(e) => e.key === 'Enter' && handleAddTag()}
+                    />
+                    <Button variant="outline" onClick={handleAddTag} disabled={!newTag.trim()}>
+                      Add
+                    </Button>
+                  </div>
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="note">Notes</Label>
+                  <Textarea
+                    id="note"
+                    placeholder="Add a note about this lead..."
+                    value={newNote}
+                    onChange={(e) => setNewNote(e.target.value)}
+                    rows={3}
+                  />
+                  <Button onClick={handleAddNote} disabled={!newNote.trim()} className="w-full">
+                    Add Note
+                  </Button>
+                  <div className="space-y-3 pt-2">
+                    {notes.map(note => (
+                      <div key={note.id} className="border rounded-lg p-3">
+                        <p className="text-sm whitespace-pre-wrap">{note.content}</p>
+                        <p className="text-xs text-gray-500 mt-1">
+                          {new Date(note.created_at).toLocaleString()}
+                        </p>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              </div>
+            </>
+          )}
+        </SheetContent>
+      </Sheet>
+    </div>
+  );
+}
@@ -11,6 +11,14 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { Badge } from '@/components/ui/badge';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Progress } from '@/components/ui/progress';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger
+} from '@/components/ui/dropdown-menu';
 import { 
   Search, 
   Users, 
@@ -21,7 +29,10 @@ import {
   Mail,
   Building,
   User,
-  Download
+  Download,
+  Bookmark,
+  Trash2,
+  Clock
 } from 'lucide-react';
 import Link from 'next/link';
 
@@ -47,13 +58,41 @@ interface Lead {
 
 interface SearchResult {
   search_id: string;
-  status: 'completed' | 'failed';
+  status: 'pending' | 'completed' | 'failed';
+  progress: number;
   results_count: number;
+  skipped_count: number;
+  max_results: number;
+  credits_held: number;
   credits_used: number;
-  remaining_credits: number;
+  error_message: string | null;
   leads: Lead[];
 }
 
+interface SavedSearch {
+  id: string;
+  name: string;
+  search_criteria: SearchCriteria;
+  max_results: number;
+  schedule: 'none' | 'daily' | 'weekly';
+  is_active: boolean;
+  next_run_at: string | null;
+  last_run_at: string | null;
+}
+
+interface SearchEstimate {
+  source: string;
+  credits_per_result: number;
+  max_results: number;
+  expected_results: number;
+  estimated_credits: number;
+  available_credits: number;
+  sufficient_credits: boolean;
+}
+
+const POLL_INTERVAL_MS = 2000;
+const ESTIMATE_DEBOUNCE_MS = 400;
+
 interface CreditBalance {
   scraper_credits: {
     total: number;
@@ -76,6 +115,16 @@ export default function ScraperPage() {
   const [error, setError] = useState<string | null>(null);
   const [searchHistory, setSearchHistory] = useState<any[]>([]);
   const [searchStatus, setSearchStatus] = useState<'idle' | 'holding' | 'searching' | 'processing'>('idle');
+  const [activeSearchId, setActiveSearchId] = useState<string | null>(null);
+  const [exporting, setExporting] = useState(false);
+  const [skipExisting, setSkipExisting] = useState(true);
+  const [activeTab, setActiveTab] = useState('search');
+  const [savedSearches, setSavedSearches] = useState<SavedSearch[]>([]);
+  const [saveName, setSaveName] = useState('');
+  const [savingSearch, setSavingSearch] = useState(false);
+  const [maxResults, setMaxResults] = useState(50);
+  const [estimate, setEstimate] = useState<SearchEstimate | null>(null);
+  const [estimating, setEstimating] = useState(false);
 
   useEffect(() => {
     if (!isSignedIn || !userId) {
@@ -106,10 +155,125 @@ export default function ScraperPage() {
       }
     };
 
+    const fetchSavedSearches = async () => {
+      try {
+        const response = await fetch('/api/saved-searches');
+        if (response.ok) {
+          const data = await response.json();
+          setSavedSearches(data.saved_searches || []);
+        }
+      } catch (err) {
+        console.error('Failed to fetch saved searches:', err);
+      }
+    };
+
     fetchCreditBalance();
     fetchSearchHistory();
+    fetchSavedSearches();
   }, [isSignedIn, userId]);
 
+  // Re-estimate the cost whenever the criteria, the cap or the balance change
+  useEffect(() => {
+    if (!isSignedIn || !userId) {
+      return;
+    }
+
+    let cancelled = false;
+    setEstimating(true);
+
+    const timeout = setTimeout(async () => {
+      try {
+        const response = await fetch('/api/scraper/estimate', {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({
+            search_criteria: searchCriteria,
+            max_results: maxResults,
+          }),
+        });
+
+        const data = await response.json();
+        if (cancelled) return;
+
+        setEstimate(response.ok ? data : null);
+      } catch (err) {
+        console.error('Failed to estimate search cost:', err);
+      } finally {
+        if (!cancelled) setEstimating(false);
+      }
+    }, ESTIMATE_DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [isSignedIn, userId, searchCriteria, maxResults, creditBalance]);
+
+  // Poll the queued search until the worker completes or fails it
+  useEffect(() => {
+    if (!activeSearchId) {
+      return;
+    }
+
+    let cancelled = false;
+
+    const pollSearch = async () => {
+      try {
+        const response = await fetch(`/api/scraper/search/${activeSearchId}`);
+        const data = await response.json();
+
+        if (cancelled) return;
+
+        if (!response.ok) {
+          setError(data.error || 'Failed to fetch search status');
+          setActiveSearchId(null);
+          setSearchStatus('idle');
+          return;
+        }
+
+        setSearchResult(data);
+
+        if (data.status === 'pending') {
+          setSearchStatus(data.results_count > 0 ? 'processing' : 'searching');
+          return;
+        }
+
+        if (data.status === 'failed') {
+          setError(data.error_message || 'Lead search failed');
+        }
+
+        setActiveSearchId(null);
+        setSearchStatus('idle');
+
+        // Refresh credit balance
+        const balanceResponse = await fetch('/api/credits/balance');
+        if (balanceResponse.ok) {
+          const balanceData = await balanceResponse.json();
+          setCreditBalance(balanceData);
+        }
+
+        // Refresh search history
+        const historyResponse = await fetch('/api/scraper/search');
+        if (historyResponse.ok) {
+          const historyData = await historyResponse.json();
+          setSearchHistory(historyData.searches || []);
+        }
+      } catch (err) {
+        console.error('Failed to poll search status:', err);
+      }
+    };
+
+    pollSearch();
+    const interval = setInterval(pollSearch, POLL_INTERVAL_MS);
+
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+    };
+  }, [activeSearchId]);
+
   const handleSearch = async () => {
     if (!userId) return;
 
@@ -119,11 +283,6 @@ export default function ScraperPage() {
     setSearchResult(null);
 
     try {
-      const estimatedCredits = 50; // Default estimation
-      
-      // Update status to searching
-      setSearchStatus('searching');
-      
       const response = await fetch('/api/scraper/search', {
         method: 'POST',
         headers: {
@@ -131,7 +290,8 @@ export default function ScraperPage() {
         },
         body: JSON.stringify({
           search_criteria: searchCriteria,
-          estimated_credits: estimatedCredits,
+          max_results: maxResults,
+          skip_existing: skipExisting,
         }),
       });
 
@@ -146,28 +306,133 @@ export default function ScraperPage() {
         return;
       }
 
-      setSearchStatus('processing');
-      setSearchResult(data);
-      
-      // Refresh credit balance
-      const balanceResponse = await fetch('/api/credits/balance');
-      if (balanceResponse.ok) {
-        const balanceData = await balanceResponse.json();
-        setCreditBalance(balanceData);
+      // The search is queued; results are picked up by polling its status
+      setSearchStatus('searching');
+      setActiveSearchId(data.search_id);
+
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Search failed');
+      setSearchStatus('idle');
+    } finally {
+      setSearching(false);
+    }
+  };
+
+  const searchInProgress = searching || activeSearchId !== null;
+
+  const handleSaveSearch = async () => {
+    if (!saveName.trim()) return;
+
+    setSavingSearch(true);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/saved-searches', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          name: saveName,
+          search_criteria: searchCriteria,
+          max_results: maxResults,
+        }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        setError(data.error || 'Failed to save search');
+        return;
       }
 
-      // Refresh search history
-      const historyResponse = await fetch('/api/scraper/search');
-      if (historyResponse.ok) {
-        const historyData = await historyResponse.json();
-        setSearchHistory(historyData.searches || []);
+      setSavedSearches(prev => [data.saved_search, ...prev]);
+      setSaveName('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save search');
+    } finally {
+      setSavingSearch(false);
+    }
+  };
+
+  const handleLoadSavedSearch = (savedSearch: SavedSearch) => {
+    setSearchCriteria(savedSearch.search_criteria);
+    setMaxResults(savedSearch.max_results);
+    setSaveName(savedSearch.name);
+    setActiveTab('search');
+  };
+
+  const handleScheduleChange = async (savedSearch: SavedSearch, schedule: SavedSearch['schedule']) => {
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/saved-searches/${savedSearch.id}`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ schedule }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        setError(data.error || 'Failed to update schedule');
+        return;
       }
 
+      setSavedSearches(prev => prev.map(item => item.id === savedSearch.id ? data.saved_search : item));
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Search failed');
+      setError(err instanceof Error ? err.message : 'Failed to update schedule');
+    }
+  };
+
+  const handleDeleteSavedSearch = async (savedSearch: SavedSearch) => {
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/saved-searches/${savedSearch.id}`, { method: 'DELETE' });
+
+      if (!response.ok) {
+        const data = await response.json();
+        setError(data.error || 'Failed to delete saved search');
+        return;
+      }
+
+      setSavedSearches(prev => prev.filter(item => item.id !== savedSearch.id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete saved search');
+    }
+  };
+
+  const handleExport = async (searchId: string, format: 'csv' | 'xlsx' | 'vcf') => {
+    setExporting(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/leads/export?search_id=${searchId}&format=${format}`);
+
+      if (!response.ok) {
+        const data = await response.json();
+        setError(data.error || 'Export failed');
+        return;
+      }
+
+      // Download the file using the name suggested by the server
+      const blob = await response.blob();
+      const disposition = response.headers.get('Content-Disposition') || '';
+      const filename = disposition.match(/filename="(.+)"/)?.[1] || `leads.${format}`;
+
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = filename;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Export failed');
     } finally {
-      setSearching(false);
-      setSearchStatus('idle');
+      setExporting(false);
     }
   };
 
@@ -243,9 +508,10 @@ export default function ScraperPage() {
           </Card>
         )}
 
-        <Tabs defaultValue="search" className="space-y-6">
-          <TabsList className="grid w-full grid-cols-2">
+        <Tabs value={activeTab} onValueChange={setActiveTab} className="space-y-6">
+          <TabsList className="grid w-full grid-cols-3">
             <TabsTrigger value="search">New Search</TabsTrigger>
+            <TabsTrigger value="saved">Saved Searches</TabsTrigger>
             <TabsTrigger value="history">Search History</TabsTrigger>
           </TabsList>
 
@@ -265,7 +531,10 @@ export default function ScraperPage() {
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
                   <div className="space-y-2">
                     <Label htmlFor="industry">Industry</Label>
-                    <Select onValueChange={(value) => setSearchCriteria(prev => ({ ...prev, industry: value }))}>
+                    <Select
+                      value={searchCriteria.industry || ''}
+                      onValueChange={(value) => setSearchCriteria(prev => ({ ...prev, industry: value }))}
+                    >
                       <SelectTrigger>
                         <SelectValue placeholder="Select industry" />
                       </SelectTrigger>
@@ -293,7 +562,10 @@ export default function ScraperPage() {
 
                   <div className="space-y-2">
                     <Label htmlFor="company_size">Company Size</Label>
-                    <Select onValueChange={(value) => setSearchCriteria(prev => ({ ...prev, company_size: value }))}>
+                    <Select
+                      value={searchCriteria.company_size || ''}
+                      onValueChange={(value) => setSearchCriteria(prev => ({ ...prev, company_size: value }))}
+                    >
                       <SelectTrigger>
                         <SelectValue placeholder="Select company size" />
                       </SelectTrigger>
@@ -310,7 +582,10 @@ export default function ScraperPage() {
 
                   <div className="space-y-2">
                     <Label htmlFor="position">Target Position</Label>
-                    <Select onValueChange={(value) => setSearchCriteria(prev => ({ ...prev, position: value }))}>
+                    <Select
+                      value={searchCriteria.position || ''}
+                      onValueChange={(value) => setSearchCriteria(prev => ({ ...prev, position: value }))}
+                    >
                       <SelectTrigger>
                         <SelectValue placeholder="Select position" />
                       </SelectTrigger>
@@ -338,6 +613,45 @@ export default function ScraperPage() {
                   />
                 </div>
 
+                <div className="space-y-2">
+                  <Label htmlFor="max_results">Maximum leads</Label>
+                  <Input
+                    id="max_results"
+                    type="number"
+                    min={1}
+                    max={100}
+                    value={maxResults}
+                    onChange={(e) => setMaxResults(Math.min(Math.max(parseInt(e.target.value) || 1, 1), 100))}
+                  />
+                </div>
+
+                <div className="flex items-center gap-2">
+                  <Checkbox
+                    id="skip_existing"
+                    checked={skipExisting}
+                    onCheckedChange={(checked) => setSkipExisting(checked === true)}
+                  />
+                  <Label htmlFor="skip_existing" className="font-normal">
+                    Skip leads already in my contacts (not charged)
+                  </Label>
+                </div>
+
+                <div className="flex gap-2">
+                  <Input
+                    placeholder="Name this search to reuse it later"
+                    value={saveName}
+                    onChange={(e) => setSaveName(e.target.value)}
+                  />
+                  <Button
+                    variant="outline"
+                    onClick={handleSaveSearch}
+                    disabled={savingSearch || !saveName.trim()}
+                  >
+                    <Bookmark className="w-4 h-4 mr-2" />
+                    {savingSearch ? 'Saving...' : 'Save Search'}
+                  </Button>
+                </div>
+
                 {error && (
                   <Alert variant="destructive">
                     <AlertCircle className="h-4 w-4" />
@@ -345,12 +659,42 @@ export default function ScraperPage() {
                   </Alert>
                 )}
 
+                {estimate && (
+                  <div className="rounded-lg border p-4 text-sm space-y-1">
+                    <div className="flex items-center justify-between">
+                      <span className="text-gray-600">Expected leads:</span>
+                      <span className="font-medium">{estimate.expected_results} of up to {estimate.max_results}</span>
+                    </div>
+                    <div className="flex items-center justify-between">
+                      <span className="text-gray-600">Estimated cost:</span>
+                      <span className="font-medium">
+                        {estimate.estimated_credits} credits ({estimate.credits_per_result} per lead)
+                      </span>
+                    </div>
+                    <div className="flex items-center justify-between">
+                      <span className="text-gray-600">Available credits:</span>
+                      <span className={estimate.sufficient_credits ? 'font-medium' : 'font-medium text-red-600'}>
+                        {estimate.available_credits}
+                      </span>
+                    </div>
+                    <p className="text-gray-500 pt-1">
+                      The estimate is held when the search starts. Unused credits are returned when it finishes.
+                    </p>
+                  </div>
+                )}
+
                 <Button
                   onClick={handleSearch}
-                  disabled={searching || !creditBalance || creditBalance.scraper_credits.available < 50}
+                  disabled={
+                    searchInProgress ||
+                    estimating ||
+                    !estimate ||
+                    !estimate.sufficient_credits ||
+                    estimate.expected_results === 0
+                  }
                   className="w-full"
                 >
-                  {searching ? (
+                  {searchInProgress ? (
                     <>
                       <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white mr-2"></div>
                       {searchStatus === 'holding' ? 'Reserving credits...' :
@@ -360,7 +704,7 @@ export default function ScraperPage() {
                   ) : (
                     <>
                       <Search className="w-4 h-4 mr-2" />
-                      Search Leads (50 credits)
+                      Search Leads ({estimate ? estimate.estimated_credits : '-'} credits)
                     </>
                   )}
                 </Button>
@@ -372,21 +716,43 @@ export default function ScraperPage() {
               <Card>
                 <CardHeader>
                   <CardTitle className="flex items-center gap-2">
-                    <CheckCircle className="w-5 h-5 text-green-500" />
+                    {searchResult.status === 'pending' ? (
+                      <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-blue-500"></div>
+                    ) : (
+                      <CheckCircle className="w-5 h-5 text-green-500" />
+                    )}
                     Search Results
                   </CardTitle>
                   <CardDescription>
-                    Found {searchResult.results_count} leads using {searchResult.credits_used} credits
-                    {searchResult.credits_refunded > 0 && (
-                      <span className="text-green-600 ml-2">
-                        ({searchResult.credits_refunded} credits refunded)
-                      </span>
+                    {searchResult.status === 'pending' ? (
+                      <>Found {searchResult.results_count} of up to {searchResult.max_results} leads so far</>
+                    ) : (
+                      <>
+                        Found {searchResult.results_count} leads using {searchResult.credits_used} credits
+                        {searchResult.skipped_count > 0 && (
+                          <span className="ml-2">
+                            ({searchResult.skipped_count} existing contacts skipped)
+                          </span>
+                        )}
+                        {searchResult.credits_held > searchResult.credits_used && (
+                          <span className="text-green-600 ml-2">
+                            ({searchResult.credits_held - searchResult.credits_used} credits refunded)
+                          </span>
+                        )}
+                      </>
                     )}
                   </CardDescription>
                 </CardHeader>
                 <CardContent>
+                  {searchResult.status === 'pending' && (
+                    <div className="mb-6 space-y-2">
+                      <Progress value={searchResult.progress} />
+                      <p className="text-sm text-gray-500">{searchResult.progress}% complete</p>
+                    </div>
+                  )}
+
                   <div className="space-y-4">
-                    {searchResult.leads.map((lead, index) => (
+                    {searchResult.leads.map((lead) => (
                       <div key={lead.id} className="border rounded-lg p-4 space-y-2">
                         <div className="flex items-start justify-between">
                           <div className="flex items-center gap-2">
@@ -420,23 +786,112 @@ export default function ScraperPage() {
                   
                   <div className="mt-6 flex justify-between items-center">
                     <div className="text-sm text-gray-500">
-                      <div>Remaining credits: {searchResult.remaining_credits}</div>
-                      {searchResult.credits_held > searchResult.credits_used && (
+                      {creditBalance && (
+                        <div>Remaining credits: {creditBalance.scraper_credits.available}</div>
+                      )}
+                      {searchResult.status === 'completed' && searchResult.credits_held > searchResult.credits_used && (
                         <div className="text-green-600">
-                          {searchResult.credits_refunded} credits refunded to your account
+                          {searchResult.credits_held - searchResult.credits_used} credits refunded to your account
                         </div>
                       )}
                     </div>
-                    <Button variant="outline">
-                      <Download className="w-4 h-4 mr-2" />
-                      Export Leads
-                    </Button>
+                    <DropdownMenu>
+                      <DropdownMenuTrigger asChild>
+                        <Button
+                          variant="outline"
+                          disabled={exporting || searchResult.status !== 'completed' || searchResult.results_count === 0}
+                        >
+                          <Download className="w-4 h-4 mr-2" />
+                          {exporting ? 'Exporting...' : 'Export Leads'}
+                        </Button>
+                      </DropdownMenuTrigger>
+                      <DropdownMenuContent align="end">
+                        <DropdownMenuItem onClick={() => handleExport(searchResult.search_id, 'csv')}>
+                          CSV (.csv)
+                        </DropdownMenuItem>
+                        <DropdownMenuItem onClick={() => handleExport(searchResult.search_id, 'xlsx')}>
+                          Excel (.xlsx)
+                        </DropdownMenuItem>
+                        <DropdownMenuItem onClick={() => handleExport(searchResult.search_id, 'vcf')}>
+                          vCard (.vcf)
+                        </DropdownMenuItem>
+                      </DropdownMenuContent>
+                    </DropdownMenu>
                   </div>
                 </CardContent>
               </Card>
             )}
           </TabsContent>
 
+          <TabsContent value="saved" className="space-y-6">
+            <Card>
+              <CardHeader>
+                <CardTitle>Saved Searches</CardTitle>
+                <CardDescription>
+                  Reuse search criteria or run them automatically. Scheduled runs hold credits like a normal
+                  search and only deliver leads that are not already in your contacts.
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                {savedSearches.length === 0 ? (
+                  <div className="text-center py-8">
+                    <Bookmark className="w-12 h-12 mx-auto mb-4 text-gray-400" />
+                    <h3 className="text-lg font-medium mb-2">No saved searches</h3>
+                    <p className="text-gray-500">Name a search in the New Search tab to save it here</p>
+                  </div>
+                ) : (
+                  <div className="space-y-4">
+                    {savedSearches.map((savedSearch) => (
+                      <div key={savedSearch.id} className="border rounded-lg p-4 space-y-3">
+                        <div className="flex items-center justify-between gap-4">
+                          <div>
+                            <h3 className="font-medium">{savedSearch.name}</h3>
+                            <p className="text-sm text-gray-500">
+                              {Object.values(savedSearch.search_criteria).filter(Boolean).join(' • ') || 'Any criteria'}
+                            </p>
+                          </div>
+                          <div className="flex items-center gap-2">
+                            <Select
+                              value={savedSearch.schedule}
+                              onValueChange={(value) => handleScheduleChange(savedSearch, value as SavedSearch['schedule'])}
+                            >
+                              <SelectTrigger className="w-32">
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                <SelectItem value="none">Not scheduled</SelectItem>
+                                <SelectItem value="daily">Daily</SelectItem>
+                                <SelectItem value="weekly">Weekly</SelectItem>
+                              </SelectContent>
+                            </Select>
+                            <Button variant="outline" size="sm" onClick={() => handleLoadSavedSearch(savedSearch)}>
+                              Load
+                            </Button>
+                            <Button variant="ghost" size="sm" onClick={() => handleDeleteSavedSearch(savedSearch)}>
+                              <Trash2 className="w-4 h-4" />
+                            </Button>
+                          </div>
+                        </div>
+                        {savedSearch.schedule !== 'none' && (
+                          <div className="flex items-center gap-4 text-sm text-gray-500">
+                            <span className="flex items-center gap-1">
+                              <Clock className="w-4 h-4" />
+                              Next run: {savedSearch.next_run_at ? new Date(savedSearch.next_run_at).toLocaleString() : '-'}
+                            </span>
+                            {savedSearch.last_run_at && (
+                              <span>Last run: {new Date(savedSearch.last_run_at).toLocaleString()}</span>
+                            )}
+                            <span>Up to {savedSearch.max_results} leads per run</span>
+                          </div>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </TabsContent>
+
           <TabsContent value="history" className="space-y-6">
             <Card>
               <CardHeader>
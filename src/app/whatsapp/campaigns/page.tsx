@@ -0,0 +1,497 @@
+"use client";
+
+import { useEffect, useState } from 'react';
+import { useAuth } from '@clerk/nextjs';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Progress } from '@/components/ui/progress';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  AlertCircle,
+  CheckCheck,
+  CheckCircle,
+  Clock,
+  Megaphone,
+  Send,
+  XCircle
+} from 'lucide-react';
+import Link from 'next/link';
+import { LEAD_STAGES, LEAD_STAGE_LABELS } from '@/lib/lead-pipeline';
+
+interface Campaign {
+  id: string;
+  name: string;
+  message: string;
+  target: { search_id?: string; tag?: string; stage?: string };
+  status: 'pending' | 'running' | 'completed' | 'cancelled' | 'failed';
+  total_recipients: number;
+  sent_count: number;
+  failed_count: number;
+  credits_held: number;
+  credits_used: number;
+  error_message: string | null;
+  created_at: string;
+}
+
+interface CampaignRecipient {
+  id: string;
+  lead_id: string | null;
+  phone_number: string;
+  status: 'pending' | 'sent' | 'failed' | 'cancelled';
+  delivery_status: 'pending' | 'sent' | 'delivered' | 'read' | 'failed' | null;
+  error_message: string | null;
+  sent_at: string | null;
+  leads: { name: string; company: string | null } | null;
+}
+
+interface CampaignDetail {
+  campaign: Campaign;
+  progress: number;
+  recipients: CampaignRecipient[];
+}
+
+interface LeadSearch {
+  id: string;
+  created_at: string;
+  results_count: number;
+  search_criteria: Record<string, string>;
+}
+
+const POLL_INTERVAL_MS = 2000;
+const ANY_VALUE = 'any';
+
+export default function CampaignsPage() {
+  const { isSignedIn, userId } = useAuth();
+  const [campaigns, setCampaigns] = useState<Campaign[]>([]);
+  const [searches, setSearches] = useState<LeadSearch[]>([]);
+  const [name, setName] = useState('');
+  const [message, setMessage] = useState('');
+  const [searchId, setSearchId] = useState(ANY_VALUE);
+  const [tag, setTag] = useState('');
+  const [stage, setStage] = useState(ANY_VALUE);
+  const [sendIntervalMs, setSendIntervalMs] = useState('1000');
+  const [creating, setCreating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [selectedCampaignId, setSelectedCampaignId] = useState<string | null>(null);
+  const [detail, setDetail] = useState<CampaignDetail | null>(null);
+
+  const fetchCampaigns = async () => {
+    try {
+      const response = await fetch('/api/whatsapp/campaigns');
+      if (response.ok) {
+        const data = await response.json();
+        setCampaigns(data.campaigns || []);
+      }
+    } catch (err) {
+      console.error('Failed to fetch campaigns:', err);
+    }
+  };
+
+  useEffect(() => {
+    if (!isSignedIn || !userId) {
+      return;
+    }
+
+    const fetchSearches = async () => {
+      try {
+        const response = await fetch('/api/scraper/search?limit=50');
+        if (response.ok) {
+          const data = await response.json();
+          setSearches((data.searches || []).filter((search: LeadSearch) => search.results_count > 0));
+        }
+      } catch (err) {
+        console.error('Failed to fetch lead searches:', err);
+      }
+    };
+
+    fetchCampaigns();
+    fetchSearches();
+  }, [isSignedIn, userId]);
+
+  // Poll the selected campaign while it is sending so recipient statuses update live
+  useEffect(() => {
+    if (!selectedCampaignId) {
+      setDetail(null);
+      return;
+    }
+
+    let cancelled = false;
+    let interval: ReturnType<typeof setInterval> | null = null;
+
+    const pollCampaign = async () => {
+      try {
+        const response = await fetch(`/api/whatsapp/campaigns/${selectedCampaignId}`);
+        const data = await response.json();
+
+        if (cancelled) return;
+
+        if (!response.ok) {
+          setError(data.error || 'Failed to fetch campaign');
+          return;
+        }
+
+        setDetail(data);
+        setCampaigns(prev => prev.map(item => item.id === data.campaign.id ? data.campaign : item));
+
+        if (!['pending', 'running'].includes(data.campaign.status) && interval) {
+          clearInterval(interval);
+          interval = null;
+        }
+      } catch (err) {
+        console.error('Failed to poll campaign:', err);
+      }
+    };
+
+    pollCampaign();
+    interval = setInterval(pollCampaign, POLL_INTERVAL_MS);
+
+    return () => {
+      cancelled = true;
+      if (interval) clearInterval(interval);
+    };
+  }, [selectedCampaignId]);
+
+  const handleCreateCampaign = async () => {
+    if (!name.trim() || !message.trim()) {
+      setError('Please enter a campaign name and message');
+      return;
+    }
+
+    if (searchId === ANY_VALUE && !tag.trim()) {
+      setError('Please choose a lead search or a tag to select recipients');
+      return;
+    }
+
+    setCreating(true);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/whatsapp/campaigns', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          name: name.trim(),
+          message: message.trim(),
+          target: {
+            search_id: searchId !== ANY_VALUE ? searchId : undefined,
+            tag: tag.trim().toLowerCase() || undefined,
+            stage: stage !== ANY_VALUE ? stage : undefined,
+          },
+          send_interval_ms: parseInt(sendIntervalMs),
+        }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        if (response.status === 402 && data.available_credits !== undefined) {
+          setError(`Insufficient credits. You have ${data.available_credits} interaction credits available, but ${data.required_credits} are required.`);
+        } else {
+          setError(data.error || 'Failed to create campaign');
+        }
+        return;
+      }
+
+      setName('');
+      setMessage('');
+      await fetchCampaigns();
+      setSelectedCampaignId(data.campaign_id);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create campaign');
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const handleCancelCampaign = async (campaignId: string) => {
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/whatsapp/campaigns/${campaignId}/cancel`, { method: 'POST' });
+      const data = await response.json();
+
+      if (!response.ok) {
+        setError(data.error || 'Failed to cancel campaign');
+        return;
+      }
+
+      await fetchCampaigns();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to cancel campaign');
+    }
+  };
+
+  const getRecipientStatusIcon = (recipient: CampaignRecipient) => {
+    switch (recipient.delivery_status || recipient.status) {
+      case 'sent':
+        return <CheckCircle className="w-4 h-4 text-blue-500" />;
+      case 'delivered':
+        return <CheckCheck className="w-4 h-4 text-green-500" />;
+      case 'read':
+        return <CheckCheck className="w-4 h-4 text-green-600" />;
+      case 'failed':
+        return <AlertCircle className="w-4 h-4 text-red-500" />;
+      case 'cancelled':
+        return <XCircle className="w-4 h-4 text-gray-400" />;
+      default:
+        return <Clock className="w-4 h-4 text-yellow-500" />;
+    }
+  };
+
+  if (!isSignedIn) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-indigo-50 via-white to-cyan-50 dark:from-gray-900 dark:via-gray-800 dark:to-gray-900 flex items-center justify-center">
+        <div className="text-center">
+          <h1 className="text-2xl font-bold mb-4">Please sign in to access campaigns</h1>
+          <Link href="/">
+            <Button>Go to Home</Button>
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-indigo-50 via-white to-cyan-50 dark:from-gray-900 dark:via-gray-800 dark:to-gray-900">
+      <div className="container mx-auto px-4 py-8">
+        {/* Header */}
+        <div className="mb-8">
+          <div className="flex items-center justify-between">
+            <div>
+              <h1 className="text-3xl font-bold text-gray-900 dark:text-white mb-2">
+                WhatsApp Campaigns
+              </h1>
+              <p className="text-gray-600 dark:text-gray-300">
+                Send one message to a whole segment of your leads
+              </p>
+            </div>
+            <Link href="/whatsapp">
+              <Button variant="outline">Back to WhatsApp</Button>
+            </Link>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <div className="space-y-6">
+            {/* New Campaign */}
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Megaphone className="w-5 h-5" />
+                  New Campaign
+                </CardTitle>
+                <CardDescription>
+                  Credits for every recipient are held up front. Failed and unsent messages are returned.
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="campaign_name">Campaign Name</Label>
+                  <Input
+                    id="campaign_name"
+                    placeholder="e.g., Jakarta tech CEOs - March"
+                    value={name}
+                    onChange={(e) => setName(e.target.value)}
+                  />
+                </div>
+
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label>Lead Search</Label>
+                    <Select value={searchId} onValueChange={setSearchId}>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Any search" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={ANY_VALUE}>Any search</SelectItem>
+                        {searches.map((search) => (
+                          <SelectItem key={search.id} value={search.id}>
+                            {new Date(search.created_at).toLocaleDateString()} • {search.results_count} leads
+                            {search.search_criteria?.industry ? ` • ${search.search_criteria.industry}` : ''}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label htmlFor="campaign_tag">Tag</Label>
+                    <Input
+                      id="campaign_tag"
+                      placeholder="e.g., hot"
+                      value={tag}
+                      onChange={(e) => setTag(e.target.value)}
+                    />
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label>Stage</Label>
+                    <Select value={stage} onValueChange={setStage}>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Any stage" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={ANY_VALUE}>Any stage</SelectItem>
+                        {LEAD_STAGES.map((leadStage) => (
+                          <SelectItem key={leadStage} value={leadStage}>
+                            {LEAD_STAGE_LABELS[leadStage]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label>Send Rate</Label>
+                    <Select value={sendIntervalMs} onValueChange={setSendIntervalMs}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="500">2 messages per second</SelectItem>
+                        <SelectItem value="1000">1 message per second</SelectItem>
+                        <SelectItem value="5000">1 message every 5 seconds</SelectItem>
+                        <SelectItem value="30000">1 message every 30 seconds</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="campaign_message">Message</Label>
+                  <Textarea
+                    id="campaign_message"
+                    placeholder="Hi {{name}}, ..."
+                    value={message}
+                    onChange={(e) => setMessage(e.target.value)}
+                    rows={4}
+                  />
+                  <p className="text-sm text-gray-500">
+                    1 interaction credit per recipient with a phone number. Placeholders such as {'{{name}}'} are
+                    filled per lead; leads missing a required field are skipped.
+                  </p>
+                </div>
+
+                {error && (
+                  <Alert variant="destructive">
+                    <AlertCircle className="h-4 w-4" />
+                    <AlertDescription>{error}</AlertDescription>
+                  </Alert>
+                )}
+
+                <Button onClick={handleCreateCampaign} disabled={creating} className="w-full">
+                  {creating ? (
+                    <>
+                      <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white mr-2"></div>
+                      Reserving credits...
+                    </>
+                  ) : (
+                    <>
+                      <Send className="w-4 h-4 mr-2" />
+                      Start Campaign
+                    </>
+                  )}
+                </Button>
+              </CardContent>
+            </Card>
+
+            {/* Campaign List */}
+            <Card>
+              <CardHeader>
+                <CardTitle>Campaigns</CardTitle>
+              </CardHeader>
+              <CardContent>
+                {campaigns.length === 0 ? (
+                  <p className="text-center text-gray-500 py-8">No campaigns yet</p>
+                ) : (
+                  <div className="space-y-3">
+                    {campaigns.map((campaign) => (
+                      <div
+                        key={campaign.id}
+                        className={`border rounded-lg p-4 cursor-pointer transition-colors hover:bg-gray-50 dark:hover:bg-gray-800 ${selectedCampaignId === campaign.id ? 'border-blue-500' : ''}`}
+                        onClick={() => setSelectedCampaignId(campaign.id)}
+                      >
+                        <div className="flex items-center justify-between mb-1">
+                          <h3 className="font-medium">{campaign.name}</h3>
+                          <Badge variant={campaign.status === 'completed' ? 'default' : 'secondary'}>
+                            {campaign.status}
+                          </Badge>
+                        </div>
+                        <p className="text-sm text-gray-500">
+                          {campaign.sent_count} sent • {campaign.failed_count} failed • {campaign.total_recipients} recipients
+                        </p>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+
+          {/* Campaign Detail */}
+          <Card>
+            <CardHeader>
+              <CardTitle>{detail ? detail.campaign.name : 'Campaign Progress'}</CardTitle>
+              <CardDescription>
+                {detail
+                  ? `${detail.campaign.credits_used} of ${detail.campaign.credits_held} held credits used`
+                  : 'Select a campaign to follow its progress'}
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {detail && (
+                <div className="space-y-6">
+                  <div className="space-y-2">
+                    <Progress value={detail.progress} />
+                    <div className="flex items-center justify-between text-sm text-gray-500">
+                      <span>{detail.progress}% complete</span>
+                      {['pending', 'running'].includes(detail.campaign.status) && (
+                        <Button variant="outline" size="sm" onClick={() => handleCancelCampaign(detail.campaign.id)}>
+                          Cancel Campaign
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+
+                  {detail.campaign.error_message && (
+                    <Alert variant="destructive">
+                      <AlertCircle className="h-4 w-4" />
+                      <AlertDescription>{detail.campaign.error_message}</AlertDescription>
+                    </Alert>
+                  )}
+
+                  <div className="space-y-2">
+                    {detail.recipients.map((recipient) => (
+                      <div key={recipient.id} className="flex items-center justify-between border rounded p-3 text-sm">
+                        <div>
+                          <p className="font-medium">{recipient.leads?.name || recipient.phone_number}</p>
+                          <p className="text-gray-500">
+                            {recipient.leads?.company ? `${recipient.leads.company} • ` : ''}+{recipient.phone_number}
+                          </p>
+                          {recipient.error_message && (
+                            <p className="text-red-600">{recipient.error_message}</p>
+                          )}
+                        </div>
+                        <div className="flex items-center gap-2">
+                          {getRecipientStatusIcon(recipient)}
+                          <span>{recipient.delivery_status || recipient.status}</span>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -11,6 +11,7 @@ import { Badge } from '@/components/ui/badge';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Checkbox } from '@/components/ui/checkbox';
 import { 
   MessageSquare, 
   CreditCard, 
@@ -20,10 +21,23 @@ import {
   Mail,
   User,
   Send,
-  Clock,
-  CheckCheck
+  FileText,
+  Trash2,
+  Paperclip,
+  Sparkles,
+  X
 } from 'lucide-react';
 import Link from 'next/link';
+import WhatsAppInbox from '@/components/whatsapp-inbox';
+import WhatsAppOptOuts from '@/components/whatsapp-opt-outs';
+import WhatsAppSendSettings from '@/components/whatsapp-send-settings';
+import WhatsAppScheduledMessages from '@/components/whatsapp-scheduled-messages';
+import WhatsAppFollowUps from '@/components/whatsapp-follow-ups';
+import { extractTemplateVariables, hasTemplateVariables, TEMPLATE_LEAD_FIELDS } from '@/lib/message-template';
+import { isValidPhoneNumber } from '@/lib/phone';
+import { validateMediaFile, WHATSAPP_MEDIA_MIME_TYPES, WhatsAppMediaType } from '@/lib/whatsapp-media';
+import { getMessageCredits } from '@/lib/whatsapp-pricing';
+import { OUTREACH_DRAFT_CREDITS } from '@/lib/outreach-draft';
 
 interface Lead {
   id: string;
@@ -37,19 +51,23 @@ interface Lead {
   additional_data: any;
 }
 
-interface WhatsAppMessage {
+interface MessageTemplate {
   id: string;
-  user_id: string;
-  lead_id: string | null;
-  message_type: 'outgoing' | 'incoming';
+  name: string;
   content: string;
-  whatsapp_message_id: string | null;
-  status: 'pending' | 'sent' | 'delivered' | 'read' | 'failed';
-  credits_used: number;
-  error_message: string | null;
-  sent_at: string | null;
   created_at: string;
-  lead?: Lead;
+}
+
+interface UploadedMedia {
+  id: string;
+  media_type: WhatsAppMediaType;
+  file_name: string;
+  size_bytes: number;
+}
+
+interface TemplatePreview {
+  content: string;
+  missing_fields: string[];
 }
 
 interface CreditBalance {
@@ -61,13 +79,25 @@ export default function WhatsAppPage() {
   const { isSignedIn, userId } = useAuth();
   const [creditBalance, setCreditBalance] = useState<CreditBalance | null>(null);
   const [leads, setLeads] = useState<Lead[]>([]);
-  const [messages, setMessages] = useState<WhatsAppMessage[]>([]);
   const [selectedLead, setSelectedLead] = useState<Lead | null>(null);
   const [phoneNumber, setPhoneNumber] = useState('');
   const [message, setMessage] = useState('');
   const [sending, setSending] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState<string | null>(null);
+  const [templates, setTemplates] = useState<MessageTemplate[]>([]);
+  const [selectedTemplateId, setSelectedTemplateId] = useState<string | null>(null);
+  const [preview, setPreview] = useState<TemplatePreview | null>(null);
+  const [templateName, setTemplateName] = useState('');
+  const [templateContent, setTemplateContent] = useState('');
+  const [savingTemplate, setSavingTemplate] = useState(false);
+  const [templateError, setTemplateError] = useState<string | null>(null);
+  const [queueIfLimited, setQueueIfLimited] = useState(true);
+  const [sendAt, setSendAt] = useState('');
+  const [attachment, setAttachment] = useState<UploadedMedia | null>(null);
+  const [uploading, setUploading] = useState(false);
+  const [draftGoal, setDraftGoal] = useState('');
+  const [drafting, setDrafting] = useState(false);
 
   useEffect(() => {
     if (!isSignedIn || !userId) {
@@ -83,39 +113,19 @@ export default function WhatsAppPage() {
           setCreditBalance(balanceData);
         }
 
-        // Fetch WhatsApp messages
-        const messagesResponse = await fetch('/api/whatsapp/send');
-        if (messagesResponse.ok) {
-          const messagesData = await messagesResponse.json();
-          setMessages(messagesData.messages || []);
+        // Fetch leads
+        const leadsResponse = await fetch('/api/leads');
+        if (leadsResponse.ok) {
+          const leadsData = await leadsResponse.json();
+          setLeads(leadsData.leads || []);
         }
 
-        // Fetch leads (mock data for now)
-        // In real implementation, this would fetch from /api/leads
-        setLeads([
-          {
-            id: '1',
-            name: 'John Doe',
-            email: 'john@example.com',
-            phone: '+628123456789',
-            company: 'TechCorp',
-            position: 'CEO',
-            linkedin_url: 'https://linkedin.com/in/johndoe',
-            source: 'scraper',
-            additional_data: { industry: 'Technology', location: 'Jakarta' }
-          },
-          {
-            id: '2',
-            name: 'Jane Smith',
-            email: 'jane@example.com',
-            phone: '+628987654321',
-            company: 'HealthPlus',
-            position: 'CTO',
-            linkedin_url: 'https://linkedin.com/in/janesmith',
-            source: 'scraper',
-            additional_data: { industry: 'Healthcare', location: 'Surabaya' }
-          }
-        ]);
+        // Fetch message templates
+        const templatesResponse = await fetch('/api/whatsapp/templates');
+        if (templatesResponse.ok) {
+          const templatesData = await templatesResponse.json();
+          setTemplates(templatesData.templates || []);
+        }
       } catch (err) {
         console.error('Failed to fetch data:', err);
       }
@@ -124,11 +134,207 @@ export default function WhatsAppPage() {
     fetchData();
   }, [isSignedIn, userId]);
 
+  // Preview placeholders against the selected lead so missing fields show before sending
+  useEffect(() => {
+    if (!selectedLead || !hasTemplateVariables(message)) {
+      setPreview(null);
+      return;
+    }
+
+    const timeout = setTimeout(async () => {
+      try {
+        const response = await fetch('/api/whatsapp/templates/preview', {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({
+            content: message,
+            lead_id: selectedLead.id,
+          }),
+        });
+
+        if (response.ok) {
+          setPreview(await response.json());
+        } else {
+          setPreview(null);
+        }
+      } catch (err) {
+        console.error('Failed to preview template:', err);
+      }
+    }, 400);
+
+    return () => clearTimeout(timeout);
+  }, [selectedLead, message]);
+
+  const handleSelectTemplate = (templateId: string) => {
+    const template = templates.find(t => t.id === templateId);
+    setSelectedTemplateId(template ? template.id : null);
+    if (template) {
+      setMessage(template.content);
+    }
+  };
+
+  const handleSaveTemplate = async () => {
+    if (!templateName.trim() || !templateContent.trim()) {
+      setTemplateError('Please enter a name and message for the template');
+      return;
+    }
+
+    setSavingTemplate(true);
+    setTemplateError(null);
+
+    try {
+      const response = await fetch('/api/whatsapp/templates', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          name: templateName.trim(),
+          content: templateContent.trim(),
+        }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        setTemplateError(data.error || 'Failed to save template');
+        return;
+      }
+
+      setTemplates([data.template, ...templates]);
+      setTemplateName('');
+      setTemplateContent('');
+    } catch (err) {
+      setTemplateError(err instanceof Error ? err.message : 'Failed to save template');
+    } finally {
+      setSavingTemplate(false);
+    }
+  };
+
+  const handleDeleteTemplate = async (templateId: string) => {
+    try {
+      const response = await fetch(`/api/whatsapp/templates/${templateId}`, { method: 'DELETE' });
+
+      if (!response.ok) {
+        const data = await response.json();
+        setTemplateError(data.error || 'Failed to delete template');
+        return;
+      }
+
+      setTemplates(templates.filter(t => t.id !== templateId));
+      if (selectedTemplateId === templateId) {
+        setSelectedTemplateId(null);
+      }
+    } catch (err) {
+      setTemplateError(err instanceof Error ? err.message : 'Failed to delete template');
+    }
+  };
+
+  const refreshCreditBalance = async () => {
+    const balanceResponse = await fetch('/api/credits/balance');
+    if (balanceResponse.ok) {
+      const balanceData = await balanceResponse.json();
+      setCreditBalance(balanceData);
+    }
+  };
+
+  const handleAttachFile = async (file: File) => {
+    const validation = validateMediaFile(file);
+    if (!validation.ok) {
+      setError(validation.error);
+      return;
+    }
+
+    setUploading(true);
+    setError(null);
+
+    try {
+      const formData = new FormData();
+      formData.append('file', file);
+
+      const response = await fetch('/api/whatsapp/media', {
+        method: 'POST',
+        body: formData,
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        setError(data.error || 'Failed to upload file');
+        return;
+      }
+
+      setAttachment(data.media);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to upload file');
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  // Stream an AI draft for the selected lead straight into the message box
+  const handleDraftMessage = async () => {
+    if (!selectedLead || !draftGoal.trim()) return;
+
+    setDrafting(true);
+    setError(null);
+    setSuccess(null);
+
+    try {
+      const response = await fetch('/api/whatsapp/draft', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          lead_id: selectedLead.id,
+          goal: draftGoal.trim(),
+        }),
+      });
+
+      if (!response.ok || !response.body) {
+        const data = await response.json().catch(() => ({}));
+        if (response.status === 402 && data.available_credits !== undefined) {
+          setError(`Insufficient credits. You have ${data.available_credits} interaction credits, but ${data.required_credits} are required.`);
+        } else {
+          setError(data.error || 'Failed to draft message');
+        }
+        return;
+      }
+
+      setSelectedTemplateId(null);
+      setMessage('');
+
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let draft = '';
+
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        draft += decoder.decode(value, { stream: true });
+        setMessage(draft);
+      }
+
+      if (!draft.trim()) {
+        setError('The AI could not write a draft. No credits were used.');
+      }
+
+      await refreshCreditBalance();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to draft message');
+    } finally {
+      setDrafting(false);
+    }
+  };
+
   const handleSendMessage = async () => {
     if (!userId) return;
 
-    if (!message.trim()) {
-      setError('Please enter a message');
+    if (!message.trim() && !attachment) {
+      setError('Please enter a message or attach a file');
       return;
     }
 
@@ -137,6 +343,11 @@ export default function WhatsAppPage() {
       return;
     }
 
+    if (phoneNumber.trim() && !isValidPhoneNumber(phoneNumber)) {
+      setError('Please enter a valid phone number, e.g. 0812 3456 7890 or +62 812 3456 7890');
+      return;
+    }
+
     setSending(true);
     setError(null);
     setSuccess(null);
@@ -150,14 +361,24 @@ export default function WhatsAppPage() {
         body: JSON.stringify({
           lead_id: selectedLead?.id || null,
           phone_number: phoneNumber || null,
-          message: message.trim(),
+          // An edited template is sent as plain message content
+          ...(selectedTemplate && selectedTemplate.content === message
+            ? { template_id: selectedTemplate.id }
+            : { message: message.trim() }),
+          media_id: attachment?.id || null,
+          queue_if_limited: queueIfLimited,
+          ...(sendAt ? { scheduled_for: new Date(sendAt).toISOString() } : {}),
         }),
       });
 
       const data = await response.json();
 
       if (!response.ok) {
-        if (response.status === 400 && data.available_credits !== undefined) {
+        if (data.code === 'MISSING_TEMPLATE_FIELDS') {
+          setError(`This lead is missing ${data.missing_fields.join(', ')}. Fill in the lead or add a fallback like {{company|your company}}.`);
+        } else if (response.status === 429) {
+          setError(`${data.error}. You can send again at ${new Date(data.retry_at).toLocaleString()}.`);
+        } else if (response.status === 402 && data.available_credits !== undefined) {
           setError(`Insufficient credits. You have ${data.available_credits} interaction credits, but ${data.required_credits} are required.`);
         } else {
           setError(data.error || 'Failed to send message');
@@ -165,23 +386,21 @@ export default function WhatsAppPage() {
         return;
       }
 
-      setSuccess('Message sent successfully!');
+      if (data.status !== 'queued') {
+        setSuccess('Message sent successfully!');
+      } else if (data.reason === 'scheduled') {
+        setSuccess(`Message scheduled for ${new Date(data.scheduled_for).toLocaleString()}. Credits are used when it is sent.`);
+      } else {
+        setSuccess(`Message queued. It will be sent at ${new Date(data.scheduled_for).toLocaleString()}.`);
+      }
       setMessage('');
+      setSendAt('');
+      setAttachment(null);
+      setSelectedTemplateId(null);
       setSelectedLead(null);
       setPhoneNumber('');
 
-      // Refresh messages and credit balance
-      const messagesResponse = await fetch('/api/whatsapp/send');
-      if (messagesResponse.ok) {
-        const messagesData = await messagesResponse.json();
-        setMessages(messagesData.messages || []);
-      }
-
-      const balanceResponse = await fetch('/api/credits/balance');
-      if (balanceResponse.ok) {
-        const balanceData = await balanceResponse.json();
-        setCreditBalance(balanceData);
-      }
+      await refreshCreditBalance();
 
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to send message');
@@ -190,22 +409,9 @@ export default function WhatsAppPage() {
     }
   };
 
-  const getStatusIcon = (status: string) => {
-    switch (status) {
-      case 'pending':
-        return <Clock className="w-4 h-4 text-yellow-500" />;
-      case 'sent':
-        return <CheckCircle className="w-4 h-4 text-blue-500" />;
-      case 'delivered':
-        return <CheckCheck className="w-4 h-4 text-green-500" />;
-      case 'read':
-        return <CheckCheck className="w-4 h-4 text-green-600" />;
-      case 'failed':
-        return <AlertCircle className="w-4 h-4 text-red-500" />;
-      default:
-        return <Clock className="w-4 h-4 text-gray-500" />;
-    }
-  };
+  const selectedTemplate = templates.find(t => t.id === selectedTemplateId) || null;
+  const messageCredits = getMessageCredits(attachment ? attachment.media_type : 'text', attachment?.size_bytes);
+  const creditLabel = `${messageCredits} credit${messageCredits === 1 ? '' : 's'}`;
 
   if (!isSignedIn) {
     return (
@@ -234,9 +440,14 @@ export default function WhatsAppPage() {
                 Send messages to your leads using WhatsApp
               </p>
             </div>
-            <Link href="/dashboard">
-              <Button variant="outline">Back to Dashboard</Button>
-            </Link>
+            <div className="flex gap-2">
+              <Link href="/whatsapp/campaigns">
+                <Button variant="outline">Campaigns</Button>
+              </Link>
+              <Link href="/dashboard">
+                <Button variant="outline">Back to Dashboard</Button>
+              </Link>
+            </div>
           </div>
         </div>
 
@@ -266,9 +477,13 @@ export default function WhatsAppPage() {
         )}
 
         <Tabs defaultValue="compose" className="space-y-6">
-          <TabsList className="grid w-full grid-cols-2">
+          <TabsList className="grid w-full grid-cols-6">
             <TabsTrigger value="compose">Compose Message</TabsTrigger>
-            <TabsTrigger value="history">Message History</TabsTrigger>
+            <TabsTrigger value="templates">Templates</TabsTrigger>
+            <TabsTrigger value="inbox">Inbox</TabsTrigger>
+            <TabsTrigger value="scheduled">Scheduled</TabsTrigger>
+            <TabsTrigger value="follow-ups">Follow-ups</TabsTrigger>
+            <TabsTrigger value="settings">Settings</TabsTrigger>
           </TabsList>
 
           <TabsContent value="compose" className="space-y-6">
@@ -311,12 +526,55 @@ export default function WhatsAppPage() {
                     <Label htmlFor="phone">Phone Number</Label>
                     <Input
                       id="phone"
-                      placeholder="+628123456789"
+                      placeholder="0812 3456 7890"
                       value={phoneNumber}
                       onChange={(e) => setPhoneNumber(e.target.value)}
                     />
                   </div>
 
+                  {templates.length > 0 && (
+                    <div className="space-y-2">
+                      <Label htmlFor="template">Template (optional)</Label>
+                      <Select value={selectedTemplateId || ''} onValueChange={handleSelectTemplate}>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select a template" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {templates.map((template) => (
+                            <SelectItem key={template.id} value={template.id}>
+                              {template.name}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  )}
+
+                  {selectedLead && (
+                    <div className="space-y-2">
+                      <Label htmlFor="draftGoal">Draft with AI</Label>
+                      <div className="flex gap-2">
+                        <Input
+                          id="draftGoal"
+                          placeholder="e.g. Offer a free demo of our inventory app"
+                          value={draftGoal}
+                          onChange={(e) => setDraftGoal(e.target.value)}
+                        />
+                        <Button
+                          variant="outline"
+                          onClick={handleDraftMessage}
+                          disabled={drafting || !draftGoal.trim()}
+                        >
+                          <Sparkles className="w-4 h-4 mr-2" />
+                          {drafting ? 'Drafting...' : 'Draft'}
+                        </Button>
+                      </div>
+                      <p className="text-sm text-gray-500">
+                        Writes a message from {selectedLead.name}&apos;s company, position and details. Uses {OUTREACH_DRAFT_CREDITS} interaction credit per draft.
+                      </p>
+                    </div>
+                  )}
+
                   <div className="space-y-2">
                     <Label htmlFor="message">Message</Label>
                     <Textarea
@@ -327,9 +585,79 @@ export default function WhatsAppPage() {
                       rows={4}
                     />
                     <p className="text-sm text-gray-500">
-                      1 interaction credit will be used for this message
+                      {messageCredits} interaction {messageCredits === 1 ? 'credit' : 'credits'} will be used for this message
                     </p>
                   </div>
+
+                  <div className="space-y-2">
+                    <Label htmlFor="attachment">Attachment (optional)</Label>
+                    {attachment ? (
+                      <div className="flex items-center justify-between rounded-lg border px-3 py-2">
+                        <span className="flex items-center gap-2 text-sm">
+                          <Paperclip className="w-4 h-4" />
+                          {attachment.file_name} ({(attachment.size_bytes / (1024 * 1024)).toFixed(1)} MB)
+                        </span>
+                        <Button variant="ghost" size="sm" onClick={() => setAttachment(null)}>
+                          <X className="w-4 h-4" />
+                        </Button>
+                      </div>
+                    ) : (
+                      <Input
+                        id="attachment"
+                        type="file"
+                        accept={WHATSAPP_MEDIA_MIME_TYPES.join(',')}
+                        disabled={uploading}
+                        onChange={(e) => {
+                          const file = e.target.files?.[0];
+                          if (file) {
+                            handleAttachFile(file);
+                          }
+                          e.target.value = '';
+                        }}
+                      />
+                    )}
+                    <p className="text-sm text-gray-500">
+                      {uploading
+                        ? 'Uploading...'
+                        : 'JPEG or PNG images up to 5 MB, PDF, Word or Excel documents up to 16 MB. The message is sent as the caption.'}
+                    </p>
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label htmlFor="send_at">Send later (optional)</Label>
+                    <Input
+                      id="send_at"
+                      type="datetime-local"
+                      value={sendAt}
+                      onChange={(e) => setSendAt(e.target.value)}
+                    />
+                    <p className="text-sm text-gray-500">
+                      Leave empty to send now. Scheduled messages can be edited or cancelled from the Scheduled tab.
+                    </p>
+                  </div>
+
+                  <div className="flex items-center gap-2">
+                    <Checkbox
+                      id="queue_if_limited"
+                      checked={queueIfLimited}
+                      onCheckedChange={(checked) => setQueueIfLimited(checked === true)}
+                    />
+                    <Label htmlFor="queue_if_limited" className="font-normal">
+                      If a send limit or quiet hours apply, queue the message for the next allowed time
+                    </Label>
+                  </div>
+
+                  {preview && (
+                    <div className="rounded-lg border p-4 space-y-2">
+                      <p className="text-sm font-medium">Preview for {selectedLead?.name}</p>
+                      <p className="text-sm whitespace-pre-wrap">{preview.content}</p>
+                      {preview.missing_fields.length > 0 && (
+                        <p className="text-sm text-red-600">
+                          Missing for this lead: {preview.missing_fields.join(', ')}
+                        </p>
+                      )}
+                    </div>
+                  )}
                 </div>
 
                 {error && (
@@ -348,7 +676,13 @@ export default function WhatsAppPage() {
 
                 <Button 
                   onClick={handleSendMessage} 
-                  disabled={sending || !creditBalance || creditBalance.interaction_credits < 1}
+                  disabled={
+                    sending ||
+                    !creditBalance ||
+                    uploading ||
+                    creditBalance.interaction_credits < messageCredits ||
+                    (preview !== null && preview.missing_fields.length > 0)
+                  }
                   className="w-full"
                 >
                   {sending ? (
@@ -359,7 +693,7 @@ export default function WhatsAppPage() {
                   ) : (
                     <>
                       <Send className="w-4 h-4 mr-2" />
-                      Send Message (1 credit)
+                      {sendAt ? `Schedule Message (${creditLabel})` : `Send Message (${creditLabel})`}
                     </>
                   )}
                 </Button>
@@ -407,60 +741,83 @@ export default function WhatsAppPage() {
             </Card>
           </TabsContent>
 
-          <TabsContent value="history" className="space-y-6">
+          <TabsContent value="templates" className="space-y-6">
             <Card>
               <CardHeader>
-                <CardTitle>Message History</CardTitle>
+                <CardTitle className="flex items-center gap-2">
+                  <FileText className="w-5 h-5" />
+                  New Template
+                </CardTitle>
                 <CardDescription>
-                  Your WhatsApp message history and status
+                  Placeholders are filled from each lead: {TEMPLATE_LEAD_FIELDS.map(field => `{{${field}}}`).join(', ')} and
+                  {' {{additional_data.<key>}}'}. Add a fallback with {'{{company|your company}}'} to make a field optional.
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="templateName">Name</Label>
+                  <Input
+                    id="templateName"
+                    placeholder="Intro message"
+                    value={templateName}
+                    onChange={(e) => setTemplateName(e.target.value)}
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="templateContent">Message</Label>
+                  <Textarea
+                    id="templateContent"
+                    placeholder="Hi {{name}}, I saw {{company}} is growing in {{additional_data.industry}}..."
+                    value={templateContent}
+                    onChange={(e) => setTemplateContent(e.target.value)}
+                    rows={4}
+                  />
+                </div>
+
+                {templateError && (
+                  <Alert variant="destructive">
+                    <AlertCircle className="h-4 w-4" />
+                    <AlertDescription>{templateError}</AlertDescription>
+                  </Alert>
+                )}
+
+                <Button onClick={handleSaveTemplate} disabled={savingTemplate} className="w-full">
+                  {savingTemplate ? 'Saving...' : 'Save Template'}
+                </Button>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Saved Templates</CardTitle>
+                <CardDescription>
+                  Templates can be used when composing a message or creating a campaign
                 </CardDescription>
               </CardHeader>
               <CardContent>
-                {messages.length === 0 ? (
-                  <div className="text-center py-8">
-                    <MessageSquare className="w-12 h-12 mx-auto mb-4 text-gray-400" />
-                    <h3 className="text-lg font-medium mb-2">No messages sent yet</h3>
-                    <p className="text-gray-500">Start sending messages to see your history here</p>
-                  </div>
+                {templates.length === 0 ? (
+                  <p className="text-sm text-gray-500">No templates yet</p>
                 ) : (
                   <div className="space-y-4">
-                    {messages.map((msg) => (
-                      <div key={msg.id} className="border rounded-lg p-4">
-                        <div className="flex items-start justify-between mb-2">
-                          <div className="flex items-center gap-2">
-                            {getStatusIcon(msg.status)}
-                            <Badge variant={msg.message_type === 'outgoing' ? 'default' : 'secondary'}>
-                              {msg.message_type}
-                            </Badge>
-                            <span className="text-sm text-gray-500">
-                              {new Date(msg.created_at).toLocaleDateString()}
-                            </span>
-                          </div>
-                          <div className="text-sm text-gray-500">
-                            {msg.credits_used} credit{msg.credits_used > 1 ? 's' : ''}
+                    {templates.map((template) => (
+                      <div key={template.id} className="border rounded-lg p-4">
+                        <div className="flex items-start justify-between gap-4">
+                          <div className="space-y-2">
+                            <h3 className="font-medium">{template.name}</h3>
+                            <p className="text-sm text-gray-600 dark:text-gray-300 whitespace-pre-wrap">{template.content}</p>
+                            <div className="flex flex-wrap gap-1">
+                              {extractTemplateVariables(template.content).map((variable) => (
+                                <Badge key={variable.path} variant={variable.fallback === null ? 'default' : 'outline'}>
+                                  {variable.path}
+                                </Badge>
+                              ))}
+                            </div>
                           </div>
+                          <Button variant="ghost" size="sm" onClick={() => handleDeleteTemplate(template.id)}>
+                            <Trash2 className="w-4 h-4" />
+                          </Button>
                         </div>
-                        
-                        <div className="mb-2">
-                          <p className="font-medium">
-                            {msg.lead ? `To: ${msg.lead.name}` : 'To: Custom Number'}
-                          </p>
-                          {msg.lead && (
-                            <p className="text-sm text-gray-500">
-                              {msg.lead.company} • {msg.lead.position}
-                            </p>
-                          )}
-                        </div>
-                        
-                        <div className="bg-gray-50 dark:bg-gray-800 rounded p-3">
-                          <p className="text-sm">{msg.content}</p>
-                        </div>
-                        
-                        {msg.error_message && (
-                          <div className="mt-2 text-sm text-red-600">
-                            Error: {msg.error_message}
-                          </div>
-                        )}
                       </div>
                     ))}
                   </div>
@@ -468,6 +825,23 @@ export default function WhatsAppPage() {
               </CardContent>
             </Card>
           </TabsContent>
+
+          <TabsContent value="inbox" className="space-y-6">
+            <WhatsAppInbox onMessageSent={refreshCreditBalance} />
+          </TabsContent>
+
+          <TabsContent value="scheduled" className="space-y-6">
+            <WhatsAppScheduledMessages />
+          </TabsContent>
+
+          <TabsContent value="follow-ups" className="space-y-6">
+            <WhatsAppFollowUps templates={templates} leads={leads} />
+          </TabsContent>
+
+          <TabsContent value="settings" className="space-y-6">
+            <WhatsAppSendSettings />
+            <WhatsAppOptOuts />
+          </TabsContent>
         </Tabs>
       </div>
     </div>
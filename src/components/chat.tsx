@@ -1,44 +1,251 @@
 "use client";
 
+import { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
 import { useChat } from "ai/react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Card } from "@/components/ui/card";
-import { AlertCircle, Bot, User } from "lucide-react";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { AlertCircle, Bot, Coins, Plus, User } from "lucide-react";
+import { DEFAULT_CHAT_MODEL_ID, MAX_CHAT_MESSAGE_LENGTH } from "@/lib/chat-pricing";
+
+interface ChatModel {
+  id: string;
+  label: string;
+  tokens_per_credit: number;
+  available: boolean;
+}
+
+interface ChatSession {
+  id: string;
+  title: string;
+  model: string;
+  updated_at: string;
+}
+
+interface StoredChatMessage {
+  id: string;
+  role: "user" | "assistant";
+  content: string;
+}
+
+const NEW_CHAT = "new";
+
+// Error responses arrive as the raw JSON body; stream failures as plain text
+function describeChatError(error: Error): { message: string; outOfCredits: boolean } {
+  try {
+    const data = JSON.parse(error.message);
+    if (data.code === "INSUFFICIENT_CREDITS") {
+      return {
+        message: `You're out of interaction credits. This reply needs up to ${data.required_credits} credits and you have ${data.available_credits} available.`,
+        outOfCredits: true,
+      };
+    }
+    return { message: data.error || "An error occurred while processing your request.", outOfCredits: false };
+  } catch {
+    return {
+      message: error.message || "An error occurred while processing your request.",
+      outOfCredits: false,
+    };
+  }
+}
 
 export default function Chat() {
+  const [models, setModels] = useState<ChatModel[]>([]);
+  const [model, setModel] = useState(DEFAULT_CHAT_MODEL_ID);
+  const [sessions, setSessions] = useState<ChatSession[]>([]);
+  const [sessionId, setSessionId] = useState<string | null>(null);
+  const [availableCredits, setAvailableCredits] = useState<number | null>(null);
+
+  const fetchBalance = useCallback(async () => {
+    try {
+      const response = await fetch("/api/credits/interaction/balance");
+      if (response.ok) {
+        const data = await response.json();
+        setAvailableCredits(data.interaction_credits.available);
+      }
+    } catch (error) {
+      console.error("Error fetching credit balance:", error);
+    }
+  }, []);
+
+  const fetchSessions = useCallback(async () => {
+    try {
+      const response = await fetch("/api/chat/sessions");
+      if (response.ok) {
+        const data = await response.json();
+        setSessions(data.sessions || []);
+      }
+    } catch (error) {
+      console.error("Error fetching chat sessions:", error);
+    }
+  }, []);
+
   const {
     messages,
+    setMessages,
     input,
     handleInputChange,
     handleSubmit,
     error,
     isLoading: chatLoading,
   } = useChat({
+    body: { session_id: sessionId, model },
+    onResponse: (response) => {
+      const responseSessionId = response.headers.get("X-Chat-Session-Id");
+      if (responseSessionId) {
+        setSessionId(responseSessionId);
+      }
+    },
+    onFinish: () => {
+      fetchBalance();
+      fetchSessions();
+    },
     onError: (error) => {
       console.error("Chat error:", error);
+      fetchBalance();
     },
   });
 
+  useEffect(() => {
+    const fetchModels = async () => {
+      try {
+        const response = await fetch("/api/chat/models");
+        if (response.ok) {
+          const data = await response.json();
+          setModels(data.models || []);
+        }
+      } catch (error) {
+        console.error("Error fetching chat models:", error);
+      }
+    };
+
+    fetchModels();
+    fetchBalance();
+    fetchSessions();
+  }, [fetchBalance, fetchSessions]);
+
+  const openSession = async (id: string) => {
+    if (id === NEW_CHAT) {
+      setSessionId(null);
+      setMessages([]);
+      return;
+    }
+
+    try {
+      const response = await fetch(`/api/chat/sessions/${id}`);
+      if (!response.ok) {
+        return;
+      }
+
+      const data = await response.json();
+      setSessionId(data.session.id);
+      setMessages(
+        (data.messages as StoredChatMessage[]).map((m) => ({
+          id: m.id,
+          role: m.role,
+          content: m.content,
+        })),
+      );
+      if (models.some((option) => option.id === data.session.model && option.available)) {
+        setModel(data.session.model);
+      }
+    } catch (error) {
+      console.error("Error loading chat session:", error);
+    }
+  };
+
+  const selectedModel = models.find((option) => option.id === model);
+  const chatError = error ? describeChatError(error) : null;
+  const outOfCredits = availableCredits === 0 || Boolean(chatError?.outOfCredits);
+
   return (
     <div className="flex flex-col w-full max-w-2xl mx-auto">
       <div className="mb-6 text-center">
         <h2 className="text-2xl font-bold mb-2">🤖 AI Chat</h2>
         <p className="text-gray-600 dark:text-gray-400 text-sm">
-          Powered by OpenAI GPT-4o • Protected by Clerk Authentication
+          Replies are charged in interaction credits by the tokens they use
         </p>
       </div>
 
-      {error && (
-        <Card className="p-4 border-red-200 bg-red-50 dark:bg-red-900/20 mb-4">
+      <div className="flex flex-wrap items-center gap-2 mb-4">
+        <Select value={sessionId ?? NEW_CHAT} onValueChange={openSession} disabled={chatLoading}>
+          <SelectTrigger className="flex-1 min-w-[180px]">
+            <SelectValue placeholder="New chat" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={NEW_CHAT}>
+              <Plus className="w-4 h-4" />
+              New chat
+            </SelectItem>
+            {sessions.map((session) => (
+              <SelectItem key={session.id} value={session.id}>
+                {session.title}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        <Select value={model} onValueChange={setModel} disabled={chatLoading}>
+          <SelectTrigger className="w-[190px]">
+            <SelectValue placeholder="Model" />
+          </SelectTrigger>
+          <SelectContent>
+            {models.map((option) => (
+              <SelectItem key={option.id} value={option.id} disabled={!option.available}>
+                {option.label}
+                {!option.available && " (not configured)"}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        <div className="flex items-center gap-1 text-sm text-gray-600 dark:text-gray-400">
+          <Coins className="w-4 h-4" />
+          {availableCredits === null ? "…" : availableCredits} credits
+        </div>
+      </div>
+
+      {selectedModel && (
+        <p className="text-xs text-gray-500 dark:text-gray-400 mb-4">
+          {selectedModel.label}: 1 credit per {selectedModel.tokens_per_credit.toLocaleString()} tokens,
+          prompt and reply together (minimum 1 credit per reply)
+        </p>
+      )}
+
+      {outOfCredits ? (
+        <Card className="p-4 border-amber-200 bg-amber-50 dark:bg-amber-900/20 mb-4">
           <div className="flex items-center gap-2">
-            <AlertCircle className="w-4 h-4 text-red-600" />
-            <span className="text-red-700 dark:text-red-300 text-sm">
-              {error.message ||
-                "An error occurred while processing your request."}
+            <AlertCircle className="w-4 h-4 text-amber-600" />
+            <span className="text-amber-700 dark:text-amber-300 text-sm">
+              {chatError?.outOfCredits
+                ? chatError.message
+                : "You're out of interaction credits."}{" "}
+              <Link href="/billing" className="underline font-medium">
+                Top up on the billing page
+              </Link>{" "}
+              to keep chatting.
             </span>
           </div>
         </Card>
+      ) : (
+        chatError && (
+          <Card className="p-4 border-red-200 bg-red-50 dark:bg-red-900/20 mb-4">
+            <div className="flex items-center gap-2">
+              <AlertCircle className="w-4 h-4 text-red-600" />
+              <span className="text-red-700 dark:text-red-300 text-sm">
+                {chatError.message}
+              </span>
+            </div>
+          </Card>
+        )
       )}
 
       <div className="space-y-4 mb-4 min-h-[400px] max-h-[600px] overflow-y-auto">
@@ -99,12 +306,16 @@ export default function Chat() {
       <form onSubmit={handleSubmit} className="flex space-x-2">
         <Input
           value={input}
-          placeholder="Type your message..."
+          placeholder={outOfCredits ? "Top up credits to send a message" : "Type your message..."}
           onChange={handleInputChange}
           className="flex-1"
-          disabled={chatLoading}
+          maxLength={MAX_CHAT_MESSAGE_LENGTH}
+          disabled={chatLoading || availableCredits === 0}
         />
-        <Button type="submit" disabled={chatLoading || !input.trim()}>
+        <Button
+          type="submit"
+          disabled={chatLoading || availableCredits === 0 || !input.trim() || !selectedModel?.available}
+        >
           {chatLoading ? "Sending..." : "Send"}
         </Button>
       </form>
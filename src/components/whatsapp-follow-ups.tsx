@@ -0,0 +1,449 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { AlertCircle, CheckCircle, Plus, Repeat, Trash2, X } from 'lucide-react';
+import { MAX_SEQUENCE_STEPS, MAX_STEP_DELAY_DAYS } from '@/lib/follow-up-sequence';
+
+interface SequenceStep {
+  id?: string;
+  position?: number;
+  delay_days: number;
+  template_id: string;
+  message_templates?: { name: string } | null;
+}
+
+interface Sequence {
+  id: string;
+  name: string;
+  steps: SequenceStep[];
+  created_at: string;
+}
+
+interface Enrollment {
+  id: string;
+  lead_id: string;
+  status: 'active' | 'completed' | 'stopped';
+  next_step: number;
+  next_step_at: string | null;
+  steps_sent: number;
+  stop_reason: string | null;
+  error_message: string | null;
+  leads: { name: string; company: string | null } | null;
+}
+
+interface WhatsAppFollowUpsProps {
+  templates: { id: string; name: string }[];
+  leads: { id: string; name: string; company: string; phone: string }[];
+}
+
+const STOP_REASON_LABELS: Record<string, string> = {
+  replied: 'Replied',
+  opted_out: 'Opted out',
+  manual: 'Stopped',
+  failed: 'Failed',
+};
+
+export default function WhatsAppFollowUps({ templates, leads }: WhatsAppFollowUpsProps) {
+  const [sequences, setSequences] = useState<Sequence[]>([]);
+  const [name, setName] = useState('');
+  const [steps, setSteps] = useState<SequenceStep[]>([{ delay_days: 0, template_id: '' }]);
+  const [saving, setSaving] = useState(false);
+  const [selectedSequenceId, setSelectedSequenceId] = useState<string | null>(null);
+  const [enrollments, setEnrollments] = useState<Enrollment[]>([]);
+  const [selectedLeadIds, setSelectedLeadIds] = useState<string[]>([]);
+  const [enrolling, setEnrolling] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchSequences = async () => {
+      try {
+        const response = await fetch('/api/whatsapp/sequences');
+        if (response.ok) {
+          const data = await response.json();
+          setSequences(data.sequences || []);
+        }
+      } catch (err) {
+        console.error('Failed to fetch sequences:', err);
+      }
+    };
+
+    fetchSequences();
+  }, []);
+
+  useEffect(() => {
+    if (!selectedSequenceId) {
+      setEnrollments([]);
+      return;
+    }
+
+    const fetchEnrollments = async () => {
+      try {
+        const response = await fetch(`/api/whatsapp/sequences/${selectedSequenceId}/enrollments`);
+        if (response.ok) {
+          const data = await response.json();
+          setEnrollments(data.enrollments || []);
+        }
+      } catch (err) {
+        console.error('Failed to fetch enrollments:', err);
+      }
+    };
+
+    fetchEnrollments();
+  }, [selectedSequenceId]);
+
+  const updateStep = (index: number, changes: Partial<SequenceStep>) => {
+    setSteps(steps.map((step, i) => (i === index ? { ...step, ...changes } : step)));
+  };
+
+  const handleCreateSequence = async () => {
+    if (!name.trim() || steps.some(step => !step.template_id)) {
+      setError('Please name the sequence and choose a template for every step');
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+    setSuccess(null);
+
+    try {
+      const response = await fetch('/api/whatsapp/sequences', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          name: name.trim(),
+          steps: steps.map(step => ({ delay_days: step.delay_days, template_id: step.template_id })),
+        }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        setError(data.error || 'Failed to create sequence');
+        return;
+      }
+
+      const created: Sequence = {
+        ...data.sequence,
+        steps: data.sequence.steps.map((step: SequenceStep, index: number) => ({
+          ...step,
+          position: index + 1,
+          message_templates: { name: templates.find(t => t.id === step.template_id)?.name || '' },
+        })),
+      };
+
+      setSequences([created, ...sequences]);
+      setName('');
+      setSteps([{ delay_days: 0, template_id: '' }]);
+      setSuccess('Sequence created');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create sequence');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDeleteSequence = async (sequenceId: string) => {
+    try {
+      const response = await fetch(`/api/whatsapp/sequences/${sequenceId}`, { method: 'DELETE' });
+
+      if (!response.ok) {
+        const data = await response.json();
+        setError(data.error || 'Failed to delete sequence');
+        return;
+      }
+
+      setSequences(sequences.filter(s => s.id !== sequenceId));
+      if (selectedSequenceId === sequenceId) {
+        setSelectedSequenceId(null);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete sequence');
+    }
+  };
+
+  const handleEnroll = async () => {
+    if (!selectedSequenceId || selectedLeadIds.length === 0) return;
+
+    setEnrolling(true);
+    setError(null);
+    setSuccess(null);
+
+    try {
+      const response = await fetch(`/api/whatsapp/sequences/${selectedSequenceId}/enrollments`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ lead_ids: selectedLeadIds }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        setError(data.error || 'Failed to enroll leads');
+        return;
+      }
+
+      const enrolledLeads = data.enrolled.map((enrollment: Enrollment) => {
+        const lead = leads.find(l => l.id === enrollment.lead_id);
+        return { ...enrollment, leads: lead ? { name: lead.name, company: lead.company } : null };
+      });
+
+      setEnrollments([...enrolledLeads, ...enrollments]);
+      setSelectedLeadIds([]);
+      setSuccess(data.skipped.length > 0
+        ? `Enrolled ${data.enrolled.length} leads; ${data.skipped.length} skipped (no valid number, opted out or already enrolled)`
+        : `Enrolled ${data.enrolled.length} leads`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to enroll leads');
+    } finally {
+      setEnrolling(false);
+    }
+  };
+
+  const handleStop = async (enrollmentId: string) => {
+    try {
+      const response = await fetch(
+        `/api/whatsapp/sequences/${selectedSequenceId}/enrollments/${enrollmentId}/stop`,
+        { method: 'POST' }
+      );
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        setError(data.error || 'Failed to stop follow-up');
+        return;
+      }
+
+      setEnrollments(enrollments.map(e => (e.id === enrollmentId ? { ...e, ...data.enrollment, leads: e.leads } : e)));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to stop follow-up');
+    }
+  };
+
+  const selectedSequence = sequences.find(s => s.id === selectedSequenceId) || null;
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Repeat className="w-5 h-5" />
+            New Follow-up Sequence
+          </CardTitle>
+          <CardDescription>
+            Each step is sent the given number of days after the previous one, only if the lead has not replied.
+            A reply or opt-out ends the sequence. Credits are used as each step is sent.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="sequenceName">Name</Label>
+            <Input
+              id="sequenceName"
+              placeholder="Intro + 2 follow-ups"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+            />
+          </div>
+
+          {steps.map((step, index) => (
+            <div key={index} className="grid gap-4 md:grid-cols-[1fr_2fr_auto] items-end">
+              <div className="space-y-2">
+                <Label htmlFor={`stepDelay${index}`}>
+                  {index === 0 ? 'Days after enrolling' : 'Days after previous step'}
+                </Label>
+                <Input
+                  id={`stepDelay${index}`}
+                  type="number"
+                  min={0}
+                  max={MAX_STEP_DELAY_DAYS}
+                  value={step.delay_days}
+                  onChange={(e) => updateStep(index, { delay_days: parseInt(e.target.value) || 0 })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Step {index + 1} template</Label>
+                <Select
+                  value={step.template_id}
+                  onValueChange={(value) => updateStep(index, { template_id: value })}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Choose a template" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {templates.map((template) => (
+                      <SelectItem key={template.id} value={template.id}>
+                        {template.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <Button
+                variant="ghost"
+                size="sm"
+                disabled={steps.length === 1}
+                onClick={() => setSteps(steps.filter((_, i) => i !== index))}
+              >
+                <X className="w-4 h-4" />
+              </Button>
+            </div>
+          ))}
+
+          <div className="flex gap-2">
+            <Button
+              variant="outline"
+              disabled={steps.length >= MAX_SEQUENCE_STEPS}
+              onClick={() => setSteps([...steps, { delay_days: 3, template_id: '' }])}
+            >
+              <Plus className="w-4 h-4 mr-2" />
+              Add Step
+            </Button>
+            <Button onClick={handleCreateSequence} disabled={saving || templates.length === 0}>
+              {saving ? 'Creating...' : 'Create Sequence'}
+            </Button>
+          </div>
+
+          {templates.length === 0 && (
+            <p className="text-sm text-gray-500">Create a message template first; each step sends one.</p>
+          )}
+        </CardContent>
+      </Card>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {success && (
+        <Alert>
+          <CheckCircle className="h-4 w-4" />
+          <AlertDescription>{success}</AlertDescription>
+        </Alert>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Sequences</CardTitle>
+          <CardDescription>Select a sequence to enroll leads and follow their progress</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {sequences.length === 0 ? (
+            <p className="text-sm text-gray-500">No sequences yet</p>
+          ) : (
+            <div className="divide-y border rounded-lg">
+              {sequences.map((sequence) => (
+                <div
+                  key={sequence.id}
+                  className={`flex items-start justify-between gap-4 p-4 cursor-pointer ${
+                    sequence.id === selectedSequenceId ? 'bg-gray-50 dark:bg-gray-800' : ''
+                  }`}
+                  onClick={() => setSelectedSequenceId(sequence.id)}
+                >
+                  <div className="space-y-1">
+                    <p className="font-medium">{sequence.name}</p>
+                    <p className="text-sm text-gray-500">
+                      {sequence.steps
+                        .map(step => `Day +${step.delay_days}: ${step.message_templates?.name || 'Template'}`)
+                        .join(' → ')}
+                    </p>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      handleDeleteSequence(sequence.id);
+                    }}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {selectedSequence && (
+        <Card>
+          <CardHeader>
+            <CardTitle>{selectedSequence.name}: Leads</CardTitle>
+            <CardDescription>Enroll leads with a phone number; each runs through the steps on their own schedule</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <div className="space-y-2 max-h-48 overflow-y-auto border rounded-lg p-3">
+              {leads.filter(lead => lead.phone).map((lead) => (
+                <div key={lead.id} className="flex items-center gap-2">
+                  <Checkbox
+                    id={`enroll-${lead.id}`}
+                    checked={selectedLeadIds.includes(lead.id)}
+                    onCheckedChange={(checked) => setSelectedLeadIds(checked === true
+                      ? [...selectedLeadIds, lead.id]
+                      : selectedLeadIds.filter(id => id !== lead.id))}
+                  />
+                  <Label htmlFor={`enroll-${lead.id}`} className="font-normal">
+                    {lead.name}{lead.company ? ` • ${lead.company}` : ''}
+                  </Label>
+                </div>
+              ))}
+            </div>
+
+            <Button onClick={handleEnroll} disabled={enrolling || selectedLeadIds.length === 0} className="w-full">
+              {enrolling ? 'Enrolling...' : `Enroll ${selectedLeadIds.length} Leads`}
+            </Button>
+
+            {enrollments.length === 0 ? (
+              <p className="text-sm text-gray-500">No leads enrolled yet</p>
+            ) : (
+              <div className="divide-y border rounded-lg">
+                {enrollments.map((enrollment) => (
+                  <div key={enrollment.id} className="flex items-center justify-between gap-4 p-4">
+                    <div className="space-y-1">
+                      <div className="flex items-center gap-2">
+                        <span className="font-medium">{enrollment.leads?.name || 'Lead'}</span>
+                        <Badge variant={enrollment.status === 'active' ? 'default' : 'secondary'}>
+                          {enrollment.status === 'stopped'
+                            ? STOP_REASON_LABELS[enrollment.stop_reason || 'manual']
+                            : enrollment.status === 'completed' ? 'Completed' : 'Active'}
+                        </Badge>
+                      </div>
+                      <p className="text-sm text-gray-500">
+                        {enrollment.steps_sent} of {selectedSequence.steps.length} steps sent
+                        {enrollment.status === 'active' && enrollment.next_step_at
+                          ? ` • step ${enrollment.next_step} due ${new Date(enrollment.next_step_at).toLocaleString()}`
+                          : ''}
+                      </p>
+                      {enrollment.error_message && (
+                        <p className="text-sm text-red-600">{enrollment.error_message}</p>
+                      )}
+                    </div>
+                    {enrollment.status === 'active' && (
+                      <Button variant="outline" size="sm" onClick={() => handleStop(enrollment.id)}>
+                        Stop
+                      </Button>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
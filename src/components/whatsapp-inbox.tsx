@@ -0,0 +1,424 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { useAuth } from '@clerk/nextjs';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { AlertCircle, CheckCheck, CheckCircle, Clock, MessageSquare, Paperclip, Send, User } from 'lucide-react';
+import { createSupabaseBrowserClient } from '@/lib/supabase-browser';
+import { ReplyCategory } from '@/lib/reply-classifier/types';
+
+interface InboxMessage {
+  id: string;
+  lead_id: string | null;
+  phone_number: string | null;
+  conversation_key: string | null;
+  message_type: 'outgoing' | 'incoming';
+  content: string;
+  content_type: 'text' | 'image' | 'document';
+  status: 'queued' | 'pending' | 'sent' | 'delivered' | 'read' | 'failed' | 'cancelled';
+  error_message: string | null;
+  reply_category: ReplyCategory | null;
+  reply_summary: string | null;
+  seen_at: string | null;
+  created_at: string;
+}
+
+interface Conversation {
+  conversation_key: string;
+  lead_id: string | null;
+  phone_number: string | null;
+  lead_name: string | null;
+  lead_company: string | null;
+  last_message_id: string;
+  last_message_type: 'outgoing' | 'incoming';
+  last_message_content: string;
+  last_message_status: string;
+  last_message_at: string;
+  unread_count: number;
+  message_count: number;
+}
+
+interface WhatsAppInboxProps {
+  // Called after a reply is sent so the parent can refresh the credit balance
+  onMessageSent?: () => void;
+}
+
+const REPLY_CATEGORY_LABELS: Record<ReplyCategory, string> = {
+  interested: 'Interested',
+  not_interested: 'Not interested',
+  question: 'Question',
+  opt_out: 'Opt-out',
+  out_of_office: 'Out of office',
+};
+
+const getStatusIcon = (status: string) => {
+  switch (status) {
+    case 'pending':
+      return <Clock className="w-3 h-3 text-yellow-500" />;
+    case 'sent':
+      return <CheckCircle className="w-3 h-3 text-blue-500" />;
+    case 'delivered':
+      return <CheckCheck className="w-3 h-3 text-green-500" />;
+    case 'read':
+      return <CheckCheck className="w-3 h-3 text-green-600" />;
+    case 'failed':
+      return <AlertCircle className="w-3 h-3 text-red-500" />;
+    default:
+      return <Clock className="w-3 h-3 text-gray-500" />;
+  }
+};
+
+export default function WhatsAppInbox({ onMessageSent }: WhatsAppInboxProps) {
+  const { userId, getToken } = useAuth();
+  const [conversations, setConversations] = useState<Conversation[]>([]);
+  const [selectedKey, setSelectedKey] = useState<string | null>(null);
+  const [messages, setMessages] = useState<InboxMessage[]>([]);
+  const [loadingMessages, setLoadingMessages] = useState(false);
+  const [reply, setReply] = useState('');
+  const [sending, setSending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const selectedKeyRef = useRef<string | null>(null);
+  const conversationsRef = useRef<Conversation[]>([]);
+  const bottomRef = useRef<HTMLDivElement | null>(null);
+
+  const selectedConversation = conversations.find(c => c.conversation_key === selectedKey) || null;
+  const totalUnread = conversations.reduce((sum, c) => sum + c.unread_count, 0);
+
+  const supabase = useMemo(() => createSupabaseBrowserClient(() => getToken()), [getToken]);
+
+  const fetchConversations = useCallback(async () => {
+    try {
+      const response = await fetch('/api/whatsapp/conversations');
+      if (response.ok) {
+        const data = await response.json();
+        setConversations(data.conversations || []);
+      }
+    } catch (err) {
+      console.error('Failed to fetch conversations:', err);
+    }
+  }, []);
+
+  const markConversationRead = useCallback(async (conversationKey: string) => {
+    setConversations(current => current.map(c => (
+      c.conversation_key === conversationKey ? { ...c, unread_count: 0 } : c
+    )));
+
+    try {
+      await fetch(`/api/whatsapp/conversations/${encodeURIComponent(conversationKey)}/read`, { method: 'POST' });
+    } catch (err) {
+      console.error('Failed to mark conversation as read:', err);
+    }
+  }, []);
+
+  const fetchMessages = useCallback(async (conversationKey: string) => {
+    try {
+      const response = await fetch(`/api/whatsapp/conversations/${encodeURIComponent(conversationKey)}`);
+      if (response.ok) {
+        const data = await response.json();
+        if (selectedKeyRef.current === conversationKey) {
+          setMessages(data.messages || []);
+        }
+      }
+    } catch (err) {
+      console.error('Failed to fetch conversation:', err);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!userId) {
+      return;
+    }
+
+    fetchConversations();
+  }, [userId, fetchConversations]);
+
+  // Load the open conversation and clear its unread count
+  useEffect(() => {
+    selectedKeyRef.current = selectedKey;
+    setMessages([]);
+    setError(null);
+
+    if (!selectedKey) {
+      return;
+    }
+
+    setLoadingMessages(true);
+    fetchMessages(selectedKey).finally(() => setLoadingMessages(false));
+    markConversationRead(selectedKey);
+  }, [selectedKey, fetchMessages, markConversationRead]);
+
+  useEffect(() => {
+    conversationsRef.current = conversations;
+  }, [conversations]);
+
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ behavior: 'smooth' });
+  }, [messages]);
+
+  // New replies, sends and status updates arrive live
+  useEffect(() => {
+    if (!userId) {
+      return;
+    }
+
+    const channel = supabase
+      .channel(`whatsapp-inbox-${userId}`)
+      .on(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'whatsapp_messages', filter: `user_id=eq.${userId}` },
+        (payload) => {
+          const message = payload.new as InboxMessage;
+          if (!message.conversation_key) {
+            return;
+          }
+
+          const isOpen = message.conversation_key === selectedKeyRef.current;
+
+          if (isOpen) {
+            setMessages(current => (
+              current.some(m => m.id === message.id) ? current : [...current, message]
+            ));
+
+            if (message.message_type === 'incoming') {
+              markConversationRead(message.conversation_key);
+            }
+          }
+
+          if (!conversationsRef.current.some(c => c.conversation_key === message.conversation_key)) {
+            // A new conversation; reload to pick up the lead details
+            fetchConversations();
+            return;
+          }
+
+          setConversations(current => {
+            const existing = current.find(c => c.conversation_key === message.conversation_key);
+            if (!existing) {
+              return current;
+            }
+
+            const updated: Conversation = {
+              ...existing,
+              last_message_id: message.id,
+              last_message_type: message.message_type,
+              last_message_content: message.content,
+              last_message_status: message.status,
+              last_message_at: message.created_at,
+              message_count: existing.message_count + 1,
+              unread_count: existing.unread_count + (message.message_type === 'incoming' && !isOpen ? 1 : 0)
+            };
+
+            return [updated, ...current.filter(c => c.conversation_key !== message.conversation_key)];
+          });
+        }
+      )
+      .on(
+        'postgres_changes',
+        { event: 'UPDATE', schema: 'public', table: 'whatsapp_messages', filter: `user_id=eq.${userId}` },
+        (payload) => {
+          const message = payload.new as InboxMessage;
+
+          setMessages(current => current.map(m => (m.id === message.id ? { ...m, ...message } : m)));
+          setConversations(current => current.map(c => (
+            c.last_message_id === message.id ? { ...c, last_message_status: message.status } : c
+          )));
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [userId, supabase, fetchConversations, markConversationRead]);
+
+  const handleSendReply = async () => {
+    if (!selectedConversation || !reply.trim()) {
+      return;
+    }
+
+    setSending(true);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/whatsapp/send', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          lead_id: selectedConversation.lead_id,
+          phone_number: selectedConversation.lead_id ? null : selectedConversation.phone_number,
+          message: reply.trim(),
+        }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        if (response.status === 402 && data.available_credits !== undefined) {
+          setError(`Insufficient credits. You have ${data.available_credits} interaction credits, but ${data.required_credits} are required.`);
+        } else {
+          setError(data.error || 'Failed to send message');
+        }
+        return;
+      }
+
+      setReply('');
+      // Realtime normally delivers the new row first; reload in case the subscription is not connected
+      await fetchMessages(selectedConversation.conversation_key);
+      onMessageSent?.();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to send message');
+    } finally {
+      setSending(false);
+    }
+  };
+
+  return (
+    <div className="grid gap-6 md:grid-cols-3">
+      <Card className="md:col-span-1">
+        <CardHeader>
+          <CardTitle className="flex items-center justify-between">
+            Conversations
+            {totalUnread > 0 && <Badge>{totalUnread} unread</Badge>}
+          </CardTitle>
+          <CardDescription>
+            One thread per lead or phone number
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="p-0">
+          {conversations.length === 0 ? (
+            <div className="text-center py-8 px-4">
+              <MessageSquare className="w-12 h-12 mx-auto mb-4 text-gray-400" />
+              <p className="text-gray-500">No conversations yet</p>
+            </div>
+          ) : (
+            <div className="max-h-[600px] overflow-y-auto divide-y">
+              {conversations.map((conversation) => (
+                <button
+                  key={conversation.conversation_key}
+                  type="button"
+                  onClick={() => setSelectedKey(conversation.conversation_key)}
+                  className={`w-full text-left px-4 py-3 hover:bg-gray-50 dark:hover:bg-gray-800 transition-colors ${
+                    conversation.conversation_key === selectedKey ? 'bg-gray-100 dark:bg-gray-800' : ''
+                  }`}
+                >
+                  <div className="flex items-center justify-between gap-2">
+                    <span className={`truncate ${conversation.unread_count > 0 ? 'font-semibold' : 'font-medium'}`}>
+                      {conversation.lead_name || `+${conversation.phone_number}`}
+                    </span>
+                    <span className="text-xs text-gray-500 shrink-0">
+                      {new Date(conversation.last_message_at).toLocaleDateString()}
+                    </span>
+                  </div>
+                  <div className="flex items-center justify-between gap-2 mt-1">
+                    <p className="text-sm text-gray-500 truncate">
+                      {conversation.last_message_type === 'outgoing' && 'You: '}
+                      {conversation.last_message_content}
+                    </p>
+                    {conversation.unread_count > 0 && (
+                      <Badge className="shrink-0">{conversation.unread_count}</Badge>
+                    )}
+                  </div>
+                </button>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card className="md:col-span-2 flex flex-col">
+        {!selectedConversation ? (
+          <CardContent className="flex-1 flex items-center justify-center py-16">
+            <p className="text-gray-500">Select a conversation to view messages</p>
+          </CardContent>
+        ) : (
+          <>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <User className="w-5 h-5" />
+                {selectedConversation.lead_name || `+${selectedConversation.phone_number}`}
+              </CardTitle>
+              <CardDescription>
+                {selectedConversation.lead_company
+                  ? `${selectedConversation.lead_company} • +${selectedConversation.phone_number}`
+                  : `+${selectedConversation.phone_number}`}
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="flex-1 flex flex-col gap-4">
+              <div className="space-y-3 min-h-[300px] max-h-[450px] overflow-y-auto pr-2">
+                {loadingMessages && messages.length === 0 ? (
+                  <p className="text-sm text-gray-500">Loading messages...</p>
+                ) : (
+                  messages.map((msg) => (
+                    <div
+                      key={msg.id}
+                      className={`flex ${msg.message_type === 'outgoing' ? 'justify-end' : 'justify-start'}`}
+                    >
+                      <div
+                        className={`max-w-[75%] rounded-lg px-3 py-2 ${
+                          msg.message_type === 'outgoing'
+                            ? 'bg-green-100 dark:bg-green-900'
+                            : 'bg-gray-100 dark:bg-gray-800'
+                        }`}
+                      >
+                        {msg.content_type && msg.content_type !== 'text' && (
+                          <p className="flex items-center gap-1 text-xs text-gray-500 mb-1">
+                            <Paperclip className="w-3 h-3" />
+                            {msg.content_type === 'image' ? 'Image' : 'Document'}
+                          </p>
+                        )}
+                        {msg.content && <p className="text-sm whitespace-pre-wrap">{msg.content}</p>}
+                        <div className="flex items-center justify-end gap-1 mt-1 text-xs text-gray-500">
+                          {new Date(msg.created_at).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                          {msg.message_type === 'outgoing' && getStatusIcon(msg.status)}
+                        </div>
+                        {msg.reply_category && (
+                          <div className="mt-2 space-y-1">
+                            <Badge variant={msg.reply_category === 'interested' ? 'default' : 'secondary'}>
+                              {REPLY_CATEGORY_LABELS[msg.reply_category]}
+                            </Badge>
+                            {msg.reply_summary && (
+                              <p className="text-xs text-gray-500">{msg.reply_summary}</p>
+                            )}
+                          </div>
+                        )}
+                        {msg.error_message && (
+                          <p className="text-xs text-red-600 mt-1">{msg.error_message}</p>
+                        )}
+                      </div>
+                    </div>
+                  ))
+                )}
+                <div ref={bottomRef} />
+              </div>
+
+              {error && (
+                <Alert variant="destructive">
+                  <AlertCircle className="h-4 w-4" />
+                  <AlertDescription>{error}</AlertDescription>
+                </Alert>
+              )}
+
+              <div className="flex gap-2">
+                <Textarea
+                  placeholder="Type a reply..."
+                  value={reply}
+                  onChange={(e) => setReply(e.target.value)}
+                  rows={2}
+                />
+                <Button onClick={handleSendReply} disabled={sending || !reply.trim()}>
+                  <Send className="w-4 h-4" />
+                </Button>
+              </div>
+              <p className="text-xs text-gray-500">1 interaction credit per reply</p>
+            </CardContent>
+          </>
+        )}
+      </Card>
+    </div>
+  );
+}
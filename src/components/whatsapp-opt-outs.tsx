@@ -0,0 +1,177 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { AlertCircle, Ban, Trash2 } from 'lucide-react';
+import { isValidPhoneNumber } from '@/lib/phone';
+
+interface OptOut {
+  id: string;
+  phone_number: string;
+  source: 'keyword' | 'manual' | 'classifier';
+  reason: string | null;
+  created_at: string;
+}
+
+const SOURCE_LABELS: Record<OptOut['source'], string> = {
+  keyword: 'Replied',
+  classifier: 'Replied (detected)',
+  manual: 'Manual',
+};
+
+export default function WhatsAppOptOuts() {
+  const [optOuts, setOptOuts] = useState<OptOut[]>([]);
+  const [phoneNumber, setPhoneNumber] = useState('');
+  const [reason, setReason] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchOptOuts = async () => {
+      try {
+        const response = await fetch('/api/whatsapp/opt-outs');
+        if (response.ok) {
+          const data = await response.json();
+          setOptOuts(data.opt_outs || []);
+        }
+      } catch (err) {
+        console.error('Failed to fetch opt-outs:', err);
+      }
+    };
+
+    fetchOptOuts();
+  }, []);
+
+  const handleAddOptOut = async () => {
+    if (!isValidPhoneNumber(phoneNumber)) {
+      setError('Please enter a valid phone number');
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/whatsapp/opt-outs', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          phone_number: phoneNumber,
+          reason: reason.trim() || null,
+        }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        setError(data.error || 'Failed to add number');
+        return;
+      }
+
+      setOptOuts([data.opt_out, ...optOuts]);
+      setPhoneNumber('');
+      setReason('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to add number');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRemoveOptOut = async (optOutId: string) => {
+    try {
+      const response = await fetch(`/api/whatsapp/opt-outs/${optOutId}`, { method: 'DELETE' });
+
+      if (!response.ok) {
+        const data = await response.json();
+        setError(data.error || 'Failed to remove number');
+        return;
+      }
+
+      setOptOuts(optOuts.filter(o => o.id !== optOutId));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to remove number');
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Ban className="w-5 h-5" />
+          Opt-outs
+        </CardTitle>
+        <CardDescription>
+          Numbers on this list are never messaged. Replies such as &quot;STOP&quot; or &quot;BERHENTI&quot; are added automatically.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid gap-4 md:grid-cols-3">
+          <div className="space-y-2">
+            <Label htmlFor="optOutPhone">Phone Number</Label>
+            <Input
+              id="optOutPhone"
+              placeholder="0812 3456 7890"
+              value={phoneNumber}
+              onChange={(e) => setPhoneNumber(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="optOutReason">Reason (optional)</Label>
+            <Input
+              id="optOutReason"
+              placeholder="Asked by phone not to be contacted"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+            />
+          </div>
+          <div className="flex items-end">
+            <Button onClick={handleAddOptOut} disabled={saving || !phoneNumber.trim()} className="w-full">
+              {saving ? 'Adding...' : 'Add to Opt-outs'}
+            </Button>
+          </div>
+        </div>
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {optOuts.length === 0 ? (
+          <p className="text-sm text-gray-500">No numbers have opted out</p>
+        ) : (
+          <div className="divide-y border rounded-lg">
+            {optOuts.map((optOut) => (
+              <div key={optOut.id} className="flex items-center justify-between gap-4 p-4">
+                <div className="space-y-1">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium">+{optOut.phone_number}</span>
+                    <Badge variant={optOut.source === 'manual' ? 'outline' : 'secondary'}>
+                      {SOURCE_LABELS[optOut.source]}
+                    </Badge>
+                  </div>
+                  <p className="text-sm text-gray-500">
+                    {optOut.reason ? `${optOut.reason} • ` : ''}
+                    {new Date(optOut.created_at).toLocaleDateString()}
+                  </p>
+                </div>
+                <Button variant="ghost" size="sm" onClick={() => handleRemoveOptOut(optOut.id)}>
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,196 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { AlertCircle, CalendarClock, Pencil, X } from 'lucide-react';
+
+interface ScheduledMessage {
+  id: string;
+  phone_number: string;
+  content: string;
+  scheduled_for: string;
+  leads: { name: string; company: string | null } | null;
+}
+
+// <input type="datetime-local"> works in local time without a zone
+function toDateTimeLocal(iso: string): string {
+  const date = new Date(iso);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+}
+
+export default function WhatsAppScheduledMessages() {
+  const [messages, setMessages] = useState<ScheduledMessage[]>([]);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editContent, setEditContent] = useState('');
+  const [editSendAt, setEditSendAt] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchScheduled = async () => {
+      try {
+        const response = await fetch('/api/whatsapp/scheduled');
+        if (response.ok) {
+          const data = await response.json();
+          setMessages(data.messages || []);
+        }
+      } catch (err) {
+        console.error('Failed to fetch scheduled messages:', err);
+      }
+    };
+
+    fetchScheduled();
+  }, []);
+
+  const startEditing = (scheduled: ScheduledMessage) => {
+    setEditingId(scheduled.id);
+    setEditContent(scheduled.content);
+    setEditSendAt(toDateTimeLocal(scheduled.scheduled_for));
+    setError(null);
+  };
+
+  const handleSave = async (scheduled: ScheduledMessage) => {
+    const updates = {
+      ...(editContent !== scheduled.content ? { content: editContent } : {}),
+      ...(editSendAt !== toDateTimeLocal(scheduled.scheduled_for)
+        ? { scheduled_for: new Date(editSendAt).toISOString() }
+        : {}),
+    };
+
+    if (Object.keys(updates).length === 0) {
+      setEditingId(null);
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/whatsapp/scheduled/${scheduled.id}`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(updates),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        setError(data.error || 'Failed to update message');
+        return;
+      }
+
+      setMessages(messages
+        .map(m => m.id === scheduled.id ? { ...m, content: data.message.content, scheduled_for: data.message.scheduled_for } : m)
+        .sort((a, b) => new Date(a.scheduled_for).getTime() - new Date(b.scheduled_for).getTime()));
+      setEditingId(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update message');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleCancel = async (messageId: string) => {
+    try {
+      const response = await fetch(`/api/whatsapp/scheduled/${messageId}/cancel`, { method: 'POST' });
+
+      if (!response.ok) {
+        const data = await response.json();
+        setError(data.error || 'Failed to cancel message');
+        return;
+      }
+
+      setMessages(messages.filter(m => m.id !== messageId));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to cancel message');
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <CalendarClock className="w-5 h-5" />
+          Scheduled Messages
+        </CardTitle>
+        <CardDescription>
+          Messages waiting to be sent. Credits are only used when a message is actually sent.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {error && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {messages.length === 0 ? (
+          <p className="text-sm text-gray-500">No messages are scheduled</p>
+        ) : (
+          <div className="divide-y border rounded-lg">
+            {messages.map((scheduled) => (
+              <div key={scheduled.id} className="p-4 space-y-3">
+                <div className="flex items-start justify-between gap-4">
+                  <div className="space-y-1">
+                    <p className="font-medium">
+                      {scheduled.leads?.name || `+${scheduled.phone_number}`}
+                      {scheduled.leads?.company && (
+                        <span className="text-sm text-gray-500 font-normal"> • {scheduled.leads.company}</span>
+                      )}
+                    </p>
+                    <p className="text-sm text-gray-500">
+                      {new Date(scheduled.scheduled_for).toLocaleString()}
+                    </p>
+                  </div>
+                  {editingId !== scheduled.id && (
+                    <div className="flex gap-1">
+                      <Button variant="ghost" size="sm" onClick={() => startEditing(scheduled)}>
+                        <Pencil className="w-4 h-4" />
+                      </Button>
+                      <Button variant="ghost" size="sm" onClick={() => handleCancel(scheduled.id)}>
+                        <X className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  )}
+                </div>
+
+                {editingId === scheduled.id ? (
+                  <div className="space-y-3">
+                    <Textarea
+                      value={editContent}
+                      onChange={(e) => setEditContent(e.target.value)}
+                      rows={3}
+                    />
+                    <Input
+                      type="datetime-local"
+                      value={editSendAt}
+                      onChange={(e) => setEditSendAt(e.target.value)}
+                    />
+                    <div className="flex gap-2">
+                      <Button size="sm" onClick={() => handleSave(scheduled)} disabled={saving || !editContent.trim() || !editSendAt}>
+                        {saving ? 'Saving...' : 'Save'}
+                      </Button>
+                      <Button size="sm" variant="outline" onClick={() => setEditingId(null)}>
+                        Keep as is
+                      </Button>
+                    </div>
+                  </div>
+                ) : (
+                  <p className="text-sm whitespace-pre-wrap">{scheduled.content}</p>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,173 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { AlertCircle, CheckCircle, Gauge } from 'lucide-react';
+import { DEFAULT_SEND_LIMITS, SendLimitSettings } from '@/lib/send-limits';
+
+export default function WhatsAppSendSettings() {
+  const [settings, setSettings] = useState<SendLimitSettings>(DEFAULT_SEND_LIMITS);
+  const [quietHoursEnabled, setQuietHoursEnabled] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchSettings = async () => {
+      try {
+        const response = await fetch('/api/whatsapp/settings');
+        if (response.ok) {
+          const data = await response.json();
+          setSettings(data.settings);
+          setQuietHoursEnabled(Boolean(data.settings.quiet_hours_start && data.settings.quiet_hours_end));
+        }
+      } catch (err) {
+        console.error('Failed to fetch send settings:', err);
+      }
+    };
+
+    fetchSettings();
+  }, []);
+
+  const handleSave = async () => {
+    setSaving(true);
+    setError(null);
+    setSuccess(null);
+
+    try {
+      const response = await fetch('/api/whatsapp/settings', {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          messages_per_minute: settings.messages_per_minute,
+          messages_per_day: settings.messages_per_day,
+          quiet_hours_start: quietHoursEnabled ? settings.quiet_hours_start || '21:00' : null,
+          quiet_hours_end: quietHoursEnabled ? settings.quiet_hours_end || '08:00' : null,
+          timezone: settings.timezone,
+        }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        setError(data.error || 'Failed to save settings');
+        return;
+      }
+
+      setSettings(data.settings);
+      setSuccess('Settings saved');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save settings');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Gauge className="w-5 h-5" />
+          Sending Limits
+        </CardTitle>
+        <CardDescription>
+          Sending too fast gets numbers banned. These limits apply to single messages, replies and campaigns.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid gap-4 md:grid-cols-3">
+          <div className="space-y-2">
+            <Label htmlFor="messagesPerMinute">Messages per minute</Label>
+            <Input
+              id="messagesPerMinute"
+              type="number"
+              min={1}
+              value={settings.messages_per_minute}
+              onChange={(e) => setSettings({ ...settings, messages_per_minute: parseInt(e.target.value) || 0 })}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="messagesPerDay">Messages per day</Label>
+            <Input
+              id="messagesPerDay"
+              type="number"
+              min={1}
+              value={settings.messages_per_day}
+              onChange={(e) => setSettings({ ...settings, messages_per_day: parseInt(e.target.value) || 0 })}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="timezone">Timezone</Label>
+            <Input
+              id="timezone"
+              placeholder="Asia/Jakarta"
+              value={settings.timezone}
+              onChange={(e) => setSettings({ ...settings, timezone: e.target.value })}
+            />
+          </div>
+        </div>
+
+        <div className="space-y-4">
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id="quietHours"
+              checked={quietHoursEnabled}
+              onCheckedChange={(checked) => setQuietHoursEnabled(checked === true)}
+            />
+            <Label htmlFor="quietHours" className="font-normal">
+              Don&apos;t send during quiet hours
+            </Label>
+          </div>
+
+          {quietHoursEnabled && (
+            <div className="grid gap-4 md:grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor="quietHoursStart">From</Label>
+                <Input
+                  id="quietHoursStart"
+                  type="time"
+                  value={settings.quiet_hours_start || '21:00'}
+                  onChange={(e) => setSettings({ ...settings, quiet_hours_start: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="quietHoursEnd">Until</Label>
+                <Input
+                  id="quietHoursEnd"
+                  type="time"
+                  value={settings.quiet_hours_end || '08:00'}
+                  onChange={(e) => setSettings({ ...settings, quiet_hours_end: e.target.value })}
+                />
+              </div>
+            </div>
+          )}
+        </div>
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {success && (
+          <Alert>
+            <CheckCircle className="h-4 w-4" />
+            <AlertDescription>{success}</AlertDescription>
+          </Alert>
+        )}
+
+        <Button onClick={handleSave} disabled={saving} className="w-full">
+          {saving ? 'Saving...' : 'Save Limits'}
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
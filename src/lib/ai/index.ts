@@ -0,0 +1,54 @@
+import { openai } from '@ai-sdk/openai';
+import { anthropic } from '@ai-sdk/anthropic';
+import { LanguageModel } from 'ai';
+
+export type AiProviderId = 'openai' | 'anthropic';
+
+export const AI_PROVIDERS: AiProviderId[] = ['openai', 'anthropic'];
+
+export const DEFAULT_AI_PROVIDER: AiProviderId = 'openai';
+
+// Used when AI_MODEL is not set
+export const DEFAULT_AI_MODELS: Record<AiProviderId, string> = {
+  openai: 'gpt-4o',
+  anthropic: 'claude-3-5-sonnet-latest',
+};
+
+const API_KEY_ENV: Record<AiProviderId, string> = {
+  openai: 'OPENAI_API_KEY',
+  anthropic: 'ANTHROPIC_API_KEY',
+};
+
+export interface ResolvedAiModel {
+  provider: AiProviderId;
+  modelId: string;
+  model: LanguageModel;
+}
+
+export function isAiProviderId(value: unknown): value is AiProviderId {
+  return typeof value === 'string' && (AI_PROVIDERS as string[]).includes(value);
+}
+
+export function isAiProviderConfigured(provider: AiProviderId): boolean {
+  return Boolean(process.env[API_KEY_ENV[provider]]);
+}
+
+// The language model selected by AI_PROVIDER ('openai' or 'anthropic') and AI_MODEL, or null when
+// that provider's API key is not set. Both SDKs read their key from the environment themselves.
+export function getAiModel(): ResolvedAiModel | null {
+  const configured = process.env.AI_PROVIDER;
+  const provider = isAiProviderId(configured) ? configured : DEFAULT_AI_PROVIDER;
+
+  if (!isAiProviderConfigured(provider)) {
+    return null;
+  }
+
+  return createAiModel(provider, process.env.AI_MODEL || DEFAULT_AI_MODELS[provider]);
+}
+
+// A specific model, e.g. one picked by the user; check isAiProviderConfigured first
+export function createAiModel(provider: AiProviderId, modelId: string): ResolvedAiModel {
+  const model = provider === 'anthropic' ? anthropic(modelId) : openai(modelId);
+
+  return { provider, modelId, model };
+}
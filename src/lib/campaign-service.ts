@@ -0,0 +1,283 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { holdInteractionCredits, releaseInteractionCreditHold } from '@/lib/interaction-credit-service';
+import { isLeadStage } from '@/lib/lead-pipeline';
+import { normalizePhoneNumber } from '@/lib/phone';
+import { getOptedOutNumbers } from '@/lib/opt-out-service';
+import { getSendLimitSettings } from '@/lib/send-limit-service';
+import { renderMessageTemplate, TemplateLead } from '@/lib/message-template';
+import { toWhatsAppNumber } from '@/lib/whatsapp';
+import { getMessageCredits } from '@/lib/whatsapp-pricing';
+
+export const CAMPAIGN_CREDITS_PER_MESSAGE = getMessageCredits('text');
+export const MAX_CAMPAIGN_RECIPIENTS = 1000;
+export const DEFAULT_SEND_INTERVAL_MS = 1000;
+export const MAX_SEND_INTERVAL_MS = 60 * 1000;
+
+// Lead segment a campaign is sent to; filters are combined
+export interface CampaignTarget {
+  search_id?: string;
+  tag?: string;
+  stage?: string;
+}
+
+export interface CampaignRecipient {
+  lead_id: string;
+  phone_number: string;
+  lead: TemplateLead;
+}
+
+export interface CreateCampaignInput {
+  userId: string;
+  name: string;
+  message: string;
+  templateId?: string | null;
+  target: CampaignTarget;
+  sendIntervalMs?: number;
+}
+
+// Failures carry the HTTP status and response body the campaigns route returns
+export type CreateCampaignResult =
+  | {
+      ok: true;
+      campaign: {
+        id: string;
+        total_recipients: number;
+        excluded_recipients: number;
+        opted_out_recipients: number;
+        credits_held: number;
+      };
+      holdId: string;
+    }
+  | { ok: false; status: number; body: { error: string; code?: string; [key: string]: unknown } };
+
+// Leads in the segment that have a valid phone number, one per number
+export async function resolveCampaignRecipients(
+  supabase: SupabaseClient,
+  userId: string,
+  target: CampaignTarget
+): Promise<CampaignRecipient[]> {
+  let query = supabase
+    .from('leads')
+    .select('id, name, email, phone, company, position, linkedin_url, additional_data, lead_searches!inner()')
+    .eq('lead_searches.user_id', userId)
+    .not('phone', 'is', null)
+    .order('created_at', { ascending: true })
+    .limit(MAX_CAMPAIGN_RECIPIENTS);
+
+  if (target.search_id) {
+    query = query.eq('search_id', target.search_id);
+  }
+
+  if (target.tag) {
+    query = query.contains('tags', [target.tag]);
+  }
+
+  if (target.stage) {
+    query = query.eq('stage', target.stage);
+  }
+
+  const { data: leads, error } = await query;
+
+  if (error) {
+    throw new Error(`Failed to resolve campaign recipients: ${error.message}`);
+  }
+
+  const recipients = new Map<string, CampaignRecipient>();
+  for (const lead of leads || []) {
+    const normalized = normalizePhoneNumber(lead.phone);
+    if (!normalized) {
+      continue;
+    }
+
+    const phoneNumber = toWhatsAppNumber(normalized);
+    if (!recipients.has(phoneNumber)) {
+      recipients.set(phoneNumber, { lead_id: lead.id, phone_number: phoneNumber, lead });
+    }
+  }
+
+  return Array.from(recipients.values());
+}
+
+// Create the campaign and its recipient list, then hold credits for every recipient at once.
+// Numbers on the user's opt-out list are left out, and so are leads missing a field the message
+// requires once it is rendered for them.
+// Sending is done by processCampaign. Users cannot write campaign rows, so supabase must be the
+// service-role client.
+export async function createCampaign(
+  supabase: SupabaseClient,
+  input: CreateCampaignInput
+): Promise<CreateCampaignResult> {
+  const { userId, name, message, templateId = null, target, sendIntervalMs = DEFAULT_SEND_INTERVAL_MS } = input;
+
+  if (!target.search_id && !target.tag) {
+    return {
+      ok: false,
+      status: 400,
+      body: { error: 'A search_id or tag is required to select recipients', code: 'INVALID_TARGET' }
+    };
+  }
+
+  if (target.stage && !isLeadStage(target.stage)) {
+    return { ok: false, status: 400, body: { error: 'Invalid stage', code: 'INVALID_STAGE' } };
+  }
+
+  const matched = await resolveCampaignRecipients(supabase, userId, target);
+
+  if (matched.length === 0) {
+    return {
+      ok: false,
+      status: 400,
+      body: { error: 'No leads with a phone number match this segment', code: 'NO_RECIPIENTS' }
+    };
+  }
+
+  const optedOut = await getOptedOutNumbers(supabase, userId, matched.map(recipient => recipient.phone_number));
+  const reachable = matched.filter(recipient => !optedOut.has(recipient.phone_number));
+
+  if (reachable.length === 0) {
+    return {
+      ok: false,
+      status: 403,
+      body: { error: 'Every lead in this segment has opted out of WhatsApp messages', code: 'RECIPIENT_OPTED_OUT' }
+    };
+  }
+
+  const recipients: { lead_id: string; phone_number: string; content: string }[] = [];
+  const missingFields = new Set<string>();
+
+  for (const recipient of reachable) {
+    const rendered = renderMessageTemplate(message, recipient.lead);
+
+    if (rendered.missing_fields.length > 0) {
+      rendered.missing_fields.forEach(field => missingFields.add(field));
+      continue;
+    }
+
+    recipients.push({ lead_id: recipient.lead_id, phone_number: recipient.phone_number, content: rendered.content });
+  }
+
+  if (recipients.length === 0) {
+    return {
+      ok: false,
+      status: 422,
+      body: {
+        error: 'Every lead in this segment is missing a field the message requires',
+        code: 'MISSING_TEMPLATE_FIELDS',
+        missing_fields: Array.from(missingFields)
+      }
+    };
+  }
+
+  const excludedRecipients = reachable.length - recipients.length;
+
+  const creditsHeld = recipients.length * CAMPAIGN_CREDITS_PER_MESSAGE;
+
+  const { data: campaign, error: campaignError } = await supabase
+    .from('whatsapp_campaigns')
+    .insert({
+      user_id: userId,
+      name,
+      message,
+      template_id: templateId,
+      target,
+      send_interval_ms: sendIntervalMs,
+      total_recipients: recipients.length,
+      credits_per_message: CAMPAIGN_CREDITS_PER_MESSAGE,
+      credits_held: creditsHeld,
+      status: 'pending',
+    })
+    .select()
+    .single();
+
+  if (campaignError) {
+    console.error('Error creating campaign:', campaignError);
+    return { ok: false, status: 500, body: { error: 'Failed to create campaign' } };
+  }
+
+  const { error: recipientsError } = await supabase
+    .from('whatsapp_campaign_recipients')
+    .insert(recipients.map(recipient => ({ campaign_id: campaign.id, ...recipient })));
+
+  if (recipientsError) {
+    console.error('Error creating campaign recipients:', recipientsError);
+    await markCampaignFailed(supabase, userId, campaign.id, 'Failed to create recipient list');
+    return { ok: false, status: 500, body: { error: 'Failed to create campaign' } };
+  }
+
+  // Size the first hold to outlast a throttled run, including days spent paused at the daily limit
+  // or in quiet hours. This is an estimate (limits are shared and can change), so the worker also
+  // extends the hold on every run and pause.
+  const limits = await getSendLimitSettings(supabase, userId);
+  const perMessageMs = Math.max(sendIntervalMs + 1000, 60000 / limits.messages_per_minute);
+  const daysPaused = Math.ceil(recipients.length / limits.messages_per_day) - 1 + (limits.quiet_hours_start ? 1 : 0);
+  const expectedMinutes = Math.ceil((recipients.length * perMessageMs) / 60000) + daysPaused * 24 * 60;
+
+  let holdId: string;
+  try {
+    holdId = await holdInteractionCredits(userId, creditsHeld, campaign.id, expectedMinutes + 60, supabase);
+  } catch (holdError) {
+    const errorMessage = holdError instanceof Error ? holdError.message : String(holdError);
+    await markCampaignFailed(supabase, userId, campaign.id, 'Failed to hold credits');
+
+    const match = errorMessage.match(/Available: (-?\d+), Required: (\d+)/);
+    if (match) {
+      return {
+        ok: false,
+        status: 402,
+        body: {
+          error: 'Insufficient interaction credits',
+          code: 'INSUFFICIENT_CREDITS',
+          available_credits: parseInt(match[1]),
+          required_credits: parseInt(match[2])
+        }
+      };
+    }
+
+    console.error('Error holding campaign credits:', holdError);
+    return { ok: false, status: 500, body: { error: 'Failed to hold interaction credits', code: 'CREDIT_HOLD_FAILED' } };
+  }
+
+  const { error: attachError } = await supabase
+    .from('whatsapp_campaigns')
+    .update({ hold_id: holdId })
+    .eq('id', campaign.id)
+    .eq('user_id', userId);
+
+  if (attachError) {
+    console.error('Error attaching hold to campaign:', attachError);
+
+    try {
+      await releaseInteractionCreditHold(holdId, 'Failed to queue campaign', supabase);
+    } catch (releaseError) {
+      console.error('Error releasing credit hold:', releaseError);
+    }
+
+    await markCampaignFailed(supabase, userId, campaign.id, 'Failed to queue campaign');
+    return { ok: false, status: 500, body: { error: 'Failed to queue campaign', code: 'QUEUE_FAILED' } };
+  }
+
+  return {
+    ok: true,
+    campaign: {
+      id: campaign.id,
+      total_recipients: recipients.length,
+      excluded_recipients: excludedRecipients,
+      opted_out_recipients: optedOut.size,
+      credits_held: creditsHeld
+    },
+    holdId
+  };
+}
+
+async function markCampaignFailed(
+  supabase: SupabaseClient,
+  userId: string,
+  campaignId: string,
+  errorMessage: string
+) {
+  await supabase
+    .from('whatsapp_campaigns')
+    .update({ status: 'failed', error_message: errorMessage, completed_at: new Date().toISOString() })
+    .eq('id', campaignId)
+    .eq('user_id', userId);
+}
@@ -0,0 +1,375 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { createSupabaseServiceClient } from '@/lib/supabase';
+import { getWhatsAppProvider } from '@/lib/whatsapp';
+import { isOptedOut } from '@/lib/opt-out-service';
+import { reserveSendSlot } from '@/lib/send-limit-service';
+import { CAMPAIGN_CREDITS_PER_MESSAGE } from '@/lib/campaign-service';
+import {
+  extendInteractionCreditHold,
+  releaseInteractionCreditHold,
+  settleInteractionCreditHoldShare
+} from '@/lib/interaction-credit-service';
+
+const LOCK_DURATION_MS = 2 * 60 * 1000; // Lease a worker holds on a campaign before another may resume it
+const HOLD_RENEWAL_MINUTES = 60; // Hold lifetime kept ahead of each run or pause, with room for the cron to resume
+const DEFAULT_TIME_BUDGET_MS = 45 * 1000; // Stay well inside a serverless request limit
+
+export interface CampaignJobResult {
+  campaign_id: string;
+  status: 'running' | 'completed' | 'cancelled' | 'failed';
+  sent_count: number;
+  failed_count: number;
+  credits_used: number;
+  error?: string;
+}
+
+interface ProcessOptions {
+  supabase?: SupabaseClient;
+  timeBudgetMs?: number;
+}
+
+export interface CampaignRecord {
+  id: string;
+  user_id: string;
+  message: string;
+  template_id: string | null;
+  status: string;
+  send_interval_ms: number;
+  total_recipients: number;
+  sent_count: number;
+  failed_count: number;
+  credits_held: number;
+  credits_used: number;
+  hold_id: string | null;
+}
+
+// Send a campaign's pending recipients one at a time, waiting send_interval_ms between messages.
+// Each message settles its share of the campaign hold, priced here rather than read from the row;
+// progress is saved after every message so a campaign that runs out of time resumes where it stopped. The hold's lifetime is only an
+// estimate, so each run and each pause extends it before any message is sent from it.
+export async function processCampaign(
+  campaignId: string,
+  options: ProcessOptions = {}
+): Promise<CampaignJobResult | null> {
+  const supabase = options.supabase || createSupabaseServiceClient();
+  const deadline = Date.now() + (options.timeBudgetMs ?? DEFAULT_TIME_BUDGET_MS);
+
+  const campaign = await claimCampaign(supabase, campaignId);
+  if (!campaign) {
+    // Already finished, cancelled or leased by another worker
+    return null;
+  }
+
+  try {
+    // Throws when WhatsApp is not configured, which fails the campaign and releases its hold
+    const provider = getWhatsAppProvider();
+
+    await extendInteractionCreditHold(campaign.hold_id!, HOLD_RENEWAL_MINUTES, supabase);
+
+    while (true) {
+      if (Date.now() >= deadline) {
+        await supabase
+          .from('whatsapp_campaigns')
+          .update({ locked_until: null })
+          .eq('id', campaignId)
+          .eq('user_id', campaign.user_id);
+
+        return toJobResult(campaign, 'running');
+      }
+
+      // Stop promptly if the user cancelled while we were sending
+      const { data: current } = await supabase
+        .from('whatsapp_campaigns')
+        .select('status')
+        .eq('id', campaignId)
+        .eq('user_id', campaign.user_id)
+        .single();
+
+      if (current?.status === 'cancelled') {
+        await finalizeCampaign(supabase, campaign, 'cancelled');
+        return toJobResult(campaign, 'cancelled');
+      }
+
+      const { data: recipient, error: recipientError } = await supabase
+        .from('whatsapp_campaign_recipients')
+        .select('*')
+        .eq('campaign_id', campaignId)
+        .eq('status', 'pending')
+        .order('created_at', { ascending: true })
+        .limit(1)
+        .maybeSingle();
+
+      if (recipientError) {
+        throw new Error(recipientError.message);
+      }
+
+      if (!recipient) {
+        break;
+      }
+
+      // The number may have opted out after the campaign was created; skips count as failures
+      // so the settled share of the hold stays in step with sent_count + failed_count
+      if (await isOptedOut(supabase, campaign.user_id, recipient.phone_number)) {
+        await skipOptedOutRecipient(supabase, campaign, recipient.id);
+        campaign.failed_count += 1;
+      } else {
+        // Pause at the user's send limits or quiet hours. Holding the lease until the window opens
+        // keeps the worker cron from resuming the campaign early.
+        const sendWindow = await reserveSendSlot(supabase, campaign.user_id);
+        if (!sendWindow.allowed) {
+          const pausedMinutes = Math.ceil((sendWindow.retry_at.getTime() - Date.now()) / 60000);
+          await extendInteractionCreditHold(campaign.hold_id!, pausedMinutes + HOLD_RENEWAL_MINUTES, supabase);
+
+          await supabase
+            .from('whatsapp_campaigns')
+            .update({ locked_until: sendWindow.retry_at.toISOString() })
+            .eq('id', campaignId)
+            .eq('user_id', campaign.user_id);
+
+          return toJobResult(campaign, 'running');
+        }
+
+        if (await sendCampaignMessage(supabase, provider, campaign, recipient)) {
+          campaign.sent_count += 1;
+          campaign.credits_used += CAMPAIGN_CREDITS_PER_MESSAGE;
+        } else {
+          campaign.failed_count += 1;
+        }
+      }
+
+      await supabase
+        .from('whatsapp_campaigns')
+        .update({
+          sent_count: campaign.sent_count,
+          failed_count: campaign.failed_count,
+          credits_used: campaign.credits_used,
+          locked_until: new Date(Date.now() + LOCK_DURATION_MS).toISOString()
+        })
+        .eq('id', campaignId)
+        .eq('user_id', campaign.user_id);
+
+      // Throttle sends
+      const wait = Math.min(campaign.send_interval_ms, deadline - Date.now());
+      if (wait > 0) {
+        await new Promise(resolve => setTimeout(resolve, wait));
+      }
+    }
+
+    await finalizeCampaign(supabase, campaign, 'completed');
+    return toJobResult(campaign, 'completed');
+
+  } catch (error) {
+    console.error(`Error processing campaign ${campaignId}:`, error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+
+    await finalizeCampaign(supabase, campaign, 'failed', errorMessage);
+    return { ...toJobResult(campaign, 'failed'), error: errorMessage };
+  }
+}
+
+// Process running and queued campaigns oldest first; used by the worker cron
+export async function processPendingCampaigns(
+  limit: number = 5,
+  options: ProcessOptions = {}
+): Promise<CampaignJobResult[]> {
+  const supabase = options.supabase || createSupabaseServiceClient();
+
+  const { data: pendingCampaigns, error } = await supabase
+    .from('whatsapp_campaigns')
+    .select('id')
+    .in('status', ['pending', 'running'])
+    .not('hold_id', 'is', null)
+    .or(`locked_until.is.null,locked_until.lt.${new Date().toISOString()}`)
+    .order('created_at', { ascending: true })
+    .limit(limit);
+
+  if (error) {
+    throw new Error(`Failed to fetch pending campaigns: ${error.message}`);
+  }
+
+  const results: CampaignJobResult[] = [];
+  for (const pending of pendingCampaigns || []) {
+    const result = await processCampaign(pending.id, { ...options, supabase });
+    if (result) {
+      results.push(result);
+    }
+  }
+
+  return results;
+}
+
+// Close a campaign: skip recipients that were never sent, release whatever is left of the hold
+// and record the final status
+export async function finalizeCampaign(
+  supabase: SupabaseClient,
+  campaign: CampaignRecord,
+  status: 'completed' | 'cancelled' | 'failed',
+  errorMessage?: string
+) {
+  await supabase
+    .from('whatsapp_campaign_recipients')
+    .update({ status: 'cancelled' })
+    .eq('campaign_id', campaign.id)
+    .eq('status', 'pending');
+
+  const settled = (campaign.sent_count + campaign.failed_count) * CAMPAIGN_CREDITS_PER_MESSAGE;
+  if (campaign.hold_id && settled < campaign.credits_held) {
+    try {
+      await releaseInteractionCreditHold(campaign.hold_id, `Campaign ${status} - unused credits released`, supabase);
+    } catch (releaseError) {
+      console.error('Error releasing campaign credit hold:', releaseError);
+    }
+  }
+
+  const updates: Record<string, unknown> = {
+    status,
+    locked_until: null,
+    completed_at: new Date().toISOString()
+  };
+
+  if (errorMessage) {
+    updates.error_message = errorMessage;
+  }
+
+  let query = supabase
+    .from('whatsapp_campaigns')
+    .update(updates)
+    .eq('id', campaign.id)
+    .eq('user_id', campaign.user_id);
+
+  // A cancellation that lands while the last message is sending still wins
+  if (status !== 'cancelled') {
+    query = query.neq('status', 'cancelled');
+  }
+
+  await query;
+}
+
+// Take the worker lease on a queued or running campaign. Returns null if it is not claimable.
+async function claimCampaign(supabase: SupabaseClient, campaignId: string): Promise<CampaignRecord | null> {
+  const now = new Date();
+
+  const { data: campaign, error } = await supabase
+    .from('whatsapp_campaigns')
+    .update({ locked_until: new Date(now.getTime() + LOCK_DURATION_MS).toISOString() })
+    .eq('id', campaignId)
+    .in('status', ['pending', 'running'])
+    .not('hold_id', 'is', null)
+    .or(`locked_until.is.null,locked_until.lt.${now.toISOString()}`)
+    .select()
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to claim campaign: ${error.message}`);
+  }
+
+  if (campaign && campaign.status === 'pending') {
+    await supabase
+      .from('whatsapp_campaigns')
+      .update({ status: 'running', started_at: now.toISOString() })
+      .eq('id', campaignId)
+      .eq('user_id', campaign.user_id);
+  }
+
+  return campaign;
+}
+
+// Send one recipient's message and settle its share of the hold. Returns false if the send failed.
+async function sendCampaignMessage(
+  supabase: SupabaseClient,
+  provider: ReturnType<typeof getWhatsAppProvider>,
+  campaign: CampaignRecord,
+  recipient: { id: string; lead_id: string | null; phone_number: string; content: string | null }
+): Promise<boolean> {
+  // Recipients carry the message rendered for their lead when the campaign was created
+  const content = recipient.content || campaign.message;
+
+  const { data: messageRecord, error: messageError } = await supabase
+    .from('whatsapp_messages')
+    .insert({
+      user_id: campaign.user_id,
+      lead_id: recipient.lead_id,
+      campaign_id: campaign.id,
+      phone_number: recipient.phone_number,
+      message_type: 'outgoing',
+      content,
+      status: 'pending',
+      credits_used: CAMPAIGN_CREDITS_PER_MESSAGE,
+      hold_id: campaign.hold_id,
+      template_id: campaign.template_id,
+    })
+    .select()
+    .single();
+
+  if (messageError) {
+    throw new Error(`Failed to create message record: ${messageError.message}`);
+  }
+
+  let whatsappMessageId: string;
+  try {
+    const result = await provider.sendTextMessage(recipient.phone_number, content);
+    whatsappMessageId = result.message_id;
+  } catch (sendError) {
+    const errorMessage = sendError instanceof Error ? sendError.message : 'Unknown error';
+
+    await supabase
+      .from('whatsapp_messages')
+      .update({ status: 'failed', error_message: errorMessage, credits_used: 0 })
+      .eq('id', messageRecord.id)
+      .eq('user_id', campaign.user_id);
+
+    await supabase
+      .from('whatsapp_campaign_recipients')
+      .update({ status: 'failed', message_id: messageRecord.id, error_message: errorMessage })
+      .eq('id', recipient.id);
+
+    // A failed send returns its share to the available balance
+    await settleInteractionCreditHoldShare(campaign.hold_id!, CAMPAIGN_CREDITS_PER_MESSAGE, false, undefined, supabase);
+
+    return false;
+  }
+
+  const sentAt = new Date().toISOString();
+
+  // Record the send before settling so a settlement error can never lead to a resend
+  await supabase
+    .from('whatsapp_messages')
+    .update({ status: 'sent', whatsapp_message_id: whatsappMessageId, sent_at: sentAt })
+    .eq('id', messageRecord.id)
+    .eq('user_id', campaign.user_id);
+
+  await supabase
+    .from('whatsapp_campaign_recipients')
+    .update({ status: 'sent', message_id: messageRecord.id, sent_at: sentAt })
+    .eq('id', recipient.id);
+
+  await settleInteractionCreditHoldShare(
+    campaign.hold_id!,
+    CAMPAIGN_CREDITS_PER_MESSAGE,
+    true,
+    `WhatsApp campaign message - ${campaign.id}`,
+    supabase
+  );
+
+  return true;
+}
+
+// Cancel a recipient who opted out and return their share of the hold
+async function skipOptedOutRecipient(supabase: SupabaseClient, campaign: CampaignRecord, recipientId: string) {
+  await supabase
+    .from('whatsapp_campaign_recipients')
+    .update({ status: 'cancelled', error_message: 'Recipient opted out' })
+    .eq('id', recipientId);
+
+  await settleInteractionCreditHoldShare(campaign.hold_id!, CAMPAIGN_CREDITS_PER_MESSAGE, false, undefined, supabase);
+}
+
+function toJobResult(campaign: CampaignRecord, status: CampaignJobResult['status']): CampaignJobResult {
+  return {
+    campaign_id: campaign.id,
+    status,
+    sent_count: campaign.sent_count,
+    failed_count: campaign.failed_count,
+    credits_used: campaign.credits_used
+  };
+}
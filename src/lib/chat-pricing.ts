@@ -0,0 +1,56 @@
+import type { AiProviderId } from '@/lib/ai';
+
+// Models offered in the chat assistant and what they cost. A reply is charged by the tokens it used,
+// prompt and completion together, at the model's rate, rounded up to whole interaction credits.
+
+export interface ChatModelOption {
+  id: string; // 'provider/model', as sent by the model picker and stored on chat messages
+  provider: AiProviderId;
+  modelId: string;
+  label: string;
+  tokensPerCredit: number;
+}
+
+export const CHAT_MODELS: ChatModelOption[] = [
+  { id: 'openai/gpt-4o', provider: 'openai', modelId: 'gpt-4o', label: 'GPT-4o', tokensPerCredit: 1000 },
+  { id: 'openai/gpt-4o-mini', provider: 'openai', modelId: 'gpt-4o-mini', label: 'GPT-4o mini', tokensPerCredit: 5000 },
+  {
+    id: 'anthropic/claude-3-5-sonnet-latest',
+    provider: 'anthropic',
+    modelId: 'claude-3-5-sonnet-latest',
+    label: 'Claude 3.5 Sonnet',
+    tokensPerCredit: 1000
+  },
+  {
+    id: 'anthropic/claude-3-5-haiku-latest',
+    provider: 'anthropic',
+    modelId: 'claude-3-5-haiku-latest',
+    label: 'Claude 3.5 Haiku',
+    tokensPerCredit: 4000
+  },
+];
+
+export const DEFAULT_CHAT_MODEL_ID = 'openai/gpt-4o';
+
+export const MAX_CHAT_MESSAGE_LENGTH = 4000;
+export const MAX_CHAT_REPLY_TOKENS = 1000;
+// Earlier messages beyond this are not sent to the model
+export const CHAT_HISTORY_LIMIT = 20;
+
+export function getChatModelOption(id: unknown): ChatModelOption | null {
+  return CHAT_MODELS.find(model => model.id === id) ?? null;
+}
+
+// Rough token count for sizing the credit hold before the model reports actual usage
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+export function getChatCredits(model: ChatModelOption, totalTokens: number): number {
+  return Math.max(1, Math.ceil(totalTokens / model.tokensPerCredit));
+}
+
+// Credits to hold before a reply: the prompt as estimated plus the longest reply allowed
+export function getChatHoldCredits(model: ChatModelOption, promptText: string): number {
+  return getChatCredits(model, estimateTokens(promptText) + MAX_CHAT_REPLY_TOKENS);
+}
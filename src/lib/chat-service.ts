@@ -0,0 +1,132 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+
+const MAX_TITLE_LENGTH = 60;
+
+export interface ChatSessionRecord {
+  id: string;
+  user_id: string;
+  title: string;
+  model: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ChatMessageRecord {
+  id: string;
+  session_id: string;
+  role: 'user' | 'assistant';
+  content: string;
+  model: string | null;
+  prompt_tokens: number | null;
+  completion_tokens: number | null;
+  credits_used: number;
+  billed: boolean;
+  created_at: string;
+}
+
+export async function getChatSession(
+  supabase: SupabaseClient,
+  userId: string,
+  sessionId: string
+): Promise<ChatSessionRecord | null> {
+  const { data: session, error } = await supabase
+    .from('chat_sessions')
+    .select('*')
+    .eq('id', sessionId)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to fetch chat session: ${error.message}`);
+  }
+
+  return session;
+}
+
+// Start a session titled after its first message
+export async function createChatSession(
+  supabase: SupabaseClient,
+  userId: string,
+  firstMessage: string,
+  model: string
+): Promise<ChatSessionRecord> {
+  const text = firstMessage.trim().replace(/\s+/g, ' ');
+  const title = text.length > MAX_TITLE_LENGTH ? `${text.slice(0, MAX_TITLE_LENGTH - 3)}...` : text;
+
+  const { data: session, error } = await supabase
+    .from('chat_sessions')
+    .insert({ user_id: userId, title, model })
+    .select('*')
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to create chat session: ${error.message}`);
+  }
+
+  return session;
+}
+
+// The most recent messages of a session, oldest first
+export async function getChatHistory(
+  supabase: SupabaseClient,
+  sessionId: string,
+  limit?: number
+): Promise<ChatMessageRecord[]> {
+  let query = supabase
+    .from('chat_messages')
+    .select('*')
+    .eq('session_id', sessionId)
+    .order('created_at', { ascending: false });
+
+  if (limit) {
+    query = query.limit(limit);
+  }
+
+  const { data: messages, error } = await query;
+
+  if (error) {
+    throw new Error(`Failed to fetch chat messages: ${error.message}`);
+  }
+
+  return (messages || []).reverse();
+}
+
+export async function saveChatMessage(
+  supabase: SupabaseClient,
+  session: ChatSessionRecord,
+  message: {
+    role: 'user' | 'assistant';
+    content: string;
+    model?: string;
+    prompt_tokens?: number;
+    completion_tokens?: number;
+    credits_used?: number;
+    billed?: boolean;
+  }
+): Promise<ChatMessageRecord> {
+  const { data: saved, error } = await supabase
+    .from('chat_messages')
+    .insert({
+      session_id: session.id,
+      user_id: session.user_id,
+      ...message,
+    })
+    .select('*')
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to save chat message: ${error.message}`);
+  }
+
+  // Keeps recently used sessions first and remembers the model for when the session is reopened
+  const { error: sessionError } = await supabase
+    .from('chat_sessions')
+    .update({ model: message.model ?? session.model })
+    .eq('id', session.id);
+
+  if (sessionError) {
+    console.error('Error updating chat session:', sessionError);
+  }
+
+  return saved;
+}
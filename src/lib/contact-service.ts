@@ -0,0 +1,67 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { LeadSourceResult } from '@/lib/lead-sources';
+
+export interface ContactResolvedLead extends LeadSourceResult {
+  contact_id: string | null;
+}
+
+// Attach each lead to the user's merged contact (matched by normalized phone, email or LinkedIn URL).
+// With skipExisting, leads whose contact was already on file are dropped so they are not stored or charged.
+export async function resolveLeadContacts(
+  supabase: SupabaseClient,
+  userId: string,
+  leads: LeadSourceResult[],
+  skipExisting: boolean = false
+): Promise<{ leads: ContactResolvedLead[]; skipped: number }> {
+  const resolved: ContactResolvedLead[] = [];
+  let skipped = 0;
+
+  for (const lead of leads) {
+    if (!lead.phone && !lead.email && !lead.linkedin_url) {
+      // Nothing to match on; keep the lead without a contact
+      resolved.push({ ...lead, contact_id: null });
+      continue;
+    }
+
+    const { data, error } = await supabase.rpc('upsert_contact', {
+      p_user_id: userId,
+      p_name: lead.name,
+      p_email: lead.email,
+      p_phone: lead.phone,
+      p_company: lead.company,
+      p_position: lead.position,
+      p_linkedin_url: lead.linkedin_url,
+      p_additional_data: lead.additional_data
+    });
+
+    if (error) {
+      throw new Error(`Failed to resolve lead contact: ${error.message}`);
+    }
+
+    const match = Array.isArray(data) ? data[0] : data;
+
+    if (match?.is_existing && skipExisting) {
+      skipped++;
+      continue;
+    }
+
+    resolved.push({ ...lead, contact_id: match?.contact_id || null });
+  }
+
+  return { leads: resolved, skipped };
+}
+
+// Resolve a lead id to its merged contact id, if it has one
+export async function getLeadContactId(supabase: SupabaseClient, leadId: string): Promise<string | null> {
+  const { data: lead, error } = await supabase
+    .from('leads')
+    .select('contact_id')
+    .eq('id', leadId)
+    .single();
+
+  if (error) {
+    return null;
+  }
+
+  return lead?.contact_id || null;
+}
@@ -0,0 +1,50 @@
+// Follow-up sequence rules shared by the sequence routes, the follow-up worker and the
+// sequence editor. Client-safe; storage and sending live in follow-up-service and follow-up-worker.
+
+export const MAX_SEQUENCE_STEPS = 10;
+export const MAX_STEP_DELAY_DAYS = 90;
+
+export type FollowUpStopReason = 'replied' | 'opted_out' | 'manual' | 'failed';
+
+export interface FollowUpStepInput {
+  delay_days: number;
+  template_id: string;
+}
+
+export type ValidateStepsResult =
+  | { ok: true; steps: FollowUpStepInput[] }
+  | { ok: false; status: number; body: { error: string; code: string } };
+
+export function validateSequenceSteps(steps: unknown): ValidateStepsResult {
+  if (!Array.isArray(steps) || steps.length === 0 || steps.length > MAX_SEQUENCE_STEPS) {
+    return {
+      ok: false,
+      status: 400,
+      body: { error: `A sequence needs between 1 and ${MAX_SEQUENCE_STEPS} steps`, code: 'INVALID_STEPS' }
+    };
+  }
+
+  for (const step of steps) {
+    const delayDays = step?.delay_days;
+    if (!Number.isInteger(delayDays) || delayDays < 0 || delayDays > MAX_STEP_DELAY_DAYS) {
+      return {
+        ok: false,
+        status: 400,
+        body: { error: `Each step's delay_days must be between 0 and ${MAX_STEP_DELAY_DAYS}`, code: 'INVALID_STEPS' }
+      };
+    }
+
+    if (!step.template_id || typeof step.template_id !== 'string') {
+      return { ok: false, status: 400, body: { error: 'Each step needs a template_id', code: 'INVALID_STEPS' } };
+    }
+  }
+
+  return {
+    ok: true,
+    steps: steps.map(step => ({ delay_days: step.delay_days, template_id: step.template_id }))
+  };
+}
+
+export function addDays(date: Date, days: number): Date {
+  return new Date(date.getTime() + days * 24 * 60 * 60 * 1000);
+}
@@ -0,0 +1,223 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { normalizePhoneNumber } from '@/lib/phone';
+import { getOptedOutNumbers } from '@/lib/opt-out-service';
+import { toWhatsAppNumber } from '@/lib/whatsapp';
+import { addDays, FollowUpStepInput, FollowUpStopReason } from '@/lib/follow-up-sequence';
+
+export const MAX_ENROLLMENT_LEADS = 500;
+
+export interface FollowUpSequenceRecord {
+  id: string;
+  user_id: string;
+  name: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface FollowUpEnrollmentRecord {
+  id: string;
+  user_id: string;
+  sequence_id: string;
+  lead_id: string;
+  phone_number: string;
+  status: 'active' | 'completed' | 'stopped';
+  next_step: number;
+  next_step_at: string | null;
+  steps_sent: number;
+  credits_used: number;
+  last_message_id: string | null;
+  stop_reason: FollowUpStopReason | null;
+  error_message: string | null;
+  started_at: string;
+}
+
+// Failures carry the HTTP status and response body the calling route returns
+type ServiceError = { ok: false; status: number; body: { error: string; code?: string; [key: string]: unknown } };
+
+export type CreateSequenceResult = { ok: true; sequence: FollowUpSequenceRecord } | ServiceError;
+
+export type EnrollLeadsResult =
+  | {
+      ok: true;
+      enrolled: FollowUpEnrollmentRecord[];
+      skipped: { lead_id: string; reason: 'not_found' | 'invalid_phone' | 'opted_out' | 'already_enrolled' }[];
+    }
+  | ServiceError;
+
+// Create a sequence and its steps, in the order given. Every step's template must be the user's.
+export async function createFollowUpSequence(
+  supabase: SupabaseClient,
+  userId: string,
+  input: { name: string; steps: FollowUpStepInput[] }
+): Promise<CreateSequenceResult> {
+  const templateIds = [...new Set(input.steps.map(step => step.template_id))];
+
+  const { data: templates, error: templatesError } = await supabase
+    .from('message_templates')
+    .select('id')
+    .eq('user_id', userId)
+    .in('id', templateIds);
+
+  if (templatesError) {
+    console.error('Error fetching templates for sequence:', templatesError);
+    return { ok: false, status: 500, body: { error: 'Failed to create sequence' } };
+  }
+
+  if ((templates || []).length !== templateIds.length) {
+    return { ok: false, status: 404, body: { error: 'Template not found', code: 'TEMPLATE_NOT_FOUND' } };
+  }
+
+  const { data: sequence, error: sequenceError } = await supabase
+    .from('follow_up_sequences')
+    .insert({ user_id: userId, name: input.name })
+    .select()
+    .single();
+
+  if (sequenceError) {
+    console.error('Error creating sequence:', sequenceError);
+    return { ok: false, status: 500, body: { error: 'Failed to create sequence' } };
+  }
+
+  const { error: stepsError } = await supabase
+    .from('follow_up_sequence_steps')
+    .insert(input.steps.map((step, index) => ({
+      sequence_id: sequence.id,
+      position: index + 1,
+      delay_days: step.delay_days,
+      template_id: step.template_id,
+    })));
+
+  if (stepsError) {
+    console.error('Error creating sequence steps:', stepsError);
+    await supabase.from('follow_up_sequences').delete().eq('id', sequence.id);
+    return { ok: false, status: 500, body: { error: 'Failed to create sequence' } };
+  }
+
+  return { ok: true, sequence };
+}
+
+// Start a sequence for each lead. The first step is due after its delay; leads without a valid
+// number, that opted out or that are already in the sequence are skipped and reported.
+export async function enrollLeads(
+  supabase: SupabaseClient,
+  userId: string,
+  sequenceId: string,
+  leadIds: string[]
+): Promise<EnrollLeadsResult> {
+  const { data: firstStep, error: stepError } = await supabase
+    .from('follow_up_sequence_steps')
+    .select('delay_days, follow_up_sequences!inner(user_id)')
+    .eq('sequence_id', sequenceId)
+    .eq('follow_up_sequences.user_id', userId)
+    .eq('position', 1)
+    .maybeSingle();
+
+  if (stepError) {
+    console.error('Error fetching sequence:', stepError);
+    return { ok: false, status: 500, body: { error: 'Failed to enroll leads' } };
+  }
+
+  if (!firstStep) {
+    return { ok: false, status: 404, body: { error: 'Sequence not found', code: 'SEQUENCE_NOT_FOUND' } };
+  }
+
+  const { data: leads, error: leadsError } = await supabase
+    .from('leads')
+    .select('id, phone, lead_searches!inner()')
+    .in('id', leadIds)
+    .eq('lead_searches.user_id', userId);
+
+  if (leadsError) {
+    console.error('Error fetching leads for enrollment:', leadsError);
+    return { ok: false, status: 500, body: { error: 'Failed to enroll leads' } };
+  }
+
+  const { data: activeEnrollments } = await supabase
+    .from('follow_up_enrollments')
+    .select('lead_id')
+    .eq('sequence_id', sequenceId)
+    .eq('status', 'active')
+    .in('lead_id', leadIds);
+
+  const alreadyEnrolled = new Set((activeEnrollments || []).map(e => e.lead_id));
+  const leadsById = new Map((leads || []).map(lead => [lead.id, lead]));
+  const skipped: Extract<EnrollLeadsResult, { ok: true }>['skipped'] = [];
+  const candidates: { lead_id: string; phone_number: string }[] = [];
+
+  for (const leadId of leadIds) {
+    const lead = leadsById.get(leadId);
+    if (!lead) {
+      skipped.push({ lead_id: leadId, reason: 'not_found' });
+      continue;
+    }
+
+    if (alreadyEnrolled.has(leadId)) {
+      skipped.push({ lead_id: leadId, reason: 'already_enrolled' });
+      continue;
+    }
+
+    const phone = lead.phone ? normalizePhoneNumber(lead.phone) : null;
+    if (!phone) {
+      skipped.push({ lead_id: leadId, reason: 'invalid_phone' });
+      continue;
+    }
+
+    candidates.push({ lead_id: leadId, phone_number: toWhatsAppNumber(phone) });
+  }
+
+  const optedOut = await getOptedOutNumbers(supabase, userId, candidates.map(c => c.phone_number));
+  const toEnroll = candidates.filter(candidate => {
+    if (optedOut.has(candidate.phone_number)) {
+      skipped.push({ lead_id: candidate.lead_id, reason: 'opted_out' });
+      return false;
+    }
+    return true;
+  });
+
+  if (toEnroll.length === 0) {
+    return { ok: true, enrolled: [], skipped };
+  }
+
+  const nextStepAt = addDays(new Date(), firstStep.delay_days).toISOString();
+
+  const { data: enrolled, error: enrollError } = await supabase
+    .from('follow_up_enrollments')
+    .insert(toEnroll.map(candidate => ({
+      user_id: userId,
+      sequence_id: sequenceId,
+      lead_id: candidate.lead_id,
+      phone_number: candidate.phone_number,
+      next_step: 1,
+      next_step_at: nextStepAt,
+    })))
+    .select();
+
+  if (enrollError) {
+    console.error('Error enrolling leads:', enrollError);
+    return { ok: false, status: 500, body: { error: 'Failed to enroll leads' } };
+  }
+
+  return { ok: true, enrolled: enrolled || [], skipped };
+}
+
+// End every active enrollment for a number, e.g. when it replies or opts out
+export async function stopEnrollmentsForNumber(
+  supabase: SupabaseClient,
+  userId: string,
+  phoneNumber: string,
+  reason: FollowUpStopReason
+): Promise<number> {
+  const { data: stopped, error } = await supabase
+    .from('follow_up_enrollments')
+    .update({ status: 'stopped', stop_reason: reason, next_step_at: null, completed_at: new Date().toISOString() })
+    .eq('user_id', userId)
+    .eq('phone_number', toWhatsAppNumber(phoneNumber))
+    .eq('status', 'active')
+    .select('id');
+
+  if (error) {
+    throw new Error(`Failed to stop follow-ups: ${error.message}`);
+  }
+
+  return stopped?.length || 0;
+}
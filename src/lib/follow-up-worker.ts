@@ -0,0 +1,300 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { createSupabaseServiceClient } from '@/lib/supabase';
+import { getWhatsAppProvider } from '@/lib/whatsapp';
+import { isOptedOut } from '@/lib/opt-out-service';
+import { reserveSendSlot } from '@/lib/send-limit-service';
+import { renderMessageTemplate } from '@/lib/message-template';
+import { getMessageCredits } from '@/lib/whatsapp-pricing';
+import { FollowUpEnrollmentRecord } from '@/lib/follow-up-service';
+import { addDays, FollowUpStopReason } from '@/lib/follow-up-sequence';
+import {
+  holdInteractionCredits,
+  deductInteractionCredits,
+  releaseInteractionCreditHold
+} from '@/lib/interaction-credit-service';
+
+const LOCK_DURATION_MS = 2 * 60 * 1000; // Lease a worker holds on an enrollment while sending its step
+
+export interface FollowUpStepResult {
+  enrollment_id: string;
+  status: 'sent' | 'completed' | 'deferred' | 'stopped';
+  step?: number;
+  stop_reason?: FollowUpStopReason;
+  error?: string;
+}
+
+interface ProcessOptions {
+  supabase?: SupabaseClient;
+}
+
+// Send the due step of each active enrollment, oldest first; used by the follow-up cron.
+// A step is only sent while the lead has not replied since the enrollment started.
+export async function processDueFollowUps(
+  limit: number = 20,
+  options: ProcessOptions = {}
+): Promise<FollowUpStepResult[]> {
+  const supabase = options.supabase || createSupabaseServiceClient();
+  const now = new Date().toISOString();
+
+  const { data: dueEnrollments, error } = await supabase
+    .from('follow_up_enrollments')
+    .select('id')
+    .eq('status', 'active')
+    .lte('next_step_at', now)
+    .or(`locked_until.is.null,locked_until.lt.${now}`)
+    .order('next_step_at', { ascending: true })
+    .limit(limit);
+
+  if (error) {
+    throw new Error(`Failed to fetch due follow-ups: ${error.message}`);
+  }
+
+  const results: FollowUpStepResult[] = [];
+  for (const due of dueEnrollments || []) {
+    const result = await processEnrollment(supabase, due.id);
+    if (result) {
+      results.push(result);
+    }
+  }
+
+  return results;
+}
+
+async function processEnrollment(supabase: SupabaseClient, enrollmentId: string): Promise<FollowUpStepResult | null> {
+  const enrollment = await claimEnrollment(supabase, enrollmentId);
+  if (!enrollment) {
+    // Stopped meanwhile or leased by another worker
+    return null;
+  }
+
+  // The webhook stops enrollments as replies arrive; this catches any reply it missed
+  if (await hasRepliedSince(supabase, enrollment)) {
+    return stopEnrollment(supabase, enrollment, 'replied');
+  }
+
+  if (await isOptedOut(supabase, enrollment.user_id, enrollment.phone_number)) {
+    return stopEnrollment(supabase, enrollment, 'opted_out');
+  }
+
+  const { data: step } = await supabase
+    .from('follow_up_sequence_steps')
+    .select('position, template_id, message_templates(content)')
+    .eq('sequence_id', enrollment.sequence_id)
+    .eq('position', enrollment.next_step)
+    .maybeSingle();
+
+  if (!step) {
+    return completeEnrollment(supabase, enrollment);
+  }
+
+  const { data: lead } = await supabase
+    .from('leads')
+    .select('*')
+    .eq('id', enrollment.lead_id)
+    .maybeSingle();
+
+  const template = Array.isArray(step.message_templates) ? step.message_templates[0] : step.message_templates;
+  if (!lead || !template) {
+    return stopEnrollment(supabase, enrollment, 'failed', 'Lead or template no longer exists');
+  }
+
+  const rendered = renderMessageTemplate(template.content, lead);
+  if (rendered.missing_fields.length > 0) {
+    return stopEnrollment(
+      supabase,
+      enrollment,
+      'failed',
+      `Lead is missing required fields: ${rendered.missing_fields.join(', ')}`
+    );
+  }
+
+  const sendWindow = await reserveSendSlot(supabase, enrollment.user_id);
+  if (!sendWindow.allowed) {
+    const nextStepAt = sendWindow.retry_at.toISOString();
+
+    await supabase
+      .from('follow_up_enrollments')
+      .update({ next_step_at: nextStepAt, locked_until: null })
+      .eq('id', enrollment.id)
+      .eq('user_id', enrollment.user_id);
+
+    return { enrollment_id: enrollment.id, status: 'deferred', step: step.position };
+  }
+
+  return sendStep(supabase, enrollment, step.position, step.template_id, rendered.content);
+}
+
+// Hold credits for one step, send it and settle: deducted on success, released on failure
+async function sendStep(
+  supabase: SupabaseClient,
+  enrollment: FollowUpEnrollmentRecord,
+  position: number,
+  templateId: string,
+  content: string
+): Promise<FollowUpStepResult> {
+  const requiredCredits = getMessageCredits('text');
+
+  let holdId: string;
+  try {
+    holdId = await holdInteractionCredits(
+      enrollment.user_id,
+      requiredCredits,
+      `follow_up_${enrollment.id}_${position}`,
+      30,
+      supabase
+    );
+  } catch (holdError) {
+    const errorMessage = holdError instanceof Error ? holdError.message : String(holdError);
+    return stopEnrollment(supabase, enrollment, 'failed', errorMessage);
+  }
+
+  const { data: messageRecord, error: messageError } = await supabase
+    .from('whatsapp_messages')
+    .insert({
+      user_id: enrollment.user_id,
+      lead_id: enrollment.lead_id,
+      enrollment_id: enrollment.id,
+      phone_number: enrollment.phone_number,
+      message_type: 'outgoing',
+      content,
+      template_id: templateId,
+      status: 'pending',
+      credits_used: requiredCredits,
+      hold_id: holdId,
+    })
+    .select('id')
+    .single();
+
+  if (messageError) {
+    await releaseInteractionCreditHold(holdId, 'Failed to create follow-up message record', supabase);
+    throw new Error(`Failed to create message record: ${messageError.message}`);
+  }
+
+  let whatsappMessageId: string;
+  try {
+    const result = await getWhatsAppProvider().sendTextMessage(enrollment.phone_number, content);
+    whatsappMessageId = result.message_id;
+  } catch (sendError) {
+    const errorMessage = sendError instanceof Error ? sendError.message : 'Unknown error';
+
+    try {
+      await releaseInteractionCreditHold(holdId, `WhatsApp API error: ${errorMessage}`, supabase);
+    } catch (releaseError) {
+      console.error('Error releasing credit hold:', releaseError);
+    }
+
+    await supabase
+      .from('whatsapp_messages')
+      .update({ status: 'failed', error_message: errorMessage, credits_used: 0 })
+      .eq('id', messageRecord.id)
+      .eq('user_id', enrollment.user_id);
+
+    return stopEnrollment(supabase, enrollment, 'failed', errorMessage);
+  }
+
+  // Record the send and advance before settling so a settlement error can never lead to a resend
+  await supabase
+    .from('whatsapp_messages')
+    .update({ status: 'sent', whatsapp_message_id: whatsappMessageId, sent_at: new Date().toISOString() })
+    .eq('id', messageRecord.id)
+    .eq('user_id', enrollment.user_id);
+
+  const { data: nextStep } = await supabase
+    .from('follow_up_sequence_steps')
+    .select('delay_days')
+    .eq('sequence_id', enrollment.sequence_id)
+    .eq('position', position + 1)
+    .maybeSingle();
+
+  const progress = {
+    steps_sent: enrollment.steps_sent + 1,
+    credits_used: enrollment.credits_used + requiredCredits,
+    last_message_id: messageRecord.id,
+    locked_until: null,
+  };
+
+  await supabase
+    .from('follow_up_enrollments')
+    .update(nextStep
+      ? { ...progress, next_step: position + 1, next_step_at: addDays(new Date(), nextStep.delay_days).toISOString() }
+      : { ...progress, status: 'completed', next_step_at: null, completed_at: new Date().toISOString() })
+    .eq('id', enrollment.id)
+    .eq('user_id', enrollment.user_id);
+
+  try {
+    await deductInteractionCredits(holdId, `WhatsApp follow-up step ${position} - ${enrollment.id}`, undefined, supabase);
+  } catch (deductError) {
+    console.error('Error deducting interaction credits:', deductError);
+  }
+
+  return { enrollment_id: enrollment.id, status: nextStep ? 'sent' : 'completed', step: position };
+}
+
+// Take the worker lease on an active enrollment. Returns null if it is not claimable.
+async function claimEnrollment(supabase: SupabaseClient, enrollmentId: string): Promise<FollowUpEnrollmentRecord | null> {
+  const now = new Date();
+
+  const { data: enrollment, error } = await supabase
+    .from('follow_up_enrollments')
+    .update({ locked_until: new Date(now.getTime() + LOCK_DURATION_MS).toISOString() })
+    .eq('id', enrollmentId)
+    .eq('status', 'active')
+    .or(`locked_until.is.null,locked_until.lt.${now.toISOString()}`)
+    .select()
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to claim follow-up: ${error.message}`);
+  }
+
+  return enrollment;
+}
+
+async function hasRepliedSince(supabase: SupabaseClient, enrollment: FollowUpEnrollmentRecord): Promise<boolean> {
+  const { data: reply } = await supabase
+    .from('whatsapp_messages')
+    .select('id')
+    .eq('user_id', enrollment.user_id)
+    .eq('message_type', 'incoming')
+    .or(`lead_id.eq.${enrollment.lead_id},phone_number.eq.${enrollment.phone_number}`)
+    .gte('created_at', enrollment.started_at)
+    .limit(1)
+    .maybeSingle();
+
+  return Boolean(reply);
+}
+
+async function stopEnrollment(
+  supabase: SupabaseClient,
+  enrollment: FollowUpEnrollmentRecord,
+  reason: FollowUpStopReason,
+  errorMessage?: string
+): Promise<FollowUpStepResult> {
+  await supabase
+    .from('follow_up_enrollments')
+    .update({
+      status: 'stopped',
+      stop_reason: reason,
+      error_message: errorMessage || null,
+      next_step_at: null,
+      locked_until: null,
+      completed_at: new Date().toISOString(),
+    })
+    .eq('id', enrollment.id)
+    .eq('user_id', enrollment.user_id);
+
+  return { enrollment_id: enrollment.id, status: 'stopped', stop_reason: reason, error: errorMessage };
+}
+
+async function completeEnrollment(
+  supabase: SupabaseClient,
+  enrollment: FollowUpEnrollmentRecord
+): Promise<FollowUpStepResult> {
+  await supabase
+    .from('follow_up_enrollments')
+    .update({ status: 'completed', next_step_at: null, locked_until: null, completed_at: new Date().toISOString() })
+    .eq('id', enrollment.id)
+    .eq('user_id', enrollment.user_id);
+
+  return { enrollment_id: enrollment.id, status: 'completed' };
+}
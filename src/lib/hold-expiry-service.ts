@@ -0,0 +1,120 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+
+export interface ExpiredHoldsSummary {
+  holds_expired: number;
+  lead_searches_failed: number;
+  messages_failed: number;
+  campaigns_failed: number;
+  users_notified: number;
+}
+
+interface ExpiredHoldRow {
+  hold_id: string;
+  user_id: string;
+  credit_type: 'scraper' | 'interaction';
+  amount: number;
+  reference_id: string;
+  lead_search_id: string | null;
+  whatsapp_message_id: string | null;
+  whatsapp_campaign_id: string | null;
+}
+
+interface TimedOutOperations {
+  holdIds: Set<string>;
+  searchIds: Set<string>;
+  messageIds: Set<string>;
+  campaignIds: Set<string>;
+  credits: Record<'scraper' | 'interaction', number>;
+}
+
+function plural(count: number, noun: string): string {
+  return `${count} ${noun}${count === 1 ? '' : 's'}`;
+}
+
+// Expire active holds past their expiry, fail the lead searches, WhatsApp messages and campaigns
+// that were waiting on them, and tell each affected user. Holds with no linked operation expire
+// quietly.
+export async function expireStaleHolds(supabase: SupabaseClient): Promise<ExpiredHoldsSummary> {
+  const { data, error } = await supabase.rpc('cleanup_expired_holds');
+
+  if (error) {
+    throw new Error(`Failed to expire credit holds: ${error.message}`);
+  }
+
+  const rows = (data || []) as ExpiredHoldRow[];
+  const byUser = new Map<string, TimedOutOperations>();
+
+  for (const row of rows) {
+    if (!row.lead_search_id && !row.whatsapp_message_id && !row.whatsapp_campaign_id) {
+      continue;
+    }
+
+    let operations = byUser.get(row.user_id);
+    if (!operations) {
+      operations = {
+        holdIds: new Set(),
+        searchIds: new Set(),
+        messageIds: new Set(),
+        campaignIds: new Set(),
+        credits: { scraper: 0, interaction: 0 }
+      };
+      byUser.set(row.user_id, operations);
+    }
+
+    // A campaign's messages share one hold; count its credits once
+    if (!operations.holdIds.has(row.hold_id)) {
+      operations.holdIds.add(row.hold_id);
+      operations.credits[row.credit_type] += row.amount;
+    }
+    if (row.lead_search_id) operations.searchIds.add(row.lead_search_id);
+    if (row.whatsapp_message_id) operations.messageIds.add(row.whatsapp_message_id);
+    if (row.whatsapp_campaign_id) operations.campaignIds.add(row.whatsapp_campaign_id);
+  }
+
+  let usersNotified = 0;
+  let searchesFailed = 0;
+  let messagesFailed = 0;
+  let campaignsFailed = 0;
+
+  for (const [userId, operations] of byUser) {
+    searchesFailed += operations.searchIds.size;
+    messagesFailed += operations.messageIds.size;
+    campaignsFailed += operations.campaignIds.size;
+    const failedCount = operations.searchIds.size + operations.messageIds.size + operations.campaignIds.size;
+
+    const timedOut = [
+      operations.searchIds.size > 0 ? plural(operations.searchIds.size, 'lead search') : null,
+      operations.messageIds.size > 0 ? plural(operations.messageIds.size, 'WhatsApp message') : null,
+      operations.campaignIds.size > 0 ? plural(operations.campaignIds.size, 'WhatsApp campaign') : null,
+    ].filter(Boolean).join(' and ');
+
+    const returned = [
+      operations.credits.scraper > 0 ? `${operations.credits.scraper} scraper` : null,
+      operations.credits.interaction > 0 ? `${operations.credits.interaction} interaction` : null,
+    ].filter(Boolean).join(' and ');
+
+    const { error: notifyError } = await supabase
+      .from('notifications')
+      .insert({
+        user_id: userId,
+        type: 'operation_timed_out',
+        title: 'Operation Timed Out',
+        message: `${timedOut} did not finish in time and ${failedCount === 1 ? 'was' : 'were'} marked failed. The ${returned} credits held for them are available again.`,
+      });
+
+    if (notifyError) {
+      console.error('Error creating timeout notification:', notifyError);
+      continue;
+    }
+
+    usersNotified++;
+  }
+
+  return {
+    holds_expired: new Set(rows.map(row => row.hold_id)).size,
+    lead_searches_failed: searchesFailed,
+    messages_failed: messagesFailed,
+    campaigns_failed: campaignsFailed,
+    users_notified: usersNotified,
+  };
+}
@@ -0,0 +1,196 @@
+import { createHash } from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs/server';
+import { SupabaseClient } from '@supabase/supabase-js';
+import { createSupabaseServerClient } from '@/lib/supabase';
+
+export const IDEMPOTENCY_KEY_HEADER = 'Idempotency-Key';
+export const MAX_IDEMPOTENCY_KEY_LENGTH = 255;
+
+// Out of credits and rate limited: a retry after a top-up or once the window resets should run again
+const UNSTORED_STATUSES = new Set([402, 429]);
+
+// Headers that describe the connection or the session rather than the response
+const UNREPLAYED_HEADERS = new Set(['set-cookie', 'content-length', 'content-encoding', 'transfer-encoding', 'connection']);
+
+type RouteHandler = (request: NextRequest) => Promise<NextResponse>;
+
+interface IdempotencyKeyRecord {
+  id: string;
+  request_fingerprint: string;
+  status: 'in_progress' | 'completed';
+  response_status: number | null;
+  response_body: string | null;
+  response_headers: Record<string, string> | null;
+  expires_at: string;
+}
+
+export function isValidIdempotencyKey(key: string): boolean {
+  return key.length > 0 && key.length <= MAX_IDEMPOTENCY_KEY_LENGTH && /^[\x21-\x7e]+$/.test(key);
+}
+
+// Identifies what a request asks for, so a reused key can be told apart from a retry
+export function fingerprintRequest(method: string, path: string, body: string): string {
+  return createHash('sha256').update(`${method.toUpperCase()} ${path}\n${body}`).digest('hex');
+}
+
+// Wrap a route handler so requests carrying an Idempotency-Key header run at most once per user,
+// route and key. A retry with the same body replays the stored response; the same key with a
+// different body, or while the first request is still running, is a 409. Server errors, 402 and
+// 429 responses are not stored, so the request can be retried with the same key. Requests without
+// the header are unchanged.
+export function withIdempotency(handler: RouteHandler): RouteHandler {
+  return async (request: NextRequest) => {
+    const key = request.headers.get(IDEMPOTENCY_KEY_HEADER);
+    if (key === null) {
+      return handler(request);
+    }
+
+    // Unauthenticated requests are rejected by the handler itself
+    const { userId } = await auth();
+    if (!userId) {
+      return handler(request);
+    }
+
+    if (!isValidIdempotencyKey(key)) {
+      return NextResponse.json({
+        error: `${IDEMPOTENCY_KEY_HEADER} must be 1 to ${MAX_IDEMPOTENCY_KEY_LENGTH} printable characters`,
+        code: 'INVALID_IDEMPOTENCY_KEY'
+      }, { status: 400 });
+    }
+
+    const route = request.nextUrl.pathname;
+    const fingerprint = fingerprintRequest(request.method, route, await request.clone().text());
+    const supabase = await createSupabaseServerClient();
+
+    const claimed = await claimIdempotencyKey(supabase, userId, route, key, fingerprint);
+
+    if (!claimed.ok) {
+      const existing = claimed.existing;
+
+      if (existing.request_fingerprint !== fingerprint) {
+        return NextResponse.json({
+          error: `${IDEMPOTENCY_KEY_HEADER} was already used for a different request`,
+          code: 'IDEMPOTENCY_KEY_REUSED'
+        }, { status: 409 });
+      }
+
+      if (existing.status === 'in_progress') {
+        return NextResponse.json({
+          error: 'A request with this idempotency key is still being processed',
+          code: 'IDEMPOTENCY_REQUEST_IN_PROGRESS'
+        }, { status: 409 });
+      }
+
+      return new NextResponse(existing.response_body, {
+        status: existing.response_status ?? 200,
+        // Stored names are lower case, so the stored content-type replaces this default
+        headers: {
+          'content-type': 'application/json',
+          ...existing.response_headers,
+          'Idempotent-Replayed': 'true'
+        }
+      });
+    }
+
+    let response: NextResponse;
+    try {
+      response = await handler(request);
+    } catch (error) {
+      await releaseIdempotencyKey(supabase, claimed.id);
+      throw error;
+    }
+
+    if (response.status >= 500 || UNSTORED_STATUSES.has(response.status)) {
+      await releaseIdempotencyKey(supabase, claimed.id);
+      return response;
+    }
+
+    const { error: saveError } = await supabase
+      .from('idempotency_keys')
+      .update({
+        status: 'completed',
+        response_status: response.status,
+        response_body: await response.clone().text(),
+        response_headers: replayableHeaders(response),
+        completed_at: new Date().toISOString()
+      })
+      .eq('id', claimed.id);
+
+    if (saveError) {
+      console.error('Error saving idempotent response:', saveError);
+    }
+
+    return response;
+  };
+}
+
+// Record the key as in progress, or return the request that already holds it. An expired record
+// is cleared so its key can be used again.
+async function claimIdempotencyKey(
+  supabase: SupabaseClient,
+  userId: string,
+  route: string,
+  key: string,
+  fingerprint: string
+): Promise<{ ok: true; id: string } | { ok: false; existing: IdempotencyKeyRecord }> {
+  for (let attempt = 0; attempt < 2; attempt++) {
+    const { data: inserted, error: insertError } = await supabase
+      .from('idempotency_keys')
+      .insert({ user_id: userId, route, idempotency_key: key, request_fingerprint: fingerprint })
+      .select('id')
+      .single();
+
+    if (!insertError) {
+      return { ok: true, id: inserted.id };
+    }
+
+    // 23505: the key is already recorded
+    if (insertError.code !== '23505') {
+      throw new Error(`Failed to record idempotency key: ${insertError.message}`);
+    }
+
+    const { data: existing, error: fetchError } = await supabase
+      .from('idempotency_keys')
+      .select('id, request_fingerprint, status, response_status, response_body, response_headers, expires_at')
+      .eq('user_id', userId)
+      .eq('route', route)
+      .eq('idempotency_key', key)
+      .maybeSingle();
+
+    if (fetchError) {
+      throw new Error(`Failed to fetch idempotency key: ${fetchError.message}`);
+    }
+
+    if (existing && new Date(existing.expires_at) > new Date()) {
+      return { ok: false, existing };
+    }
+
+    if (existing) {
+      await releaseIdempotencyKey(supabase, existing.id);
+    }
+  }
+
+  throw new Error('Failed to record idempotency key: key is being reused concurrently');
+}
+
+function replayableHeaders(response: NextResponse): Record<string, string> {
+  const headers: Record<string, string> = {};
+  response.headers.forEach((value, name) => {
+    if (!UNREPLAYED_HEADERS.has(name)) {
+      headers[name] = value;
+    }
+  });
+  return headers;
+}
+
+async function releaseIdempotencyKey(supabase: SupabaseClient, id: string) {
+  const { error } = await supabase
+    .from('idempotency_keys')
+    .delete()
+    .eq('id', id);
+
+  if (error) {
+    console.error('Error releasing idempotency key:', error);
+  }
+}
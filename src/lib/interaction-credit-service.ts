@@ -1,12 +1,14 @@
+import { SupabaseClient } from '@supabase/supabase-js';
 import { createSupabaseServerClient } from '@/lib/supabase';
 
 export async function holdInteractionCredits(
   userId: string,
   amount: number,
   referenceId: string,
-  expiresInMinutes: number = 30
+  expiresInMinutes: number = 30,
+  client?: SupabaseClient
 ) {
-  const supabase = await createSupabaseServerClient();
+  const supabase = client || await createSupabaseServerClient();
   
   const { data: holdId, error } = await supabase.rpc('hold_credits', {
     p_user_id: userId,
@@ -23,15 +25,19 @@ export async function holdInteractionCredits(
   return holdId;
 }
 
+// Deduct the credits actually used (the whole hold when omitted); the rest of the hold is released
 export async function deductInteractionCredits(
   holdId: string,
-  description?: string
+  description?: string,
+  actualAmount?: number,
+  client?: SupabaseClient
 ) {
-  const supabase = await createSupabaseServerClient();
+  const supabase = client || await createSupabaseServerClient();
   
   const { data: transactionId, error } = await supabase.rpc('convert_hold_to_deduction', {
     p_hold_id: holdId,
-    p_description: description
+    p_description: description,
+    p_actual_amount: actualAmount
   });
 
   if (error) {
@@ -43,9 +49,10 @@ export async function deductInteractionCredits(
 
 export async function releaseInteractionCreditHold(
   holdId: string,
-  reason?: string
+  reason?: string,
+  client?: SupabaseClient
 ) {
-  const supabase = await createSupabaseServerClient();
+  const supabase = client || await createSupabaseServerClient();
   
   const { error } = await supabase.rpc('release_credit_hold', {
     p_hold_id: holdId,
@@ -59,6 +66,50 @@ export async function releaseInteractionCreditHold(
   return true;
 }
 
+// Settle one share of an aggregate hold: deducted when used, otherwise returned to the balance
+export async function settleInteractionCreditHoldShare(
+  holdId: string,
+  amount: number,
+  used: boolean,
+  description?: string,
+  client?: SupabaseClient
+) {
+  const supabase = client || await createSupabaseServerClient();
+
+  const { data: remaining, error } = await supabase.rpc('settle_credit_hold_share', {
+    p_hold_id: holdId,
+    p_amount: amount,
+    p_used: used,
+    p_description: description
+  });
+
+  if (error) {
+    throw new Error(`Failed to settle interaction credit hold: ${error.message}`);
+  }
+
+  return remaining as number;
+}
+
+// Keep an active hold for at least another expiresInMinutes; fails once the hold has expired
+export async function extendInteractionCreditHold(
+  holdId: string,
+  expiresInMinutes: number,
+  client?: SupabaseClient
+) {
+  const supabase = client || await createSupabaseServerClient();
+
+  const { data: expiresAt, error } = await supabase.rpc('extend_credit_hold', {
+    p_hold_id: holdId,
+    p_expires_in_minutes: expiresInMinutes
+  });
+
+  if (error) {
+    throw new Error(`Failed to extend interaction credit hold: ${error.message}`);
+  }
+
+  return expiresAt as string;
+}
+
 export async function getInteractionCreditBalance(userId: string) {
   const supabase = await createSupabaseServerClient();
   
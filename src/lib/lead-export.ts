@@ -0,0 +1,211 @@
+import ExcelJS from 'exceljs';
+
+export type LeadExportFormat = 'csv' | 'xlsx' | 'vcf';
+
+export const LEAD_EXPORT_FORMATS: LeadExportFormat[] = ['csv', 'xlsx', 'vcf'];
+
+export interface ExportableLead {
+  id: string;
+  search_id: string;
+  name: string | null;
+  email: string | null;
+  phone: string | null;
+  company: string | null;
+  position: string | null;
+  linkedin_url: string | null;
+  source: string | null;
+  additional_data: Record<string, unknown> | null;
+  created_at: string;
+}
+
+const BASE_COLUMNS = [
+  'name',
+  'email',
+  'phone',
+  'company',
+  'position',
+  'linkedin_url',
+  'source',
+  'search_id',
+  'created_at'
+] as const;
+
+// Spreadsheet apps evaluate a cell starting with one of these as a formula
+const FORMULA_TRIGGER = /^[=+\-@\t\r]/;
+
+const CONTENT_TYPES: Record<LeadExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  vcf: 'text/vcard; charset=utf-8'
+};
+
+export function getExportContentType(format: LeadExportFormat) {
+  return CONTENT_TYPES[format];
+}
+
+// Flatten nested additional_data into dot-separated keys, e.g. { address: { city } } -> additional_data.address.city
+export function flattenAdditionalData(
+  data: Record<string, unknown> | null,
+  prefix: string = 'additional_data'
+): Record<string, string> {
+  const flattened: Record<string, string> = {};
+
+  for (const [key, value] of Object.entries(data || {})) {
+    const column = `${prefix}.${key}`;
+
+    if (value === null || value === undefined) {
+      flattened[column] = '';
+    } else if (Array.isArray(value)) {
+      flattened[column] = value.map(item => typeof item === 'object' ? JSON.stringify(item) : String(item)).join('; ');
+    } else if (typeof value === 'object') {
+      Object.assign(flattened, flattenAdditionalData(value as Record<string, unknown>, column));
+    } else {
+      flattened[column] = String(value);
+    }
+  }
+
+  return flattened;
+}
+
+// The export's column order: the base columns, then every additional_data column found, sorted
+export function getLeadExportColumns(additionalColumns: Iterable<string>): string[] {
+  return [...BASE_COLUMNS, ...Array.from(additionalColumns).sort()];
+}
+
+// One lead as a flat row keyed by column
+export function toLeadExportRow(lead: ExportableLead): Record<string, string> {
+  const row: Record<string, string> = {};
+  for (const column of BASE_COLUMNS) {
+    row[column] = lead[column] === null || lead[column] === undefined ? '' : String(lead[column]);
+  }
+
+  return { ...row, ...flattenAdditionalData(lead.additional_data) };
+}
+
+// Build one flat row per lead with a shared, stable column order
+export function flattenLeads(leads: ExportableLead[]): { columns: string[]; rows: Record<string, string>[] } {
+  const extraColumns = new Set<string>();
+
+  const rows = leads.map(lead => {
+    const row = toLeadExportRow(lead);
+    Object.keys(row)
+      .filter(column => column.startsWith('additional_data.'))
+      .forEach(column => extraColumns.add(column));
+    return row;
+  });
+
+  return {
+    columns: getLeadExportColumns(extraColumns),
+    rows
+  };
+}
+
+// Scraped values (and every E.164 phone, +62...) can start like a formula; a leading ' makes
+// spreadsheet apps show them as text instead
+export function escapeCsvValue(value: string) {
+  const safe = FORMULA_TRIGGER.test(value) ? `'${value}` : value;
+
+  if (/[",\r\n]/.test(safe)) {
+    return `"${safe.replace(/"/g, '""')}"`;
+  }
+  return safe;
+}
+
+function escapeVCardValue(value: string) {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/\n/g, '\\n')
+    .replace(/,/g, '\\,')
+    .replace(/;/g, '\\;');
+}
+
+function leadToVCard(lead: ExportableLead) {
+  const name = lead.name || lead.email || lead.phone || 'Unknown';
+  const nameParts = name.split(' ');
+  const lastName = nameParts.length > 1 ? nameParts.pop() || '' : '';
+  const firstName = nameParts.join(' ');
+
+  const lines = [
+    'BEGIN:VCARD',
+    'VERSION:3.0',
+    `FN:${escapeVCardValue(name)}`,
+    `N:${escapeVCardValue(lastName)};${escapeVCardValue(firstName)};;;`
+  ];
+
+  if (lead.company) lines.push(`ORG:${escapeVCardValue(lead.company)}`);
+  if (lead.position) lines.push(`TITLE:${escapeVCardValue(lead.position)}`);
+  if (lead.email) lines.push(`EMAIL;TYPE=INTERNET:${escapeVCardValue(lead.email)}`);
+  if (lead.phone) lines.push(`TEL;TYPE=CELL:${escapeVCardValue(lead.phone)}`);
+  if (lead.linkedin_url) lines.push(`URL:${escapeVCardValue(lead.linkedin_url)}`);
+
+  const notes = Object.entries(flattenAdditionalData(lead.additional_data))
+    .filter(([, value]) => value !== '')
+    .map(([column, value]) => `${column.replace(/^additional_data\./, '')}: ${value}`);
+  if (notes.length > 0) {
+    lines.push(`NOTE:${escapeVCardValue(notes.join('\n'))}`);
+  }
+
+  lines.push('END:VCARD');
+  return lines.join('\r\n') + '\r\n';
+}
+
+// Serialize each page of leads as it is fetched, so a large export is never held in memory.
+// A CSV header is written first, so pass its columns (see getLeadExportColumns) up front.
+export function createLeadExportStream(
+  pages: AsyncIterable<ExportableLead[]>,
+  format: 'csv' | 'vcf',
+  columns: string[] = []
+): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  const iterator = pages[Symbol.asyncIterator]();
+  let headerSent = false;
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      if (format === 'csv' && !headerSent) {
+        headerSent = true;
+        // BOM so Excel opens the file as UTF-8
+        controller.enqueue(encoder.encode('\uFEFF' + columns.map(escapeCsvValue).join(',') + '\r\n'));
+        return;
+      }
+
+      const { value: page, done } = await iterator.next();
+      if (done) {
+        controller.close();
+        return;
+      }
+
+      let chunk = '';
+      for (const lead of page) {
+        if (format === 'csv') {
+          const row = toLeadExportRow(lead);
+          chunk += columns.map(column => escapeCsvValue(row[column] ?? '')).join(',') + '\r\n';
+        } else {
+          chunk += leadToVCard(lead);
+        }
+      }
+      controller.enqueue(encoder.encode(chunk));
+    },
+    async cancel() {
+      await iterator.return?.();
+    }
+  });
+}
+
+export async function createLeadWorkbook(leads: ExportableLead[]): Promise<ArrayBuffer> {
+  const { columns, rows } = flattenLeads(leads);
+
+  const workbook = new ExcelJS.Workbook();
+  workbook.created = new Date();
+
+  const sheet = workbook.addWorksheet('Leads');
+  sheet.columns = columns.map(column => ({
+    header: column,
+    key: column,
+    width: Math.min(Math.max(column.length + 2, 14), 40)
+  }));
+  sheet.getRow(1).font = { bold: true };
+  sheet.addRows(rows);
+
+  return await workbook.xlsx.writeBuffer() as ArrayBuffer;
+}
@@ -0,0 +1,67 @@
+import { ReplyCategory } from '@/lib/reply-classifier/types';
+
+// Pipeline stages in board order. Shared by the leads API and the kanban page.
+export const LEAD_STAGES = ['new', 'contacted', 'replied', 'qualified', 'won', 'lost'] as const;
+
+export type LeadStage = typeof LEAD_STAGES[number];
+
+export const LEAD_STAGE_LABELS: Record<LeadStage, string> = {
+  new: 'New',
+  contacted: 'Contacted',
+  replied: 'Replied',
+  qualified: 'Qualified',
+  won: 'Won',
+  lost: 'Lost'
+};
+
+export interface LeadNote {
+  id: string;
+  lead_id: string;
+  user_id: string;
+  content: string;
+  created_at: string;
+}
+
+export function isLeadStage(value: unknown): value is LeadStage {
+  return typeof value === 'string' && (LEAD_STAGES as readonly string[]).includes(value);
+}
+
+// Stage a lead moves to after a classified reply, or null to leave it. A won lead is never moved,
+// and a question only advances leads that had not replied before.
+export function getStageAfterReply(
+  category: ReplyCategory,
+  currentStage: LeadStage
+): LeadStage | null {
+  if (currentStage === 'won') {
+    return null;
+  }
+
+  let stage: LeadStage | null;
+  switch (category) {
+    case 'interested':
+      stage = 'qualified';
+      break;
+    case 'not_interested':
+    case 'opt_out':
+      stage = 'lost';
+      break;
+    case 'question':
+      stage = currentStage === 'new' || currentStage === 'contacted' ? 'replied' : null;
+      break;
+    default:
+      // An away message says nothing about interest
+      stage = null;
+  }
+
+  return stage === currentStage ? null : stage;
+}
+
+// Trim, lowercase and de-duplicate free-form tags
+export function normalizeTags(tags: unknown[]): string[] {
+  return Array.from(new Set(
+    tags
+      .filter((tag): tag is string => typeof tag === 'string')
+      .map(tag => tag.trim().toLowerCase())
+      .filter(tag => tag.length > 0 && tag.length <= 50)
+  ));
+}
@@ -0,0 +1,236 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { getLeadSourceProvider, LeadSearchCriteria, LeadSourceProvider } from '@/lib/lead-sources';
+
+export const DEFAULT_MAX_RESULTS = 50;
+export const MAX_RESULTS_LIMIT = 100;
+
+export interface LeadSearchEstimate {
+  source: string;
+  credits_per_result: number;
+  max_results: number;
+  expected_results: number;
+  estimated_credits: number;
+}
+
+export interface QueueLeadSearchInput {
+  userId: string;
+  searchCriteria: LeadSearchCriteria;
+  maxResults?: number;
+  skipExisting?: boolean;
+  savedSearchId?: string | null;
+}
+
+export interface QueuedLeadSearch {
+  id: string;
+  max_results: number;
+  credits_held: number;
+}
+
+// Failures carry the HTTP status and response body the search route returns
+export type QueueLeadSearchResult =
+  | { ok: true; search: QueuedLeadSearch; holdId: string; provider: LeadSourceProvider }
+  | { ok: false; status: number; body: { error: string; code?: string; [key: string]: unknown } };
+
+// Clamp a requested result cap to what a single search may return
+export function normalizeMaxResults(maxResults: unknown): number {
+  const value = Number(maxResults);
+  if (!Number.isFinite(value) || value <= 0) {
+    return DEFAULT_MAX_RESULTS;
+  }
+
+  return Math.min(Math.floor(value), MAX_RESULTS_LIMIT);
+}
+
+// Work out how many leads a search should return and what it will cost, without holding anything.
+// Returns null when the source is unknown.
+export async function estimateLeadSearch(
+  searchCriteria: LeadSearchCriteria,
+  maxResults: number
+): Promise<{ estimate: LeadSearchEstimate; provider: LeadSourceProvider } | null> {
+  const provider = getLeadSourceProvider(searchCriteria.source);
+  if (!provider) {
+    return null;
+  }
+
+  const cap = normalizeMaxResults(maxResults);
+  const expectedResults = provider.estimateResults
+    ? Math.min(await provider.estimateResults(searchCriteria, cap), cap)
+    : cap;
+
+  return {
+    estimate: {
+      source: provider.id,
+      credits_per_result: provider.creditsPerResult,
+      max_results: cap,
+      expected_results: expectedResults,
+      estimated_credits: expectedResults * provider.creditsPerResult
+    },
+    provider
+  };
+}
+
+// Check the balance, create the pending lead_searches row and place its scraper credit hold.
+// The hold is sized from the server-side estimate. The job itself is run by processLeadSearch.
+// Users cannot write job rows, so pass the service-role client; every query is scoped to userId.
+export async function queueLeadSearch(
+  supabase: SupabaseClient,
+  input: QueueLeadSearchInput
+): Promise<QueueLeadSearchResult> {
+  const { userId, searchCriteria, maxResults = DEFAULT_MAX_RESULTS, skipExisting = false, savedSearchId = null } = input;
+
+  const estimated = await estimateLeadSearch(searchCriteria, maxResults);
+  if (!estimated) {
+    return {
+      ok: false,
+      status: 400,
+      body: { error: `Unknown lead source: ${searchCriteria.source}`, code: 'INVALID_SOURCE' }
+    };
+  }
+
+  const { estimate, provider } = estimated;
+
+  if (estimate.expected_results === 0) {
+    return {
+      ok: false,
+      status: 400,
+      body: { error: 'No leads match these search criteria', code: 'NO_EXPECTED_RESULTS' }
+    };
+  }
+
+  // Step 1: Check available credits (including holds)
+  const { data: availableBalance, error: balanceError } = await supabase
+    .rpc('get_available_credit_balance', {
+      p_user_id: userId,
+      p_credit_type: 'scraper'
+    });
+
+  if (balanceError) {
+    console.error('Error checking available credit balance:', balanceError);
+    return { ok: false, status: 500, body: { error: 'Failed to check credit balance' } };
+  }
+
+  const availableCredits = availableBalance || 0;
+  const requiredCredits = estimate.estimated_credits;
+
+  if (availableCredits < requiredCredits) {
+    // Get total balance and held amount for better error message
+    const { data: totalBalance } = await supabase
+      .rpc('get_credit_balance', {
+        p_user_id: userId,
+        p_credit_type: 'scraper'
+      });
+
+    const heldCredits = (totalBalance || 0) - availableCredits;
+
+    return {
+      ok: false,
+      status: 402,
+      body: {
+        error: 'Insufficient scraper credits',
+        code: 'INSUFFICIENT_CREDITS',
+        available_credits: availableCredits,
+        required_credits: requiredCredits,
+        total_credits: totalBalance || 0,
+        held_credits: heldCredits
+      }
+    };
+  }
+
+  // Step 2: Create lead search record
+  const { data: searchRecord, error: searchError } = await supabase
+    .from('lead_searches')
+    .insert({
+      user_id: userId,
+      search_criteria: searchCriteria,
+      credits_used: 0, // Will be updated later
+      credits_held: requiredCredits,
+      max_results: estimate.expected_results,
+      skip_existing: skipExisting,
+      saved_search_id: savedSearchId,
+      status: 'pending',
+    })
+    .select()
+    .single();
+
+  if (searchError) {
+    console.error('Error creating lead search record:', searchError);
+    return { ok: false, status: 500, body: { error: 'Failed to create search record' } };
+  }
+
+  // Step 3: Place credit hold
+  let holdId: string;
+  try {
+    const { data: holdIdResult, error: holdError } = await supabase.rpc('hold_credits', {
+      p_user_id: userId,
+      p_credit_type: 'scraper',
+      p_amount: requiredCredits,
+      p_reference_id: searchRecord.id,
+      p_expires_in_minutes: 60 // 1 hour hold
+    });
+
+    if (holdError) {
+      throw new Error(holdError.message);
+    }
+
+    holdId = holdIdResult;
+  } catch (holdError) {
+    console.error('Error holding credits:', holdError);
+
+    // Clean up search record
+    await supabase
+      .from('lead_searches')
+      .update({ status: 'failed', error_message: 'Failed to hold credits' })
+      .eq('id', searchRecord.id)
+      .eq('user_id', userId);
+
+    return {
+      ok: false,
+      status: 500,
+      body: {
+        error: 'Failed to hold credits',
+        code: 'HOLD_FAILED',
+        details: holdError instanceof Error ? holdError.message : 'Unknown error'
+      }
+    };
+  }
+
+  // Step 4: Attach the hold to the job so the worker can settle it
+  const { error: attachError } = await supabase
+    .from('lead_searches')
+    .update({ hold_id: holdId })
+    .eq('id', searchRecord.id)
+    .eq('user_id', userId);
+
+  if (attachError) {
+    console.error('Error attaching hold to lead search:', attachError);
+
+    // Left unreleased, the credits stay locked until the hold expires
+    const { error: releaseError } = await supabase.rpc('release_credit_hold', {
+      p_hold_id: holdId,
+      p_reason: 'Failed to queue lead search'
+    });
+
+    if (releaseError) {
+      console.error(`Error releasing credit hold ${holdId} of unqueued lead search:`, releaseError);
+    }
+
+    await supabase
+      .from('lead_searches')
+      .update({ status: 'failed', error_message: 'Failed to queue lead search' })
+      .eq('id', searchRecord.id)
+      .eq('user_id', userId);
+
+    return { ok: false, status: 500, body: { error: 'Failed to queue lead search', code: 'QUEUE_FAILED' } };
+  }
+
+  return {
+    ok: true,
+    search: {
+      id: searchRecord.id,
+      max_results: searchRecord.max_results,
+      credits_held: requiredCredits
+    },
+    holdId,
+    provider
+  };
+}
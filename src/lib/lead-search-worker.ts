@@ -0,0 +1,320 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { createSupabaseServiceClient } from '@/lib/supabase';
+import { getLeadSourceProvider } from '@/lib/lead-sources';
+import { resolveLeadContacts } from '@/lib/contact-service';
+import { normalizePhoneNumber } from '@/lib/phone';
+
+const BATCH_SIZE = 25;
+const LOCK_DURATION_MS = 2 * 60 * 1000; // Lease a worker holds on a job before another may resume it
+const HOLD_RENEWAL_MINUTES = 60; // Hold lifetime kept ahead of each batch, with room for the cron to resume
+const DEFAULT_TIME_BUDGET_MS = 45 * 1000; // Stay well inside a serverless request limit
+
+export interface LeadSearchJobResult {
+  search_id: string;
+  status: 'pending' | 'completed' | 'failed';
+  results_count: number;
+  skipped_count?: number;
+  credits_used?: number;
+  error?: string;
+}
+
+interface ProcessOptions {
+  supabase?: SupabaseClient;
+  timeBudgetMs?: number;
+}
+
+// Claim a pending search, fetch leads in batches and settle its credit hold once finished.
+// Progress is saved after every batch so a job that runs out of time resumes where it stopped.
+// The hold is renewed before every batch; a job whose hold was released or settled elsewhere fails
+// instead of fetching leads nothing pays for.
+export async function processLeadSearch(
+  searchId: string,
+  options: ProcessOptions = {}
+): Promise<LeadSearchJobResult | null> {
+  const supabase = options.supabase || createSupabaseServiceClient();
+  const deadline = Date.now() + (options.timeBudgetMs ?? DEFAULT_TIME_BUDGET_MS);
+
+  const search = await claimLeadSearch(supabase, searchId);
+  if (!search) {
+    // Already finished or leased by another worker
+    return null;
+  }
+
+  let resultsCount: number = search.results_count || 0;
+  let sourceOffset: number = search.source_offset || 0;
+  let skippedCount: number = search.skipped_count || 0;
+  let creditsPerResult = 0;
+
+  try {
+    const provider = getLeadSourceProvider(search.search_criteria?.source);
+    if (!provider) {
+      throw new Error(`Unknown lead source: ${search.search_criteria?.source}`);
+    }
+    creditsPerResult = provider.creditsPerResult;
+
+    // Never fetch more leads than the hold can pay for
+    const affordableResults = Math.floor(search.credits_held / provider.creditsPerResult);
+    const maxResults: number = Math.min(search.max_results ?? affordableResults, affordableResults);
+    let exhausted = false;
+
+    while (resultsCount < maxResults && !exhausted) {
+      if (Date.now() >= deadline) {
+        await supabase
+          .from('lead_searches')
+          .update({ locked_until: null, updated_at: new Date().toISOString() })
+          .eq('id', searchId)
+          .eq('user_id', search.user_id);
+
+        return { search_id: searchId, status: 'pending', results_count: resultsCount };
+      }
+
+      await renewLeadSearchHold(supabase, search);
+
+      const batchSize = Math.min(BATCH_SIZE, maxResults - resultsCount);
+      const batch = await provider.search(search.search_criteria, batchSize, sourceOffset);
+
+      // Store phones in E.164 form; numbers that cannot be valid are dropped
+      const normalizedBatch = batch.map(lead => ({ ...lead, phone: normalizePhoneNumber(lead.phone) }));
+
+      const { leads: newLeads, skipped } = await resolveLeadContacts(
+        supabase,
+        search.user_id,
+        normalizedBatch,
+        search.skip_existing
+      );
+
+      if (newLeads.length > 0) {
+        const { error: leadsError } = await supabase
+          .from('leads')
+          .insert(newLeads.map(lead => ({ search_id: searchId, ...lead })));
+
+        if (leadsError) {
+          throw new Error(leadsError.message);
+        }
+      }
+
+      sourceOffset += batch.length;
+      skippedCount += skipped;
+      resultsCount += newLeads.length;
+      exhausted = batch.length < batchSize;
+
+      await supabase
+        .from('lead_searches')
+        .update({
+          results_count: resultsCount,
+          source_offset: sourceOffset,
+          skipped_count: skippedCount,
+          locked_until: new Date(Date.now() + LOCK_DURATION_MS).toISOString(),
+          updated_at: new Date().toISOString()
+        })
+        .eq('id', searchId)
+        .eq('user_id', search.user_id);
+    }
+
+    const creditsUsed = Math.min(resultsCount * provider.creditsPerResult, search.credits_held);
+    await settleLeadSearchHold(supabase, search, creditsUsed, resultsCount);
+
+    await supabase
+      .from('lead_searches')
+      .update({
+        status: 'completed',
+        results_count: resultsCount,
+        credits_used: creditsUsed,
+        locked_until: null,
+        completed_at: new Date().toISOString(),
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', searchId)
+      .eq('user_id', search.user_id);
+
+    if (search.saved_search_id) {
+      await notifyScheduledSearch(supabase, search, 'completed', resultsCount, skippedCount);
+    }
+
+    return {
+      search_id: searchId,
+      status: 'completed',
+      results_count: resultsCount,
+      skipped_count: skippedCount,
+      credits_used: creditsUsed
+    };
+
+  } catch (error) {
+    console.error(`Error processing lead search ${searchId}:`, error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+
+    // Leads saved before the failure were delivered, so charge for them and release the rest
+    const creditsUsed = Math.min(resultsCount * creditsPerResult, search.credits_held);
+    try {
+      await settleLeadSearchHold(supabase, search, creditsUsed, resultsCount);
+    } catch (settleError) {
+      console.error('Error settling credit hold of failed lead search:', settleError);
+    }
+
+    await supabase
+      .from('lead_searches')
+      .update({
+        status: 'failed',
+        error_message: errorMessage,
+        credits_used: creditsUsed,
+        locked_until: null,
+        completed_at: new Date().toISOString(),
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', searchId)
+      .eq('user_id', search.user_id);
+
+    if (search.saved_search_id) {
+      await notifyScheduledSearch(supabase, search, 'failed', resultsCount, skippedCount, errorMessage);
+    }
+
+    return {
+      search_id: searchId,
+      status: 'failed',
+      results_count: resultsCount,
+      credits_used: creditsUsed,
+      error: errorMessage
+    };
+  }
+}
+
+// Process queued searches oldest first; used by the worker cron
+export async function processPendingLeadSearches(
+  limit: number = 5,
+  options: ProcessOptions = {}
+): Promise<LeadSearchJobResult[]> {
+  const supabase = options.supabase || createSupabaseServiceClient();
+
+  const { data: pendingSearches, error } = await supabase
+    .from('lead_searches')
+    .select('id')
+    .eq('status', 'pending')
+    .not('hold_id', 'is', null)
+    .or(`locked_until.is.null,locked_until.lt.${new Date().toISOString()}`)
+    .order('created_at', { ascending: true })
+    .limit(limit);
+
+  if (error) {
+    throw new Error(`Failed to fetch pending lead searches: ${error.message}`);
+  }
+
+  const results: LeadSearchJobResult[] = [];
+  for (const pending of pendingSearches || []) {
+    const result = await processLeadSearch(pending.id, { ...options, supabase });
+    if (result) {
+      results.push(result);
+    }
+  }
+
+  return results;
+}
+
+// Take the worker lease on a pending search. Returns null if it is not claimable.
+async function claimLeadSearch(supabase: SupabaseClient, searchId: string) {
+  const now = new Date();
+
+  const { data: search, error } = await supabase
+    .from('lead_searches')
+    .update({
+      locked_until: new Date(now.getTime() + LOCK_DURATION_MS).toISOString(),
+      updated_at: now.toISOString()
+    })
+    .eq('id', searchId)
+    .eq('status', 'pending')
+    .or(`locked_until.is.null,locked_until.lt.${now.toISOString()}`)
+    .select()
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to claim lead search: ${error.message}`);
+  }
+
+  if (search && !search.started_at) {
+    await supabase
+      .from('lead_searches')
+      .update({ started_at: now.toISOString() })
+      .eq('id', searchId)
+      .eq('user_id', search.user_id);
+  }
+
+  return search;
+}
+
+// Keep the job's hold active for the next batch. Throws when the hold is gone: released, settled or
+// expired.
+async function renewLeadSearchHold(supabase: SupabaseClient, search: { hold_id: string | null }) {
+  if (!search.hold_id) {
+    throw new Error('Lead search has no credit hold');
+  }
+
+  const { error } = await supabase.rpc('extend_credit_hold', {
+    p_hold_id: search.hold_id,
+    p_expires_in_minutes: HOLD_RENEWAL_MINUTES
+  });
+
+  if (error) {
+    throw new Error(`Credit hold is no longer active: ${error.message}`);
+  }
+}
+
+// Deduct the credits the job actually used from its hold; the unused remainder is released
+// (all of it when the search found nothing)
+async function settleLeadSearchHold(
+  supabase: SupabaseClient,
+  search: { id: string; hold_id: string | null },
+  creditsUsed: number,
+  resultsCount: number
+) {
+  if (!search.hold_id) {
+    return;
+  }
+
+  const { error: deductError } = await supabase.rpc('convert_hold_to_deduction', {
+    p_hold_id: search.hold_id,
+    p_description: `Lead search - ${resultsCount} leads`,
+    p_actual_amount: creditsUsed
+  });
+
+  if (deductError) {
+    throw new Error(deductError.message);
+  }
+}
+
+// Tell the owner of a saved search how its run went
+async function notifyScheduledSearch(
+  supabase: SupabaseClient,
+  search: { user_id: string; saved_search_id: string },
+  status: 'completed' | 'failed',
+  resultsCount: number,
+  skippedCount: number,
+  errorMessage?: string
+) {
+  const { data: savedSearch } = await supabase
+    .from('saved_searches')
+    .select('name')
+    .eq('id', search.saved_search_id)
+    .eq('user_id', search.user_id)
+    .maybeSingle();
+
+  const name = savedSearch?.name || 'Saved search';
+
+  const { error } = await supabase
+    .from('notifications')
+    .insert(status === 'completed'
+      ? {
+          user_id: search.user_id,
+          type: 'scheduled_search_completed',
+          title: 'Scheduled Search Completed',
+          message: `"${name}" found ${resultsCount} new leads (${skippedCount} already in your contacts were skipped).`,
+        }
+      : {
+          user_id: search.user_id,
+          type: 'scheduled_search_failed',
+          title: 'Scheduled Search Failed',
+          message: `"${name}" could not be completed: ${errorMessage}`,
+        });
+
+  if (error) {
+    console.error('Error creating scheduled search notification:', error);
+  }
+}
@@ -0,0 +1,79 @@
+import { LeadSearchCriteria, LeadSourceProvider, LeadSourceResult } from './types';
+
+// Fixed lead set so tests can assert exact results and credit amounts
+export const FIXTURE_LEADS: LeadSourceResult[] = [
+  {
+    name: 'Budi Santoso',
+    email: 'budi@nusantaratech.co.id',
+    phone: '+6281234567801',
+    company: 'Nusantara Tech',
+    position: 'CEO',
+    linkedin_url: 'https://linkedin.com/in/budisantoso',
+    source: 'fixture',
+    additional_data: { industry: 'technology', location: 'Jakarta, Indonesia', company_size: '51-200' }
+  },
+  {
+    name: 'Siti Rahmawati',
+    email: 'siti@sehatmedika.co.id',
+    phone: '+6281234567802',
+    company: 'Sehat Medika',
+    position: 'CTO',
+    linkedin_url: 'https://linkedin.com/in/sitirahmawati',
+    source: 'fixture',
+    additional_data: { industry: 'healthcare', location: 'Surabaya, Indonesia', company_size: '201-500' }
+  },
+  {
+    name: 'Andi Wijaya',
+    email: 'andi@kapitalfinance.co.id',
+    phone: '+6281234567803',
+    company: 'Kapital Finance',
+    position: 'Sales Director',
+    linkedin_url: 'https://linkedin.com/in/andiwijaya',
+    source: 'fixture',
+    additional_data: { industry: 'finance', location: 'Jakarta, Indonesia', company_size: '11-50' }
+  },
+  {
+    name: 'Dewi Lestari',
+    email: 'dewi@edukasiku.id',
+    phone: '+6281234567804',
+    company: 'Edukasiku',
+    position: 'Marketing Manager',
+    linkedin_url: 'https://linkedin.com/in/dewilestari',
+    source: 'fixture',
+    additional_data: { industry: 'education', location: 'Bandung, Indonesia', company_size: '1-10' }
+  },
+  {
+    name: 'Rudi Hartono',
+    email: 'rudi@tokomaju.id',
+    phone: '+6281234567805',
+    company: 'Toko Maju',
+    position: 'Product Manager',
+    linkedin_url: 'https://linkedin.com/in/rudihartono',
+    source: 'fixture',
+    additional_data: { industry: 'retail', location: 'Jakarta, Indonesia', company_size: '501-1000' }
+  }
+];
+
+// Deterministic provider for tests: filters the fixture set by industry and location
+export const fixtureLeadSourceProvider: LeadSourceProvider = {
+  id: 'fixture',
+  name: 'Test fixtures',
+  creditsPerResult: 2,
+
+  async search(criteria: LeadSearchCriteria, maxResults: number, offset = 0): Promise<LeadSourceResult[]> {
+    return matchFixtureLeads(criteria)
+      .slice(offset, offset + maxResults)
+      .map(lead => ({ ...lead, additional_data: { ...lead.additional_data } }));
+  },
+
+  async estimateResults(criteria: LeadSearchCriteria, maxResults: number): Promise<number> {
+    return Math.min(matchFixtureLeads(criteria).length, maxResults);
+  }
+};
+
+function matchFixtureLeads(criteria: LeadSearchCriteria): LeadSourceResult[] {
+  return FIXTURE_LEADS
+    .filter(lead => !criteria.industry || lead.additional_data.industry === criteria.industry)
+    .filter(lead => !criteria.location ||
+      String(lead.additional_data.location).toLowerCase().includes(criteria.location.toLowerCase()));
+}
@@ -0,0 +1,29 @@
+import { LeadSourceProvider } from './types';
+import { mockLeadSourceProvider } from './mock-provider';
+import { fixtureLeadSourceProvider } from './fixture-provider';
+
+export * from './types';
+
+export const DEFAULT_LEAD_SOURCE = 'mock';
+
+const providers = new Map<string, LeadSourceProvider>();
+
+export function registerLeadSourceProvider(provider: LeadSourceProvider) {
+  providers.set(provider.id, provider);
+}
+
+// Resolve the provider for search_criteria.source, falling back to the default source
+export function getLeadSourceProvider(source?: string): LeadSourceProvider | null {
+  return providers.get(source || DEFAULT_LEAD_SOURCE) || null;
+}
+
+export function listLeadSourceProviders(): LeadSourceProvider[] {
+  return Array.from(providers.values());
+}
+
+registerLeadSourceProvider(mockLeadSourceProvider);
+
+// The fixture source is only exposed outside production so tests can select it
+if (process.env.NODE_ENV !== 'production') {
+  registerLeadSourceProvider(fixtureLeadSourceProvider);
+}
@@ -0,0 +1,34 @@
+import { LeadSearchCriteria, LeadSourceProvider, LeadSourceResult } from './types';
+
+const industries = ['Technology', 'Healthcare', 'Finance', 'Education', 'Retail'];
+const positions = ['CEO', 'CTO', 'Marketing Manager', 'Sales Director', 'Product Manager'];
+const companies = ['TechCorp', 'HealthPlus', 'FinanceHub', 'EduTech', 'RetailMax'];
+
+// Generates random sample leads until a real scraping source is wired in
+export const mockLeadSourceProvider: LeadSourceProvider = {
+  id: 'mock',
+  name: 'Sample data',
+  creditsPerResult: 1,
+
+  async search(criteria: LeadSearchCriteria, maxResults: number, offset = 0): Promise<LeadSourceResult[]> {
+    const leads: LeadSourceResult[] = [];
+    for (let i = offset; i < offset + maxResults; i++) {
+      leads.push({
+        name: `Lead ${i + 1}`,
+        email: `lead${i + 1}@example.com`,
+        phone: `+62812345678${i.toString().padStart(2, '0')}`,
+        company: companies[Math.floor(Math.random() * companies.length)],
+        position: positions[Math.floor(Math.random() * positions.length)],
+        linkedin_url: `https://linkedin.com/in/lead${i + 1}`,
+        source: 'scraper',
+        additional_data: {
+          industry: industries[Math.floor(Math.random() * industries.length)],
+          location: criteria.location || 'Jakarta, Indonesia',
+          company_size: Math.floor(Math.random() * 1000) + 50
+        }
+      });
+    }
+
+    return leads;
+  }
+};
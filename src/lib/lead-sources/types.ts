@@ -0,0 +1,33 @@
+export interface LeadSearchCriteria {
+  source?: string;
+  industry?: string;
+  location?: string;
+  company_size?: string;
+  keywords?: string;
+  position?: string;
+}
+
+// Shape of a lead as returned by a provider, before it is attached to a search
+export interface LeadSourceResult {
+  name: string;
+  email: string | null;
+  phone: string | null;
+  company: string | null;
+  position: string | null;
+  linkedin_url: string | null;
+  source: string;
+  additional_data: Record<string, unknown>;
+}
+
+export interface LeadSourceProvider {
+  // Identifier matched against search_criteria.source
+  id: string;
+  name: string;
+  // Scraper credits charged for each lead returned
+  creditsPerResult: number;
+  // Returns up to maxResults leads, skipping the first `offset` so long searches can resume
+  search(criteria: LeadSearchCriteria, maxResults: number, offset?: number): Promise<LeadSourceResult[]>;
+  // How many leads a search is expected to return, capped at maxResults. Providers that
+  // cannot tell in advance may omit this and are assumed to fill the cap.
+  estimateResults?(criteria: LeadSearchCriteria, maxResults: number): Promise<number>;
+}
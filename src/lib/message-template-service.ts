@@ -0,0 +1,73 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { findUnknownTemplateVariables } from '@/lib/message-template';
+
+export interface MessageTemplateRecord {
+  id: string;
+  user_id: string;
+  name: string;
+  content: string;
+  created_at: string;
+  updated_at: string;
+}
+
+// Failures carry the HTTP status and response body the calling route returns
+export type ResolveMessageContentResult =
+  | { ok: true; content: string; templateId: string | null }
+  | { ok: false; status: number; body: { error: string; code?: string; [key: string]: unknown } };
+
+// Message text for a send: the user's saved template when template_id is given, otherwise the
+// raw message. Either way the placeholders it uses must be ones a lead can fill.
+export async function resolveMessageContent(
+  supabase: SupabaseClient,
+  userId: string,
+  input: { template_id?: unknown; message?: unknown }
+): Promise<ResolveMessageContentResult> {
+  let content: string;
+  let templateId: string | null = null;
+
+  if (input.template_id) {
+    if (typeof input.template_id !== 'string') {
+      return { ok: false, status: 400, body: { error: 'Invalid template_id', code: 'INVALID_TEMPLATE' } };
+    }
+
+    const { data: template, error } = await supabase
+      .from('message_templates')
+      .select('id, content')
+      .eq('id', input.template_id)
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching message template:', error);
+      return { ok: false, status: 500, body: { error: 'Failed to fetch message template' } };
+    }
+
+    if (!template) {
+      return { ok: false, status: 404, body: { error: 'Template not found', code: 'TEMPLATE_NOT_FOUND' } };
+    }
+
+    content = template.content;
+    templateId = template.id;
+  } else {
+    if (!input.message || typeof input.message !== 'string' || !input.message.trim()) {
+      return { ok: false, status: 400, body: { error: 'Message content is required', code: 'INVALID_MESSAGE' } };
+    }
+
+    content = input.message.trim();
+  }
+
+  const unknownVariables = findUnknownTemplateVariables(content);
+  if (unknownVariables.length > 0) {
+    return {
+      ok: false,
+      status: 400,
+      body: {
+        error: `Unknown placeholders: ${unknownVariables.join(', ')}`,
+        code: 'INVALID_TEMPLATE_VARIABLES',
+        unknown_variables: unknownVariables
+      }
+    };
+  }
+
+  return { ok: true, content, templateId };
+}
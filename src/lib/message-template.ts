@@ -0,0 +1,113 @@
+// Message templates with {{placeholders}} bound to lead fields. Shared by the WhatsApp
+// send, campaign and template APIs and the WhatsApp page, so it must stay client-safe.
+//
+// Supported placeholders:
+//   {{name}}, {{email}}, {{phone}}, {{company}}, {{position}}, {{linkedin_url}}
+//   {{additional_data.industry}} - any key (dot path) in the lead's additional_data
+//   {{company|your company}}    - text after | is used when the field is empty, making it optional
+
+export const TEMPLATE_LEAD_FIELDS = ['name', 'email', 'phone', 'company', 'position', 'linkedin_url'] as const;
+
+const PLACEHOLDER_PATTERN = /\{\{\s*([^{}|]+?)\s*(?:\|([^{}]*))?\}\}/g;
+const ADDITIONAL_DATA_PREFIX = 'additional_data.';
+
+export interface TemplateVariable {
+  path: string;
+  fallback: string | null;
+}
+
+export interface TemplateLead {
+  name?: string | null;
+  email?: string | null;
+  phone?: string | null;
+  company?: string | null;
+  position?: string | null;
+  linkedin_url?: string | null;
+  additional_data?: Record<string, unknown> | null;
+}
+
+export interface RenderedTemplate {
+  content: string;
+  // Required placeholders the lead has no value for
+  missing_fields: string[];
+}
+
+export function extractTemplateVariables(template: string): TemplateVariable[] {
+  const variables = new Map<string, TemplateVariable>();
+
+  for (const match of template.matchAll(PLACEHOLDER_PATTERN)) {
+    const path = match[1];
+    const fallback = match[2] !== undefined ? match[2].trim() : null;
+    const existing = variables.get(path);
+
+    if (!existing) {
+      variables.set(path, { path, fallback });
+    } else if (fallback === null) {
+      // A placeholder is only optional if every occurrence has a fallback
+      existing.fallback = null;
+    }
+  }
+
+  return Array.from(variables.values());
+}
+
+export function hasTemplateVariables(template: string): boolean {
+  return extractTemplateVariables(template).length > 0;
+}
+
+// Placeholders that do not name a lead field or an additional_data key
+export function findUnknownTemplateVariables(template: string): string[] {
+  return extractTemplateVariables(template)
+    .map(variable => variable.path)
+    .filter(path => !isKnownVariable(path));
+}
+
+export function renderMessageTemplate(template: string, lead: TemplateLead): RenderedTemplate {
+  const missing = new Set<string>();
+
+  const content = template.replace(PLACEHOLDER_PATTERN, (placeholder, rawPath: string, rawFallback?: string) => {
+    const path = rawPath.trim();
+    const value = resolveLeadValue(lead, path);
+
+    if (value !== null) {
+      return value;
+    }
+
+    if (rawFallback !== undefined) {
+      return rawFallback.trim();
+    }
+
+    missing.add(path);
+    return placeholder;
+  });
+
+  return { content, missing_fields: Array.from(missing) };
+}
+
+function isKnownVariable(path: string): boolean {
+  return (TEMPLATE_LEAD_FIELDS as readonly string[]).includes(path) ||
+    (path.startsWith(ADDITIONAL_DATA_PREFIX) && path.length > ADDITIONAL_DATA_PREFIX.length);
+}
+
+// String value of a placeholder path, or null when the lead has nothing usable
+function resolveLeadValue(lead: TemplateLead, path: string): string | null {
+  let value: unknown;
+
+  if (path.startsWith(ADDITIONAL_DATA_PREFIX)) {
+    value = path
+      .slice(ADDITIONAL_DATA_PREFIX.length)
+      .split('.')
+      .reduce<unknown>((current, key) => (
+        current && typeof current === 'object' ? (current as Record<string, unknown>)[key] : undefined
+      ), lead.additional_data);
+  } else if ((TEMPLATE_LEAD_FIELDS as readonly string[]).includes(path)) {
+    value = lead[path as typeof TEMPLATE_LEAD_FIELDS[number]];
+  }
+
+  if (value === null || value === undefined || typeof value === 'object') {
+    return null;
+  }
+
+  const text = String(value).trim();
+  return text.length > 0 ? text : null;
+}
@@ -0,0 +1,77 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+
+// Replies that consist only of one of these (ignoring case and punctuation) opt the number out
+export const OPT_OUT_KEYWORDS = [
+  'stop',
+  'stop all',
+  'unsubscribe',
+  'cancel',
+  'end',
+  'quit',
+  'opt out',
+  'optout',
+  'berhenti',
+  'jangan hubungi',
+  'jangan kirim lagi',
+];
+
+export type OptOutSource = 'keyword' | 'manual' | 'classifier';
+
+// Whole-message match only, so a reply like "don't stop sending updates" is not an opt-out
+export function isOptOutMessage(content: string): boolean {
+  const normalized = content
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s]/gu, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+  return OPT_OUT_KEYWORDS.includes(normalized);
+}
+
+// Numbers (digits only) from the list that the user may not message
+export async function getOptedOutNumbers(
+  supabase: SupabaseClient,
+  userId: string,
+  phoneNumbers: string[]
+): Promise<Set<string>> {
+  if (phoneNumbers.length === 0) {
+    return new Set();
+  }
+
+  const { data, error } = await supabase
+    .from('whatsapp_opt_outs')
+    .select('phone_number')
+    .eq('user_id', userId)
+    .in('phone_number', phoneNumbers);
+
+  if (error) {
+    throw new Error(`Failed to check opt-outs: ${error.message}`);
+  }
+
+  return new Set((data || []).map(row => row.phone_number));
+}
+
+export async function isOptedOut(supabase: SupabaseClient, userId: string, phoneNumber: string): Promise<boolean> {
+  const optedOut = await getOptedOutNumbers(supabase, userId, [phoneNumber]);
+  return optedOut.has(phoneNumber);
+}
+
+// Add a number to the user's suppression list; a number already on it is left as is
+export async function addOptOut(
+  supabase: SupabaseClient,
+  input: { userId: string; phoneNumber: string; source: OptOutSource; reason?: string | null; messageId?: string | null }
+): Promise<void> {
+  const { error } = await supabase
+    .from('whatsapp_opt_outs')
+    .upsert({
+      user_id: input.userId,
+      phone_number: input.phoneNumber,
+      source: input.source,
+      reason: input.reason ?? null,
+      message_id: input.messageId ?? null,
+    }, { onConflict: 'user_id,phone_number', ignoreDuplicates: true });
+
+  if (error) {
+    throw new Error(`Failed to record opt-out: ${error.message}`);
+  }
+}
@@ -0,0 +1,58 @@
+// Prompt for an AI-drafted first WhatsApp message to a lead. Pure so the draft route and tests
+// build it the same way; the model call and credit handling live in /api/whatsapp/draft.
+
+export const OUTREACH_DRAFT_CREDITS = 1; // Interaction credits per generated draft
+export const MAX_DRAFT_GOAL_LENGTH = 500;
+export const MAX_DRAFT_TOKENS = 400;
+
+// additional_data can hold whole scraped pages; keep the prompt small
+const MAX_ADDITIONAL_DATA_CHARS = 1500;
+
+export interface OutreachLead {
+  name?: string | null;
+  company?: string | null;
+  position?: string | null;
+  additional_data?: Record<string, unknown> | null;
+}
+
+export const OUTREACH_SYSTEM_PROMPT = [
+  'You write first-contact WhatsApp messages for a salesperson.',
+  'Write only the message itself: no subject line, no quotes, no placeholders such as [Your Name].',
+  'Keep it under 80 words, friendly and specific to the lead, and end with one simple question.',
+  'Write in the language the goal is written in.',
+  'Use only facts from the lead details; do not invent numbers, names or claims.',
+].join(' ');
+
+export function buildOutreachPrompt(lead: OutreachLead, goal: string): string {
+  const details = [
+    lead.name && `Name: ${lead.name}`,
+    lead.position && `Position: ${lead.position}`,
+    lead.company && `Company: ${lead.company}`,
+  ].filter(Boolean);
+
+  const additional = formatAdditionalData(lead.additional_data);
+  if (additional) {
+    details.push(`Other details:\n${additional}`);
+  }
+
+  return [
+    `Goal of the message: ${goal.trim()}`,
+    '',
+    'Lead details:',
+    details.length > 0 ? details.join('\n') : 'None available',
+  ].join('\n');
+}
+
+// One "key: value" line per scalar field; nested values are written as JSON
+function formatAdditionalData(data: OutreachLead['additional_data']): string {
+  if (!data || typeof data !== 'object') {
+    return '';
+  }
+
+  const lines = Object.entries(data)
+    .filter(([, value]) => value !== null && value !== undefined && value !== '')
+    .map(([key, value]) => `${key}: ${typeof value === 'object' ? JSON.stringify(value) : String(value)}`);
+
+  const text = lines.join('\n');
+  return text.length > MAX_ADDITIONAL_DATA_CHARS ? `${text.slice(0, MAX_ADDITIONAL_DATA_CHARS)}…` : text;
+}
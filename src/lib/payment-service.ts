@@ -0,0 +1,201 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { PaymentNotification, PaymentProvider, PaymentSession } from '@/lib/payments';
+
+export type InvoiceLineItems =
+  | { type: 'credit_topup'; package_id: string; package_name: string; scraper_credits: number; price: number }
+  | {
+      type: 'subscription_upgrade';
+      plan_id: string;
+      plan_name: string;
+      scraper_credits: number;
+      interaction_credits: number;
+      price: number;
+    };
+
+export interface InvoiceRecord {
+  id: string;
+  user_id: string;
+  invoice_number: string;
+  amount: number;
+  status: 'draft' | 'pending' | 'paid' | 'failed' | 'cancelled';
+  line_items: InvoiceLineItems;
+  payment_provider: string | null;
+  payment_url: string | null;
+  paid_at: string | null;
+  created_at: string;
+}
+
+// Failures carry the HTTP status and response body the calling route returns
+type ServiceError = { ok: false; status: number; body: { error: string; code?: string; [key: string]: unknown } };
+
+export type CheckoutResult = { ok: true; invoice: InvoiceRecord; payment: PaymentSession } | ServiceError;
+
+export type NotificationOutcome = 'paid' | 'already_settled' | 'failed' | 'cancelled' | 'pending' | 'unknown_invoice';
+
+function generateInvoiceNumber(): string {
+  return `INV-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+}
+
+// Open a pending invoice and a hosted payment for it. Nothing is granted here; that happens when
+// the provider's notification reports the payment (applyPaymentNotification). Users cannot write
+// invoices, so supabase must be the service-role client.
+export async function createCheckout(
+  supabase: SupabaseClient,
+  provider: PaymentProvider,
+  userId: string,
+  input: { lineItems: InvoiceLineItems; description: string; finishUrl?: string }
+): Promise<CheckoutResult> {
+  const { data: user, error: userError } = await supabase
+    .from('users')
+    .select('email, name')
+    .eq('clerk_id', userId)
+    .single();
+
+  if (userError || !user) {
+    throw new Error(`Failed to fetch user for checkout: ${userError?.message || 'not found'}`);
+  }
+
+  const invoiceNumber = generateInvoiceNumber();
+  const amount = input.lineItems.price;
+
+  let payment: PaymentSession;
+  try {
+    payment = await provider.createPayment({
+      order_id: invoiceNumber,
+      amount,
+      description: input.description,
+      customer: { email: user.email, name: user.name },
+      finish_url: input.finishUrl
+    });
+  } catch (paymentError) {
+    console.error('Error creating payment:', paymentError);
+    return {
+      ok: false,
+      status: 502,
+      body: { error: 'Failed to start payment', code: 'PAYMENT_PROVIDER_ERROR' }
+    };
+  }
+
+  // Inserted complete, so the payment details go in with the row
+  const { data: invoice, error: invoiceError } = await supabase
+    .from('invoices')
+    .insert({
+      user_id: userId,
+      invoice_number: invoiceNumber,
+      amount,
+      status: 'pending',
+      line_items: input.lineItems,
+      payment_provider: provider.id,
+      payment_token: payment.token,
+      payment_url: payment.redirect_url,
+    })
+    .select('*')
+    .single();
+
+  if (invoiceError) {
+    throw new Error(`Failed to create invoice: ${invoiceError.message}`);
+  }
+
+  return { ok: true, invoice, payment };
+}
+
+// Apply a verified payment notification to its invoice. A paid invoice grants its credits or plan
+// once; repeated notifications for a settled invoice change nothing. Runs on the service-role
+// client, so the invoice is looked up only by the order ID the provider signed.
+export async function applyPaymentNotification(
+  supabase: SupabaseClient,
+  notification: PaymentNotification
+): Promise<NotificationOutcome> {
+  const { data: invoice, error: invoiceError } = await supabase
+    .from('invoices')
+    .select('*')
+    .eq('invoice_number', notification.order_id)
+    .maybeSingle();
+
+  if (invoiceError) {
+    throw new Error(`Failed to fetch invoice: ${invoiceError.message}`);
+  }
+
+  if (!invoice) {
+    return 'unknown_invoice';
+  }
+
+  if (notification.status === 'pending') {
+    return 'pending';
+  }
+
+  if (notification.status === 'paid') {
+    const { data: completedId, error: completeError } = await supabase.rpc('complete_invoice_payment', {
+      p_invoice_number: notification.order_id,
+      p_amount: notification.amount,
+      p_transaction_id: notification.transaction_id,
+      p_payment_type: notification.payment_type
+    });
+
+    if (completeError) {
+      throw new Error(`Failed to complete invoice payment: ${completeError.message}`);
+    }
+
+    if (!completedId) {
+      return 'already_settled';
+    }
+
+    await notifyUser(supabase, invoice as InvoiceRecord, 'billing_success');
+    return 'paid';
+  }
+
+  const { data: updated, error: updateError } = await supabase
+    .from('invoices')
+    .update({
+      status: notification.status,
+      provider_transaction_id: notification.transaction_id,
+      payment_type: notification.payment_type
+    })
+    .eq('id', invoice.id)
+    .eq('user_id', invoice.user_id)
+    .eq('status', 'pending')
+    .select('id');
+
+  if (updateError) {
+    throw new Error(`Failed to update invoice status: ${updateError.message}`);
+  }
+
+  if (!updated || updated.length === 0) {
+    return 'already_settled';
+  }
+
+  await notifyUser(supabase, invoice as InvoiceRecord, 'billing_failed');
+  return notification.status;
+}
+
+async function notifyUser(
+  supabase: SupabaseClient,
+  invoice: InvoiceRecord,
+  type: 'billing_success' | 'billing_failed'
+) {
+  const items = invoice.line_items;
+  const price = `IDR ${Number(invoice.amount).toLocaleString()}`;
+
+  const notification = type === 'billing_success'
+    ? items.type === 'credit_topup'
+      ? {
+          title: 'Credit Purchase Successful',
+          message: `You have successfully purchased ${items.scraper_credits} scraper credits for ${price}.`
+        }
+      : {
+          title: 'Subscription Upgraded',
+          message: `Your ${items.plan_name} plan is active. ${items.interaction_credits} interaction and ${items.scraper_credits} scraper credits have been added.`
+        }
+    : {
+        title: 'Payment Not Completed',
+        message: `Payment for invoice ${invoice.invoice_number} (${price}) was not completed. Nothing was charged.`
+      };
+
+  const { error } = await supabase
+    .from('notifications')
+    .insert({ user_id: invoice.user_id, type, ...notification });
+
+  if (error) {
+    console.error('Error creating billing notification:', error);
+  }
+}
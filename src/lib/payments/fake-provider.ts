@@ -0,0 +1,53 @@
+import { PaymentProvider, PaymentRequest, PaymentSession, PaymentStatus } from './types';
+import { MidtransNotification, signMidtransNotification, verifyMidtransNotification } from './midtrans-provider';
+
+const TRANSACTION_STATUSES: Record<PaymentStatus, { transaction_status: string; status_code: string }> = {
+  paid: { transaction_status: 'settlement', status_code: '200' },
+  pending: { transaction_status: 'pending', status_code: '201' },
+  failed: { transaction_status: 'deny', status_code: '202' },
+  cancelled: { transaction_status: 'expire', status_code: '407' },
+};
+
+// Takes no payment: the customer goes straight to the finish URL, and notifications are
+// Midtrans-shaped bodies signed with a local secret. Used in tests and local development.
+export function createFakePaymentProvider(secret: string): PaymentProvider {
+  return {
+    id: 'fake',
+
+    async createPayment(request: PaymentRequest): Promise<PaymentSession> {
+      const finishUrl = request.finish_url || '/billing';
+      const separator = finishUrl.includes('?') ? '&' : '?';
+
+      return {
+        token: `fake_${request.order_id}`,
+        // As Midtrans does when the customer returns from the payment page
+        redirect_url: `${finishUrl}${separator}order_id=${encodeURIComponent(request.order_id)}&transaction_status=pending`
+      };
+    },
+
+    verifyNotification(payload: unknown) {
+      return verifyMidtransNotification(payload, secret);
+    }
+  };
+}
+
+// A signed notification the fake provider accepts, as the payment webhook would receive it
+export function createFakePaymentNotification(
+  orderId: string,
+  amount: number,
+  status: PaymentStatus,
+  secret: string
+): MidtransNotification {
+  const { transaction_status, status_code } = TRANSACTION_STATUSES[status];
+  const grossAmount = amount.toFixed(2);
+
+  return {
+    order_id: orderId,
+    status_code,
+    gross_amount: grossAmount,
+    signature_key: signMidtransNotification(orderId, status_code, grossAmount, secret),
+    transaction_status,
+    transaction_id: `fake_${orderId}`,
+    payment_type: 'fake',
+  };
+}
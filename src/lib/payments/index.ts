@@ -0,0 +1,25 @@
+import { PaymentProvider } from './types';
+import { createMidtransProvider } from './midtrans-provider';
+import { createFakePaymentProvider } from './fake-provider';
+
+export * from './types';
+export { createFakePaymentNotification } from './fake-provider';
+
+// Midtrans when its server key is set. The fake provider grants purchases without payment, so it
+// is only used when PAYMENT_PROVIDER=fake is set explicitly. Null when neither is configured.
+export function getPaymentProvider(): PaymentProvider | null {
+  if (process.env.PAYMENT_PROVIDER === 'fake') {
+    return createFakePaymentProvider(process.env.FAKE_PAYMENT_SECRET || 'fake-payment-secret');
+  }
+
+  const serverKey = process.env.MIDTRANS_SERVER_KEY;
+  if (!serverKey) {
+    return null;
+  }
+
+  return createMidtransProvider({
+    serverKey,
+    isProduction: process.env.MIDTRANS_IS_PRODUCTION === 'true',
+    snapBaseUrl: process.env.MIDTRANS_SNAP_BASE_URL
+  });
+}
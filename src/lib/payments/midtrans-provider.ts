@@ -0,0 +1,138 @@
+import { createHash, timingSafeEqual } from 'crypto';
+import { PaymentNotification, PaymentProvider, PaymentRequest, PaymentSession, PaymentStatus } from './types';
+
+export const MIDTRANS_SANDBOX_SNAP_URL = 'https://app.sandbox.midtrans.com/snap/v1';
+export const MIDTRANS_PRODUCTION_SNAP_URL = 'https://app.midtrans.com/snap/v1';
+
+export interface MidtransConfig {
+  serverKey: string;
+  isProduction?: boolean;
+  // Overridable so tests can point the provider at a local stub server
+  snapBaseUrl?: string;
+}
+
+// Subset of the HTTP notification Midtrans posts for each transaction status change
+export interface MidtransNotification {
+  order_id: string;
+  status_code: string;
+  gross_amount: string;
+  signature_key: string;
+  transaction_status: string;
+  transaction_id?: string;
+  fraud_status?: string;
+  payment_type?: string;
+}
+
+// signature_key is SHA-512 of order_id + status_code + gross_amount + server key
+export function signMidtransNotification(
+  orderId: string,
+  statusCode: string,
+  grossAmount: string,
+  serverKey: string
+): string {
+  return createHash('sha512').update(`${orderId}${statusCode}${grossAmount}${serverKey}`).digest('hex');
+}
+
+function toPaymentStatus(transactionStatus: string, fraudStatus?: string): PaymentStatus {
+  switch (transactionStatus) {
+    case 'settlement':
+      return 'paid';
+    case 'capture':
+      // Card payments flagged for review stay pending until Midtrans accepts or denies them
+      return fraudStatus === 'challenge' ? 'pending' : 'paid';
+    case 'deny':
+    case 'failure':
+      return 'failed';
+    case 'cancel':
+    case 'expire':
+      return 'cancelled';
+    default:
+      return 'pending';
+  }
+}
+
+// Check a notification body against the server key and map it to a payment status
+export function verifyMidtransNotification(payload: unknown, serverKey: string): PaymentNotification | null {
+  const notification = payload as Partial<MidtransNotification> | null;
+
+  if (
+    !notification ||
+    typeof notification.order_id !== 'string' ||
+    typeof notification.status_code !== 'string' ||
+    typeof notification.gross_amount !== 'string' ||
+    typeof notification.signature_key !== 'string' ||
+    typeof notification.transaction_status !== 'string'
+  ) {
+    return null;
+  }
+
+  const expected = Buffer.from(signMidtransNotification(
+    notification.order_id,
+    notification.status_code,
+    notification.gross_amount,
+    serverKey
+  ));
+  const received = Buffer.from(notification.signature_key);
+
+  if (expected.length !== received.length || !timingSafeEqual(expected, received)) {
+    return null;
+  }
+
+  return {
+    order_id: notification.order_id,
+    status: toPaymentStatus(notification.transaction_status, notification.fraud_status),
+    amount: Number(notification.gross_amount),
+    transaction_id: notification.transaction_id,
+    payment_type: notification.payment_type,
+  };
+}
+
+// Takes payments through Midtrans Snap's hosted payment page
+export function createMidtransProvider(config: MidtransConfig): PaymentProvider {
+  const baseUrl = (
+    config.snapBaseUrl || (config.isProduction ? MIDTRANS_PRODUCTION_SNAP_URL : MIDTRANS_SANDBOX_SNAP_URL)
+  ).replace(/\/+$/, '');
+
+  return {
+    id: 'midtrans',
+
+    async createPayment(request: PaymentRequest): Promise<PaymentSession> {
+      const amount = Math.round(request.amount);
+
+      const response = await fetch(`${baseUrl}/transactions`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Basic ${Buffer.from(`${config.serverKey}:`).toString('base64')}`,
+          'Accept': 'application/json',
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          transaction_details: { order_id: request.order_id, gross_amount: amount },
+          item_details: [{ id: request.order_id, price: amount, quantity: 1, name: request.description.slice(0, 50) }],
+          customer_details: {
+            email: request.customer.email,
+            ...(request.customer.name ? { first_name: request.customer.name } : {}),
+          },
+          ...(request.finish_url ? { callbacks: { finish: request.finish_url } } : {}),
+        }),
+      });
+
+      const data = await response.json().catch(() => null);
+
+      if (!response.ok) {
+        const errorMessage = data?.error_messages?.join(', ') || `HTTP ${response.status}`;
+        throw new Error(`Midtrans API error: ${errorMessage}`);
+      }
+
+      if (!data?.token || !data?.redirect_url) {
+        throw new Error('Midtrans API error: response did not include a payment token');
+      }
+
+      return { token: data.token, redirect_url: data.redirect_url };
+    },
+
+    verifyNotification(payload: unknown): PaymentNotification | null {
+      return verifyMidtransNotification(payload, config.serverKey);
+    }
+  };
+}
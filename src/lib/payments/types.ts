@@ -0,0 +1,33 @@
+export type PaymentStatus = 'pending' | 'paid' | 'failed' | 'cancelled';
+
+export interface PaymentRequest {
+  // Our invoice number; the provider reports it back in its notifications
+  order_id: string;
+  amount: number; // IDR
+  description: string;
+  customer: { email: string; name?: string | null };
+  // Where the customer is sent after paying
+  finish_url?: string;
+}
+
+export interface PaymentSession {
+  token: string;
+  redirect_url: string;
+}
+
+// A payment-notification webhook, after its signature has been checked
+export interface PaymentNotification {
+  order_id: string;
+  status: PaymentStatus;
+  amount: number;
+  transaction_id?: string;
+  payment_type?: string;
+}
+
+export interface PaymentProvider {
+  id: string;
+  // Start a hosted payment for an invoice; the customer pays at redirect_url
+  createPayment(request: PaymentRequest): Promise<PaymentSession>;
+  // Parse a notification body, or null when its signature does not verify
+  verifyNotification(payload: unknown): PaymentNotification | null;
+}
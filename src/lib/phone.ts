@@ -0,0 +1,64 @@
+// Phone number normalization shared by lead storage, user profiles and WhatsApp sends.
+// Numbers are stored in E.164 form (+6281234567890). Numbers written without a country code
+// are read as Indonesian: 0812-3456-7890 and 812 3456 7890 both become +6281234567890.
+
+export const DEFAULT_COUNTRY_CODE = '62'; // Indonesia
+
+const FORMATTING_PATTERN = /[\s().-]/g;
+const MIN_E164_DIGITS = 8;
+const MAX_E164_DIGITS = 15;
+// Indonesian national significant numbers (after +62) are 8 to 12 digits
+const MIN_INDONESIAN_DIGITS = 8;
+const MAX_INDONESIAN_DIGITS = 12;
+
+// E.164 form of a phone number, or null if it cannot be a valid number
+export function normalizePhoneNumber(
+  phone: string | null | undefined,
+  defaultCountryCode: string = DEFAULT_COUNTRY_CODE
+): string | null {
+  if (!phone) {
+    return null;
+  }
+
+  const compact = phone.trim().replace(FORMATTING_PATTERN, '');
+  if (!/^\+?\d+$/.test(compact)) {
+    return null;
+  }
+
+  let digits: string;
+
+  if (compact.startsWith('+')) {
+    digits = compact.slice(1);
+  } else if (compact.startsWith('00')) {
+    // International dialling prefix
+    digits = compact.slice(2);
+  } else if (compact.startsWith('0')) {
+    // National trunk prefix
+    digits = defaultCountryCode + compact.slice(1);
+  } else if (compact.startsWith(defaultCountryCode)) {
+    digits = compact;
+  } else {
+    digits = defaultCountryCode + compact;
+  }
+
+  if (digits.startsWith('0') || digits.length < MIN_E164_DIGITS || digits.length > MAX_E164_DIGITS) {
+    return null;
+  }
+
+  if (digits.startsWith(DEFAULT_COUNTRY_CODE)) {
+    const national = digits.slice(DEFAULT_COUNTRY_CODE.length);
+    if (
+      national.startsWith('0') ||
+      national.length < MIN_INDONESIAN_DIGITS ||
+      national.length > MAX_INDONESIAN_DIGITS
+    ) {
+      return null;
+    }
+  }
+
+  return `+${digits}`;
+}
+
+export function isValidPhoneNumber(phone: string | null | undefined): boolean {
+  return normalizePhoneNumber(phone) !== null;
+}
@@ -0,0 +1,112 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { getReplyClassifier, ReplyClassifier } from '@/lib/reply-classifier';
+import { getStageAfterReply, isLeadStage } from '@/lib/lead-pipeline';
+import { RecordedIncomingMessage } from '@/lib/whatsapp-message-service';
+import { addOptOut } from '@/lib/opt-out-service';
+
+// Classify recorded replies, store the result on each message and move its lead to the stage the
+// reply implies. A reply classified as an opt-out also adds the number to the user's suppression
+// list. A reply the classifier fails on stays unclassified; the others still go through.
+export async function classifyIncomingMessages(
+  supabase: SupabaseClient,
+  messages: RecordedIncomingMessage[],
+  classifier: ReplyClassifier | null = getReplyClassifier()
+): Promise<number> {
+  if (!classifier) {
+    return 0;
+  }
+
+  let classified = 0;
+
+  for (const message of messages) {
+    if (!message.content.trim()) {
+      continue;
+    }
+
+    const lead = message.lead_id ? await getLeadForReply(supabase, message.lead_id) : null;
+
+    const { data: lastOutgoing } = await supabase
+      .from('whatsapp_messages')
+      .select('content')
+      .eq('user_id', message.user_id)
+      .eq('phone_number', message.phone_number)
+      .eq('message_type', 'outgoing')
+      .lt('created_at', message.created_at)
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    let result;
+    try {
+      result = await classifier.classify(message.content, {
+        lead_name: lead?.name,
+        last_outgoing_message: lastOutgoing?.content,
+      });
+    } catch (classifyError) {
+      console.error(`Error classifying WhatsApp message ${message.id}:`, classifyError);
+      continue;
+    }
+
+    const { error: updateError } = await supabase
+      .from('whatsapp_messages')
+      .update({
+        reply_category: result.category,
+        reply_summary: result.summary,
+        classified_by: classifier.id,
+        classified_at: new Date().toISOString(),
+      })
+      .eq('id', message.id)
+      .eq('user_id', message.user_id);
+
+    if (updateError) {
+      console.error(`Error storing classification for message ${message.id}:`, updateError);
+      continue;
+    }
+
+    classified++;
+
+    // Keyword opt-outs are recorded when the message arrives; this catches ones asked for in free text
+    if (result.category === 'opt_out') {
+      try {
+        await addOptOut(supabase, {
+          userId: message.user_id,
+          phoneNumber: message.phone_number,
+          source: 'classifier',
+          reason: result.summary || message.content.trim(),
+          messageId: message.id
+        });
+      } catch (optOutError) {
+        console.error(`Error recording opt-out from message ${message.id}:`, optOutError);
+      }
+    }
+
+    if (lead && isLeadStage(lead.stage)) {
+      const stage = getStageAfterReply(result.category, lead.stage);
+      if (stage) {
+        const { error: stageError } = await supabase
+          .from('leads')
+          .update({ stage, stage_updated_at: new Date().toISOString() })
+          .eq('id', lead.id);
+
+        if (stageError) {
+          console.error(`Error moving lead ${lead.id} to ${stage}:`, stageError);
+        }
+      }
+    }
+  }
+
+  return classified;
+}
+
+async function getLeadForReply(
+  supabase: SupabaseClient,
+  leadId: string
+): Promise<{ id: string; name: string | null; stage: string } | null> {
+  const { data: lead } = await supabase
+    .from('leads')
+    .select('id, name, stage')
+    .eq('id', leadId)
+    .maybeSingle();
+
+  return lead;
+}
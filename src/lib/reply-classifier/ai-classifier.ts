@@ -0,0 +1,41 @@
+import { generateObject, LanguageModel } from 'ai';
+import { z } from 'zod';
+import { REPLY_CATEGORIES, ReplyClassification, ReplyClassifier, ReplyContext } from './types';
+
+const classificationSchema = z.object({
+  category: z.enum(REPLY_CATEGORIES),
+  summary: z.string().describe('One short sentence summarizing the reply, in the language of the reply'),
+});
+
+const SYSTEM_PROMPT = [
+  'You classify WhatsApp replies to a sales message.',
+  'interested: wants to know more, agrees to a call or demo, or asks for a price or offer.',
+  'not_interested: declines, already has a supplier, or says it is not relevant.',
+  'question: asks something without showing interest or disinterest yet, e.g. "who is this?".',
+  'opt_out: asks not to be contacted again.',
+  'out_of_office: an automatic or away reply.',
+].join('\n');
+
+// Classifies replies with a language model through the ai SDK's structured output
+export function createAiReplyClassifier(model: LanguageModel, id: string): ReplyClassifier {
+  return {
+    id,
+
+    async classify(content: string, context: ReplyContext = {}): Promise<ReplyClassification> {
+      const prompt = [
+        context.last_outgoing_message && `Our last message:\n${context.last_outgoing_message}`,
+        `Reply${context.lead_name ? ` from ${context.lead_name}` : ''}:\n${content}`,
+      ].filter(Boolean).join('\n\n');
+
+      const { object } = await generateObject({
+        model,
+        schema: classificationSchema,
+        system: SYSTEM_PROMPT,
+        prompt,
+        maxTokens: 200,
+      });
+
+      return { category: object.category, summary: object.summary.trim() };
+    }
+  };
+}
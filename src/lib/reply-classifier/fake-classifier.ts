@@ -0,0 +1,34 @@
+import { isOptOutMessage } from '@/lib/opt-out-service';
+import { ReplyClassification, ReplyClassifier } from './types';
+
+const OUT_OF_OFFICE_PATTERN = /out of (the )?office|auto-?reply|on (annual )?leave|sedang cuti|di luar kantor|balasan otomatis/i;
+const NOT_INTERESTED_PATTERN = /not interested|no thanks|no, thank|tidak tertarik|gak tertarik|nggak tertarik|tidak perlu|tidak butuh/i;
+
+// Keyword rules instead of a model, so the same reply always gets the same result.
+// Used by tests and selected with REPLY_CLASSIFIER=fake.
+export const fakeReplyClassifier: ReplyClassifier = {
+  id: 'fake',
+
+  async classify(content: string): Promise<ReplyClassification> {
+    const text = content.trim();
+    const summary = text.length > 100 ? `${text.slice(0, 97)}...` : text;
+
+    if (isOptOutMessage(text)) {
+      return { category: 'opt_out', summary };
+    }
+
+    if (OUT_OF_OFFICE_PATTERN.test(text)) {
+      return { category: 'out_of_office', summary };
+    }
+
+    if (NOT_INTERESTED_PATTERN.test(text)) {
+      return { category: 'not_interested', summary };
+    }
+
+    if (text.includes('?')) {
+      return { category: 'question', summary };
+    }
+
+    return { category: 'interested', summary };
+  }
+};
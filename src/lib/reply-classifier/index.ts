@@ -0,0 +1,22 @@
+import { getAiModel } from '@/lib/ai';
+import { ReplyClassifier } from './types';
+import { createAiReplyClassifier } from './ai-classifier';
+import { fakeReplyClassifier } from './fake-classifier';
+
+export * from './types';
+export { fakeReplyClassifier } from './fake-classifier';
+
+// The AI classifier when a model is configured. REPLY_CLASSIFIER=fake selects the keyword
+// classifier instead; with neither, replies are stored unclassified.
+export function getReplyClassifier(): ReplyClassifier | null {
+  if (process.env.REPLY_CLASSIFIER === 'fake') {
+    return fakeReplyClassifier;
+  }
+
+  const ai = getAiModel();
+  if (!ai) {
+    return null;
+  }
+
+  return createAiReplyClassifier(ai.model, `${ai.provider}/${ai.modelId}`);
+}
@@ -0,0 +1,24 @@
+export const REPLY_CATEGORIES = ['interested', 'not_interested', 'question', 'opt_out', 'out_of_office'] as const;
+
+export type ReplyCategory = typeof REPLY_CATEGORIES[number];
+
+export interface ReplyClassification {
+  category: ReplyCategory;
+  // One sentence for the inbox, in the language of the reply
+  summary: string;
+}
+
+// What we sent before the reply, so "yes please" can be read in context
+export interface ReplyContext {
+  lead_name?: string | null;
+  last_outgoing_message?: string | null;
+}
+
+export interface ReplyClassifier {
+  id: string;
+  classify(content: string, context?: ReplyContext): Promise<ReplyClassification>;
+}
+
+export function isReplyCategory(value: unknown): value is ReplyCategory {
+  return typeof value === 'string' && (REPLY_CATEGORIES as readonly string[]).includes(value);
+}
@@ -0,0 +1,104 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { createSupabaseServiceClient } from '@/lib/supabase';
+import { queueLeadSearch } from '@/lib/lead-search-service';
+
+export const SAVED_SEARCH_SCHEDULES = ['none', 'daily', 'weekly'] as const;
+export type SavedSearchSchedule = typeof SAVED_SEARCH_SCHEDULES[number];
+
+const SCHEDULE_INTERVAL_MS: Record<Exclude<SavedSearchSchedule, 'none'>, number> = {
+  daily: 24 * 60 * 60 * 1000,
+  weekly: 7 * 24 * 60 * 60 * 1000,
+};
+
+export interface ScheduledSearchRunResult {
+  saved_search_id: string;
+  search_id?: string;
+  status: 'queued' | 'failed';
+  error?: string;
+}
+
+export function isSavedSearchSchedule(value: unknown): value is SavedSearchSchedule {
+  return typeof value === 'string' && (SAVED_SEARCH_SCHEDULES as readonly string[]).includes(value);
+}
+
+// Next time a scheduled search is due, or null when it is not scheduled
+export function getNextRunAt(schedule: SavedSearchSchedule, from: Date = new Date()): string | null {
+  if (schedule === 'none') {
+    return null;
+  }
+
+  return new Date(from.getTime() + SCHEDULE_INTERVAL_MS[schedule]).toISOString();
+}
+
+// Queue a run for every active saved search that is due; the lead search worker cron picks them up.
+// Runs always skip leads the user already has as contacts, so each run only delivers (and charges for) new leads.
+export async function runDueSavedSearches(
+  limit: number = 20,
+  options: { supabase?: SupabaseClient } = {}
+): Promise<ScheduledSearchRunResult[]> {
+  const supabase = options.supabase || createSupabaseServiceClient();
+  const now = new Date();
+
+  const { data: dueSearches, error } = await supabase
+    .from('saved_searches')
+    .select('*')
+    .eq('is_active', true)
+    .neq('schedule', 'none')
+    .lte('next_run_at', now.toISOString())
+    .order('next_run_at', { ascending: true })
+    .limit(limit);
+
+  if (error) {
+    throw new Error(`Failed to fetch due saved searches: ${error.message}`);
+  }
+
+  const results: ScheduledSearchRunResult[] = [];
+
+  for (const savedSearch of dueSearches || []) {
+    // Advance the schedule first so a failed run is not retried on every cron tick
+    await supabase
+      .from('saved_searches')
+      .update({
+        next_run_at: getNextRunAt(savedSearch.schedule, now),
+        last_run_at: now.toISOString(),
+      })
+      .eq('id', savedSearch.id)
+      .eq('user_id', savedSearch.user_id);
+
+    const queued = await queueLeadSearch(supabase, {
+      userId: savedSearch.user_id,
+      searchCriteria: savedSearch.search_criteria,
+      maxResults: savedSearch.max_results,
+      skipExisting: true,
+      savedSearchId: savedSearch.id,
+    });
+
+    if (!queued.ok) {
+      const reason = queued.body.code === 'INSUFFICIENT_CREDITS'
+        ? `Not enough scraper credits (${queued.body.available_credits} available, ${queued.body.required_credits} required).`
+        : queued.body.error;
+
+      await supabase
+        .from('notifications')
+        .insert({
+          user_id: savedSearch.user_id,
+          type: 'scheduled_search_failed',
+          title: 'Scheduled Search Failed',
+          message: `"${savedSearch.name}" could not be run: ${reason}`,
+        });
+
+      results.push({ saved_search_id: savedSearch.id, status: 'failed', error: queued.body.error });
+      continue;
+    }
+
+    await supabase
+      .from('saved_searches')
+      .update({ last_search_id: queued.search.id })
+      .eq('id', savedSearch.id)
+      .eq('user_id', savedSearch.user_id);
+
+    results.push({ saved_search_id: savedSearch.id, search_id: queued.search.id, status: 'queued' });
+  }
+
+  return results;
+}
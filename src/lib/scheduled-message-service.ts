@@ -0,0 +1,50 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+
+export const MAX_SCHEDULE_AHEAD_DAYS = 90;
+
+export type ParseScheduledForResult =
+  | { ok: true; scheduledFor: Date }
+  | { ok: false; body: { error: string; code: string } };
+
+// Validate a requested send time: a timestamp in the future, at most MAX_SCHEDULE_AHEAD_DAYS away
+export function parseScheduledFor(value: unknown, now: Date = new Date()): ParseScheduledForResult {
+  const scheduledFor = typeof value === 'string' ? new Date(value) : null;
+
+  if (!scheduledFor || isNaN(scheduledFor.getTime())) {
+    return { ok: false, body: { error: 'scheduled_for must be an ISO timestamp', code: 'INVALID_SCHEDULED_FOR' } };
+  }
+
+  if (scheduledFor.getTime() <= now.getTime()) {
+    return { ok: false, body: { error: 'scheduled_for must be in the future', code: 'INVALID_SCHEDULED_FOR' } };
+  }
+
+  if (scheduledFor.getTime() > now.getTime() + MAX_SCHEDULE_AHEAD_DAYS * 24 * 60 * 60 * 1000) {
+    return {
+      ok: false,
+      body: {
+        error: `Messages can be scheduled at most ${MAX_SCHEDULE_AHEAD_DAYS} days ahead`,
+        code: 'INVALID_SCHEDULED_FOR'
+      }
+    };
+  }
+
+  return { ok: true, scheduledFor };
+}
+
+// A queued message of the user's that can still be edited or cancelled, or null
+export async function getQueuedMessage(supabase: SupabaseClient, userId: string, messageId: string) {
+  const { data: message, error } = await supabase
+    .from('whatsapp_messages')
+    .select('*')
+    .eq('id', messageId)
+    .eq('user_id', userId)
+    .eq('message_type', 'outgoing')
+    .eq('status', 'queued')
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to fetch scheduled message: ${error.message}`);
+  }
+
+  return message;
+}
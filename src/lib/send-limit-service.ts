@@ -0,0 +1,58 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { DEFAULT_SEND_LIMITS, evaluateSendWindow, SendLimitSettings, SendWindow } from '@/lib/send-limits';
+
+// The user's send limits, or the defaults if they never changed them
+export async function getSendLimitSettings(supabase: SupabaseClient, userId: string): Promise<SendLimitSettings> {
+  const { data, error } = await supabase
+    .from('whatsapp_send_settings')
+    .select('messages_per_minute, messages_per_day, quiet_hours_start, quiet_hours_end, timezone')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to fetch send settings: ${error.message}`);
+  }
+
+  return data || DEFAULT_SEND_LIMITS;
+}
+
+// Whether the user may send a WhatsApp message now; when they may, a send slot is reserved for it.
+// Slots are counted and taken atomically per user, so single sends, campaigns, queued sends and
+// follow-ups running in parallel cannot all pass a limit. A slot whose send is then abandoned still
+// counts, which errs on the side of sending less.
+export async function reserveSendSlot(
+  supabase: SupabaseClient,
+  userId: string,
+  now: Date = new Date()
+): Promise<SendWindow> {
+  const settings = await getSendLimitSettings(supabase, userId);
+
+  // Quiet hours do not depend on recent sends, so no slot is needed to refuse them
+  const quietHours = evaluateSendWindow(settings, [], now);
+  if (!quietHours.allowed) {
+    return quietHours;
+  }
+
+  const { data, error } = await supabase
+    .rpc('reserve_send_slot', {
+      p_user_id: userId,
+      p_messages_per_minute: settings.messages_per_minute,
+      p_messages_per_day: settings.messages_per_day
+    })
+    .single<{ reserved: boolean; recent_sends: string[] }>();
+
+  if (error || !data) {
+    throw new Error(`Failed to reserve a send slot: ${error?.message || 'no result'}`);
+  }
+
+  if (data.reserved) {
+    return { allowed: true };
+  }
+
+  const window = evaluateSendWindow(settings, data.recent_sends.map(sentAt => new Date(sentAt)), now);
+
+  // The database clock decided; if ours disagrees, try again shortly
+  return window.allowed
+    ? { allowed: false, reason: 'rate_limit_minute', retry_at: new Date(now.getTime() + 1000) }
+    : window;
+}
@@ -0,0 +1,167 @@
+// Per-user WhatsApp sending limits: rolling per-minute and per-day message caps, and quiet hours
+// in the user's timezone. Pure functions so the send route, queue runner and campaign worker
+// all decide the same way; loading settings and recent sends lives in send-limit-service.
+
+export interface SendLimitSettings {
+  messages_per_minute: number;
+  messages_per_day: number;
+  quiet_hours_start: string | null; // 'HH:MM' local time; quiet hours may wrap past midnight
+  quiet_hours_end: string | null;
+  timezone: string; // IANA name, e.g. 'Asia/Jakarta'
+}
+
+export const DEFAULT_SEND_LIMITS: SendLimitSettings = {
+  messages_per_minute: 10,
+  messages_per_day: 250,
+  quiet_hours_start: null,
+  quiet_hours_end: null,
+  timezone: 'Asia/Jakarta',
+};
+
+export const MAX_MESSAGES_PER_MINUTE = 60;
+export const MAX_MESSAGES_PER_DAY = 10000;
+
+export type SendBlockReason = 'rate_limit_minute' | 'rate_limit_day' | 'quiet_hours';
+
+export type SendWindow =
+  | { allowed: true }
+  | { allowed: false; reason: SendBlockReason; retry_at: Date };
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+const TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+
+export function isValidTimeOfDay(value: unknown): value is string {
+  return typeof value === 'string' && TIME_PATTERN.test(value);
+}
+
+export function isValidTimezone(value: unknown): value is string {
+  if (typeof value !== 'string' || !value) {
+    return false;
+  }
+
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: value });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// When the quiet hours containing `at` end, or null if `at` is outside quiet hours
+export function getQuietHoursEnd(settings: SendLimitSettings, at: Date): Date | null {
+  if (!settings.quiet_hours_start || !settings.quiet_hours_end) {
+    return null;
+  }
+
+  const start = toMinuteOfDay(settings.quiet_hours_start);
+  const end = toMinuteOfDay(settings.quiet_hours_end);
+  if (start === end) {
+    return null;
+  }
+
+  const { minuteOfDay, second } = getLocalTime(at, settings.timezone);
+  const inQuietHours = start < end
+    ? minuteOfDay >= start && minuteOfDay < end
+    : minuteOfDay >= start || minuteOfDay < end;
+
+  if (!inQuietHours) {
+    return null;
+  }
+
+  const minutesUntilEnd = (end - minuteOfDay + 24 * 60) % (24 * 60);
+  const endsAt = new Date(at.getTime() + minutesUntilEnd * MINUTE_MS - second * 1000);
+  endsAt.setMilliseconds(0);
+  return endsAt;
+}
+
+// Whether a message may be sent at `now`, given when the user's recent messages were sent.
+// When it may not, retry_at is the earliest time every limit allows it.
+export function evaluateSendWindow(settings: SendLimitSettings, recentSends: Date[], now: Date): SendWindow {
+  const sends = recentSends
+    .map(sentAt => sentAt.getTime())
+    .filter(time => time > now.getTime() - DAY_MS)
+    .sort((a, b) => a - b);
+
+  let reason: SendBlockReason | null = null;
+  let candidate = now.getTime();
+
+  // Moving past one limit can land inside another (e.g. the minute window ends in quiet hours),
+  // so keep deferring until a time passes all three
+  for (let attempt = 0; attempt < 10; attempt++) {
+    const blocked = findBlockingLimit(settings, sends, candidate);
+    if (!blocked) {
+      break;
+    }
+
+    reason = reason || blocked.reason;
+    candidate = blocked.retryAt;
+  }
+
+  if (!reason) {
+    return { allowed: true };
+  }
+
+  return { allowed: false, reason, retry_at: new Date(candidate) };
+}
+
+// Response body for a send refused by a limit; the route returns it with status 429
+export function describeSendBlock(window: Extract<SendWindow, { allowed: false }>) {
+  const messages: Record<SendBlockReason, string> = {
+    rate_limit_minute: 'Per-minute WhatsApp message limit reached',
+    rate_limit_day: 'Daily WhatsApp message limit reached',
+    quiet_hours: 'Messages are not sent during quiet hours',
+  };
+
+  return {
+    error: messages[window.reason],
+    code: window.reason === 'quiet_hours' ? 'QUIET_HOURS' : 'RATE_LIMITED',
+    reason: window.reason,
+    retry_at: window.retry_at.toISOString(),
+  };
+}
+
+function findBlockingLimit(
+  settings: SendLimitSettings,
+  sends: number[],
+  at: number
+): { reason: SendBlockReason; retryAt: number } | null {
+  const quietHoursEnd = getQuietHoursEnd(settings, new Date(at));
+  if (quietHoursEnd) {
+    return { reason: 'quiet_hours', retryAt: quietHoursEnd.getTime() };
+  }
+
+  const windows: { reason: SendBlockReason; durationMs: number; limit: number }[] = [
+    { reason: 'rate_limit_day', durationMs: DAY_MS, limit: settings.messages_per_day },
+    { reason: 'rate_limit_minute', durationMs: MINUTE_MS, limit: settings.messages_per_minute },
+  ];
+
+  for (const window of windows) {
+    const inWindow = sends.filter(time => time > at - window.durationMs && time <= at);
+    if (inWindow.length >= window.limit) {
+      // Wait until enough of the oldest sends in the window have aged out
+      const oldestToExpire = inWindow[inWindow.length - window.limit];
+      return { reason: window.reason, retryAt: oldestToExpire + window.durationMs + 1 };
+    }
+  }
+
+  return null;
+}
+
+function toMinuteOfDay(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+function getLocalTime(at: Date, timezone: string): { minuteOfDay: number; second: number } {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(at);
+
+  const part = (type: string) => Number(parts.find(p => p.type === type)?.value || 0);
+  return { minuteOfDay: part('hour') * 60 + part('minute'), second: part('second') };
+}
@@ -0,0 +1,12 @@
+import { createClient, SupabaseClient } from "@supabase/supabase-js";
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
+const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!;
+
+// Client for use in the browser, authenticated with the signed-in user's Clerk session token
+// so RLS (and realtime subscriptions) only see that user's rows. Pass useAuth().getToken.
+export function createSupabaseBrowserClient(getToken: () => Promise<string | null>): SupabaseClient {
+  return createClient(supabaseUrl, supabaseAnonKey, {
+    accessToken: getToken,
+  });
+}
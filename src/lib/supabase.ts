@@ -33,3 +33,27 @@ export async function createSupabaseServerClient() {
     },
   });
 }
+
+// Background jobs, cron routes and webhooks run without a user session, so RLS would hide every
+// row from them. This client bypasses RLS: scope every query it makes by user_id explicitly.
+export function createSupabaseServiceClient() {
+  const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!serviceRoleKey) {
+    throw new Error("SUPABASE_SERVICE_ROLE_KEY is not set");
+  }
+
+  return createClient(supabaseUrl, serviceRoleKey, {
+    auth: {
+      persistSession: false,
+      autoRefreshToken: false,
+    },
+    global: {
+      fetch: (url, options = {}) => {
+        return fetch(url, {
+          ...options,
+          cache: "no-store",
+        });
+      },
+    },
+  });
+}
@@ -3,6 +3,7 @@
 import { createClient } from '@supabase/supabase-js';
 import { useAuth, useUser } from '@clerk/nextjs';
 import { useEffect, useState } from 'react';
+import { normalizePhoneNumber } from './phone';
 
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
 const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!;
@@ -87,6 +88,11 @@ export function useUserProfile() {
   const updateProfile = async (updates: Partial<UserProfile>) => {
     if (!user) throw new Error('User not authenticated');
 
+    const phone = updates.phone ? normalizePhoneNumber(updates.phone) : updates.phone;
+    if (updates.phone && !phone) {
+      throw new Error(`Invalid phone number: ${updates.phone}`);
+    }
+
     try {
       const supabase = createClient(supabaseUrl, supabaseAnonKey);
       const { data, error } = await supabase
@@ -95,7 +101,7 @@ export function useUserProfile() {
           clerk_id: user.id,
           email: user.emailAddresses[0]?.emailAddress,
           name: updates.name || user.fullName,
-          phone: updates.phone,
+          phone,
           company_name: updates.company_name,
           updated_at: new Date().toISOString(),
         })
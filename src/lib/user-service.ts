@@ -1,5 +1,6 @@
 import { createSupabaseServerClient } from './supabase';
 import { auth } from '@clerk/nextjs/server';
+import { normalizePhoneNumber } from './phone';
 
 export interface UserProfile {
   id: string;
@@ -47,6 +48,11 @@ export async function upsertUserProfile(userData: Partial<UserProfile>): Promise
     throw new Error('User not authenticated');
   }
 
+  const phone = userData.phone ? normalizePhoneNumber(userData.phone) : userData.phone;
+  if (userData.phone && !phone) {
+    throw new Error(`Invalid phone number: ${userData.phone}`);
+  }
+
   const supabase = await createSupabaseServerClient();
   
   const { data, error } = await supabase
@@ -55,7 +61,7 @@ export async function upsertUserProfile(userData: Partial<UserProfile>): Promise
       clerk_id: userId,
       email: userData.email,
       name: userData.name,
-      phone: userData.phone,
+      phone,
       company_name: userData.company_name,
       updated_at: new Date().toISOString(),
     })
@@ -134,6 +140,16 @@ export async function getUserSubscription(): Promise<Subscription | null> {
   return null;
 }
 
+// Check a flag in the current plan's features JSON (e.g. 'lead_export')
+export async function hasPlanFeature(feature: string): Promise<boolean> {
+  const subscription = await getUserSubscription();
+  if (!subscription?.plan || !['trial', 'active'].includes(subscription.status)) {
+    return false;
+  }
+
+  return subscription.plan.features?.[feature] === true;
+}
+
 // Get user credit balances
 export async function getUserCreditBalances(): Promise<CreditBalance> {
   const { userId } = await auth();
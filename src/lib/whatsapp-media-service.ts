@@ -0,0 +1,125 @@
+import { randomUUID } from 'crypto';
+import { SupabaseClient } from '@supabase/supabase-js';
+import { getWhatsAppProvider, WhatsAppSendResult } from '@/lib/whatsapp';
+import { validateMediaFile, WhatsAppMediaType } from '@/lib/whatsapp-media';
+
+export const WHATSAPP_MEDIA_BUCKET = 'whatsapp-media';
+
+// Long enough for the Cloud API to fetch the file, including a retry
+const MEDIA_LINK_EXPIRY_SECONDS = 60 * 60;
+
+export interface WhatsAppMediaRecord {
+  id: string;
+  user_id: string;
+  media_type: WhatsAppMediaType;
+  file_name: string;
+  mime_type: string;
+  size_bytes: number;
+  storage_path: string;
+  created_at: string;
+}
+
+// Failures carry the HTTP status and response body the calling route returns
+export type UploadMediaResult =
+  | { ok: true; media: WhatsAppMediaRecord }
+  | { ok: false; status: number; body: { error: string; code?: string } };
+
+// Validate a file and store it under the user's folder in the media bucket. Users cannot write
+// media, so supabase must be the service-role client.
+export async function uploadWhatsAppMedia(
+  supabase: SupabaseClient,
+  userId: string,
+  file: File
+): Promise<UploadMediaResult> {
+  const validation = validateMediaFile(file);
+  if (!validation.ok) {
+    return {
+      ok: false,
+      status: validation.code === 'MEDIA_TOO_LARGE' ? 413 : 400,
+      body: { error: validation.error, code: validation.code }
+    };
+  }
+
+  const fileName = file.name || validation.mediaType;
+  const storagePath = `${userId}/${randomUUID()}-${fileName.replace(/[^\w.-]+/g, '_')}`;
+
+  const { error: uploadError } = await supabase.storage
+    .from(WHATSAPP_MEDIA_BUCKET)
+    .upload(storagePath, file, { contentType: file.type, upsert: false });
+
+  if (uploadError) {
+    console.error('Error uploading WhatsApp media:', uploadError);
+    return { ok: false, status: 500, body: { error: 'Failed to upload file' } };
+  }
+
+  const { data: media, error: insertError } = await supabase
+    .from('whatsapp_media')
+    .insert({
+      user_id: userId,
+      media_type: validation.mediaType,
+      file_name: fileName,
+      mime_type: file.type,
+      size_bytes: file.size,
+      storage_path: storagePath,
+    })
+    .select()
+    .single();
+
+  if (insertError) {
+    console.error('Error saving WhatsApp media record:', insertError);
+    await supabase.storage.from(WHATSAPP_MEDIA_BUCKET).remove([storagePath]);
+    return { ok: false, status: 500, body: { error: 'Failed to save file' } };
+  }
+
+  return { ok: true, media };
+}
+
+// One of the user's uploaded files, or null
+export async function getWhatsAppMedia(
+  supabase: SupabaseClient,
+  userId: string,
+  mediaId: string
+): Promise<WhatsAppMediaRecord | null> {
+  const { data: media, error } = await supabase
+    .from('whatsapp_media')
+    .select('*')
+    .eq('id', mediaId)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to fetch media: ${error.message}`);
+  }
+
+  return media;
+}
+
+// Send a text message, or an attachment with `content` as its caption. The provider downloads
+// the file from a short-lived signed URL, so the bucket itself stays private.
+export async function sendWhatsAppMessage(
+  supabase: SupabaseClient,
+  to: string,
+  content: string,
+  media: WhatsAppMediaRecord | null
+): Promise<WhatsAppSendResult> {
+  const provider = getWhatsAppProvider();
+
+  if (!media) {
+    return provider.sendTextMessage(to, content);
+  }
+
+  const { data: signed, error } = await supabase.storage
+    .from(WHATSAPP_MEDIA_BUCKET)
+    .createSignedUrl(media.storage_path, MEDIA_LINK_EXPIRY_SECONDS);
+
+  if (error || !signed) {
+    throw new Error(`Failed to create media link: ${error?.message || 'no URL returned'}`);
+  }
+
+  return provider.sendMediaMessage(to, {
+    type: media.media_type,
+    link: signed.signedUrl,
+    caption: content || undefined,
+    filename: media.file_name,
+  });
+}
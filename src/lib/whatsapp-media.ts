@@ -0,0 +1,68 @@
+// Which files can be attached to a WhatsApp message. Client-safe so the compose form can reject
+// a file before uploading it; the upload route applies the same rules.
+
+export type WhatsAppMediaType = 'image' | 'document';
+export type WhatsAppContentType = 'text' | WhatsAppMediaType;
+
+export interface MediaRule {
+  mimeTypes: string[];
+  maxBytes: number;
+}
+
+const MB = 1024 * 1024;
+
+// Within the Cloud API limits (5 MB images, 100 MB documents); documents are capped lower to
+// keep storage in check, which still fits brochures and price lists
+export const WHATSAPP_MEDIA_RULES: Record<WhatsAppMediaType, MediaRule> = {
+  image: {
+    mimeTypes: ['image/jpeg', 'image/png'],
+    maxBytes: 5 * MB,
+  },
+  document: {
+    mimeTypes: [
+      'application/pdf',
+      'application/msword',
+      'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+      'application/vnd.ms-excel',
+      'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    ],
+    maxBytes: 16 * MB,
+  },
+};
+
+export const WHATSAPP_MEDIA_MIME_TYPES = Object.values(WHATSAPP_MEDIA_RULES).flatMap(rule => rule.mimeTypes);
+
+export type ValidateMediaResult =
+  | { ok: true; mediaType: WhatsAppMediaType }
+  | { ok: false; error: string; code: 'UNSUPPORTED_MEDIA_TYPE' | 'MEDIA_TOO_LARGE' | 'EMPTY_MEDIA' };
+
+export function getMediaType(mimeType: string): WhatsAppMediaType | null {
+  const types = Object.keys(WHATSAPP_MEDIA_RULES) as WhatsAppMediaType[];
+  return types.find(type => WHATSAPP_MEDIA_RULES[type].mimeTypes.includes(mimeType)) || null;
+}
+
+export function validateMediaFile(file: { type: string; size: number }): ValidateMediaResult {
+  const mediaType = getMediaType(file.type);
+  if (!mediaType) {
+    return {
+      ok: false,
+      error: 'Only JPEG or PNG images and PDF, Word or Excel documents can be attached',
+      code: 'UNSUPPORTED_MEDIA_TYPE'
+    };
+  }
+
+  if (file.size <= 0) {
+    return { ok: false, error: 'The file is empty', code: 'EMPTY_MEDIA' };
+  }
+
+  const maxBytes = WHATSAPP_MEDIA_RULES[mediaType].maxBytes;
+  if (file.size > maxBytes) {
+    return {
+      ok: false,
+      error: `${mediaType === 'image' ? 'Images' : 'Documents'} can be at most ${maxBytes / MB} MB`,
+      code: 'MEDIA_TOO_LARGE'
+    };
+  }
+
+  return { ok: true, mediaType };
+}
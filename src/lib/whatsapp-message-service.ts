@@ -0,0 +1,211 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { WhatsAppIncomingMessage, WhatsAppStatusUpdate, toWhatsAppNumber } from '@/lib/whatsapp';
+import { addOptOut, isOptOutMessage } from '@/lib/opt-out-service';
+import { stopEnrollmentsForNumber } from '@/lib/follow-up-service';
+
+export interface RecordedIncomingMessage {
+  id: string;
+  user_id: string;
+  lead_id: string | null;
+  phone_number: string;
+  content: string;
+  created_at: string;
+}
+
+// Statuses a message may move to each status from. Webhooks can arrive out of order,
+// so a late 'delivered' must not overwrite 'read'.
+const PREVIOUS_STATUSES: Record<WhatsAppStatusUpdate['status'], string[]> = {
+  sent: ['pending'],
+  delivered: ['pending', 'sent'],
+  read: ['pending', 'sent', 'delivered'],
+  failed: ['pending', 'sent'],
+};
+
+// Apply delivery status updates from the webhook to our outgoing messages
+export async function applyStatusUpdates(
+  supabase: SupabaseClient,
+  statuses: WhatsAppStatusUpdate[]
+): Promise<number> {
+  let updated = 0;
+
+  for (const update of statuses) {
+    const changes: Record<string, unknown> = { status: update.status };
+
+    if (update.status === 'delivered') {
+      changes.delivered_at = update.timestamp;
+    } else if (update.status === 'read') {
+      changes.read_at = update.timestamp;
+    } else if (update.status === 'failed') {
+      changes.error_message = update.error_message;
+    }
+
+    const { data, error } = await supabase
+      .from('whatsapp_messages')
+      .update(changes)
+      .eq('whatsapp_message_id', update.message_id)
+      .eq('message_type', 'outgoing')
+      .in('status', PREVIOUS_STATUSES[update.status])
+      .select('id');
+
+    if (error) {
+      throw new Error(`Failed to update message status: ${error.message}`);
+    }
+
+    updated += data?.length || 0;
+  }
+
+  return updated;
+}
+
+// Store replies as incoming messages, linked to the user and lead whose message was replied to, or
+// that last messaged the number when the reply quotes nothing of ours. Numbers we have never
+// messaged are matched against contacts instead; unknown numbers are ignored. A reply that is an
+// opt-out keyword adds the number to the suppression list of every user who has messaged it.
+// Any reply ends the follow-up sequences running for the number. Returns the messages recorded.
+export async function recordIncomingMessages(
+  supabase: SupabaseClient,
+  messages: WhatsAppIncomingMessage[]
+): Promise<RecordedIncomingMessage[]> {
+  const recorded: RecordedIncomingMessage[] = [];
+
+  for (const message of messages) {
+    const { data: existing } = await supabase
+      .from('whatsapp_messages')
+      .select('id')
+      .eq('whatsapp_message_id', message.message_id)
+      .maybeSingle();
+
+    if (existing) {
+      // Webhook retry
+      continue;
+    }
+
+    const phoneNumber = toWhatsAppNumber(message.from);
+    const conversation = await findConversationForNumber(supabase, phoneNumber, message.context_message_id);
+
+    if (!conversation) {
+      console.warn(`Ignoring WhatsApp message ${message.message_id} from unknown number`);
+      continue;
+    }
+
+    const { data: recordedMessage, error } = await supabase
+      .from('whatsapp_messages')
+      .insert({
+        user_id: conversation.user_id,
+        lead_id: conversation.lead_id,
+        contact_id: conversation.contact_id,
+        phone_number: phoneNumber,
+        message_type: 'incoming',
+        content: message.content,
+        whatsapp_message_id: message.message_id,
+        status: 'delivered',
+        credits_used: 0,
+        sent_at: message.timestamp,
+      })
+      .select('id, user_id, lead_id, phone_number, content, created_at')
+      .single();
+
+    // 23505: a concurrent retry recorded it first
+    if (error && error.code !== '23505') {
+      throw new Error(`Failed to record incoming message: ${error.message}`);
+    }
+
+    if (error) {
+      continue;
+    }
+
+    recorded.push(recordedMessage);
+
+    if (!isOptOutMessage(message.content)) {
+      await stopEnrollmentsForNumber(supabase, conversation.user_id, phoneNumber, 'replied');
+      continue;
+    }
+
+    // The keyword answers whoever messaged the number, not only the conversation it landed in
+    const senders = await findSendersForNumber(supabase, phoneNumber);
+    senders.add(conversation.user_id);
+
+    for (const userId of senders) {
+      await addOptOut(supabase, {
+        userId,
+        phoneNumber,
+        source: 'keyword',
+        reason: message.content.trim(),
+        messageId: userId === conversation.user_id ? recordedMessage.id : null
+      });
+
+      await stopEnrollmentsForNumber(supabase, userId, phoneNumber, 'opted_out');
+    }
+  }
+
+  return recorded;
+}
+
+async function findConversationForNumber(
+  supabase: SupabaseClient,
+  phoneNumber: string,
+  contextMessageId?: string
+): Promise<{ user_id: string; lead_id: string | null; contact_id: string | null } | null> {
+  // Several users may message the same number; a reply that quotes one of our messages belongs to
+  // that message's sender
+  if (contextMessageId) {
+    const { data: repliedTo } = await supabase
+      .from('whatsapp_messages')
+      .select('user_id, lead_id, contact_id')
+      .eq('whatsapp_message_id', contextMessageId)
+      .eq('phone_number', phoneNumber)
+      .eq('message_type', 'outgoing')
+      .maybeSingle();
+
+    if (repliedTo) {
+      return repliedTo;
+    }
+  }
+
+  const { data: lastOutgoing } = await supabase
+    .from('whatsapp_messages')
+    .select('user_id, lead_id, contact_id')
+    .eq('phone_number', phoneNumber)
+    .eq('message_type', 'outgoing')
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (lastOutgoing) {
+    return lastOutgoing;
+  }
+
+  const { data: contact } = await supabase
+    .from('contacts')
+    .select('id, user_id, leads(id, created_at)')
+    .eq('normalized_phone', phoneNumber)
+    .order('created_at', { ascending: false })
+    .order('created_at', { referencedTable: 'leads', ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (!contact) {
+    return null;
+  }
+
+  return {
+    user_id: contact.user_id,
+    lead_id: contact.leads?.[0]?.id || null,
+    contact_id: contact.id,
+  };
+}
+
+// Every user who has sent a message to the number
+async function findSendersForNumber(supabase: SupabaseClient, phoneNumber: string): Promise<Set<string>> {
+  const { data: sent, error } = await supabase
+    .from('whatsapp_messages')
+    .select('user_id')
+    .eq('phone_number', phoneNumber)
+    .eq('message_type', 'outgoing');
+
+  if (error) {
+    throw new Error(`Failed to fetch senders for number: ${error.message}`);
+  }
+
+  return new Set((sent || []).map(message => message.user_id as string));
+}
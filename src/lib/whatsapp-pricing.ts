@@ -0,0 +1,30 @@
+import { WhatsAppContentType } from '@/lib/whatsapp-media';
+
+// Interaction-credit cost of one outgoing WhatsApp message, by what it carries. Change prices here;
+// the send route, queue runner, campaigns and compose form all read this table.
+
+export interface MessagePricingRule {
+  baseCredits: number;
+  // Attachments up to this size cost only the base; each started megabyte beyond it costs extra
+  includedBytes?: number;
+  creditsPerExtraMb?: number;
+}
+
+const MB = 1024 * 1024;
+
+export const WHATSAPP_MESSAGE_PRICING: Record<WhatsAppContentType, MessagePricingRule> = {
+  text: { baseCredits: 1 },
+  image: { baseCredits: 2, includedBytes: 1 * MB, creditsPerExtraMb: 1 },
+  document: { baseCredits: 2, includedBytes: 2 * MB, creditsPerExtraMb: 1 },
+};
+
+export function getMessageCredits(contentType: WhatsAppContentType, sizeBytes: number = 0): number {
+  const rule = WHATSAPP_MESSAGE_PRICING[contentType];
+  const extraBytes = Math.max(0, sizeBytes - (rule.includedBytes ?? 0));
+
+  if (!rule.creditsPerExtraMb || extraBytes === 0) {
+    return rule.baseCredits;
+  }
+
+  return rule.baseCredits + Math.ceil(extraBytes / MB) * rule.creditsPerExtraMb;
+}
@@ -0,0 +1,195 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { createSupabaseServiceClient } from '@/lib/supabase';
+import { isOptedOut } from '@/lib/opt-out-service';
+import { reserveSendSlot } from '@/lib/send-limit-service';
+import { getWhatsAppMedia, sendWhatsAppMessage } from '@/lib/whatsapp-media-service';
+import { getMessageCredits } from '@/lib/whatsapp-pricing';
+import {
+  holdInteractionCredits,
+  deductInteractionCredits,
+  releaseInteractionCreditHold
+} from '@/lib/interaction-credit-service';
+
+const LOCK_DURATION_MS = 2 * 60 * 1000; // Lease a worker holds on a claimed message before another may reclaim it
+
+export interface QueuedMessageResult {
+  message_id: string;
+  status: 'sent' | 'failed' | 'deferred';
+  scheduled_for?: string;
+  error?: string;
+}
+
+interface ProcessOptions {
+  supabase?: SupabaseClient;
+}
+
+interface QueuedMessage {
+  id: string;
+  user_id: string;
+  phone_number: string;
+  content: string;
+  media_id: string | null;
+  hold_id: string | null;
+}
+
+// Send queued messages whose scheduled time has come, oldest first; used by the queue cron.
+// This covers messages scheduled by the user and sends deferred by a limit alike.
+// Credits are held only now, at send time, at the price of what the message carries then; the
+// price stored on the queued row is not trusted. A message that still hits a send limit is pushed
+// back to the next allowed time rather than failed. A message left claimed by a worker that
+// died mid-send is reclaimed once its lease runs out.
+export async function processQueuedMessages(
+  limit: number = 20,
+  options: ProcessOptions = {}
+): Promise<QueuedMessageResult[]> {
+  const supabase = options.supabase || createSupabaseServiceClient();
+  const now = new Date().toISOString();
+
+  const { data: dueMessages, error } = await supabase
+    .from('whatsapp_messages')
+    .select('id')
+    .or(`and(status.eq.queued,scheduled_for.lte.${now}),and(status.eq.pending,locked_until.lt.${now})`)
+    .order('scheduled_for', { ascending: true })
+    .limit(limit);
+
+  if (error) {
+    throw new Error(`Failed to fetch queued messages: ${error.message}`);
+  }
+
+  const results: QueuedMessageResult[] = [];
+  for (const due of dueMessages || []) {
+    const result = await processQueuedMessage(supabase, due.id);
+    if (result) {
+      results.push(result);
+    }
+  }
+
+  return results;
+}
+
+async function processQueuedMessage(supabase: SupabaseClient, messageId: string): Promise<QueuedMessageResult | null> {
+  // Claim the message with a lease so overlapping runs do not send it twice
+  const now = new Date();
+  const { data: message, error: claimError } = await supabase
+    .from('whatsapp_messages')
+    .update({ status: 'pending', locked_until: new Date(now.getTime() + LOCK_DURATION_MS).toISOString() })
+    .eq('id', messageId)
+    .or(`status.eq.queued,and(status.eq.pending,locked_until.lt.${now.toISOString()})`)
+    .select('id, user_id, phone_number, content, media_id, hold_id')
+    .maybeSingle();
+
+  if (claimError) {
+    throw new Error(`Failed to claim queued message: ${claimError.message}`);
+  }
+
+  if (!message) {
+    return null;
+  }
+
+  // Reclaimed from a worker that died mid-send: return the credits it held before holding again.
+  // Only a hold placed for this message is released, whatever hold_id the row names.
+  if (message.hold_id) {
+    const { data: staleHold } = await supabase
+      .from('credit_holds')
+      .select('id')
+      .eq('id', message.hold_id)
+      .eq('user_id', message.user_id)
+      .eq('reference_id', `whatsapp_${message.id}`)
+      .maybeSingle();
+
+    if (staleHold) {
+      try {
+        await releaseInteractionCreditHold(staleHold.id, 'Queue runner lease expired', supabase);
+      } catch (releaseError) {
+        console.error('Error releasing credit hold of reclaimed message:', releaseError);
+      }
+    }
+  }
+
+  if (await isOptedOut(supabase, message.user_id, message.phone_number)) {
+    return failQueuedMessage(supabase, message, 'Recipient opted out');
+  }
+
+  const media = message.media_id ? await getWhatsAppMedia(supabase, message.user_id, message.media_id) : null;
+  if (message.media_id && !media) {
+    return failQueuedMessage(supabase, message, 'Attachment no longer exists');
+  }
+
+  const sendWindow = await reserveSendSlot(supabase, message.user_id);
+  if (!sendWindow.allowed) {
+    const scheduledFor = sendWindow.retry_at.toISOString();
+
+    await supabase
+      .from('whatsapp_messages')
+      .update({ status: 'queued', scheduled_for: scheduledFor, hold_id: null, locked_until: null })
+      .eq('id', message.id)
+      .eq('user_id', message.user_id);
+
+    return { message_id: message.id, status: 'deferred', scheduled_for: scheduledFor };
+  }
+
+  // Cost depends on what the message carries; see WHATSAPP_MESSAGE_PRICING
+  const contentType = media ? media.media_type : 'text';
+  const credits = getMessageCredits(contentType, media?.size_bytes);
+
+  let holdId: string;
+  try {
+    holdId = await holdInteractionCredits(message.user_id, credits, `whatsapp_${message.id}`, 30, supabase);
+  } catch (holdError) {
+    const errorMessage = holdError instanceof Error ? holdError.message : String(holdError);
+    return failQueuedMessage(supabase, message, errorMessage);
+  }
+
+  await supabase
+    .from('whatsapp_messages')
+    .update({ hold_id: holdId, content_type: contentType, credits_used: credits })
+    .eq('id', message.id)
+    .eq('user_id', message.user_id);
+
+  try {
+    const result = await sendWhatsAppMessage(supabase, message.phone_number, message.content, media);
+
+    await supabase
+      .from('whatsapp_messages')
+      .update({
+        status: 'sent',
+        whatsapp_message_id: result.message_id,
+        sent_at: new Date().toISOString(),
+        locked_until: null,
+      })
+      .eq('id', message.id)
+      .eq('user_id', message.user_id);
+
+    try {
+      await deductInteractionCredits(holdId, `WhatsApp message sent - ${message.id}`, undefined, supabase);
+    } catch (deductError) {
+      console.error('Error deducting interaction credits:', deductError);
+    }
+
+    return { message_id: message.id, status: 'sent' };
+  } catch (sendError) {
+    const errorMessage = sendError instanceof Error ? sendError.message : 'Unknown error';
+
+    try {
+      await releaseInteractionCreditHold(holdId, `WhatsApp API error: ${errorMessage}`, supabase);
+    } catch (releaseError) {
+      console.error('Error releasing credit hold:', releaseError);
+    }
+
+    return failQueuedMessage(supabase, message, errorMessage);
+  }
+}
+
+async function failQueuedMessage(
+  supabase: SupabaseClient,
+  message: QueuedMessage,
+  errorMessage: string
+): Promise<QueuedMessageResult> {
+  await supabase
+    .from('whatsapp_messages')
+    .update({ status: 'failed', error_message: errorMessage, credits_used: 0, locked_until: null })
+    .eq('id', message.id)
+    .eq('user_id', message.user_id);
+
+  return { message_id: message.id, status: 'failed', error: errorMessage };
+}
@@ -0,0 +1,68 @@
+import { WhatsAppOutgoingMedia, WhatsAppProvider, WhatsAppSendResult } from './types';
+import { toWhatsAppNumber } from './phone';
+
+export const DEFAULT_CLOUD_API_BASE_URL = 'https://graph.facebook.com/v21.0';
+
+export interface CloudApiConfig {
+  accessToken: string;
+  phoneNumberId: string;
+  // Overridable so tests can point the provider at a local stub server
+  apiBaseUrl?: string;
+}
+
+// Sends messages through the WhatsApp Business Cloud API
+export function createCloudApiProvider(config: CloudApiConfig): WhatsAppProvider {
+  const baseUrl = (config.apiBaseUrl || DEFAULT_CLOUD_API_BASE_URL).replace(/\/+$/, '');
+
+  const sendMessage = async (to: string, message: Record<string, unknown>): Promise<WhatsAppSendResult> => {
+    const response = await fetch(`${baseUrl}/${config.phoneNumberId}/messages`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${config.accessToken}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        messaging_product: 'whatsapp',
+        recipient_type: 'individual',
+        to: toWhatsAppNumber(to),
+        ...message,
+      }),
+    });
+
+    const data = await response.json().catch(() => null);
+
+    if (!response.ok) {
+      const errorMessage = data?.error?.message || `HTTP ${response.status}`;
+      throw new Error(`WhatsApp API error: ${errorMessage}`);
+    }
+
+    const messageId = data?.messages?.[0]?.id;
+    if (!messageId) {
+      throw new Error('WhatsApp API error: response did not include a message ID');
+    }
+
+    return { message_id: messageId };
+  };
+
+  return {
+    id: 'cloud',
+
+    async sendTextMessage(to: string, body: string): Promise<WhatsAppSendResult> {
+      return sendMessage(to, {
+        type: 'text',
+        text: { preview_url: false, body },
+      });
+    },
+
+    async sendMediaMessage(to: string, media: WhatsAppOutgoingMedia): Promise<WhatsAppSendResult> {
+      return sendMessage(to, {
+        type: media.type,
+        [media.type]: {
+          link: media.link,
+          ...(media.caption ? { caption: media.caption } : {}),
+          ...(media.type === 'document' && media.filename ? { filename: media.filename } : {}),
+        },
+      });
+    }
+  };
+}
@@ -0,0 +1,29 @@
+import { WhatsAppProvider } from './types';
+import { createCloudApiProvider } from './cloud-api-provider';
+import { mockWhatsAppProvider } from './mock-provider';
+
+export * from './types';
+export { toWhatsAppNumber } from './phone';
+export { verifyWebhookSignature, signWebhookBody, parseWebhookPayload } from './webhook';
+
+// The Cloud API. The mock provider accepts every message without sending it, so it is only used
+// when WHATSAPP_PROVIDER=mock is set explicitly; a missing configuration throws, so the caller
+// releases the credits it held instead of charging for a message that was never sent.
+export function getWhatsAppProvider(): WhatsAppProvider {
+  if (process.env.WHATSAPP_PROVIDER === 'mock') {
+    return mockWhatsAppProvider;
+  }
+
+  const accessToken = process.env.WHATSAPP_ACCESS_TOKEN;
+  const phoneNumberId = process.env.WHATSAPP_PHONE_NUMBER_ID;
+
+  if (!accessToken || !phoneNumberId) {
+    throw new Error('WhatsApp is not configured: set WHATSAPP_ACCESS_TOKEN and WHATSAPP_PHONE_NUMBER_ID');
+  }
+
+  return createCloudApiProvider({
+    accessToken,
+    phoneNumberId,
+    apiBaseUrl: process.env.WHATSAPP_API_BASE_URL
+  });
+}
@@ -0,0 +1,18 @@
+import { WhatsAppProvider, WhatsAppSendResult } from './types';
+
+// Accepts every message without sending it; used when no Cloud API credentials are configured
+export const mockWhatsAppProvider: WhatsAppProvider = {
+  id: 'mock',
+
+  async sendTextMessage(): Promise<WhatsAppSendResult> {
+    return {
+      message_id: `wa_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
+    };
+  },
+
+  async sendMediaMessage(): Promise<WhatsAppSendResult> {
+    return {
+      message_id: `wa_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
+    };
+  }
+};
@@ -0,0 +1,5 @@
+// The Cloud API addresses numbers as digits only, without '+' or formatting.
+// Pass a number already normalized with normalizePhoneNumber (or one the API sent us).
+export function toWhatsAppNumber(phone: string): string {
+  return phone.replace(/\D/g, '');
+}
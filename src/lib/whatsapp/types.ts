@@ -0,0 +1,43 @@
+export interface WhatsAppSendResult {
+  // Provider message ID, stored as whatsapp_messages.whatsapp_message_id
+  message_id: string;
+}
+
+// Image or document attachment, fetched by the provider from `link`
+export interface WhatsAppOutgoingMedia {
+  type: 'image' | 'document';
+  link: string;
+  caption?: string;
+  filename?: string; // Shown to the recipient for documents
+}
+
+export interface WhatsAppProvider {
+  id: string;
+  // Send a plain text message. `to` is an international number; formatting is stripped by the provider.
+  sendTextMessage(to: string, body: string): Promise<WhatsAppSendResult>;
+  sendMediaMessage(to: string, media: WhatsAppOutgoingMedia): Promise<WhatsAppSendResult>;
+}
+
+// Delivery status change for a message we sent
+export interface WhatsAppStatusUpdate {
+  message_id: string;
+  status: 'sent' | 'delivered' | 'read' | 'failed';
+  recipient: string;
+  timestamp: string;
+  error_message?: string;
+}
+
+// Message received from a contact
+export interface WhatsAppIncomingMessage {
+  message_id: string;
+  from: string;
+  content: string;
+  timestamp: string;
+  contact_name?: string;
+  context_message_id?: string; // Our message this one replies to, when the sender replied to it
+}
+
+export interface WhatsAppWebhookEvents {
+  statuses: WhatsAppStatusUpdate[];
+  messages: WhatsAppIncomingMessage[];
+}
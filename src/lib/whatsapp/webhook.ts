@@ -0,0 +1,148 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import { WhatsAppIncomingMessage, WhatsAppStatusUpdate, WhatsAppWebhookEvents } from './types';
+
+const STATUS_VALUES: readonly string[] = ['sent', 'delivered', 'read', 'failed'];
+
+// Subset of the Cloud API webhook payload that we read
+interface CloudApiStatus {
+  id: string;
+  status: string;
+  timestamp?: string;
+  recipient_id?: string;
+  errors?: { title?: string; message?: string; error_data?: { details?: string } }[];
+}
+
+interface CloudApiMessage {
+  id: string;
+  from: string;
+  timestamp?: string;
+  type?: string;
+  text?: { body?: string };
+  button?: { text?: string };
+  interactive?: { button_reply?: { title?: string }; list_reply?: { title?: string } };
+  context?: { id?: string };
+}
+
+interface CloudApiWebhookPayload {
+  entry?: {
+    changes?: {
+      field?: string;
+      value?: {
+        contacts?: { wa_id?: string; profile?: { name?: string } }[];
+        messages?: CloudApiMessage[];
+        statuses?: CloudApiStatus[];
+      };
+    }[];
+  }[];
+}
+
+// Check the X-Hub-Signature-256 header Meta sends with every webhook: an HMAC-SHA256
+// of the raw request body keyed with the app secret
+export function verifyWebhookSignature(
+  rawBody: string,
+  signatureHeader: string | null,
+  appSecret: string
+): boolean {
+  if (!signatureHeader || !signatureHeader.startsWith('sha256=')) {
+    return false;
+  }
+
+  const expected = createHmac('sha256', appSecret).update(rawBody, 'utf8').digest('hex');
+  const received = signatureHeader.slice('sha256='.length);
+
+  if (received.length !== expected.length) {
+    return false;
+  }
+
+  return timingSafeEqual(Buffer.from(received, 'utf8'), Buffer.from(expected, 'utf8'));
+}
+
+// Signature header for a body, for use by stub servers and tests
+export function signWebhookBody(rawBody: string, appSecret: string): string {
+  return `sha256=${createHmac('sha256', appSecret).update(rawBody, 'utf8').digest('hex')}`;
+}
+
+// Flatten a Cloud API webhook payload into the status updates and incoming messages it contains
+export function parseWebhookPayload(payload: unknown): WhatsAppWebhookEvents {
+  const events: WhatsAppWebhookEvents = { statuses: [], messages: [] };
+  const entries = (payload as CloudApiWebhookPayload | null)?.entry;
+
+  if (!Array.isArray(entries)) {
+    return events;
+  }
+
+  for (const entry of entries) {
+    for (const { field, value } of entry?.changes || []) {
+      if (field !== 'messages' || !value) continue;
+
+      for (const status of value.statuses || []) {
+        if (!STATUS_VALUES.includes(status.status)) continue;
+
+        const update: WhatsAppStatusUpdate = {
+          message_id: status.id,
+          status: status.status as WhatsAppStatusUpdate['status'],
+          recipient: String(status.recipient_id || ''),
+          timestamp: toIsoTimestamp(status.timestamp)
+        };
+
+        if (status.status === 'failed') {
+          const error = status.errors?.[0];
+          update.error_message = error?.error_data?.details || error?.message || error?.title || 'Delivery failed';
+        }
+
+        events.statuses.push(update);
+      }
+
+      const contactNames = new Map<string, string>();
+      for (const contact of value.contacts || []) {
+        if (contact.wa_id && contact.profile?.name) {
+          contactNames.set(contact.wa_id, contact.profile.name);
+        }
+      }
+
+      for (const message of value.messages || []) {
+        const incoming: WhatsAppIncomingMessage = {
+          message_id: message.id,
+          from: String(message.from),
+          content: getMessageContent(message),
+          timestamp: toIsoTimestamp(message.timestamp)
+        };
+
+        const contactName = contactNames.get(message.from);
+        if (contactName) {
+          incoming.contact_name = contactName;
+        }
+
+        if (message.context?.id) {
+          incoming.context_message_id = message.context.id;
+        }
+
+        events.messages.push(incoming);
+      }
+    }
+  }
+
+  return events;
+}
+
+// Text for the message types we can show; anything else is stored as a placeholder
+function getMessageContent(message: CloudApiMessage): string {
+  switch (message.type) {
+    case 'text':
+      return message.text?.body || '';
+    case 'button':
+      return message.button?.text || '';
+    case 'interactive':
+      return message.interactive?.button_reply?.title || message.interactive?.list_reply?.title || '';
+    default:
+      return `[${message.type || 'unknown'} message]`;
+  }
+}
+
+// Webhook timestamps are Unix seconds as strings
+function toIsoTimestamp(timestamp: unknown): string {
+  const seconds = Number(timestamp);
+  return Number.isFinite(seconds) && seconds > 0
+    ? new Date(seconds * 1000).toISOString()
+    : new Date().toISOString();
+}
@@ -0,0 +1,42 @@
+import {
+  CHAT_MODELS,
+  getChatCredits,
+  getChatHoldCredits,
+  getChatModelOption,
+  MAX_CHAT_REPLY_TOKENS
+} from '@/lib/chat-pricing';
+
+const gpt4o = getChatModelOption('openai/gpt-4o')!;
+const gpt4oMini = getChatModelOption('openai/gpt-4o-mini')!;
+
+describe('getChatModelOption', () => {
+  test('should find offered models by id and reject others', () => {
+    expect(gpt4o.provider).toBe('openai');
+    expect(getChatModelOption('anthropic/claude-3-5-sonnet-latest')?.provider).toBe('anthropic');
+    expect(getChatModelOption('openai/gpt-3.5-turbo')).toBeNull();
+    expect(getChatModelOption(undefined)).toBeNull();
+  });
+
+  test('should use unique ids', () => {
+    expect(new Set(CHAT_MODELS.map(model => model.id)).size).toBe(CHAT_MODELS.length);
+  });
+});
+
+describe('getChatCredits', () => {
+  test('should charge each started block of tokens at the model rate', () => {
+    expect(getChatCredits(gpt4o, 1000)).toBe(1);
+    expect(getChatCredits(gpt4o, 1001)).toBe(2);
+    expect(getChatCredits(gpt4oMini, 9000)).toBe(2);
+  });
+
+  test('should charge at least one credit per reply', () => {
+    expect(getChatCredits(gpt4oMini, 0)).toBe(1);
+  });
+});
+
+describe('getChatHoldCredits', () => {
+  test('should cover the estimated prompt and the longest reply', () => {
+    expect(getChatHoldCredits(gpt4o, '')).toBe(getChatCredits(gpt4o, MAX_CHAT_REPLY_TOKENS));
+    expect(getChatHoldCredits(gpt4o, 'a'.repeat(4000))).toBe(getChatCredits(gpt4o, 1000 + MAX_CHAT_REPLY_TOKENS));
+  });
+});
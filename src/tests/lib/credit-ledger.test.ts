@@ -0,0 +1,148 @@
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+
+// Runs the credit functions against a real database, e.g. a local `supabase start` with the
+// migrations applied. Skipped unless SUPABASE_TEST_URL and SUPABASE_TEST_SERVICE_ROLE_KEY are set.
+const supabaseUrl = process.env.SUPABASE_TEST_URL;
+const serviceRoleKey = process.env.SUPABASE_TEST_SERVICE_ROLE_KEY;
+
+const describeWithDatabase = supabaseUrl && serviceRoleKey ? describe : describe.skip;
+
+const STARTING_CREDITS = 10;
+const PARALLEL_HOLDS = 25;
+
+describeWithDatabase('credit ledger under concurrency', () => {
+  const userId = `test_credit_concurrency_${Date.now()}`;
+  let supabase: SupabaseClient;
+
+  const rpc = async (fn: string, params: Record<string, unknown>) => {
+    const { data, error } = await supabase.rpc(fn, params);
+    if (error) {
+      throw new Error(error.message);
+    }
+    return data;
+  };
+
+  const balances = async () => ({
+    balance: await rpc('get_credit_balance', { p_user_id: userId, p_credit_type: 'interaction' }),
+    available: await rpc('get_available_credit_balance', { p_user_id: userId, p_credit_type: 'interaction' })
+  });
+
+  beforeAll(async () => {
+    supabase = createClient(supabaseUrl!, serviceRoleKey!);
+
+    const { error } = await supabase.from('users').insert({ clerk_id: userId, email: `${userId}@example.com` });
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    await rpc('add_credit_transaction', {
+      p_user_id: userId,
+      p_credit_type: 'interaction',
+      p_amount: STARTING_CREDITS,
+      p_source: 'trial_allocation'
+    });
+  });
+
+  afterAll(async () => {
+    // Holds, ledger rows and the balance row cascade
+    await supabase?.from('users').delete().eq('clerk_id', userId);
+  });
+
+  test('should grant no more parallel holds than the balance covers', async () => {
+    const results = await Promise.allSettled(
+      Array.from({ length: PARALLEL_HOLDS }, (_, i) => rpc('hold_credits', {
+        p_user_id: userId,
+        p_credit_type: 'interaction',
+        p_amount: 1,
+        p_reference_id: `concurrency_${i}`,
+        p_expires_in_minutes: 5
+      }))
+    );
+
+    const granted = results.filter(result => result.status === 'fulfilled');
+    const refused = results.filter((result): result is PromiseRejectedResult => result.status === 'rejected');
+
+    expect(granted).toHaveLength(STARTING_CREDITS);
+    refused.forEach(result => expect(result.reason.message).toContain('Insufficient credits'));
+    expect(await balances()).toEqual({ balance: STARTING_CREDITS, available: 0 });
+  });
+
+  test('should never take the balance below zero when holds are converted in parallel', async () => {
+    const { data: holds } = await supabase
+      .from('credit_holds')
+      .select('id')
+      .eq('user_id', userId)
+      .eq('status', 'active');
+
+    // Each hold converted twice at once: only one conversion may succeed
+    const results = await Promise.allSettled(
+      (holds || []).flatMap(hold => [
+        rpc('convert_hold_to_deduction', { p_hold_id: hold.id }),
+        rpc('convert_hold_to_deduction', { p_hold_id: hold.id })
+      ])
+    );
+
+    expect(results.filter(result => result.status === 'fulfilled')).toHaveLength(STARTING_CREDITS);
+    expect(await balances()).toEqual({ balance: 0, available: 0 });
+
+    const { data: ledger } = await supabase
+      .from('credit_ledger')
+      .select('amount, balance_after')
+      .eq('user_id', userId)
+      .eq('credit_type', 'interaction');
+
+    const balancesAfter = (ledger || []).map(entry => entry.balance_after);
+    expect(Math.min(...balancesAfter)).toBe(0);
+    // Serialized writes give every ledger row its own running balance
+    expect(new Set(balancesAfter).size).toBe(balancesAfter.length);
+    expect((ledger || []).reduce((sum, entry) => sum + entry.amount, 0)).toBe(0);
+  });
+
+  test('should deduct only the amount used and release the rest of the hold', async () => {
+    await rpc('add_credit_transaction', {
+      p_user_id: userId,
+      p_credit_type: 'interaction',
+      p_amount: 5,
+      p_source: 'topup_purchase'
+    });
+
+    const holdId = await rpc('hold_credits', {
+      p_user_id: userId,
+      p_credit_type: 'interaction',
+      p_amount: 5,
+      p_reference_id: 'partial_conversion'
+    });
+
+    await rpc('convert_hold_to_deduction', { p_hold_id: holdId, p_actual_amount: 2 });
+
+    expect(await balances()).toEqual({ balance: 3, available: 3 });
+
+    const { data: entries } = await supabase
+      .from('credit_ledger')
+      .select('amount, source')
+      .eq('hold_id', holdId);
+
+    expect(entries).toEqual([{ amount: -2, source: 'usage' }]);
+  });
+
+  test('should refuse to charge a hold that has expired', async () => {
+    const holdId = await rpc('hold_credits', {
+      p_user_id: userId,
+      p_credit_type: 'interaction',
+      p_amount: 3,
+      p_reference_id: 'expired_hold'
+    });
+
+    // Expired but not yet swept: its credits are already available again
+    await supabase
+      .from('credit_holds')
+      .update({ expires_at: new Date(Date.now() - 60 * 1000).toISOString() })
+      .eq('id', holdId);
+
+    await expect(rpc('convert_hold_to_deduction', { p_hold_id: holdId })).rejects.toThrow('expired');
+    await expect(rpc('settle_credit_hold_share', { p_hold_id: holdId, p_amount: 1, p_used: true }))
+      .rejects.toThrow('expired');
+
+    expect(await balances()).toEqual({ balance: 3, available: 3 });
+  });
+});
@@ -0,0 +1,39 @@
+import { addDays, MAX_SEQUENCE_STEPS, validateSequenceSteps } from '@/lib/follow-up-sequence';
+
+describe('validateSequenceSteps', () => {
+  test('should accept steps and keep only the step fields', () => {
+    const result = validateSequenceSteps([
+      { delay_days: 0, template_id: 'intro', extra: true },
+      { delay_days: 3, template_id: 'follow-up' }
+    ]);
+
+    expect(result).toEqual({
+      ok: true,
+      steps: [
+        { delay_days: 0, template_id: 'intro' },
+        { delay_days: 3, template_id: 'follow-up' }
+      ]
+    });
+  });
+
+  test('should reject an empty or overlong list of steps', () => {
+    expect(validateSequenceSteps([])).toMatchObject({ ok: false, body: { code: 'INVALID_STEPS' } });
+    expect(validateSequenceSteps('intro')).toMatchObject({ ok: false, body: { code: 'INVALID_STEPS' } });
+
+    const tooMany = Array.from({ length: MAX_SEQUENCE_STEPS + 1 }, () => ({ delay_days: 1, template_id: 't' }));
+    expect(validateSequenceSteps(tooMany)).toMatchObject({ ok: false, body: { code: 'INVALID_STEPS' } });
+  });
+
+  test('should reject negative, fractional or missing delays and missing templates', () => {
+    expect(validateSequenceSteps([{ delay_days: -1, template_id: 't' }]).ok).toBe(false);
+    expect(validateSequenceSteps([{ delay_days: 1.5, template_id: 't' }]).ok).toBe(false);
+    expect(validateSequenceSteps([{ template_id: 't' }]).ok).toBe(false);
+    expect(validateSequenceSteps([{ delay_days: 3 }]).ok).toBe(false);
+  });
+});
+
+describe('addDays', () => {
+  test('should move a date forward by whole days', () => {
+    expect(addDays(new Date('2024-05-01T09:00:00Z'), 3).toISOString()).toBe('2024-05-04T09:00:00.000Z');
+  });
+});
@@ -0,0 +1,70 @@
+import { createLeadExportStream, escapeCsvValue, ExportableLead, getLeadExportColumns } from '@/lib/lead-export';
+
+const lead = (overrides: Partial<ExportableLead> = {}): ExportableLead => ({
+  id: 'lead-1',
+  search_id: 'search-1',
+  name: 'Budi Santoso',
+  email: 'budi@example.com',
+  phone: '+6281234567890',
+  company: 'Acme',
+  position: null,
+  linkedin_url: null,
+  source: 'mock',
+  additional_data: null,
+  created_at: '2024-01-01T00:00:00.000Z',
+  ...overrides,
+});
+
+async function* pagesOf(...pages: ExportableLead[][]) {
+  for (const page of pages) {
+    yield page;
+  }
+}
+
+async function readStream(stream: ReadableStream<Uint8Array>): Promise<string> {
+  return await new Response(stream).text();
+}
+
+describe('escapeCsvValue', () => {
+  it('quotes values containing separators or quotes', () => {
+    expect(escapeCsvValue('Acme, Inc.')).toBe('"Acme, Inc."');
+    expect(escapeCsvValue('say "hi"')).toBe('"say ""hi"""');
+    expect(escapeCsvValue('plain')).toBe('plain');
+  });
+
+  it('keeps values that start like a formula from being evaluated', () => {
+    expect(escapeCsvValue('=HYPERLINK("http://evil")')).toBe('"\'=HYPERLINK(""http://evil"")"');
+    expect(escapeCsvValue('+6281234567890')).toBe("'+6281234567890");
+    expect(escapeCsvValue('-1')).toBe("'-1");
+    expect(escapeCsvValue('@SUM(A1)')).toBe("'@SUM(A1)");
+    expect(escapeCsvValue('\tcmd')).toBe("'\tcmd");
+  });
+});
+
+describe('createLeadExportStream', () => {
+  it('writes the header once and then each page as it arrives', async () => {
+    const columns = getLeadExportColumns(['additional_data.city']);
+    const csv = await readStream(createLeadExportStream(
+      pagesOf(
+        [lead({ additional_data: { city: 'Jakarta' } })],
+        [lead({ id: 'lead-2', name: 'Siti', phone: null })]
+      ),
+      'csv',
+      columns
+    ));
+
+    const lines = csv.replace('\uFEFF', '').trim().split('\r\n');
+    expect(lines).toHaveLength(3);
+    expect(lines[0]).toBe(columns.join(','));
+    expect(lines[1]).toContain("'+6281234567890");
+    expect(lines[1]).toMatch(/,Jakarta$/);
+    expect(lines[2]).toMatch(/^Siti,/);
+  });
+
+  it('writes one vCard per lead', async () => {
+    const vcf = await readStream(createLeadExportStream(pagesOf([lead()], [lead({ id: 'lead-2' })]), 'vcf'));
+
+    expect(vcf.match(/BEGIN:VCARD/g)).toHaveLength(2);
+    expect(vcf).toContain('TEL;TYPE=CELL:+6281234567890');
+  });
+});
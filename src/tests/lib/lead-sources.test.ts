@@ -0,0 +1,95 @@
+import {
+  getLeadSourceProvider,
+  registerLeadSourceProvider,
+  DEFAULT_LEAD_SOURCE,
+  LeadSourceProvider
+} from '@/lib/lead-sources';
+import { FIXTURE_LEADS } from '@/lib/lead-sources/fixture-provider';
+import { estimateLeadSearch, MAX_RESULTS_LIMIT } from '@/lib/lead-search-service';
+
+describe('lead source registry', () => {
+  test('should fall back to the default provider when no source is given', () => {
+    const provider = getLeadSourceProvider();
+
+    expect(provider).not.toBeNull();
+    expect(provider?.id).toBe(DEFAULT_LEAD_SOURCE);
+  });
+
+  test('should return null for an unknown source', () => {
+    expect(getLeadSourceProvider('does-not-exist')).toBeNull();
+  });
+
+  test('should resolve a registered provider by id', () => {
+    const customProvider: LeadSourceProvider = {
+      id: 'custom-test',
+      name: 'Custom',
+      creditsPerResult: 3,
+      search: jest.fn().mockResolvedValue([])
+    };
+
+    registerLeadSourceProvider(customProvider);
+
+    expect(getLeadSourceProvider('custom-test')).toBe(customProvider);
+  });
+});
+
+describe('fixture lead source provider', () => {
+  test('should return the same leads on every call', async () => {
+    const provider = getLeadSourceProvider('fixture')!;
+
+    const first = await provider.search({}, 10);
+    const second = await provider.search({}, 10);
+
+    expect(first).toEqual(FIXTURE_LEADS);
+    expect(second).toEqual(first);
+  });
+
+  test('should filter by industry and location', async () => {
+    const provider = getLeadSourceProvider('fixture')!;
+
+    const leads = await provider.search({ industry: 'technology', location: 'jakarta' }, 10);
+
+    expect(leads).toHaveLength(1);
+    expect(leads[0].name).toBe('Budi Santoso');
+  });
+
+  test('should cap results at maxResults', async () => {
+    const provider = getLeadSourceProvider('fixture')!;
+
+    const leads = await provider.search({}, 2);
+
+    expect(leads).toHaveLength(2);
+    expect(leads.length * provider.creditsPerResult).toBe(4);
+  });
+});
+
+describe('lead search estimate', () => {
+  test('should price the expected fixture matches rather than the cap', async () => {
+    const estimated = await estimateLeadSearch({ source: 'fixture', location: 'jakarta' }, 50);
+
+    expect(estimated?.estimate).toEqual({
+      source: 'fixture',
+      credits_per_result: 2,
+      max_results: 50,
+      expected_results: 3,
+      estimated_credits: 6
+    });
+  });
+
+  test('should assume providers without an estimate fill the cap', async () => {
+    const estimated = await estimateLeadSearch({ source: 'mock' }, 20);
+
+    expect(estimated?.estimate.expected_results).toBe(20);
+    expect(estimated?.estimate.estimated_credits).toBe(20);
+  });
+
+  test('should clamp the cap to the per-search limit', async () => {
+    const estimated = await estimateLeadSearch({}, 1000);
+
+    expect(estimated?.estimate.max_results).toBe(MAX_RESULTS_LIMIT);
+  });
+
+  test('should return null for an unknown source', async () => {
+    expect(await estimateLeadSearch({ source: 'does-not-exist' }, 10)).toBeNull();
+  });
+});
@@ -0,0 +1,50 @@
+import {
+  extractTemplateVariables,
+  findUnknownTemplateVariables,
+  hasTemplateVariables,
+  renderMessageTemplate
+} from '@/lib/message-template';
+
+describe('message templates', () => {
+  const lead = {
+    name: 'Budi Santoso',
+    company: 'Maju Jaya',
+    position: '',
+    additional_data: { industry: 'Retail', location: { city: 'Bandung' } }
+  };
+
+  it('extracts placeholders with their fallbacks', () => {
+    expect(extractTemplateVariables('Hi {{ name }}, {{company|your team}} and {{name}}')).toEqual([
+      { path: 'name', fallback: null },
+      { path: 'company', fallback: 'your team' }
+    ]);
+    expect(hasTemplateVariables('No placeholders here')).toBe(false);
+  });
+
+  it('flags placeholders that are not lead fields', () => {
+    expect(findUnknownTemplateVariables('{{name}} {{additional_data.industry}} {{budget}} {{additional_data.}}'))
+      .toEqual(['budget', 'additional_data.']);
+  });
+
+  it('renders lead fields and additional_data paths', () => {
+    const rendered = renderMessageTemplate(
+      'Hi {{name}} from {{company}} ({{additional_data.industry}}, {{additional_data.location.city}})',
+      lead
+    );
+
+    expect(rendered).toEqual({
+      content: 'Hi Budi Santoso from Maju Jaya (Retail, Bandung)',
+      missing_fields: []
+    });
+  });
+
+  it('uses fallbacks and reports required fields the lead is missing', () => {
+    const rendered = renderMessageTemplate(
+      '{{position|Hello}}, {{email}} at {{additional_data.size}}',
+      lead
+    );
+
+    expect(rendered.content).toBe('Hello, {{email}} at {{additional_data.size}}');
+    expect(rendered.missing_fields).toEqual(['email', 'additional_data.size']);
+  });
+});
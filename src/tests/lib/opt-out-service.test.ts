@@ -0,0 +1,16 @@
+import { isOptOutMessage } from '@/lib/opt-out-service';
+
+describe('isOptOutMessage', () => {
+  it('matches opt-out keywords regardless of case and punctuation', () => {
+    expect(isOptOutMessage('STOP')).toBe(true);
+    expect(isOptOutMessage('  stop! ')).toBe(true);
+    expect(isOptOutMessage('Berhenti.')).toBe(true);
+    expect(isOptOutMessage('Jangan   hubungi')).toBe(true);
+  });
+
+  it('ignores replies that only mention a keyword', () => {
+    expect(isOptOutMessage("Please don't stop sending updates")).toBe(false);
+    expect(isOptOutMessage('Stop by our office tomorrow?')).toBe(false);
+    expect(isOptOutMessage('')).toBe(false);
+  });
+});
@@ -0,0 +1,40 @@
+import { buildOutreachPrompt } from '@/lib/outreach-draft';
+
+describe('buildOutreachPrompt', () => {
+  test('should include the goal and the lead details', () => {
+    const prompt = buildOutreachPrompt(
+      {
+        name: 'Budi Santoso',
+        company: 'PT Maju Jaya',
+        position: 'Procurement Manager',
+        additional_data: { industry: 'Manufacturing', employees: 120, website: '' }
+      },
+      '  Offer a demo of our inventory software  '
+    );
+
+    expect(prompt).toContain('Goal of the message: Offer a demo of our inventory software\n');
+    expect(prompt).toContain('Name: Budi Santoso');
+    expect(prompt).toContain('Position: Procurement Manager');
+    expect(prompt).toContain('Company: PT Maju Jaya');
+    expect(prompt).toContain('industry: Manufacturing');
+    expect(prompt).toContain('employees: 120');
+    expect(prompt).not.toContain('website');
+  });
+
+  test('should write nested additional data as JSON', () => {
+    const prompt = buildOutreachPrompt({ name: 'Sari', additional_data: { tags: ['retail', 'jakarta'] } }, 'Say hello');
+
+    expect(prompt).toContain('tags: ["retail","jakarta"]');
+  });
+
+  test('should truncate long additional data', () => {
+    const prompt = buildOutreachPrompt({ additional_data: { description: 'x'.repeat(5000) } }, 'Say hello');
+
+    expect(prompt.length).toBeLessThan(2000);
+    expect(prompt.endsWith('…')).toBe(true);
+  });
+
+  test('should say when no lead details are available', () => {
+    expect(buildOutreachPrompt({}, 'Say hello')).toContain('Lead details:\nNone available');
+  });
+});
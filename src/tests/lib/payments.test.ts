@@ -0,0 +1,171 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import { createFakePaymentNotification } from '@/lib/payments';
+import { createFakePaymentProvider } from '@/lib/payments/fake-provider';
+import {
+  createMidtransProvider,
+  signMidtransNotification,
+  verifyMidtransNotification
+} from '@/lib/payments/midtrans-provider';
+
+const serverKey = 'SB-Mid-server-test';
+
+// Local stand-in for the Snap transactions endpoint
+function startStubServer(
+  handler: (req: IncomingMessage, body: string, res: ServerResponse) => void
+): Promise<{ server: Server; baseUrl: string }> {
+  return new Promise(resolve => {
+    const server = createServer((req, res) => {
+      let body = '';
+      req.on('data', chunk => { body += chunk; });
+      req.on('end', () => handler(req, body, res));
+    });
+
+    server.listen(0, '127.0.0.1', () => {
+      const { port } = server.address() as AddressInfo;
+      resolve({ server, baseUrl: `http://127.0.0.1:${port}/snap/v1` });
+    });
+  });
+}
+
+function midtransNotification(overrides: Record<string, string> = {}) {
+  const notification = {
+    order_id: 'INV-1',
+    status_code: '200',
+    gross_amount: '150000.00',
+    transaction_status: 'settlement',
+    transaction_id: 'txn-1',
+    payment_type: 'bank_transfer',
+    ...overrides
+  };
+
+  return {
+    ...notification,
+    signature_key: signMidtransNotification(
+      notification.order_id,
+      notification.status_code,
+      notification.gross_amount,
+      serverKey
+    )
+  };
+}
+
+describe('Midtrans provider', () => {
+  let server: Server | null = null;
+
+  afterEach(done => {
+    if (server) {
+      server.close(() => done());
+      server = null;
+    } else {
+      done();
+    }
+  });
+
+  test('should create a Snap transaction for the invoice', async () => {
+    const requests: { url?: string; auth?: string; body: Record<string, unknown> }[] = [];
+
+    const stub = await startStubServer((req, body, res) => {
+      requests.push({ url: req.url, auth: req.headers.authorization, body: JSON.parse(body) });
+      res.writeHead(201, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ token: 'snap-token', redirect_url: 'https://app.sandbox.midtrans.com/snap/v4/snap-token' }));
+    });
+    server = stub.server;
+
+    const provider = createMidtransProvider({ serverKey, snapBaseUrl: stub.baseUrl });
+
+    const session = await provider.createPayment({
+      order_id: 'INV-1',
+      amount: 150000,
+      description: 'Starter Pack - 500 scraper credits',
+      customer: { email: 'budi@example.com', name: 'Budi' },
+      finish_url: 'https://app.example.com/billing'
+    });
+
+    expect(session).toEqual({ token: 'snap-token', redirect_url: 'https://app.sandbox.midtrans.com/snap/v4/snap-token' });
+    expect(requests[0].url).toBe('/snap/v1/transactions');
+    expect(requests[0].auth).toBe(`Basic ${Buffer.from(`${serverKey}:`).toString('base64')}`);
+    expect(requests[0].body).toMatchObject({
+      transaction_details: { order_id: 'INV-1', gross_amount: 150000 },
+      customer_details: { email: 'budi@example.com', first_name: 'Budi' },
+      callbacks: { finish: 'https://app.example.com/billing' }
+    });
+  });
+
+  test('should throw the API error messages on failure', async () => {
+    const stub = await startStubServer((req, body, res) => {
+      res.writeHead(400, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ error_messages: ['transaction_details.order_id has already been taken'] }));
+    });
+    server = stub.server;
+
+    const provider = createMidtransProvider({ serverKey, snapBaseUrl: stub.baseUrl });
+
+    await expect(provider.createPayment({
+      order_id: 'INV-1',
+      amount: 150000,
+      description: 'Starter Pack',
+      customer: { email: 'budi@example.com' }
+    })).rejects.toThrow('Midtrans API error: transaction_details.order_id has already been taken');
+  });
+});
+
+describe('Midtrans notifications', () => {
+  test('should accept a correctly signed notification', () => {
+    expect(verifyMidtransNotification(midtransNotification(), serverKey)).toEqual({
+      order_id: 'INV-1',
+      status: 'paid',
+      amount: 150000,
+      transaction_id: 'txn-1',
+      payment_type: 'bank_transfer'
+    });
+  });
+
+  test('should reject tampered or unsigned notifications', () => {
+    const tampered = { ...midtransNotification(), gross_amount: '1.00' };
+
+    expect(verifyMidtransNotification(tampered, serverKey)).toBeNull();
+    expect(verifyMidtransNotification(midtransNotification(), 'other-key')).toBeNull();
+    expect(verifyMidtransNotification({ order_id: 'INV-1' }, serverKey)).toBeNull();
+    expect(verifyMidtransNotification(null, serverKey)).toBeNull();
+  });
+
+  test('should map transaction statuses to invoice statuses', () => {
+    const statusOf = (overrides: Record<string, string>) =>
+      verifyMidtransNotification(midtransNotification(overrides), serverKey)?.status;
+
+    expect(statusOf({ transaction_status: 'capture', fraud_status: 'accept' })).toBe('paid');
+    expect(statusOf({ transaction_status: 'capture', fraud_status: 'challenge' })).toBe('pending');
+    expect(statusOf({ transaction_status: 'pending' })).toBe('pending');
+    expect(statusOf({ transaction_status: 'deny' })).toBe('failed');
+    expect(statusOf({ transaction_status: 'expire' })).toBe('cancelled');
+  });
+});
+
+describe('Fake payment provider', () => {
+  const secret = 'test-secret';
+
+  test('should send the customer straight back to the finish URL', async () => {
+    const provider = createFakePaymentProvider(secret);
+
+    const session = await provider.createPayment({
+      order_id: 'INV-2',
+      amount: 50000,
+      description: 'Top-up',
+      customer: { email: 'budi@example.com' },
+      finish_url: 'https://app.example.com/billing'
+    });
+
+    expect(session.redirect_url).toBe('https://app.example.com/billing?order_id=INV-2&transaction_status=pending');
+  });
+
+  test('should verify notifications signed with its secret only', () => {
+    const provider = createFakePaymentProvider(secret);
+    const notification = createFakePaymentNotification('INV-2', 50000, 'paid', secret);
+
+    expect(provider.verifyNotification(notification)).toMatchObject({ order_id: 'INV-2', status: 'paid', amount: 50000 });
+    expect(provider.verifyNotification(createFakePaymentNotification('INV-2', 50000, 'paid', 'wrong'))).toBeNull();
+    expect(provider.verifyNotification(createFakePaymentNotification('INV-2', 50000, 'cancelled', secret)))
+      .toMatchObject({ status: 'cancelled' });
+  });
+});
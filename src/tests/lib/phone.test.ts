@@ -0,0 +1,27 @@
+import { isValidPhoneNumber, normalizePhoneNumber } from '@/lib/phone';
+
+describe('normalizePhoneNumber', () => {
+  it('reads numbers without a country code as Indonesian', () => {
+    expect(normalizePhoneNumber('0812-3456-7890')).toBe('+6281234567890');
+    expect(normalizePhoneNumber('812 3456 7890')).toBe('+6281234567890');
+    expect(normalizePhoneNumber('(021) 555 1234')).toBe('+62215551234');
+  });
+
+  it('keeps numbers that already have a country code', () => {
+    expect(normalizePhoneNumber('+62 812 3456 7890')).toBe('+6281234567890');
+    expect(normalizePhoneNumber('6281234567890')).toBe('+6281234567890');
+    expect(normalizePhoneNumber('0062 812 3456 7890')).toBe('+6281234567890');
+    expect(normalizePhoneNumber('+1 (415) 555-0100')).toBe('+14155550100');
+  });
+
+  it('rejects numbers that cannot be valid', () => {
+    expect(normalizePhoneNumber('')).toBeNull();
+    expect(normalizePhoneNumber(null)).toBeNull();
+    expect(normalizePhoneNumber('call me')).toBeNull();
+    expect(normalizePhoneNumber('0812')).toBeNull();
+    expect(normalizePhoneNumber('+62 0812 3456 7890')).toBeNull();
+    expect(normalizePhoneNumber('+62 812 3456 7890 1234')).toBeNull();
+    expect(normalizePhoneNumber('+1234567890123456')).toBeNull();
+    expect(isValidPhoneNumber('+62-812-ABC')).toBe(false);
+  });
+});
@@ -0,0 +1,53 @@
+import { fakeReplyClassifier } from '@/lib/reply-classifier';
+import { getStageAfterReply } from '@/lib/lead-pipeline';
+
+describe('fakeReplyClassifier', () => {
+  test.each([
+    ['STOP', 'opt_out'],
+    ['Saya sedang cuti sampai Senin', 'out_of_office'],
+    ['Auto-reply: I am out of the office', 'out_of_office'],
+    ['Maaf, kami tidak tertarik', 'not_interested'],
+    ['No thanks, we already have a supplier', 'not_interested'],
+    ['Ini siapa ya?', 'question'],
+    ['Boleh, kirim brosurnya', 'interested'],
+  ])('should classify "%s" as %s', async (content, category) => {
+    const result = await fakeReplyClassifier.classify(content);
+
+    expect(result.category).toBe(category);
+  });
+
+  test('should return the same result for the same reply', async () => {
+    const first = await fakeReplyClassifier.classify('Harganya berapa?');
+    const second = await fakeReplyClassifier.classify('Harganya berapa?');
+
+    expect(second).toEqual(first);
+  });
+
+  test('should shorten long replies for the summary', async () => {
+    const result = await fakeReplyClassifier.classify('a'.repeat(300));
+
+    expect(result.summary).toHaveLength(100);
+  });
+});
+
+describe('getStageAfterReply', () => {
+  test('should qualify interested leads and lose uninterested ones', () => {
+    expect(getStageAfterReply('interested', 'contacted')).toBe('qualified');
+    expect(getStageAfterReply('not_interested', 'contacted')).toBe('lost');
+    expect(getStageAfterReply('opt_out', 'qualified')).toBe('lost');
+  });
+
+  test('should only advance to replied from new or contacted', () => {
+    expect(getStageAfterReply('question', 'contacted')).toBe('replied');
+    expect(getStageAfterReply('question', 'qualified')).toBeNull();
+  });
+
+  test('should leave won leads and away messages alone', () => {
+    expect(getStageAfterReply('not_interested', 'won')).toBeNull();
+    expect(getStageAfterReply('out_of_office', 'contacted')).toBeNull();
+  });
+
+  test('should return null when the stage would not change', () => {
+    expect(getStageAfterReply('interested', 'qualified')).toBeNull();
+  });
+});
@@ -0,0 +1,56 @@
+import { DEFAULT_SEND_LIMITS, evaluateSendWindow, getQuietHoursEnd, SendLimitSettings } from '@/lib/send-limits';
+
+describe('send limits', () => {
+  const settings: SendLimitSettings = {
+    ...DEFAULT_SEND_LIMITS,
+    messages_per_minute: 2,
+    messages_per_day: 5,
+    timezone: 'Asia/Jakarta', // UTC+7, no DST
+  };
+
+  // 10:00 in Jakarta
+  const now = new Date('2026-03-02T03:00:00.000Z');
+  const secondsAgo = (seconds: number) => new Date(now.getTime() - seconds * 1000);
+
+  it('allows a send under every limit', () => {
+    expect(evaluateSendWindow(settings, [secondsAgo(30)], now)).toEqual({ allowed: true });
+  });
+
+  it('defers to when the oldest send leaves the minute window', () => {
+    const window = evaluateSendWindow(settings, [secondsAgo(50), secondsAgo(10)], now);
+
+    expect(window).toEqual({
+      allowed: false,
+      reason: 'rate_limit_minute',
+      retry_at: new Date(secondsAgo(50).getTime() + 60 * 1000 + 1)
+    });
+  });
+
+  it('defers to when the daily window frees up', () => {
+    const sends = [20, 15, 10, 5, 1].map(hours => secondsAgo(hours * 3600));
+    const window = evaluateSendWindow(settings, sends, now);
+
+    expect(window.allowed).toBe(false);
+    if (!window.allowed) {
+      expect(window.reason).toBe('rate_limit_day');
+      expect(window.retry_at.getTime()).toBe(secondsAgo(20 * 3600).getTime() + 24 * 3600 * 1000 + 1);
+    }
+  });
+
+  it('finds the end of quiet hours that wrap past midnight in the user timezone', () => {
+    const quiet = { ...settings, quiet_hours_start: '21:00', quiet_hours_end: '08:00' };
+
+    // 23:30 in Jakarta
+    expect(getQuietHoursEnd(quiet, new Date('2026-03-02T16:30:00.000Z')))
+      .toEqual(new Date('2026-03-03T01:00:00.000Z'));
+    // 10:00 in Jakarta
+    expect(getQuietHoursEnd(quiet, now)).toBeNull();
+  });
+
+  it('reports quiet hours even when a rate limit also applies', () => {
+    const quiet = { ...settings, quiet_hours_start: '09:00', quiet_hours_end: '10:01' };
+    const window = evaluateSendWindow(quiet, [secondsAgo(5), secondsAgo(1)], now);
+
+    expect(window).toEqual({ allowed: false, reason: 'quiet_hours', retry_at: new Date('2026-03-02T03:01:00.000Z') });
+  });
+});
@@ -0,0 +1,39 @@
+import { getMessageCredits, WHATSAPP_MESSAGE_PRICING } from '@/lib/whatsapp-pricing';
+import { getMediaType, validateMediaFile, WHATSAPP_MEDIA_RULES } from '@/lib/whatsapp-media';
+
+const MB = 1024 * 1024;
+
+describe('getMessageCredits', () => {
+  test('should charge the base price for a text message', () => {
+    expect(getMessageCredits('text')).toBe(WHATSAPP_MESSAGE_PRICING.text.baseCredits);
+  });
+
+  test('should charge only the base price up to the included size', () => {
+    expect(getMessageCredits('document', 2 * MB)).toBe(2);
+  });
+
+  test('should charge for each started megabyte beyond the included size', () => {
+    expect(getMessageCredits('document', 2 * MB + 1)).toBe(3);
+    expect(getMessageCredits('document', 5.5 * MB)).toBe(6);
+    expect(getMessageCredits('image', 3 * MB)).toBe(4);
+  });
+});
+
+describe('validateMediaFile', () => {
+  test('should classify supported MIME types', () => {
+    expect(getMediaType('image/png')).toBe('image');
+    expect(getMediaType('application/pdf')).toBe('document');
+    expect(getMediaType('video/mp4')).toBeNull();
+  });
+
+  test('should accept a file within the limit for its type', () => {
+    expect(validateMediaFile({ type: 'application/pdf', size: 10 * MB })).toEqual({ ok: true, mediaType: 'document' });
+  });
+
+  test('should reject unsupported, empty and oversized files', () => {
+    expect(validateMediaFile({ type: 'image/gif', size: 1000 })).toMatchObject({ ok: false, code: 'UNSUPPORTED_MEDIA_TYPE' });
+    expect(validateMediaFile({ type: 'image/jpeg', size: 0 })).toMatchObject({ ok: false, code: 'EMPTY_MEDIA' });
+    expect(validateMediaFile({ type: 'image/jpeg', size: WHATSAPP_MEDIA_RULES.image.maxBytes + 1 }))
+      .toMatchObject({ ok: false, code: 'MEDIA_TOO_LARGE' });
+  });
+});
@@ -0,0 +1,194 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import { parseWebhookPayload, signWebhookBody, verifyWebhookSignature } from '@/lib/whatsapp';
+import { createCloudApiProvider } from '@/lib/whatsapp/cloud-api-provider';
+
+// Local stand-in for the Graph API messages endpoint
+function startStubServer(
+  handler: (req: IncomingMessage, body: string, res: ServerResponse) => void
+): Promise<{ server: Server; baseUrl: string }> {
+  return new Promise(resolve => {
+    const server = createServer((req, res) => {
+      let body = '';
+      req.on('data', chunk => { body += chunk; });
+      req.on('end', () => handler(req, body, res));
+    });
+
+    server.listen(0, '127.0.0.1', () => {
+      const { port } = server.address() as AddressInfo;
+      resolve({ server, baseUrl: `http://127.0.0.1:${port}/v21.0` });
+    });
+  });
+}
+
+describe('WhatsApp Cloud API provider', () => {
+  let server: Server | null = null;
+
+  afterEach(done => {
+    if (server) {
+      server.close(() => done());
+      server = null;
+    } else {
+      done();
+    }
+  });
+
+  test('should post a text message and return the provider message ID', async () => {
+    const requests: { url?: string; auth?: string; body: Record<string, unknown> }[] = [];
+
+    const stub = await startStubServer((req, body, res) => {
+      requests.push({ url: req.url, auth: req.headers.authorization, body: JSON.parse(body) });
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ messages: [{ id: 'wamid.TEST123' }] }));
+    });
+    server = stub.server;
+
+    const provider = createCloudApiProvider({
+      accessToken: 'test-token',
+      phoneNumberId: '1234567890',
+      apiBaseUrl: stub.baseUrl
+    });
+
+    const result = await provider.sendTextMessage('+62 812-3456-7801', 'Halo!');
+
+    expect(result.message_id).toBe('wamid.TEST123');
+    expect(requests).toHaveLength(1);
+    expect(requests[0].url).toBe('/v21.0/1234567890/messages');
+    expect(requests[0].auth).toBe('Bearer test-token');
+    expect(requests[0].body).toMatchObject({
+      messaging_product: 'whatsapp',
+      to: '6281234567801',
+      type: 'text',
+      text: { body: 'Halo!' }
+    });
+  });
+
+  test('should post a document with its link, caption and file name', async () => {
+    const requests: Record<string, unknown>[] = [];
+
+    const stub = await startStubServer((req, body, res) => {
+      requests.push(JSON.parse(body));
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ messages: [{ id: 'wamid.DOC123' }] }));
+    });
+    server = stub.server;
+
+    const provider = createCloudApiProvider({
+      accessToken: 'test-token',
+      phoneNumberId: '1234567890',
+      apiBaseUrl: stub.baseUrl
+    });
+
+    const result = await provider.sendMediaMessage('6281234567801', {
+      type: 'document',
+      link: 'https://example.com/price-list.pdf',
+      caption: 'Our price list',
+      filename: 'price-list.pdf'
+    });
+
+    expect(result.message_id).toBe('wamid.DOC123');
+    expect(requests[0]).toMatchObject({
+      to: '6281234567801',
+      type: 'document',
+      document: {
+        link: 'https://example.com/price-list.pdf',
+        caption: 'Our price list',
+        filename: 'price-list.pdf'
+      }
+    });
+  });
+
+  test('should throw the API error message on failure', async () => {
+    const stub = await startStubServer((req, body, res) => {
+      res.writeHead(400, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ error: { message: 'Recipient phone number not in allowed list' } }));
+    });
+    server = stub.server;
+
+    const provider = createCloudApiProvider({
+      accessToken: 'test-token',
+      phoneNumberId: '1234567890',
+      apiBaseUrl: stub.baseUrl
+    });
+
+    await expect(provider.sendTextMessage('6281234567801', 'Halo!'))
+      .rejects.toThrow('WhatsApp API error: Recipient phone number not in allowed list');
+  });
+});
+
+describe('WhatsApp webhook', () => {
+  const appSecret = 'test-app-secret';
+
+  test('should accept a correctly signed body and reject tampered ones', () => {
+    const body = JSON.stringify({ entry: [] });
+    const signature = signWebhookBody(body, appSecret);
+
+    expect(verifyWebhookSignature(body, signature, appSecret)).toBe(true);
+    expect(verifyWebhookSignature(body + ' ', signature, appSecret)).toBe(false);
+    expect(verifyWebhookSignature(body, signature, 'other-secret')).toBe(false);
+    expect(verifyWebhookSignature(body, null, appSecret)).toBe(false);
+  });
+
+  test('should extract status updates and incoming messages', () => {
+    const events = parseWebhookPayload({
+      object: 'whatsapp_business_account',
+      entry: [{
+        changes: [{
+          field: 'messages',
+          value: {
+            contacts: [{ wa_id: '6281234567801', profile: { name: 'Budi' } }],
+            messages: [{
+              id: 'wamid.IN1',
+              from: '6281234567801',
+              timestamp: '1700000000',
+              type: 'text',
+              text: { body: 'Tertarik, boleh info lebih lanjut?' }
+            }],
+            statuses: [
+              { id: 'wamid.OUT1', status: 'read', recipient_id: '6281234567801', timestamp: '1700000100' },
+              {
+                id: 'wamid.OUT2',
+                status: 'failed',
+                recipient_id: '6281234567802',
+                timestamp: '1700000200',
+                errors: [{ title: 'Message undeliverable' }]
+              }
+            ]
+          }
+        }]
+      }]
+    });
+
+    expect(events.messages).toEqual([{
+      message_id: 'wamid.IN1',
+      from: '6281234567801',
+      content: 'Tertarik, boleh info lebih lanjut?',
+      timestamp: new Date(1700000000 * 1000).toISOString(),
+      contact_name: 'Budi'
+    }]);
+    expect(events.statuses.map(status => status.status)).toEqual(['read', 'failed']);
+    expect(events.statuses[1].error_message).toBe('Message undeliverable');
+  });
+
+  test('should keep the ID of the message a reply quotes', () => {
+    const events = parseWebhookPayload({
+      entry: [{
+        changes: [{
+          field: 'messages',
+          value: {
+            messages: [{
+              id: 'wamid.IN2',
+              from: '6281234567801',
+              timestamp: '1700000000',
+              type: 'text',
+              text: { body: 'STOP' },
+              context: { from: '15550001111', id: 'wamid.OUT1' }
+            }]
+          }
+        }]
+      }]
+    });
+
+    expect(events.messages[0].context_message_id).toBe('wamid.OUT1');
+  });
+});
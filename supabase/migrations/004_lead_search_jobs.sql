@@ -0,0 +1,22 @@
+-- Asynchronous Lead Search Jobs
+-- Searches are queued as pending lead_searches rows and processed in batches by a worker
+
+-- Track the job's credit hold, target size and worker lease on the search record
+ALTER TABLE public.lead_searches
+  ALTER COLUMN results_count SET DEFAULT 0;
+
+ALTER TABLE public.lead_searches
+ADD COLUMN IF NOT EXISTS hold_id UUID REFERENCES public.credit_holds(id),
+ADD COLUMN IF NOT EXISTS credits_held INTEGER NOT NULL DEFAULT 0, -- Credits reserved when the job was queued
+ADD COLUMN IF NOT EXISTS max_results INTEGER, -- Result cap derived from the held credits
+ADD COLUMN IF NOT EXISTS locked_until TIMESTAMP WITH TIME ZONE, -- Worker lease; NULL when no worker owns the job
+ADD COLUMN IF NOT EXISTS started_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN IF NOT EXISTS completed_at TIMESTAMP WITH TIME ZONE;
+
+-- Create indexes for picking up pending jobs
+CREATE INDEX IF NOT EXISTS idx_lead_searches_status ON public.lead_searches(status);
+CREATE INDEX IF NOT EXISTS idx_lead_searches_hold_id ON public.lead_searches(hold_id);
+
+-- Job rows and their leads are written only by the server and the worker (service role). A user who
+-- could write max_results, credits_held, hold_id or status could get leads their hold does not cover.
+DROP POLICY IF EXISTS "Users can insert own lead searches" ON public.lead_searches;
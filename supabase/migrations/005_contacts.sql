@@ -0,0 +1,219 @@
+-- Unified Contacts
+-- Leads from different searches are merged into one per-user contact by normalized phone, email or LinkedIn URL
+
+-- Normalization helpers shared by the merge function and the backfill below
+CREATE OR REPLACE FUNCTION normalize_email(p_email TEXT)
+RETURNS TEXT AS $$
+BEGIN
+  RETURN NULLIF(LOWER(TRIM(p_email)), '');
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION normalize_phone(p_phone TEXT)
+RETURNS TEXT AS $$
+BEGIN
+  -- Keep digits only so "+62 812-3456" and "628123456" compare equal
+  RETURN NULLIF(REGEXP_REPLACE(COALESCE(p_phone, ''), '[^0-9]', '', 'g'), '');
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION normalize_linkedin_url(p_url TEXT)
+RETURNS TEXT AS $$
+BEGIN
+  -- Strip protocol, www, query string and trailing slash: https://www.linkedin.com/in/Foo/ -> linkedin.com/in/foo
+  RETURN NULLIF(
+    REGEXP_REPLACE(
+      REGEXP_REPLACE(LOWER(TRIM(COALESCE(p_url, ''))), '^(https?://)?(www\.)?', ''),
+      '[?#].*$|/+$', '', 'g'
+    ),
+    ''
+  );
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- Contacts table
+CREATE TABLE IF NOT EXISTS public.contacts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id TEXT NOT NULL REFERENCES public.users(clerk_id) ON DELETE CASCADE,
+  name TEXT,
+  email TEXT,
+  phone TEXT,
+  company TEXT,
+  position TEXT,
+  linkedin_url TEXT,
+  additional_data JSONB DEFAULT '{}'::jsonb,
+  normalized_email TEXT,
+  normalized_phone TEXT,
+  normalized_linkedin_url TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Link leads and messages to their merged contact
+ALTER TABLE public.leads
+ADD COLUMN IF NOT EXISTS contact_id UUID REFERENCES public.contacts(id) ON DELETE SET NULL;
+
+ALTER TABLE public.whatsapp_messages
+ADD COLUMN IF NOT EXISTS contact_id UUID REFERENCES public.contacts(id) ON DELETE SET NULL;
+
+-- Searches can skip (and not charge for) leads the user already owns
+ALTER TABLE public.lead_searches
+ADD COLUMN IF NOT EXISTS skip_existing BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN IF NOT EXISTS source_offset INTEGER NOT NULL DEFAULT 0, -- Raw provider results consumed, including skipped ones
+ADD COLUMN IF NOT EXISTS skipped_count INTEGER NOT NULL DEFAULT 0;
+
+-- Create indexes for contacts table
+CREATE INDEX IF NOT EXISTS idx_contacts_user_id ON public.contacts(user_id);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_contacts_user_email ON public.contacts(user_id, normalized_email) WHERE normalized_email IS NOT NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_contacts_user_phone ON public.contacts(user_id, normalized_phone) WHERE normalized_phone IS NOT NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_contacts_user_linkedin ON public.contacts(user_id, normalized_linkedin_url) WHERE normalized_linkedin_url IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_leads_contact_id ON public.leads(contact_id);
+CREATE INDEX IF NOT EXISTS idx_whatsapp_messages_contact_id ON public.whatsapp_messages(contact_id);
+
+-- Enable RLS on contacts table
+ALTER TABLE public.contacts ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for contacts table
+CREATE POLICY "Users can read own contacts" ON public.contacts
+  FOR SELECT USING (auth.jwt() ->> 'sub' = user_id);
+
+CREATE POLICY "Users can insert own contacts" ON public.contacts
+  FOR INSERT WITH CHECK (auth.jwt() ->> 'sub' = user_id);
+
+CREATE POLICY "Users can update own contacts" ON public.contacts
+  FOR UPDATE USING (auth.jwt() ->> 'sub' = user_id);
+
+-- Create updated_at trigger for contacts
+CREATE TRIGGER update_contacts_updated_at
+  BEFORE UPDATE ON public.contacts
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Function to find or create the contact for a lead, filling in fields the contact is missing.
+-- is_existing is true when the contact was already on file. If a concurrent call creates the
+-- contact between the lookup and the insert, the insert yields and the lookup runs again.
+CREATE OR REPLACE FUNCTION upsert_contact(
+  p_user_id TEXT,
+  p_name TEXT,
+  p_email TEXT,
+  p_phone TEXT,
+  p_company TEXT,
+  p_position TEXT,
+  p_linkedin_url TEXT,
+  p_additional_data JSONB DEFAULT '{}'::jsonb
+)
+RETURNS TABLE(contact_id UUID, is_existing BOOLEAN) AS $$
+DECLARE
+  v_email TEXT := normalize_email(p_email);
+  v_phone TEXT := normalize_phone(p_phone);
+  v_linkedin TEXT := normalize_linkedin_url(p_linkedin_url);
+  v_contact_id UUID;
+BEGIN
+  IF v_email IS NULL AND v_phone IS NULL AND v_linkedin IS NULL THEN
+    RAISE EXCEPTION 'Lead has no phone, email or LinkedIn URL to match on';
+  END IF;
+
+  LOOP
+    SELECT id INTO v_contact_id
+    FROM public.contacts
+    WHERE user_id = p_user_id
+      AND (normalized_phone = v_phone OR normalized_email = v_email OR normalized_linkedin_url = v_linkedin)
+    ORDER BY created_at
+    LIMIT 1
+    FOR UPDATE;
+
+    IF FOUND THEN
+      UPDATE public.contacts
+      SET name = COALESCE(name, p_name),
+          email = COALESCE(email, p_email),
+          phone = COALESCE(phone, p_phone),
+          company = COALESCE(company, p_company),
+          position = COALESCE(position, p_position),
+          linkedin_url = COALESCE(linkedin_url, p_linkedin_url),
+          additional_data = COALESCE(p_additional_data, '{}'::jsonb) || COALESCE(additional_data, '{}'::jsonb),
+          -- Only claim a key another contact of this user does not already hold
+          normalized_email = COALESCE(normalized_email, CASE WHEN NOT EXISTS (
+            SELECT 1 FROM public.contacts c WHERE c.user_id = p_user_id AND c.normalized_email = v_email
+          ) THEN v_email END),
+          normalized_phone = COALESCE(normalized_phone, CASE WHEN NOT EXISTS (
+            SELECT 1 FROM public.contacts c WHERE c.user_id = p_user_id AND c.normalized_phone = v_phone
+          ) THEN v_phone END),
+          normalized_linkedin_url = COALESCE(normalized_linkedin_url, CASE WHEN NOT EXISTS (
+            SELECT 1 FROM public.contacts c WHERE c.user_id = p_user_id AND c.normalized_linkedin_url = v_linkedin
+          ) THEN v_linkedin END),
+          updated_at = NOW()
+      WHERE id = v_contact_id;
+
+      RETURN QUERY SELECT v_contact_id, TRUE;
+      RETURN;
+    END IF;
+
+    INSERT INTO public.contacts (
+      user_id, name, email, phone, company, position, linkedin_url, additional_data,
+      normalized_email, normalized_phone, normalized_linkedin_url
+    ) VALUES (
+      p_user_id, p_name, p_email, p_phone, p_company, p_position, p_linkedin_url, COALESCE(p_additional_data, '{}'::jsonb),
+      v_email, v_phone, v_linkedin
+    )
+    ON CONFLICT DO NOTHING
+    RETURNING id INTO v_contact_id;
+
+    IF v_contact_id IS NOT NULL THEN
+      RETURN QUERY SELECT v_contact_id, FALSE;
+      RETURN;
+    END IF;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Resolve a message's lead to its merged contact on insert
+CREATE OR REPLACE FUNCTION set_whatsapp_message_contact()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.contact_id IS NULL AND NEW.lead_id IS NOT NULL THEN
+    SELECT contact_id INTO NEW.contact_id
+    FROM public.leads
+    WHERE id = NEW.lead_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER set_whatsapp_messages_contact
+  BEFORE INSERT ON public.whatsapp_messages
+  FOR EACH ROW
+  EXECUTE FUNCTION set_whatsapp_message_contact();
+
+-- Backfill contacts for existing leads, oldest first
+DO $$
+DECLARE
+  lead_row RECORD;
+  v_contact_id UUID;
+BEGIN
+  FOR lead_row IN
+    SELECT leads.*, lead_searches.user_id AS owner_id
+    FROM public.leads
+    JOIN public.lead_searches ON lead_searches.id = leads.search_id
+    WHERE leads.contact_id IS NULL
+      AND (normalize_email(leads.email) IS NOT NULL
+        OR normalize_phone(leads.phone) IS NOT NULL
+        OR normalize_linkedin_url(leads.linkedin_url) IS NOT NULL)
+    ORDER BY leads.created_at
+  LOOP
+    SELECT upserted.contact_id INTO v_contact_id
+    FROM upsert_contact(
+      lead_row.owner_id, lead_row.name, lead_row.email, lead_row.phone,
+      lead_row.company, lead_row.position, lead_row.linkedin_url, lead_row.additional_data
+    ) AS upserted;
+
+    UPDATE public.leads SET contact_id = v_contact_id WHERE id = lead_row.id;
+  END LOOP;
+
+  UPDATE public.whatsapp_messages
+  SET contact_id = leads.contact_id
+  FROM public.leads
+  WHERE whatsapp_messages.lead_id = leads.id
+    AND whatsapp_messages.contact_id IS NULL;
+END;
+$$;
@@ -0,0 +1,91 @@
+-- Lead CRM Pipeline
+-- Adds workflow stage, tags, owner assignment and notes to leads
+
+ALTER TABLE public.leads
+ADD COLUMN IF NOT EXISTS stage TEXT NOT NULL DEFAULT 'new'
+  CHECK (stage IN ('new', 'contacted', 'replied', 'qualified', 'won', 'lost')),
+ADD COLUMN IF NOT EXISTS stage_updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+ADD COLUMN IF NOT EXISTS tags TEXT[] NOT NULL DEFAULT '{}',
+ADD COLUMN IF NOT EXISTS owner_id TEXT, -- Clerk ID of the team member working the lead
+ADD COLUMN IF NOT EXISTS updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW();
+
+-- Lead notes
+CREATE TABLE IF NOT EXISTS public.lead_notes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  lead_id UUID NOT NULL REFERENCES public.leads(id) ON DELETE CASCADE,
+  user_id TEXT NOT NULL REFERENCES public.users(clerk_id) ON DELETE CASCADE,
+  content TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Create indexes for pipeline queries
+CREATE INDEX IF NOT EXISTS idx_leads_stage ON public.leads(stage);
+CREATE INDEX IF NOT EXISTS idx_leads_tags ON public.leads USING GIN(tags);
+CREATE INDEX IF NOT EXISTS idx_leads_owner_id ON public.leads(owner_id);
+CREATE INDEX IF NOT EXISTS idx_lead_notes_lead_id ON public.lead_notes(lead_id);
+
+-- Enable RLS on lead_notes table
+ALTER TABLE public.lead_notes ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for leads table
+CREATE POLICY "Users can update own leads" ON public.leads
+  FOR UPDATE USING (
+    EXISTS (
+      SELECT 1 FROM public.lead_searches
+      WHERE lead_searches.id = leads.search_id
+      AND lead_searches.user_id = auth.jwt() ->> 'sub'
+    )
+  );
+
+-- RLS Policies for lead_notes table
+CREATE POLICY "Users can read own lead notes" ON public.lead_notes
+  FOR SELECT USING (auth.jwt() ->> 'sub' = user_id);
+
+CREATE POLICY "Users can insert own lead notes" ON public.lead_notes
+  FOR INSERT WITH CHECK (auth.jwt() ->> 'sub' = user_id);
+
+CREATE POLICY "Users can delete own lead notes" ON public.lead_notes
+  FOR DELETE USING (auth.jwt() ->> 'sub' = user_id);
+
+-- Create updated_at trigger for leads
+CREATE TRIGGER update_leads_updated_at
+  BEFORE UPDATE ON public.leads
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Move a lead forward in the pipeline when messages are exchanged.
+-- Sending moves new -> contacted; a reply moves new/contacted -> replied.
+-- Leads already qualified, won or lost are left alone.
+CREATE OR REPLACE FUNCTION advance_lead_stage_from_message()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.lead_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.message_type = 'incoming' AND TG_OP = 'INSERT' THEN
+    UPDATE public.leads
+    SET stage = 'replied', stage_updated_at = NOW()
+    WHERE id = NEW.lead_id AND stage IN ('new', 'contacted');
+  ELSIF NEW.message_type = 'outgoing'
+    AND NEW.status IN ('sent', 'delivered', 'read')
+    AND (TG_OP = 'INSERT' OR OLD.status NOT IN ('sent', 'delivered', 'read')) THEN
+    UPDATE public.leads
+    SET stage = 'contacted', stage_updated_at = NOW()
+    WHERE id = NEW.lead_id AND stage = 'new';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER advance_lead_stage_on_message
+  AFTER INSERT OR UPDATE OF status ON public.whatsapp_messages
+  FOR EACH ROW
+  EXECUTE FUNCTION advance_lead_stage_from_message();
+
+-- The send path updates its own message rows to 'sent', which is what advances the stage.
+-- Queued messages are left to the server (service role): the queue runner sends them later, so a
+-- user must not be able to change what they carry, or queue a row by updating one.
+CREATE POLICY "Users can update own whatsapp messages" ON public.whatsapp_messages
+  FOR UPDATE USING (auth.jwt() ->> 'sub' = user_id AND status <> 'queued');
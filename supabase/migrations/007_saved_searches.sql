@@ -0,0 +1,56 @@
+-- Saved Searches and Scheduled Lead Searches
+-- Named search templates that can be re-run daily or weekly through the normal search pipeline
+
+CREATE TABLE IF NOT EXISTS public.saved_searches (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id TEXT NOT NULL REFERENCES public.users(clerk_id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  search_criteria JSONB NOT NULL,
+  estimated_credits INTEGER NOT NULL DEFAULT 50, -- Credits held for each scheduled run
+  schedule TEXT NOT NULL DEFAULT 'none' CHECK (schedule IN ('none', 'daily', 'weekly')),
+  is_active BOOLEAN DEFAULT true,
+  next_run_at TIMESTAMP WITH TIME ZONE, -- NULL when not scheduled
+  last_run_at TIMESTAMP WITH TIME ZONE,
+  last_search_id UUID REFERENCES public.lead_searches(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Link runs back to the saved search that produced them
+ALTER TABLE public.lead_searches
+ADD COLUMN IF NOT EXISTS saved_search_id UUID REFERENCES public.saved_searches(id) ON DELETE SET NULL;
+
+-- Allow notifications for scheduled search runs
+ALTER TABLE public.notifications DROP CONSTRAINT IF EXISTS notifications_type_check;
+ALTER TABLE public.notifications ADD CONSTRAINT notifications_type_check
+  CHECK (type IN (
+    'welcome', 'billing_success', 'billing_failed', 'credits_low', 'subscription_cancelled',
+    'scheduled_search_completed', 'scheduled_search_failed'
+  ));
+
+-- Create indexes for saved_searches table
+CREATE INDEX IF NOT EXISTS idx_saved_searches_user_id ON public.saved_searches(user_id);
+CREATE INDEX IF NOT EXISTS idx_saved_searches_next_run_at ON public.saved_searches(next_run_at) WHERE is_active AND schedule <> 'none';
+CREATE INDEX IF NOT EXISTS idx_lead_searches_saved_search_id ON public.lead_searches(saved_search_id);
+
+-- Enable RLS on saved_searches table
+ALTER TABLE public.saved_searches ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for saved_searches table
+CREATE POLICY "Users can read own saved searches" ON public.saved_searches
+  FOR SELECT USING (auth.jwt() ->> 'sub' = user_id);
+
+CREATE POLICY "Users can insert own saved searches" ON public.saved_searches
+  FOR INSERT WITH CHECK (auth.jwt() ->> 'sub' = user_id);
+
+CREATE POLICY "Users can update own saved searches" ON public.saved_searches
+  FOR UPDATE USING (auth.jwt() ->> 'sub' = user_id);
+
+CREATE POLICY "Users can delete own saved searches" ON public.saved_searches
+  FOR DELETE USING (auth.jwt() ->> 'sub' = user_id);
+
+-- Create updated_at trigger for saved_searches
+CREATE TRIGGER update_saved_searches_updated_at
+  BEFORE UPDATE ON public.saved_searches
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,14 @@
+-- Size Scheduled Search Holds From Estimates
+-- Saved searches store a result cap; the credit hold for each run is estimated server-side from it
+
+ALTER TABLE public.saved_searches RENAME COLUMN estimated_credits TO max_results;
+
+-- Existing rows hold credit amounts, which can fall outside the new range; clamp them first
+UPDATE public.saved_searches
+SET max_results = LEAST(GREATEST(max_results, 1), 100)
+WHERE max_results < 1 OR max_results > 100;
+
+ALTER TABLE public.saved_searches
+ADD CONSTRAINT saved_searches_max_results_check CHECK (max_results > 0 AND max_results <= 100);
+
+COMMENT ON COLUMN public.saved_searches.max_results IS 'Maximum leads returned by each scheduled run';
@@ -0,0 +1,21 @@
+-- WhatsApp Cloud API Webhooks
+-- Stores the counterpart number on each message so replies can be matched to a lead,
+-- and tracks delivery and read times reported by the webhook
+
+ALTER TABLE public.whatsapp_messages
+ADD COLUMN IF NOT EXISTS phone_number TEXT, -- Counterpart number, digits only (see normalize_phone)
+ADD COLUMN IF NOT EXISTS hold_id UUID REFERENCES public.credit_holds(id), -- Interaction credit hold placed for an outgoing message
+ADD COLUMN IF NOT EXISTS delivered_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN IF NOT EXISTS read_at TIMESTAMP WITH TIME ZONE;
+
+-- Webhooks are retried, so provider message IDs must only be recorded once
+CREATE UNIQUE INDEX IF NOT EXISTS idx_whatsapp_messages_whatsapp_message_id
+  ON public.whatsapp_messages(whatsapp_message_id) WHERE whatsapp_message_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_whatsapp_messages_phone_number ON public.whatsapp_messages(phone_number);
+
+-- Backfill numbers for messages sent to leads
+UPDATE public.whatsapp_messages
+SET phone_number = normalize_phone(leads.phone)
+FROM public.leads
+WHERE whatsapp_messages.lead_id = leads.id
+  AND whatsapp_messages.phone_number IS NULL;
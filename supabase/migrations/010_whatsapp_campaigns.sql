@@ -0,0 +1,160 @@
+-- Bulk WhatsApp Campaigns
+-- A campaign sends one message to a segment of leads under a single interaction credit hold.
+-- Each recipient's share of the hold is settled as it is sent or fails.
+
+CREATE TABLE IF NOT EXISTS public.whatsapp_campaigns (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id TEXT NOT NULL REFERENCES public.users(clerk_id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  message TEXT NOT NULL,
+  target JSONB NOT NULL DEFAULT '{}', -- Segment filters: search_id, tag, stage
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'running', 'completed', 'cancelled', 'failed')),
+  send_interval_ms INTEGER NOT NULL DEFAULT 1000 CHECK (send_interval_ms >= 0), -- Delay between sends
+  total_recipients INTEGER NOT NULL DEFAULT 0,
+  sent_count INTEGER NOT NULL DEFAULT 0,
+  failed_count INTEGER NOT NULL DEFAULT 0,
+  credits_per_message INTEGER NOT NULL DEFAULT 1 CHECK (credits_per_message > 0),
+  credits_held INTEGER NOT NULL DEFAULT 0,
+  credits_used INTEGER NOT NULL DEFAULT 0,
+  hold_id UUID REFERENCES public.credit_holds(id),
+  error_message TEXT,
+  locked_until TIMESTAMP WITH TIME ZONE, -- Worker lease
+  started_at TIMESTAMP WITH TIME ZONE,
+  completed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS public.whatsapp_campaign_recipients (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  campaign_id UUID NOT NULL REFERENCES public.whatsapp_campaigns(id) ON DELETE CASCADE,
+  lead_id UUID REFERENCES public.leads(id) ON DELETE SET NULL,
+  phone_number TEXT NOT NULL, -- Digits only
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'sent', 'failed', 'cancelled')),
+  message_id UUID REFERENCES public.whatsapp_messages(id) ON DELETE SET NULL,
+  error_message TEXT,
+  sent_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (campaign_id, phone_number)
+);
+
+ALTER TABLE public.whatsapp_messages
+ADD COLUMN IF NOT EXISTS campaign_id UUID REFERENCES public.whatsapp_campaigns(id) ON DELETE SET NULL;
+
+-- Create indexes for campaign tables
+CREATE INDEX IF NOT EXISTS idx_whatsapp_campaigns_user_id ON public.whatsapp_campaigns(user_id);
+CREATE INDEX IF NOT EXISTS idx_whatsapp_campaigns_status ON public.whatsapp_campaigns(status);
+CREATE INDEX IF NOT EXISTS idx_whatsapp_campaign_recipients_campaign_status ON public.whatsapp_campaign_recipients(campaign_id, status);
+CREATE INDEX IF NOT EXISTS idx_whatsapp_messages_campaign_id ON public.whatsapp_messages(campaign_id);
+
+-- Enable RLS on campaign tables
+ALTER TABLE public.whatsapp_campaigns ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.whatsapp_campaign_recipients ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for whatsapp_campaigns table
+CREATE POLICY "Users can read own campaigns" ON public.whatsapp_campaigns
+  FOR SELECT USING (auth.jwt() ->> 'sub' = user_id);
+
+-- RLS Policies for whatsapp_campaign_recipients table
+CREATE POLICY "Users can read own campaign recipients" ON public.whatsapp_campaign_recipients
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.whatsapp_campaigns
+      WHERE whatsapp_campaigns.id = whatsapp_campaign_recipients.campaign_id
+      AND whatsapp_campaigns.user_id = auth.jwt() ->> 'sub'
+    )
+  );
+
+-- Campaigns and their recipients are written only by the server and the worker (service role).
+-- A user who could write credits_per_message, hold_id, status or a recipient's content could send
+-- messages their hold does not pay for.
+
+-- Create updated_at trigger for whatsapp_campaigns
+CREATE TRIGGER update_whatsapp_campaigns_updated_at
+  BEFORE UPDATE ON public.whatsapp_campaigns
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Settle part of an active hold. With p_used the amount is deducted as usage, otherwise it is
+-- returned to the available balance. The hold closes once nothing is left on it.
+CREATE OR REPLACE FUNCTION settle_credit_hold_share(
+  p_hold_id UUID,
+  p_amount INTEGER,
+  p_used BOOLEAN,
+  p_description TEXT DEFAULT NULL
+)
+RETURNS INTEGER AS $$
+DECLARE
+  hold_record RECORD;
+  current_balance INTEGER;
+  remaining INTEGER;
+BEGIN
+  SELECT * INTO hold_record
+  FROM public.credit_holds
+  WHERE id = p_hold_id AND status = 'active' AND expires_at > NOW()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Hold not found, expired or already processed';
+  END IF;
+
+  IF p_amount <= 0 OR p_amount > hold_record.amount THEN
+    RAISE EXCEPTION 'Invalid settlement amount. Held: %, Requested: %', hold_record.amount, p_amount;
+  END IF;
+
+  IF p_used THEN
+    current_balance := get_credit_balance(hold_record.user_id, hold_record.credit_type);
+
+    INSERT INTO public.credit_ledger (
+      user_id, credit_type, amount, balance_after, source, reference_id, description, hold_id
+    ) VALUES (
+      hold_record.user_id,
+      hold_record.credit_type,
+      -p_amount,
+      current_balance - p_amount,
+      'usage',
+      hold_record.reference_id,
+      COALESCE(p_description, 'Usage') || ' - ' || p_amount || ' ' || hold_record.credit_type || ' credits',
+      p_hold_id
+    );
+  END IF;
+
+  remaining := hold_record.amount - p_amount;
+
+  UPDATE public.credit_holds
+  SET amount = remaining,
+      status = CASE
+        WHEN remaining > 0 THEN 'active'
+        WHEN EXISTS (SELECT 1 FROM public.credit_ledger WHERE hold_id = p_hold_id) THEN 'converted'
+        ELSE 'released'
+      END,
+      updated_at = NOW()
+  WHERE id = p_hold_id;
+
+  RETURN remaining;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Push back the expiry of an active hold so a long-running job keeps its credits. Only a hold that
+-- has not expired yet can be extended: once it has, its credits may already be held elsewhere.
+CREATE OR REPLACE FUNCTION extend_credit_hold(
+  p_hold_id UUID,
+  p_expires_in_minutes INTEGER
+)
+RETURNS TIMESTAMP WITH TIME ZONE AS $$
+DECLARE
+  new_expires_at TIMESTAMP WITH TIME ZONE;
+BEGIN
+  UPDATE public.credit_holds
+  SET expires_at = GREATEST(expires_at, NOW() + (p_expires_in_minutes || ' minutes')::INTERVAL),
+      updated_at = NOW()
+  WHERE id = p_hold_id AND status = 'active' AND expires_at > NOW()
+  RETURNING expires_at INTO new_expires_at;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Hold not found, expired or already processed';
+  END IF;
+
+  RETURN new_expires_at;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,47 @@
+-- WhatsApp Message Templates
+-- Reusable message text with {{placeholders}} filled from lead fields when sending
+
+CREATE TABLE IF NOT EXISTS public.message_templates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id TEXT NOT NULL REFERENCES public.users(clerk_id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  content TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Record which template a message or campaign was rendered from
+ALTER TABLE public.whatsapp_messages
+ADD COLUMN IF NOT EXISTS template_id UUID REFERENCES public.message_templates(id) ON DELETE SET NULL;
+
+ALTER TABLE public.whatsapp_campaigns
+ADD COLUMN IF NOT EXISTS template_id UUID REFERENCES public.message_templates(id) ON DELETE SET NULL;
+
+-- Campaign messages are rendered per recipient when the campaign is created
+ALTER TABLE public.whatsapp_campaign_recipients
+ADD COLUMN IF NOT EXISTS content TEXT;
+
+-- Create indexes for message_templates table
+CREATE INDEX IF NOT EXISTS idx_message_templates_user_id ON public.message_templates(user_id);
+
+-- Enable RLS on message_templates table
+ALTER TABLE public.message_templates ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for message_templates table
+CREATE POLICY "Users can read own message templates" ON public.message_templates
+  FOR SELECT USING (auth.jwt() ->> 'sub' = user_id);
+
+CREATE POLICY "Users can insert own message templates" ON public.message_templates
+  FOR INSERT WITH CHECK (auth.jwt() ->> 'sub' = user_id);
+
+CREATE POLICY "Users can update own message templates" ON public.message_templates
+  FOR UPDATE USING (auth.jwt() ->> 'sub' = user_id);
+
+CREATE POLICY "Users can delete own message templates" ON public.message_templates
+  FOR DELETE USING (auth.jwt() ->> 'sub' = user_id);
+
+-- Create updated_at trigger for message_templates
+CREATE TRIGGER update_message_templates_updated_at
+  BEFORE UPDATE ON public.message_templates
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,82 @@
+-- WhatsApp Inbox
+-- Threads messages into one conversation per lead (or per number for messages without a lead),
+-- tracks which replies the user has seen and streams new messages over Supabase realtime
+
+ALTER TABLE public.whatsapp_messages
+ADD COLUMN IF NOT EXISTS seen_at TIMESTAMP WITH TIME ZONE, -- When the user opened an incoming message in the inbox
+ADD COLUMN IF NOT EXISTS conversation_key TEXT GENERATED ALWAYS AS (
+  COALESCE('lead:' || lead_id::TEXT, 'phone:' || phone_number)
+) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_whatsapp_messages_conversation
+  ON public.whatsapp_messages(user_id, conversation_key, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_whatsapp_messages_unseen
+  ON public.whatsapp_messages(user_id, conversation_key)
+  WHERE message_type = 'incoming' AND seen_at IS NULL;
+
+-- Replies received before the inbox existed are treated as seen
+UPDATE public.whatsapp_messages
+SET seen_at = created_at
+WHERE message_type = 'incoming'
+  AND seen_at IS NULL;
+
+-- One row per conversation with its latest message and unread reply count, most recent first
+CREATE OR REPLACE FUNCTION get_whatsapp_conversations(
+  p_user_id TEXT,
+  p_limit INTEGER DEFAULT 50,
+  p_offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+  conversation_key TEXT,
+  lead_id UUID,
+  phone_number TEXT,
+  lead_name TEXT,
+  lead_company TEXT,
+  last_message_id UUID,
+  last_message_type TEXT,
+  last_message_content TEXT,
+  last_message_status TEXT,
+  last_message_at TIMESTAMP WITH TIME ZONE,
+  unread_count INTEGER,
+  message_count INTEGER
+) AS $$
+  WITH latest AS (
+    SELECT DISTINCT ON (m.conversation_key) m.*
+    FROM public.whatsapp_messages m
+    WHERE m.user_id = p_user_id
+      AND m.conversation_key IS NOT NULL
+    ORDER BY m.conversation_key, m.created_at DESC
+  ),
+  counts AS (
+    SELECT
+      m.conversation_key,
+      COUNT(*) FILTER (WHERE m.message_type = 'incoming' AND m.seen_at IS NULL)::INTEGER AS unread_count,
+      COUNT(*)::INTEGER AS message_count
+    FROM public.whatsapp_messages m
+    WHERE m.user_id = p_user_id
+      AND m.conversation_key IS NOT NULL
+    GROUP BY m.conversation_key
+  )
+  SELECT
+    latest.conversation_key,
+    latest.lead_id,
+    latest.phone_number,
+    leads.name,
+    leads.company,
+    latest.id,
+    latest.message_type,
+    latest.content,
+    latest.status,
+    latest.created_at,
+    counts.unread_count,
+    counts.message_count
+  FROM latest
+  JOIN counts ON counts.conversation_key = latest.conversation_key
+  LEFT JOIN public.leads ON leads.id = latest.lead_id
+  ORDER BY latest.created_at DESC
+  LIMIT p_limit
+  OFFSET p_offset;
+$$ LANGUAGE sql STABLE;
+
+-- Stream inserts and status changes to the inbox; RLS limits each subscriber to their own rows
+ALTER PUBLICATION supabase_realtime ADD TABLE public.whatsapp_messages;
@@ -0,0 +1,81 @@
+-- Phone Number Normalization
+-- Stores lead and user phones in E.164 form, reading numbers without a country code as
+-- Indonesian (0812-3456-7890 -> +6281234567890). Mirrors normalizePhoneNumber in src/lib/phone.ts.
+
+CREATE OR REPLACE FUNCTION to_e164_phone(p_phone TEXT, p_default_country_code TEXT DEFAULT '62')
+RETURNS TEXT AS $$
+DECLARE
+  v_compact TEXT := REGEXP_REPLACE(TRIM(COALESCE(p_phone, '')), '[\s().-]', '', 'g');
+  v_digits TEXT;
+BEGIN
+  IF v_compact !~ '^\+?[0-9]+$' THEN
+    RETURN NULL;
+  END IF;
+
+  IF v_compact LIKE '+%' THEN
+    v_digits := SUBSTRING(v_compact FROM 2);
+  ELSIF v_compact LIKE '00%' THEN
+    v_digits := SUBSTRING(v_compact FROM 3);
+  ELSIF v_compact LIKE '0%' THEN
+    v_digits := p_default_country_code || SUBSTRING(v_compact FROM 2);
+  ELSIF v_compact LIKE p_default_country_code || '%' THEN
+    v_digits := v_compact;
+  ELSE
+    v_digits := p_default_country_code || v_compact;
+  END IF;
+
+  IF v_digits LIKE '0%' OR LENGTH(v_digits) < 8 OR LENGTH(v_digits) > 15 THEN
+    RETURN NULL;
+  END IF;
+
+  -- Indonesian national numbers are 8 to 12 digits after +62
+  IF v_digits LIKE '62%' AND (
+    SUBSTRING(v_digits FROM 3) LIKE '0%' OR LENGTH(v_digits) - 2 < 8 OR LENGTH(v_digits) - 2 > 12
+  ) THEN
+    RETURN NULL;
+  END IF;
+
+  RETURN '+' || v_digits;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- Contacts match on the digits of the E.164 form so 0812... and +62812... are the same number.
+-- Values that are not valid numbers keep the previous digits-only behaviour.
+CREATE OR REPLACE FUNCTION normalize_phone(p_phone TEXT)
+RETURNS TEXT AS $$
+BEGIN
+  RETURN COALESCE(
+    SUBSTRING(to_e164_phone(p_phone) FROM 2),
+    NULLIF(REGEXP_REPLACE(COALESCE(p_phone, ''), '[^0-9]', '', 'g'), '')
+  );
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- Backfill stored numbers
+UPDATE public.leads
+SET phone = to_e164_phone(phone)
+WHERE phone IS NOT NULL
+  AND to_e164_phone(phone) IS NOT NULL
+  AND phone <> to_e164_phone(phone);
+
+UPDATE public.users
+SET phone = to_e164_phone(phone)
+WHERE phone IS NOT NULL
+  AND to_e164_phone(phone) IS NOT NULL
+  AND phone <> to_e164_phone(phone);
+
+UPDATE public.whatsapp_messages
+SET phone_number = normalize_phone(phone_number)
+WHERE phone_number IS NOT NULL
+  AND phone_number <> normalize_phone(phone_number);
+
+-- Skip contacts whose new number already belongs to another of the user's contacts
+UPDATE public.contacts
+SET normalized_phone = normalize_phone(normalized_phone)
+WHERE normalized_phone IS NOT NULL
+  AND normalized_phone <> normalize_phone(normalized_phone)
+  AND NOT EXISTS (
+    SELECT 1 FROM public.contacts other
+    WHERE other.user_id = contacts.user_id
+      AND other.normalized_phone = normalize_phone(contacts.normalized_phone)
+  );
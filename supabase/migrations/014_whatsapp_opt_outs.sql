@@ -0,0 +1,30 @@
+-- WhatsApp Opt-Outs
+-- Per-user suppression list of numbers that must not be messaged. Filled from replies that
+-- match an opt-out keyword (e.g. "STOP") and editable by hand.
+
+CREATE TABLE IF NOT EXISTS public.whatsapp_opt_outs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id TEXT NOT NULL REFERENCES public.users(clerk_id) ON DELETE CASCADE,
+  phone_number TEXT NOT NULL, -- Digits only, as stored on whatsapp_messages
+  source TEXT NOT NULL CHECK (source IN ('keyword', 'manual')),
+  reason TEXT,
+  message_id UUID REFERENCES public.whatsapp_messages(id) ON DELETE SET NULL, -- Reply that triggered a keyword opt-out
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (user_id, phone_number)
+);
+
+-- Create indexes for whatsapp_opt_outs table
+CREATE INDEX IF NOT EXISTS idx_whatsapp_opt_outs_user_id ON public.whatsapp_opt_outs(user_id);
+
+-- Enable RLS on whatsapp_opt_outs table
+ALTER TABLE public.whatsapp_opt_outs ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for whatsapp_opt_outs table
+CREATE POLICY "Users can read own opt-outs" ON public.whatsapp_opt_outs
+  FOR SELECT USING (auth.jwt() ->> 'sub' = user_id);
+
+CREATE POLICY "Users can insert own opt-outs" ON public.whatsapp_opt_outs
+  FOR INSERT WITH CHECK (auth.jwt() ->> 'sub' = user_id);
+
+CREATE POLICY "Users can delete own opt-outs" ON public.whatsapp_opt_outs
+  FOR DELETE USING (auth.jwt() ->> 'sub' = user_id);
@@ -0,0 +1,106 @@
+-- WhatsApp Send Limits
+-- Per-user caps on messages per minute and per day, plus quiet hours in the user's timezone.
+-- Sends that hit a limit can be queued and are sent by the queue runner once allowed.
+-- Every send first reserves a slot under a per-user lock, so parallel senders (the send route,
+-- queue runner, campaign and follow-up workers) cannot all pass a limit at once.
+
+CREATE TABLE IF NOT EXISTS public.whatsapp_send_settings (
+  user_id TEXT PRIMARY KEY REFERENCES public.users(clerk_id) ON DELETE CASCADE,
+  messages_per_minute INTEGER NOT NULL DEFAULT 10 CHECK (messages_per_minute > 0),
+  messages_per_day INTEGER NOT NULL DEFAULT 250 CHECK (messages_per_day > 0),
+  quiet_hours_start TEXT CHECK (quiet_hours_start ~ '^([01][0-9]|2[0-3]):[0-5][0-9]$'), -- 'HH:MM' local time
+  quiet_hours_end TEXT CHECK (quiet_hours_end ~ '^([01][0-9]|2[0-3]):[0-5][0-9]$'),
+  timezone TEXT NOT NULL DEFAULT 'Asia/Jakarta',
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS public.whatsapp_send_slots (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id TEXT NOT NULL REFERENCES public.users(clerk_id) ON DELETE CASCADE,
+  reserved_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+-- Queued messages wait for scheduled_for before the runner holds credits and sends them
+ALTER TABLE public.whatsapp_messages DROP CONSTRAINT IF EXISTS whatsapp_messages_status_check;
+ALTER TABLE public.whatsapp_messages ADD CONSTRAINT whatsapp_messages_status_check
+  CHECK (status IN ('queued', 'pending', 'sent', 'delivered', 'read', 'failed'));
+
+ALTER TABLE public.whatsapp_messages
+ADD COLUMN IF NOT EXISTS scheduled_for TIMESTAMP WITH TIME ZONE,
+ADD COLUMN IF NOT EXISTS locked_until TIMESTAMP WITH TIME ZONE; -- Queue runner lease on a claimed message
+
+CREATE INDEX IF NOT EXISTS idx_whatsapp_messages_queued
+  ON public.whatsapp_messages(scheduled_for) WHERE status = 'queued';
+CREATE INDEX IF NOT EXISTS idx_whatsapp_messages_claimed
+  ON public.whatsapp_messages(locked_until) WHERE status = 'pending' AND locked_until IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_whatsapp_messages_user_sent_at
+  ON public.whatsapp_messages(user_id, sent_at) WHERE message_type = 'outgoing';
+CREATE INDEX IF NOT EXISTS idx_whatsapp_send_slots_user_reserved_at
+  ON public.whatsapp_send_slots(user_id, reserved_at);
+
+-- Enable RLS on send limit tables
+ALTER TABLE public.whatsapp_send_settings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.whatsapp_send_slots ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for whatsapp_send_settings table
+CREATE POLICY "Users can read own send settings" ON public.whatsapp_send_settings
+  FOR SELECT USING (auth.jwt() ->> 'sub' = user_id);
+
+CREATE POLICY "Users can insert own send settings" ON public.whatsapp_send_settings
+  FOR INSERT WITH CHECK (auth.jwt() ->> 'sub' = user_id);
+
+CREATE POLICY "Users can update own send settings" ON public.whatsapp_send_settings
+  FOR UPDATE USING (auth.jwt() ->> 'sub' = user_id);
+
+-- RLS Policies for whatsapp_send_slots table
+CREATE POLICY "Users can read own send slots" ON public.whatsapp_send_slots
+  FOR SELECT USING (auth.jwt() ->> 'sub' = user_id);
+
+CREATE POLICY "Users can insert own send slots" ON public.whatsapp_send_slots
+  FOR INSERT WITH CHECK (auth.jwt() ->> 'sub' = user_id);
+
+-- Create updated_at trigger for whatsapp_send_settings
+CREATE TRIGGER update_whatsapp_send_settings_updated_at
+  BEFORE UPDATE ON public.whatsapp_send_settings
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Reserve a slot for one message if the user is under both limits. Calls for the same user run one
+-- after another, so each sees the slots the previous one took. Returns whether a slot was taken and
+-- the reservations of the last day made before this call (at most p_messages_per_day, newest first),
+-- from which the caller works out when to retry.
+CREATE OR REPLACE FUNCTION reserve_send_slot(
+  p_user_id TEXT,
+  p_messages_per_minute INTEGER,
+  p_messages_per_day INTEGER
+)
+RETURNS TABLE(reserved BOOLEAN, recent_sends TIMESTAMP WITH TIME ZONE[]) AS $$
+DECLARE
+  v_recent TIMESTAMP WITH TIME ZONE[];
+  v_reserved BOOLEAN;
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtext('whatsapp_send_slots:' || p_user_id));
+
+  DELETE FROM public.whatsapp_send_slots
+  WHERE user_id = p_user_id AND reserved_at <= NOW() - INTERVAL '1 day';
+
+  SELECT COALESCE(array_agg(recent.reserved_at ORDER BY recent.reserved_at DESC), '{}') INTO v_recent
+  FROM (
+    SELECT s.reserved_at
+    FROM public.whatsapp_send_slots s
+    WHERE s.user_id = p_user_id AND s.reserved_at > NOW() - INTERVAL '1 day'
+    ORDER BY s.reserved_at DESC
+    LIMIT p_messages_per_day
+  ) recent;
+
+  v_reserved := cardinality(v_recent) < p_messages_per_day
+    AND (SELECT COUNT(*) FROM unnest(v_recent) AS sent_at WHERE sent_at > NOW() - INTERVAL '1 minute') < p_messages_per_minute;
+
+  IF v_reserved THEN
+    INSERT INTO public.whatsapp_send_slots (user_id) VALUES (p_user_id);
+  END IF;
+
+  RETURN QUERY SELECT v_reserved, v_recent;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,10 @@
+-- Scheduled WhatsApp Messages
+-- A message composed for later is stored as 'queued' with scheduled_for set; the queue runner
+-- holds credits and sends it when due. Queued messages can be edited or cancelled until then.
+
+ALTER TABLE public.whatsapp_messages DROP CONSTRAINT IF EXISTS whatsapp_messages_status_check;
+ALTER TABLE public.whatsapp_messages ADD CONSTRAINT whatsapp_messages_status_check
+  CHECK (status IN ('queued', 'pending', 'sent', 'delivered', 'read', 'failed', 'cancelled'));
+
+CREATE INDEX IF NOT EXISTS idx_whatsapp_messages_user_queued
+  ON public.whatsapp_messages(user_id, scheduled_for) WHERE status = 'queued';
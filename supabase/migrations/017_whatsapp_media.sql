@@ -0,0 +1,61 @@
+-- WhatsApp Media Attachments
+-- Images and documents uploaded to the private 'whatsapp-media' storage bucket, stored under
+-- <user_id>/<uuid>-<file name>. An outgoing message references at most one attachment, with
+-- its content used as the caption.
+
+CREATE TABLE IF NOT EXISTS public.whatsapp_media (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id TEXT NOT NULL REFERENCES public.users(clerk_id) ON DELETE CASCADE,
+  media_type TEXT NOT NULL CHECK (media_type IN ('image', 'document')),
+  file_name TEXT NOT NULL,
+  mime_type TEXT NOT NULL,
+  size_bytes INTEGER NOT NULL CHECK (size_bytes > 0),
+  storage_path TEXT NOT NULL UNIQUE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+ALTER TABLE public.whatsapp_messages
+  ADD COLUMN IF NOT EXISTS content_type TEXT NOT NULL DEFAULT 'text'
+    CHECK (content_type IN ('text', 'image', 'document')),
+  ADD COLUMN IF NOT EXISTS media_id UUID REFERENCES public.whatsapp_media(id) ON DELETE SET NULL;
+
+-- Create indexes for whatsapp_media table
+CREATE INDEX IF NOT EXISTS idx_whatsapp_media_user_id ON public.whatsapp_media(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_whatsapp_messages_media_id ON public.whatsapp_messages(media_id) WHERE media_id IS NOT NULL;
+
+-- Enable RLS on whatsapp_media table
+ALTER TABLE public.whatsapp_media ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for whatsapp_media table. Files and their rows are written only by the upload route
+-- (service role): messages are priced by size_bytes, so it must be the size of the stored file.
+CREATE POLICY "Users can read own media" ON public.whatsapp_media
+  FOR SELECT USING (auth.jwt() ->> 'sub' = user_id);
+
+CREATE POLICY "Users can delete own media" ON public.whatsapp_media
+  FOR DELETE USING (auth.jwt() ->> 'sub' = user_id);
+
+-- Storage bucket; the size and type limits mirror WHATSAPP_MEDIA_RULES in src/lib/whatsapp-media.ts
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'whatsapp-media',
+  'whatsapp-media',
+  false,
+  16777216,
+  ARRAY[
+    'image/jpeg',
+    'image/png',
+    'application/pdf',
+    'application/msword',
+    'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    'application/vnd.ms-excel',
+    'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+  ]
+)
+ON CONFLICT (id) DO NOTHING;
+
+-- RLS Policies for storage objects: each user reads and deletes inside their own top-level folder
+CREATE POLICY "Users can read own WhatsApp media files" ON storage.objects
+  FOR SELECT USING (bucket_id = 'whatsapp-media' AND (storage.foldername(name))[1] = auth.jwt() ->> 'sub');
+
+CREATE POLICY "Users can delete own WhatsApp media files" ON storage.objects
+  FOR DELETE USING (bucket_id = 'whatsapp-media' AND (storage.foldername(name))[1] = auth.jwt() ->> 'sub');
@@ -0,0 +1,116 @@
+-- Follow-up Sequences
+-- A sequence is an ordered list of steps, each a message template sent a number of days after the
+-- previous step (or after enrollment, for the first). A lead enrolled in a sequence gets the next
+-- step only while it has not replied; a reply or an opt-out stops the enrollment. Each step holds
+-- and settles its own interaction credits when it is sent.
+
+CREATE TABLE IF NOT EXISTS public.follow_up_sequences (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id TEXT NOT NULL REFERENCES public.users(clerk_id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS public.follow_up_sequence_steps (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  sequence_id UUID NOT NULL REFERENCES public.follow_up_sequences(id) ON DELETE CASCADE,
+  position INTEGER NOT NULL CHECK (position >= 1),
+  delay_days INTEGER NOT NULL CHECK (delay_days >= 0 AND delay_days <= 90),
+  template_id UUID NOT NULL REFERENCES public.message_templates(id) ON DELETE RESTRICT, -- A template in use cannot be deleted
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (sequence_id, position)
+);
+
+CREATE TABLE IF NOT EXISTS public.follow_up_enrollments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id TEXT NOT NULL REFERENCES public.users(clerk_id) ON DELETE CASCADE,
+  sequence_id UUID NOT NULL REFERENCES public.follow_up_sequences(id) ON DELETE CASCADE,
+  lead_id UUID NOT NULL REFERENCES public.leads(id) ON DELETE CASCADE,
+  phone_number TEXT NOT NULL, -- Digits only, as stored on whatsapp_messages
+  status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'completed', 'stopped')),
+  next_step INTEGER NOT NULL DEFAULT 1, -- Position of the step to send next
+  next_step_at TIMESTAMP WITH TIME ZONE,
+  steps_sent INTEGER NOT NULL DEFAULT 0,
+  credits_used INTEGER NOT NULL DEFAULT 0,
+  last_message_id UUID REFERENCES public.whatsapp_messages(id) ON DELETE SET NULL,
+  stop_reason TEXT CHECK (stop_reason IN ('replied', 'opted_out', 'manual', 'failed')),
+  error_message TEXT,
+  locked_until TIMESTAMP WITH TIME ZONE, -- Worker lease
+  started_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  completed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+ALTER TABLE public.whatsapp_messages
+ADD COLUMN IF NOT EXISTS enrollment_id UUID REFERENCES public.follow_up_enrollments(id) ON DELETE SET NULL;
+
+-- Create indexes for follow-up tables
+CREATE INDEX IF NOT EXISTS idx_follow_up_sequences_user_id ON public.follow_up_sequences(user_id);
+CREATE INDEX IF NOT EXISTS idx_follow_up_enrollments_due ON public.follow_up_enrollments(next_step_at) WHERE status = 'active';
+CREATE INDEX IF NOT EXISTS idx_follow_up_enrollments_user_phone ON public.follow_up_enrollments(user_id, phone_number) WHERE status = 'active';
+CREATE INDEX IF NOT EXISTS idx_follow_up_enrollments_sequence_id ON public.follow_up_enrollments(sequence_id);
+CREATE INDEX IF NOT EXISTS idx_whatsapp_messages_enrollment_id ON public.whatsapp_messages(enrollment_id) WHERE enrollment_id IS NOT NULL;
+
+-- A lead runs through a sequence at most once at a time
+CREATE UNIQUE INDEX IF NOT EXISTS idx_follow_up_enrollments_active_lead
+  ON public.follow_up_enrollments(sequence_id, lead_id) WHERE status = 'active';
+
+-- Enable RLS on follow-up tables
+ALTER TABLE public.follow_up_sequences ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.follow_up_sequence_steps ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.follow_up_enrollments ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for follow_up_sequences table
+CREATE POLICY "Users can read own sequences" ON public.follow_up_sequences
+  FOR SELECT USING (auth.jwt() ->> 'sub' = user_id);
+
+CREATE POLICY "Users can insert own sequences" ON public.follow_up_sequences
+  FOR INSERT WITH CHECK (auth.jwt() ->> 'sub' = user_id);
+
+CREATE POLICY "Users can update own sequences" ON public.follow_up_sequences
+  FOR UPDATE USING (auth.jwt() ->> 'sub' = user_id);
+
+CREATE POLICY "Users can delete own sequences" ON public.follow_up_sequences
+  FOR DELETE USING (auth.jwt() ->> 'sub' = user_id);
+
+-- RLS Policies for follow_up_sequence_steps table
+CREATE POLICY "Users can read own sequence steps" ON public.follow_up_sequence_steps
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.follow_up_sequences
+      WHERE follow_up_sequences.id = follow_up_sequence_steps.sequence_id
+      AND follow_up_sequences.user_id = auth.jwt() ->> 'sub'
+    )
+  );
+
+CREATE POLICY "Users can insert own sequence steps" ON public.follow_up_sequence_steps
+  FOR INSERT WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.follow_up_sequences
+      WHERE follow_up_sequences.id = follow_up_sequence_steps.sequence_id
+      AND follow_up_sequences.user_id = auth.jwt() ->> 'sub'
+    )
+  );
+
+-- RLS Policies for follow_up_enrollments table
+CREATE POLICY "Users can read own enrollments" ON public.follow_up_enrollments
+  FOR SELECT USING (auth.jwt() ->> 'sub' = user_id);
+
+CREATE POLICY "Users can insert own enrollments" ON public.follow_up_enrollments
+  FOR INSERT WITH CHECK (auth.jwt() ->> 'sub' = user_id);
+
+CREATE POLICY "Users can update own enrollments" ON public.follow_up_enrollments
+  FOR UPDATE USING (auth.jwt() ->> 'sub' = user_id);
+
+-- Create updated_at triggers for follow-up tables
+CREATE TRIGGER update_follow_up_sequences_updated_at
+  BEFORE UPDATE ON public.follow_up_sequences
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_follow_up_enrollments_updated_at
+  BEFORE UPDATE ON public.follow_up_enrollments
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,20 @@
+-- Reply Classification
+-- Incoming WhatsApp messages are classified after they are recorded. The category moves the
+-- lead through the pipeline; the summary is shown in the inbox. A reply classified as an opt-out
+-- adds the number to the user's suppression list, like an opt-out keyword does.
+
+ALTER TABLE public.whatsapp_messages
+ADD COLUMN IF NOT EXISTS reply_category TEXT
+  CHECK (reply_category IN ('interested', 'not_interested', 'question', 'opt_out', 'out_of_office')),
+ADD COLUMN IF NOT EXISTS reply_summary TEXT,
+ADD COLUMN IF NOT EXISTS classified_by TEXT, -- Classifier that produced the result, e.g. 'openai/gpt-4o'
+ADD COLUMN IF NOT EXISTS classified_at TIMESTAMP WITH TIME ZONE;
+
+-- Create indexes for reply classification
+CREATE INDEX IF NOT EXISTS idx_whatsapp_messages_reply_category
+  ON public.whatsapp_messages(user_id, reply_category) WHERE reply_category IS NOT NULL;
+
+-- Opt-outs recognised by the classifier in free text
+ALTER TABLE public.whatsapp_opt_outs DROP CONSTRAINT IF EXISTS whatsapp_opt_outs_source_check;
+ALTER TABLE public.whatsapp_opt_outs ADD CONSTRAINT whatsapp_opt_outs_source_check
+  CHECK (source IN ('keyword', 'manual', 'classifier'));
@@ -0,0 +1,61 @@
+-- AI Chat Sessions
+-- Conversations with the AI assistant are stored per user. Each assistant reply records the model
+-- that wrote it, the tokens it used and the interaction credits deducted for it; replies whose
+-- deduction failed are kept with billed = false so they can be reconciled.
+
+CREATE TABLE IF NOT EXISTS public.chat_sessions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id TEXT NOT NULL REFERENCES public.users(clerk_id) ON DELETE CASCADE,
+  title TEXT NOT NULL,
+  model TEXT NOT NULL, -- Last model used, as 'provider/model'
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS public.chat_messages (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  session_id UUID NOT NULL REFERENCES public.chat_sessions(id) ON DELETE CASCADE,
+  user_id TEXT NOT NULL REFERENCES public.users(clerk_id) ON DELETE CASCADE,
+  role TEXT NOT NULL CHECK (role IN ('user', 'assistant')),
+  content TEXT NOT NULL,
+  model TEXT, -- Set on assistant messages
+  prompt_tokens INTEGER,
+  completion_tokens INTEGER,
+  credits_used INTEGER NOT NULL DEFAULT 0,
+  billed BOOLEAN NOT NULL DEFAULT TRUE, -- False when the credits for a reply could not be deducted
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Create indexes for chat tables
+CREATE INDEX IF NOT EXISTS idx_chat_sessions_user_updated ON public.chat_sessions(user_id, updated_at DESC);
+CREATE INDEX IF NOT EXISTS idx_chat_messages_session_created ON public.chat_messages(session_id, created_at);
+
+-- Enable RLS on chat tables
+ALTER TABLE public.chat_sessions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.chat_messages ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for chat_sessions table
+CREATE POLICY "Users can read own chat sessions" ON public.chat_sessions
+  FOR SELECT USING (auth.jwt() ->> 'sub' = user_id);
+
+CREATE POLICY "Users can insert own chat sessions" ON public.chat_sessions
+  FOR INSERT WITH CHECK (auth.jwt() ->> 'sub' = user_id);
+
+CREATE POLICY "Users can update own chat sessions" ON public.chat_sessions
+  FOR UPDATE USING (auth.jwt() ->> 'sub' = user_id);
+
+CREATE POLICY "Users can delete own chat sessions" ON public.chat_sessions
+  FOR DELETE USING (auth.jwt() ->> 'sub' = user_id);
+
+-- RLS Policies for chat_messages table
+CREATE POLICY "Users can read own chat messages" ON public.chat_messages
+  FOR SELECT USING (auth.jwt() ->> 'sub' = user_id);
+
+CREATE POLICY "Users can insert own chat messages" ON public.chat_messages
+  FOR INSERT WITH CHECK (auth.jwt() ->> 'sub' = user_id);
+
+-- Create updated_at trigger for chat_sessions
+CREATE TRIGGER update_chat_sessions_updated_at
+  BEFORE UPDATE ON public.chat_sessions
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
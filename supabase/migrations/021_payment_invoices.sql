@@ -0,0 +1,143 @@
+-- Payment Gateway Invoices
+-- Top-ups and plan upgrades create a 'pending' invoice and a hosted payment with the provider.
+-- Credits are granted only when the provider's verified notification marks the invoice paid.
+
+ALTER TABLE public.invoices
+ADD COLUMN IF NOT EXISTS payment_provider TEXT, -- 'midtrans' or 'fake'
+ADD COLUMN IF NOT EXISTS payment_token TEXT,
+ADD COLUMN IF NOT EXISTS payment_url TEXT,
+ADD COLUMN IF NOT EXISTS provider_transaction_id TEXT,
+ADD COLUMN IF NOT EXISTS payment_type TEXT; -- e.g. 'bank_transfer', 'gopay', as reported by the provider
+
+-- Invoices are written only by the server (service role): a user who could insert one could set
+-- its amount and line_items. Users keep read access through "Users can read own invoices".
+
+-- Mark a pending invoice paid and grant what it bought, in one transaction. Returns the invoice ID,
+-- or NULL when the invoice was already settled (providers resend notifications). The credits and
+-- price are read from the package or plan the invoice names, not from its line_items.
+CREATE OR REPLACE FUNCTION complete_invoice_payment(
+  p_invoice_number TEXT,
+  p_amount DECIMAL,
+  p_transaction_id TEXT DEFAULT NULL,
+  p_payment_type TEXT DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+  invoice_record RECORD;
+  package_record RECORD;
+  plan_record RECORD;
+  v_subscription_id UUID;
+  now_ts TIMESTAMP WITH TIME ZONE := NOW();
+BEGIN
+  SELECT * INTO invoice_record
+  FROM public.invoices
+  WHERE invoice_number = p_invoice_number
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invoice not found: %', p_invoice_number;
+  END IF;
+
+  IF invoice_record.status <> 'pending' THEN
+    RETURN NULL;
+  END IF;
+
+  IF p_amount <> invoice_record.amount THEN
+    RAISE EXCEPTION 'Payment amount does not match invoice. Invoice: %, Paid: %', invoice_record.amount, p_amount;
+  END IF;
+
+  IF invoice_record.line_items ->> 'type' = 'credit_topup' THEN
+    SELECT * INTO package_record
+    FROM public.credit_packages
+    WHERE id = (invoice_record.line_items ->> 'package_id')::UUID;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Credit package not found for invoice %', p_invoice_number;
+    END IF;
+
+    IF p_amount <> package_record.price THEN
+      RAISE EXCEPTION 'Payment amount does not match package price. Price: %, Paid: %', package_record.price, p_amount;
+    END IF;
+
+    PERFORM add_credit_transaction(
+      invoice_record.user_id,
+      'scraper',
+      package_record.scraper_credits,
+      'topup_purchase',
+      invoice_record.id::TEXT,
+      'Top-up purchase - ' || package_record.scraper_credits || ' scraper credits'
+    );
+  ELSIF invoice_record.line_items ->> 'type' = 'subscription_upgrade' THEN
+    SELECT * INTO plan_record
+    FROM public.subscription_plans
+    WHERE id = (invoice_record.line_items ->> 'plan_id')::UUID;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Plan not found for invoice %', p_invoice_number;
+    END IF;
+
+    IF p_amount <> plan_record.price THEN
+      RAISE EXCEPTION 'Payment amount does not match plan price. Price: %, Paid: %', plan_record.price, p_amount;
+    END IF;
+
+    SELECT id INTO v_subscription_id
+    FROM public.subscriptions
+    WHERE user_id = invoice_record.user_id
+    ORDER BY created_at DESC
+    LIMIT 1
+    FOR UPDATE;
+
+    IF v_subscription_id IS NOT NULL THEN
+      UPDATE public.subscriptions
+      SET plan_id = plan_record.id,
+          status = 'active',
+          current_period_start = now_ts,
+          current_period_end = now_ts + INTERVAL '30 days',
+          updated_at = now_ts
+      WHERE id = v_subscription_id;
+    ELSE
+      INSERT INTO public.subscriptions (
+        user_id, plan_id, status, current_period_start, current_period_end
+      ) VALUES (
+        invoice_record.user_id, plan_record.id, 'active', now_ts, now_ts + INTERVAL '30 days'
+      ) RETURNING id INTO v_subscription_id;
+    END IF;
+
+    PERFORM add_credit_transaction(
+      invoice_record.user_id,
+      'interaction',
+      plan_record.interaction_credits,
+      'monthly_allocation',
+      invoice_record.id::TEXT,
+      'Monthly allocation - ' || plan_record.interaction_credits || ' interaction credits'
+    );
+
+    PERFORM add_credit_transaction(
+      invoice_record.user_id,
+      'scraper',
+      plan_record.scraper_credits,
+      'monthly_allocation',
+      invoice_record.id::TEXT,
+      'Monthly allocation - ' || plan_record.scraper_credits || ' scraper credits'
+    );
+  ELSE
+    RAISE EXCEPTION 'Unknown invoice type: %', invoice_record.line_items ->> 'type';
+  END IF;
+
+  UPDATE public.invoices
+  SET status = 'paid',
+      paid_at = now_ts,
+      subscription_id = COALESCE(v_subscription_id, invoice_record.subscription_id),
+      provider_transaction_id = p_transaction_id,
+      payment_type = p_payment_type
+  WHERE id = invoice_record.id;
+
+  RETURN invoice_record.id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Only the payment-notification webhook (service role) may complete an invoice
+REVOKE EXECUTE ON FUNCTION complete_invoice_payment(TEXT, DECIMAL, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- Create index for listing open invoices
+CREATE INDEX IF NOT EXISTS idx_invoices_pending ON public.invoices(user_id, created_at DESC) WHERE status = 'pending';
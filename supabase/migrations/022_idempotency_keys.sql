@@ -0,0 +1,40 @@
+-- Idempotency Keys
+-- A credit-mutating request sent with an Idempotency-Key header is recorded with a fingerprint of
+-- its body. A retry with the same key and body gets the stored response instead of running again;
+-- the same key with a different body is rejected. Keys are scoped to the user and route. Server
+-- errors, 402 and 429 responses are not stored: they depend on the moment, so a retry runs again.
+
+CREATE TABLE IF NOT EXISTS public.idempotency_keys (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id TEXT NOT NULL REFERENCES public.users(clerk_id) ON DELETE CASCADE,
+  idempotency_key TEXT NOT NULL,
+  route TEXT NOT NULL, -- Request path, e.g. '/api/billing/topup'
+  request_fingerprint TEXT NOT NULL, -- SHA-256 of method, path and body
+  status TEXT NOT NULL DEFAULT 'in_progress' CHECK (status IN ('in_progress', 'completed')),
+  response_status INTEGER,
+  response_body TEXT,
+  response_headers JSONB, -- Replayed with the body, e.g. Content-Type and Retry-After
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  completed_at TIMESTAMP WITH TIME ZONE,
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW() + INTERVAL '24 hours',
+  UNIQUE (user_id, route, idempotency_key)
+);
+
+-- Create indexes for idempotency_keys table
+CREATE INDEX IF NOT EXISTS idx_idempotency_keys_expires_at ON public.idempotency_keys(expires_at);
+
+-- Enable RLS on idempotency_keys table
+ALTER TABLE public.idempotency_keys ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for idempotency_keys table
+CREATE POLICY "Users can read own idempotency keys" ON public.idempotency_keys
+  FOR SELECT USING (auth.jwt() ->> 'sub' = user_id);
+
+CREATE POLICY "Users can insert own idempotency keys" ON public.idempotency_keys
+  FOR INSERT WITH CHECK (auth.jwt() ->> 'sub' = user_id);
+
+CREATE POLICY "Users can update own idempotency keys" ON public.idempotency_keys
+  FOR UPDATE USING (auth.jwt() ->> 'sub' = user_id);
+
+CREATE POLICY "Users can delete own idempotency keys" ON public.idempotency_keys
+  FOR DELETE USING (auth.jwt() ->> 'sub' = user_id);
@@ -0,0 +1,268 @@
+-- Concurrency-safe Credit Ledger
+-- Each user has one balance row per credit type. Every function that adds to, holds or deducts
+-- credits locks that row (SELECT ... FOR UPDATE) before reading the balance, so concurrent calls
+-- for the same user and credit type run one after another and cannot overdraw the account.
+-- Functions that work on a hold lock the hold first and the balance row second. An expired hold no
+-- longer counts against the available balance, so it can no longer be charged either.
+
+CREATE TABLE IF NOT EXISTS public.credit_balances (
+  user_id TEXT NOT NULL REFERENCES public.users(clerk_id) ON DELETE CASCADE,
+  credit_type TEXT NOT NULL CHECK (credit_type IN ('scraper', 'interaction')),
+  balance INTEGER NOT NULL DEFAULT 0, -- Equal to SUM(credit_ledger.amount)
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (user_id, credit_type)
+);
+
+-- Backfill from the ledger
+INSERT INTO public.credit_balances (user_id, credit_type, balance)
+SELECT user_id, credit_type, COALESCE(SUM(amount), 0)
+FROM public.credit_ledger
+GROUP BY user_id, credit_type
+ON CONFLICT (user_id, credit_type) DO UPDATE SET balance = EXCLUDED.balance;
+
+-- Enable RLS on credit_balances table
+ALTER TABLE public.credit_balances ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for credit_balances table
+CREATE POLICY "Users can read own credit balances" ON public.credit_balances
+  FOR SELECT USING (auth.jwt() ->> 'sub' = user_id);
+
+-- Lock the user's balance row for the rest of the transaction, creating it if needed, and return
+-- the balance
+CREATE OR REPLACE FUNCTION lock_credit_balance(p_user_id TEXT, p_credit_type TEXT)
+RETURNS INTEGER AS $$
+DECLARE
+  locked_balance INTEGER;
+BEGIN
+  INSERT INTO public.credit_balances (user_id, credit_type)
+  VALUES (p_user_id, p_credit_type)
+  ON CONFLICT (user_id, credit_type) DO NOTHING;
+
+  SELECT balance INTO locked_balance
+  FROM public.credit_balances
+  WHERE user_id = p_user_id AND credit_type = p_credit_type
+  FOR UPDATE;
+
+  RETURN locked_balance;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Append a ledger row and move the balance by its amount. The caller must hold the balance lock.
+CREATE OR REPLACE FUNCTION record_credit_ledger_entry(
+  p_user_id TEXT,
+  p_credit_type TEXT,
+  p_amount INTEGER,
+  p_balance_before INTEGER,
+  p_source TEXT,
+  p_reference_id TEXT,
+  p_description TEXT,
+  p_hold_id UUID DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+  transaction_id UUID;
+BEGIN
+  INSERT INTO public.credit_ledger (
+    user_id, credit_type, amount, balance_after, source, reference_id, description, hold_id
+  ) VALUES (
+    p_user_id, p_credit_type, p_amount, p_balance_before + p_amount, p_source, p_reference_id, p_description, p_hold_id
+  ) RETURNING id INTO transaction_id;
+
+  UPDATE public.credit_balances
+  SET balance = p_balance_before + p_amount, updated_at = NOW()
+  WHERE user_id = p_user_id AND credit_type = p_credit_type;
+
+  RETURN transaction_id;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION get_credit_balance(p_user_id TEXT, p_credit_type TEXT)
+RETURNS INTEGER AS $$
+DECLARE
+  current_balance INTEGER;
+BEGIN
+  SELECT balance INTO current_balance
+  FROM public.credit_balances
+  WHERE user_id = p_user_id AND credit_type = p_credit_type;
+
+  RETURN COALESCE(current_balance, 0);
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION add_credit_transaction(
+  p_user_id TEXT,
+  p_credit_type TEXT,
+  p_amount INTEGER,
+  p_source TEXT,
+  p_reference_id TEXT DEFAULT NULL,
+  p_description TEXT DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+  current_balance INTEGER;
+BEGIN
+  current_balance := lock_credit_balance(p_user_id, p_credit_type);
+
+  RETURN record_credit_ledger_entry(
+    p_user_id, p_credit_type, p_amount, current_balance, p_source, p_reference_id, p_description
+  );
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION hold_credits(
+  p_user_id TEXT,
+  p_credit_type TEXT,
+  p_amount INTEGER,
+  p_reference_id TEXT,
+  p_expires_in_minutes INTEGER DEFAULT 60
+)
+RETURNS UUID AS $$
+DECLARE
+  hold_id UUID;
+  current_balance INTEGER;
+  held_amount INTEGER;
+BEGIN
+  IF p_amount <= 0 THEN
+    RAISE EXCEPTION 'Invalid hold amount: %', p_amount;
+  END IF;
+
+  -- Holds placed concurrently wait here, so each one sees the holds committed before it
+  current_balance := lock_credit_balance(p_user_id, p_credit_type);
+
+  SELECT COALESCE(SUM(amount), 0) INTO held_amount
+  FROM public.credit_holds
+  WHERE user_id = p_user_id
+    AND credit_type = p_credit_type
+    AND status = 'active'
+    AND expires_at > NOW();
+
+  IF (current_balance - held_amount) < p_amount THEN
+    RAISE EXCEPTION 'Insufficient credits. Available: %, Required: %',
+      (current_balance - held_amount), p_amount;
+  END IF;
+
+  INSERT INTO public.credit_holds (
+    user_id, credit_type, amount, reference_id, status, expires_at
+  ) VALUES (
+    p_user_id, p_credit_type, p_amount, p_reference_id, 'active',
+    NOW() + (p_expires_in_minutes || ' minutes')::INTERVAL
+  ) RETURNING id INTO hold_id;
+
+  RETURN hold_id;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION convert_hold_to_deduction(
+  p_hold_id UUID,
+  p_description TEXT DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+  hold_record RECORD;
+  transaction_id UUID;
+  current_balance INTEGER;
+BEGIN
+  SELECT * INTO hold_record
+  FROM public.credit_holds
+  WHERE id = p_hold_id AND status = 'active' AND expires_at > NOW()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Hold not found, expired or already processed';
+  END IF;
+
+  current_balance := lock_credit_balance(hold_record.user_id, hold_record.credit_type);
+
+  transaction_id := record_credit_ledger_entry(
+    hold_record.user_id,
+    hold_record.credit_type,
+    -hold_record.amount,
+    current_balance,
+    'usage',
+    hold_record.reference_id,
+    COALESCE(p_description, 'Usage') || ' - ' || hold_record.amount || ' ' || hold_record.credit_type || ' credits',
+    p_hold_id
+  );
+
+  UPDATE public.credit_holds
+  SET status = 'converted', updated_at = NOW()
+  WHERE id = p_hold_id;
+
+  RETURN transaction_id;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION release_credit_hold(
+  p_hold_id UUID,
+  p_reason TEXT DEFAULT NULL
+)
+RETURNS BOOLEAN AS $$
+BEGIN
+  UPDATE public.credit_holds
+  SET status = 'released', updated_at = NOW()
+  WHERE id = p_hold_id AND status = 'active';
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Hold not found or already processed';
+  END IF;
+
+  RETURN TRUE;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION settle_credit_hold_share(
+  p_hold_id UUID,
+  p_amount INTEGER,
+  p_used BOOLEAN,
+  p_description TEXT DEFAULT NULL
+)
+RETURNS INTEGER AS $$
+DECLARE
+  hold_record RECORD;
+  current_balance INTEGER;
+  remaining INTEGER;
+BEGIN
+  SELECT * INTO hold_record
+  FROM public.credit_holds
+  WHERE id = p_hold_id AND status = 'active' AND expires_at > NOW()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Hold not found, expired or already processed';
+  END IF;
+
+  IF p_amount <= 0 OR p_amount > hold_record.amount THEN
+    RAISE EXCEPTION 'Invalid settlement amount. Held: %, Requested: %', hold_record.amount, p_amount;
+  END IF;
+
+  IF p_used THEN
+    current_balance := lock_credit_balance(hold_record.user_id, hold_record.credit_type);
+
+    PERFORM record_credit_ledger_entry(
+      hold_record.user_id,
+      hold_record.credit_type,
+      -p_amount,
+      current_balance,
+      'usage',
+      hold_record.reference_id,
+      COALESCE(p_description, 'Usage') || ' - ' || p_amount || ' ' || hold_record.credit_type || ' credits',
+      p_hold_id
+    );
+  END IF;
+
+  remaining := hold_record.amount - p_amount;
+
+  UPDATE public.credit_holds
+  SET amount = remaining,
+      status = CASE
+        WHEN remaining > 0 THEN 'active'
+        WHEN EXISTS (SELECT 1 FROM public.credit_ledger WHERE hold_id = p_hold_id) THEN 'converted'
+        ELSE 'released'
+      END,
+      updated_at = NOW()
+  WHERE id = p_hold_id;
+
+  RETURN remaining;
+END;
+$$ LANGUAGE plpgsql;
+
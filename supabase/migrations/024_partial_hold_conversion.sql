@@ -0,0 +1,66 @@
+-- Partial Hold Conversion
+-- convert_hold_to_deduction takes the amount actually used. That amount is deducted and the rest
+-- of the hold is released in the same transaction, so an operation that used less than it held
+-- leaves one usage row in the ledger instead of a full charge followed by a refund.
+
+-- Replaced rather than overloaded, so calls with named arguments stay unambiguous
+DROP FUNCTION IF EXISTS convert_hold_to_deduction(UUID, TEXT);
+
+-- Deduct p_actual_amount (the whole hold when NULL) and release the remainder. Returns the
+-- ledger transaction ID, or NULL when nothing was used and the hold was only released.
+CREATE OR REPLACE FUNCTION convert_hold_to_deduction(
+  p_hold_id UUID,
+  p_description TEXT DEFAULT NULL,
+  p_actual_amount INTEGER DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+  hold_record RECORD;
+  deduction_amount INTEGER;
+  transaction_id UUID;
+  current_balance INTEGER;
+BEGIN
+  SELECT * INTO hold_record
+  FROM public.credit_holds
+  WHERE id = p_hold_id AND status = 'active' AND expires_at > NOW()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Hold not found, expired or already processed';
+  END IF;
+
+  deduction_amount := COALESCE(p_actual_amount, hold_record.amount);
+
+  IF deduction_amount < 0 OR deduction_amount > hold_record.amount THEN
+    RAISE EXCEPTION 'Invalid deduction amount. Held: %, Requested: %', hold_record.amount, deduction_amount;
+  END IF;
+
+  IF deduction_amount = 0 THEN
+    UPDATE public.credit_holds
+    SET status = 'released', updated_at = NOW()
+    WHERE id = p_hold_id;
+
+    RETURN NULL;
+  END IF;
+
+  current_balance := lock_credit_balance(hold_record.user_id, hold_record.credit_type);
+
+  transaction_id := record_credit_ledger_entry(
+    hold_record.user_id,
+    hold_record.credit_type,
+    -deduction_amount,
+    current_balance,
+    'usage',
+    hold_record.reference_id,
+    COALESCE(p_description, 'Usage') || ' - ' || deduction_amount || ' ' || hold_record.credit_type || ' credits',
+    p_hold_id
+  );
+
+  -- The hold keeps the amount it reserved; the ledger row records what was used
+  UPDATE public.credit_holds
+  SET status = 'converted', updated_at = NOW()
+  WHERE id = p_hold_id;
+
+  RETURN transaction_id;
+END;
+$$ LANGUAGE plpgsql;
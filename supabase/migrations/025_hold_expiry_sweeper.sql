@@ -0,0 +1,82 @@
+-- Credit Hold Expiry Sweeper
+-- cleanup_expired_holds() now also fails the lead searches, WhatsApp messages and campaigns still
+-- waiting on an expired hold, in the same transaction, and returns what it expired so the caller can tell
+-- the users whose operations timed out. Called by the cron route /api/credits/holds/expire.
+
+-- The return type changes from a count to the expired holds
+DROP FUNCTION IF EXISTS cleanup_expired_holds();
+
+CREATE OR REPLACE FUNCTION cleanup_expired_holds()
+RETURNS TABLE (
+  hold_id UUID,
+  user_id TEXT,
+  credit_type TEXT,
+  amount INTEGER,
+  reference_id TEXT,
+  lead_search_id UUID, -- Set when a lead search using the hold was failed
+  whatsapp_message_id UUID, -- Set when a message using the hold was failed
+  whatsapp_campaign_id UUID -- Set when a campaign using the hold was failed
+) AS $$
+#variable_conflict use_column
+BEGIN
+  RETURN QUERY
+  WITH expired AS (
+    UPDATE public.credit_holds h
+    SET status = 'expired', updated_at = NOW()
+    WHERE h.status = 'active' AND h.expires_at <= NOW()
+    RETURNING h.id, h.user_id, h.credit_type, h.amount, h.reference_id
+  ),
+  failed_searches AS (
+    UPDATE public.lead_searches s
+    SET status = 'failed',
+        error_message = 'Timed out: the credit hold expired before the search finished',
+        locked_until = NULL,
+        completed_at = NOW(),
+        updated_at = NOW()
+    FROM expired e
+    WHERE s.hold_id = e.id AND s.status = 'pending'
+    RETURNING s.id, s.hold_id
+  ),
+  failed_messages AS (
+    UPDATE public.whatsapp_messages m
+    SET status = 'failed',
+        error_message = 'Timed out: the credit hold expired before the message was sent',
+        credits_used = 0
+    FROM expired e
+    WHERE m.hold_id = e.id AND m.status IN ('queued', 'pending')
+    RETURNING m.id, m.hold_id
+  ),
+  failed_campaigns AS (
+    UPDATE public.whatsapp_campaigns c
+    SET status = 'failed',
+        error_message = 'Timed out: the credit hold expired before the campaign finished',
+        locked_until = NULL,
+        completed_at = NOW(),
+        updated_at = NOW()
+    FROM expired e
+    WHERE c.hold_id = e.id AND c.status IN ('pending', 'running')
+    RETURNING c.id, c.hold_id
+  ),
+  -- Not referenced below, but a data-modifying CTE always runs
+  cancelled_recipients AS (
+    UPDATE public.whatsapp_campaign_recipients r
+    SET status = 'cancelled'
+    FROM failed_campaigns fc
+    WHERE r.campaign_id = fc.id AND r.status = 'pending'
+    RETURNING r.id
+  )
+  SELECT e.id, e.user_id, e.credit_type, e.amount, e.reference_id, fs.id, fm.id, fc.id
+  FROM expired e
+  LEFT JOIN failed_searches fs ON fs.hold_id = e.id
+  LEFT JOIN failed_messages fm ON fm.hold_id = e.id
+  LEFT JOIN failed_campaigns fc ON fc.hold_id = e.id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Allow notifications for operations that timed out
+ALTER TABLE public.notifications DROP CONSTRAINT IF EXISTS notifications_type_check;
+ALTER TABLE public.notifications ADD CONSTRAINT notifications_type_check
+  CHECK (type IN (
+    'welcome', 'billing_success', 'billing_failed', 'credits_low', 'subscription_cancelled',
+    'scheduled_search_completed', 'scheduled_search_failed', 'operation_timed_out'
+  ));